@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { openDatabase, type PushDatabase } from './db/database.js';
+import { createApp } from './app.js';
+import { createSubscriptionStore, type StoredSubscription, type SubscriptionStore } from './services/subscriptionStore.js';
+import { SubscriptionGoneError, type PushPayload, type PushSender } from './services/pushSender.js';
+import { MAX_SEND_ATTEMPTS, sendDueReminders } from './services/reminderScheduler.js';
+
+const API_TOKEN = 'test-token';
+
+const subscription: StoredSubscription = {
+  endpoint: 'https://fcm.googleapis.com/fcm/send/device-1',
+  keys: { p256dh: 'p256dh-key', auth: 'auth-secret' },
+};
+
+let db: PushDatabase;
+let store: SubscriptionStore;
+let server: Server;
+let baseUrl: string;
+
+function request(method: string, path: string, body?: unknown, token: string | null = API_TOKEN): Promise<Response> {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (token !== null) headers.Authorization = `Bearer ${token}`;
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function recordingSender(): { send: PushSender; sent: Array<[string, PushPayload]> } {
+  const sent: Array<[string, PushPayload]> = [];
+  return {
+    sent,
+    send: async (to, payload) => {
+      sent.push([to.endpoint, payload]);
+    },
+  };
+}
+
+beforeEach(async () => {
+  db = openDatabase(':memory:');
+  store = createSubscriptionStore(db);
+  server = createApp({ store, vapidPublicKey: 'public-key', apiToken: API_TOKEN, allowedOrigins: [] }).listen(0);
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  db.close();
+});
+
+describe('push server', () => {
+  it('should hand out the VAPID public key', async () => {
+    const response = await request('GET', '/api/push/vapid-public-key');
+    expect(await response.json()).toEqual({ publicKey: 'public-key' });
+  });
+
+  it('should push uploaded reminders once their time comes', async () => {
+    const response = await request('PUT', '/api/push/schedule', {
+      subscription,
+      reminders: [
+        { at: '2025-06-01T21:00:00.000Z', label: 'Weekly Clean' },
+        { at: '2025-06-02T01:00:00.000Z', label: 'Weekly Clean' },
+      ],
+    });
+    expect(await response.json()).toEqual({ scheduled: 2 });
+
+    const { send, sent } = recordingSender();
+    expect(await sendDueReminders(store, send, new Date('2025-06-01T20:59:00.000Z'))).toBe(0);
+    expect(await sendDueReminders(store, send, new Date('2025-06-01T21:00:00.000Z'))).toBe(1);
+    expect(sent).toEqual([
+      [subscription.endpoint, { type: 'reminder', label: 'Weekly Clean', at: '2025-06-01T21:00:00.000Z' }],
+    ]);
+
+    // Sent reminders aren't sent again
+    expect(await sendDueReminders(store, send, new Date('2025-06-01T22:00:00.000Z'))).toBe(0);
+    expect(store.countReminders(subscription.endpoint)).toBe(1);
+  });
+
+  it('should replace the schedule on each upload', async () => {
+    await request('PUT', '/api/push/schedule', {
+      subscription,
+      reminders: [{ at: '2025-06-01T21:00:00.000Z', label: 'Weekly Clean' }],
+    });
+    // Marked done on the device: the new schedule no longer has it
+    await request('PUT', '/api/push/schedule', {
+      subscription,
+      reminders: [{ at: '2025-06-08T21:00:00.000Z', label: 'Weekly Clean' }],
+    });
+
+    const { send, sent } = recordingSender();
+    expect(await sendDueReminders(store, send, new Date('2025-06-02T00:00:00.000Z'))).toBe(0);
+    expect(sent).toEqual([]);
+    expect(store.countReminders(subscription.endpoint)).toBe(1);
+  });
+
+  it('should turn away requests without the access token', async () => {
+    await request('PUT', '/api/push/schedule', {
+      subscription,
+      reminders: [{ at: '2025-06-01T21:00:00.000Z', label: 'Weekly Clean' }],
+    });
+
+    const noToken = await request('PUT', '/api/push/schedule', { subscription, reminders: [] }, null);
+    expect(noToken.status).toBe(401);
+    const wrongToken = await request('DELETE', '/api/push/subscription', { endpoint: subscription.endpoint }, 'guess');
+    expect(wrongToken.status).toBe(401);
+    expect((await request('GET', '/api/push/vapid-public-key', undefined, null)).status).toBe(401);
+
+    expect(store.countReminders(subscription.endpoint)).toBe(1);
+  });
+
+  it('should only accept endpoints at known push services', async () => {
+    const endpoints = [
+      'https://attacker.example.com/hook',
+      'http://fcm.googleapis.com/fcm/send/device-1',
+      'https://evilpush.apple.com/device-1',
+    ];
+    for (const endpoint of endpoints) {
+      const response = await request('PUT', '/api/push/schedule', {
+        subscription: { ...subscription, endpoint },
+        reminders: [],
+      });
+      expect(response.status).toBe(400);
+    }
+
+    const safari = await request('PUT', '/api/push/schedule', {
+      subscription: { ...subscription, endpoint: 'https://web.push.apple.com/device-2' },
+      reminders: [],
+    });
+    expect(safari.status).toBe(200);
+  });
+
+  it('should reject schedules with anything but times and labels', async () => {
+    const noEndpoint = await request('PUT', '/api/push/schedule', {
+      subscription: { keys: subscription.keys },
+      reminders: [],
+    });
+    expect(noEndpoint.status).toBe(400);
+
+    const badTime = await request('PUT', '/api/push/schedule', {
+      subscription,
+      reminders: [{ at: 'tomorrow', label: 'Weekly Clean' }],
+    });
+    expect(badTime.status).toBe(400);
+    expect(store.countReminders(subscription.endpoint)).toBe(0);
+  });
+
+  it('should forget a subscription on unsubscribe or when the push service drops it', async () => {
+    await request('PUT', '/api/push/schedule', {
+      subscription,
+      reminders: [{ at: '2025-06-01T21:00:00.000Z', label: 'Weekly Clean' }],
+    });
+    const response = await request('DELETE', '/api/push/subscription', { endpoint: subscription.endpoint });
+    expect(response.status).toBe(204);
+    expect(store.countReminders(subscription.endpoint)).toBe(0);
+
+    await request('PUT', '/api/push/schedule', {
+      subscription,
+      reminders: [
+        { at: '2025-06-01T21:00:00.000Z', label: 'Weekly Clean' },
+        { at: '2025-06-02T01:00:00.000Z', label: 'Weekly Clean' },
+      ],
+    });
+    let attempts = 0;
+    const gone: PushSender = async (to) => {
+      attempts++;
+      throw new SubscriptionGoneError(to.endpoint);
+    };
+    expect(await sendDueReminders(store, gone, new Date('2025-06-03T00:00:00.000Z'))).toBe(0);
+    expect(attempts).toBe(1);
+    expect(store.countReminders(subscription.endpoint)).toBe(0);
+  });
+
+  it('should retry failed pushes with a growing delay, then give up', async () => {
+    await request('PUT', '/api/push/schedule', {
+      subscription,
+      reminders: [{ at: '2025-06-01T21:00:00.000Z', label: 'Weekly Clean' }],
+    });
+    let attempts = 0;
+    const failing: PushSender = async () => {
+      attempts++;
+      throw new Error('Push service unavailable');
+    };
+
+    let now = new Date('2025-06-01T21:00:00.000Z');
+    expect(await sendDueReminders(store, failing, now)).toBe(0);
+    expect(attempts).toBe(1);
+
+    // Held back until the retry delay has passed
+    expect(await sendDueReminders(store, failing, new Date(now.getTime() + 30 * 1000))).toBe(0);
+    expect(attempts).toBe(1);
+
+    while (store.countReminders(subscription.endpoint) > 0) {
+      now = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+      await sendDueReminders(store, failing, now);
+    }
+    expect(attempts).toBe(MAX_SEND_ATTEMPTS);
+  });
+});
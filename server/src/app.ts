@@ -0,0 +1,62 @@
+/**
+ * Push Server App
+ *
+ * Builds the Express app without starting it, so tests can run it on a
+ * local port with their own store.
+ */
+
+import express, { type RequestHandler } from 'express';
+import cors from 'cors';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createPushRouter, DEFAULT_PUSH_SERVICE_HOSTS } from './routes/push.js';
+import type { SubscriptionStore } from './services/subscriptionStore.js';
+
+export interface PushServerOptions {
+  store: SubscriptionStore;
+  vapidPublicKey: string;
+  apiToken: string; // Shared secret every API request must carry as a bearer token
+  allowedOrigins: string[]; // Where the app is served from; empty allows any origin
+  pushServiceHosts?: string[]; // Hosts subscriptions may point at; '*.' matches subdomains
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Turn away requests without the shared token; CORS alone doesn't stop
+ * anyone outside a browser
+ */
+function requireToken(apiToken: string): RequestHandler {
+  const expected = digest(apiToken);
+  return (req, res, next) => {
+    const header = req.get('Authorization') ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!token || !timingSafeEqual(digest(token), expected)) {
+      res.status(401).json({ error: 'A valid access token is required' });
+      return;
+    }
+    next();
+  };
+}
+
+export function createApp({
+  store,
+  vapidPublicKey,
+  apiToken,
+  allowedOrigins,
+  pushServiceHosts = DEFAULT_PUSH_SERVICE_HOSTS,
+}: PushServerOptions) {
+  const app = express();
+
+  app.use(cors({ origin: allowedOrigins.length > 0 ? allowedOrigins : true }));
+  app.use(express.json({ limit: '100kb' }));
+
+  app.get('/api/health', (_req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  app.use('/api/push', requireToken(apiToken), createPushRouter(store, vapidPublicKey, pushServiceHosts));
+
+  return app;
+}
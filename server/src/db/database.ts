@@ -0,0 +1,68 @@
+/**
+ * Push Server Database
+ *
+ * SQLite storage for push subscriptions and the reminders queued for them.
+ * A reminder holds only when to send and the action's label; the app keeps
+ * everything else on the device.
+ */
+
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+export type PushDatabase = Database.Database;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS subscriptions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    endpoint TEXT NOT NULL UNIQUE,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS reminders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    subscription_id INTEGER NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    send_at TEXT NOT NULL,
+    label TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS reminders_send_at ON reminders(send_at);
+`;
+
+/**
+ * Changes to the tables above, applied in order to databases made before
+ * them; SQLite's user_version records how many have run
+ */
+const MIGRATIONS = [
+  // Failed sends are retried with a backoff, then dropped
+  `
+    ALTER TABLE reminders ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+    ALTER TABLE reminders ADD COLUMN retry_at TEXT;
+  `,
+];
+
+/**
+ * Open (or create) the database at a path; use ':memory:' for tests
+ */
+export function openDatabase(path: string): PushDatabase {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[i]);
+      db.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+  return db;
+}
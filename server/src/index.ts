@@ -0,0 +1,63 @@
+/**
+ * Push Server Entry Point
+ *
+ * Reads its settings from the environment (see .env.example; `npm start` loads
+ * .env with Node's --env-file), then serves the API and sends queued reminders
+ * until stopped.
+ */
+
+import { openDatabase } from './db/database.js';
+import { createApp } from './app.js';
+import { createSubscriptionStore } from './services/subscriptionStore.js';
+import { createWebPushSender } from './services/pushSender.js';
+import { startReminderScheduler } from './services/reminderScheduler.js';
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    console.error(`${name} is not set. See .env.example.`);
+    process.exit(1);
+  }
+  return value;
+}
+
+const vapid = {
+  publicKey: requireEnv('VAPID_PUBLIC_KEY'),
+  privateKey: requireEnv('VAPID_PRIVATE_KEY'),
+  subject: requireEnv('VAPID_SUBJECT'),
+};
+const apiToken = requireEnv('API_TOKEN');
+const port = Number(process.env.PORT) || 3001;
+const allowedOrigins = (process.env.ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const pushServiceHosts = process.env.PUSH_SERVICE_HOSTS
+  ?.split(',')
+  .map((host) => host.trim())
+  .filter(Boolean);
+
+const db = openDatabase(process.env.DATABASE_PATH || 'data/push.db');
+const store = createSubscriptionStore(db);
+const stopScheduler = startReminderScheduler(store, createWebPushSender(vapid));
+
+const server = createApp({
+  store,
+  vapidPublicKey: vapid.publicKey,
+  apiToken,
+  allowedOrigins,
+  pushServiceHosts: pushServiceHosts?.length ? pushServiceHosts : undefined,
+}).listen(port, () => {
+  console.log(`Push server listening on port ${port}`);
+});
+
+function shutdown(): void {
+  stopScheduler();
+  server.close(() => {
+    db.close();
+    process.exit(0);
+  });
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
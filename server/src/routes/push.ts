@@ -0,0 +1,124 @@
+/**
+ * Push Routes
+ *
+ * GET    /api/push/vapid-public-key  Key the app subscribes with
+ * PUT    /api/push/schedule          Save a subscription and its upcoming reminders
+ * DELETE /api/push/subscription      Forget a subscription
+ *
+ * Every route needs the server's access token (see app.ts).
+ */
+
+import { Router } from 'express';
+import type { ScheduledReminder, StoredSubscription, SubscriptionStore } from '../services/subscriptionStore.js';
+
+// Limits on what one device can queue
+const MAX_REMINDERS = 500;
+const MAX_LABEL_LENGTH = 200;
+
+/**
+ * The push services browsers subscribe through; the server only ever sends
+ * to these, so it can't be pointed at an arbitrary URL
+ */
+export const DEFAULT_PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com', // Chrome, Edge on Android, Opera
+  'updates.push.services.mozilla.com', // Firefox
+  '*.push.apple.com', // Safari
+  '*.notify.windows.com', // Edge on Windows
+];
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isPushServiceHost(hostname: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some((host) =>
+    host.startsWith('*.') ? hostname.endsWith(host.slice(1)) : hostname === host
+  );
+}
+
+function isPushServiceEndpoint(endpoint: string, allowedHosts: string[]): boolean {
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'https:' && isPushServiceHost(url.hostname, allowedHosts);
+  } catch {
+    return false;
+  }
+}
+
+function parseSubscription(value: unknown, allowedHosts: string[]): StoredSubscription | null {
+  const subscription = value as Partial<StoredSubscription> | undefined;
+  if (!isNonEmptyString(subscription?.endpoint) || !isPushServiceEndpoint(subscription.endpoint, allowedHosts)) {
+    return null;
+  }
+  if (!isNonEmptyString(subscription.keys?.p256dh) || !isNonEmptyString(subscription.keys?.auth)) {
+    return null;
+  }
+  return {
+    endpoint: subscription.endpoint,
+    keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+  };
+}
+
+function parseReminders(value: unknown): ScheduledReminder[] | null {
+  if (!Array.isArray(value) || value.length > MAX_REMINDERS) return null;
+
+  const reminders: ScheduledReminder[] = [];
+  for (const item of value as Array<{ at?: unknown; label?: unknown }>) {
+    const at = typeof item?.at === 'string' ? new Date(item.at) : null;
+    if (!at || isNaN(at.getTime())) return null;
+    if (!isNonEmptyString(item.label) || item.label.length > MAX_LABEL_LENGTH) return null;
+    reminders.push({ at, label: item.label });
+  }
+  return reminders;
+}
+
+// ============================================================================
+// Routes
+// ============================================================================
+
+export function createPushRouter(
+  store: SubscriptionStore,
+  vapidPublicKey: string,
+  pushServiceHosts: string[]
+): Router {
+  const router = Router();
+
+  router.get('/vapid-public-key', (_req, res) => {
+    res.json({ publicKey: vapidPublicKey });
+  });
+
+  router.put('/schedule', (req, res) => {
+    const subscription = parseSubscription(req.body?.subscription, pushServiceHosts);
+    if (!subscription) {
+      res.status(400).json({ error: 'A push subscription with keys and an endpoint at a known push service is required' });
+      return;
+    }
+
+    const reminders = parseReminders(req.body?.reminders);
+    if (!reminders) {
+      res.status(400).json({
+        error: `Reminders must be a list of at most ${MAX_REMINDERS} items with an ISO "at" time and a label`,
+      });
+      return;
+    }
+
+    res.json({ scheduled: store.saveSchedule(subscription, reminders) });
+  });
+
+  router.delete('/subscription', (req, res) => {
+    const endpoint = req.body?.endpoint;
+    if (!isNonEmptyString(endpoint)) {
+      res.status(400).json({ error: 'An endpoint is required' });
+      return;
+    }
+
+    store.removeSubscription(endpoint);
+    res.status(204).end();
+  });
+
+  return router;
+}
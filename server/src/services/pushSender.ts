@@ -0,0 +1,67 @@
+/**
+ * Push Sender
+ *
+ * Sends Web Push messages signed with the server's VAPID keys. The sender is
+ * a plain function so the scheduler can be tested without a push service.
+ */
+
+import webpush from 'web-push';
+import type { StoredSubscription } from './subscriptionStore.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What the service worker receives; it runs its own due check and only
+ * falls back to the label if that fails
+ */
+export interface PushPayload {
+  type: 'reminder';
+  label: string;
+  at: string; // ISO timestamp the reminder was scheduled for
+}
+
+export interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string; // mailto: or https: contact for push services
+}
+
+export type PushSender = (subscription: StoredSubscription, payload: PushPayload) => Promise<void>;
+
+/**
+ * Thrown when the push service no longer knows a subscription
+ */
+export class SubscriptionGoneError extends Error {
+  constructor(endpoint: string) {
+    super(`Push subscription is gone: ${endpoint}`);
+    this.name = 'SubscriptionGoneError';
+  }
+}
+
+// How long a push service holds a message for an offline device
+const PUSH_TTL_SECONDS = 12 * 60 * 60;
+
+// ============================================================================
+// Web Push
+// ============================================================================
+
+export function createWebPushSender(vapid: VapidConfig): PushSender {
+  webpush.setVapidDetails(vapid.subject, vapid.publicKey, vapid.privateKey);
+
+  return async (subscription, payload) => {
+    try {
+      await webpush.sendNotification(subscription, JSON.stringify(payload), {
+        TTL: PUSH_TTL_SECONDS,
+        urgency: 'high',
+      });
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        throw new SubscriptionGoneError(subscription.endpoint);
+      }
+      throw error;
+    }
+  };
+}
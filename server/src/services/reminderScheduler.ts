@@ -0,0 +1,84 @@
+/**
+ * Reminder Scheduler
+ *
+ * Checks the queue on an interval and pushes reminders whose time has come.
+ * Sent reminders are dropped; failed ones are retried a few times with a
+ * growing delay, then dropped too. A subscription the push service says is
+ * gone is dropped at once.
+ */
+
+import type { SubscriptionStore } from './subscriptionStore.js';
+import { SubscriptionGoneError, type PushSender } from './pushSender.js';
+
+// How often the queue is checked
+export const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Sends tried before a reminder is given up on
+export const MAX_SEND_ATTEMPTS = 5;
+
+// Delay before the first retry; doubled after each further failure
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/**
+ * Push every due reminder
+ * @returns The number of reminders sent
+ */
+export async function sendDueReminders(
+  store: SubscriptionStore,
+  send: PushSender,
+  now: Date = new Date()
+): Promise<number> {
+  const gone = new Set<string>();
+  let sent = 0;
+
+  for (const reminder of store.getDueReminders(now)) {
+    const { endpoint } = reminder.subscription;
+    if (gone.has(endpoint)) continue;
+
+    try {
+      await send(reminder.subscription, { type: 'reminder', label: reminder.label, at: reminder.at.toISOString() });
+      store.removeReminder(reminder.id);
+      sent++;
+    } catch (error) {
+      if (error instanceof SubscriptionGoneError) {
+        gone.add(endpoint);
+        store.removeSubscription(endpoint);
+      } else {
+        console.error('Error sending push:', error);
+        const attempts = reminder.attempts + 1;
+        if (attempts >= MAX_SEND_ATTEMPTS) {
+          store.removeReminder(reminder.id);
+        } else {
+          store.deferReminder(reminder.id, new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)));
+        }
+      }
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Start checking the queue
+ * @returns A function that stops the checks
+ */
+export function startReminderScheduler(
+  store: SubscriptionStore,
+  send: PushSender,
+  intervalMs: number = CHECK_INTERVAL_MS
+): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow round of sends
+    if (running) return;
+    running = true;
+    try {
+      await sendDueReminders(store, send);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,141 @@
+/**
+ * Subscription Store
+ *
+ * Keeps each device's push subscription and the reminders it uploaded. A
+ * device uploads its whole schedule every time something changes, so saving
+ * a schedule replaces whatever was queued for that subscription before.
+ */
+
+import type { PushDatabase } from '../db/database.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PushSubscriptionKeys {
+  p256dh: string;
+  auth: string;
+}
+
+export interface StoredSubscription {
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+}
+
+export interface ScheduledReminder {
+  at: Date;
+  label: string;
+}
+
+export interface DueReminder extends ScheduledReminder {
+  id: number;
+  attempts: number; // Failed sends so far
+  subscription: StoredSubscription;
+}
+
+interface DueReminderRow {
+  id: number;
+  send_at: string;
+  label: string;
+  attempts: number;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export type SubscriptionStore = ReturnType<typeof createSubscriptionStore>;
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export function createSubscriptionStore(db: PushDatabase) {
+  const upsertSubscription = db.prepare(`
+    INSERT INTO subscriptions (endpoint, p256dh, auth, created_at, updated_at)
+    VALUES (@endpoint, @p256dh, @auth, @now, @now)
+    ON CONFLICT(endpoint) DO UPDATE SET p256dh = @p256dh, auth = @auth, updated_at = @now
+    RETURNING id
+  `);
+  const deleteReminders = db.prepare('DELETE FROM reminders WHERE subscription_id = ?');
+  const insertReminder = db.prepare(
+    'INSERT INTO reminders (subscription_id, send_at, label) VALUES (?, ?, ?)'
+  );
+  const deleteSubscription = db.prepare('DELETE FROM subscriptions WHERE endpoint = ?');
+  const selectDue = db.prepare(`
+    SELECT r.id, r.send_at, r.label, r.attempts, s.endpoint, s.p256dh, s.auth
+    FROM reminders r JOIN subscriptions s ON s.id = r.subscription_id
+    WHERE COALESCE(r.retry_at, r.send_at) <= ?
+    ORDER BY r.send_at
+  `);
+  const deleteReminder = db.prepare('DELETE FROM reminders WHERE id = ?');
+  const updateRetry = db.prepare('UPDATE reminders SET attempts = attempts + 1, retry_at = ? WHERE id = ?');
+  const countReminders = db.prepare(`
+    SELECT COUNT(*) AS count
+    FROM reminders r JOIN subscriptions s ON s.id = r.subscription_id
+    WHERE s.endpoint = ?
+  `);
+
+  return {
+    /**
+     * Save a subscription and replace its queued reminders
+     */
+    saveSchedule: db.transaction(
+      (subscription: StoredSubscription, reminders: ScheduledReminder[], now: Date = new Date()): number => {
+        const { id } = upsertSubscription.get({
+          endpoint: subscription.endpoint,
+          p256dh: subscription.keys.p256dh,
+          auth: subscription.keys.auth,
+          now: now.toISOString(),
+        }) as { id: number };
+
+        deleteReminders.run(id);
+        for (const reminder of reminders) {
+          insertReminder.run(id, reminder.at.toISOString(), reminder.label);
+        }
+        return reminders.length;
+      }
+    ),
+
+    /**
+     * Forget a subscription and its reminders
+     * @returns Whether the subscription existed
+     */
+    removeSubscription(endpoint: string): boolean {
+      return deleteSubscription.run(endpoint).changes > 0;
+    },
+
+    /**
+     * Get reminders whose time has come, oldest first
+     */
+    getDueReminders(now: Date = new Date()): DueReminder[] {
+      return (selectDue.all(now.toISOString()) as DueReminderRow[]).map((row) => ({
+        id: row.id,
+        at: new Date(row.send_at),
+        label: row.label,
+        attempts: row.attempts,
+        subscription: { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+      }));
+    },
+
+    /**
+     * Drop a reminder once it has been sent
+     */
+    removeReminder(id: number): void {
+      deleteReminder.run(id);
+    },
+
+    /**
+     * Count a failed send and hold the reminder back until a later time
+     */
+    deferReminder(id: number, retryAt: Date): void {
+      updateRetry.run(retryAt.toISOString(), id);
+    },
+
+    /**
+     * Count the reminders queued for a subscription
+     */
+    countReminders(endpoint: string): number {
+      return (countReminders.get(endpoint) as { count: number }).count;
+    },
+  };
+}
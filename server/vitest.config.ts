@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+// Keeps vitest from picking up the app's config one directory up
+export default defineConfig({
+  test: {
+    environment: 'node',
+  },
+});
@@ -6,20 +6,66 @@ import { ComponentDetail } from '@/pages/ComponentDetail'
 import { ComponentForm } from '@/pages/ComponentForm'
 import { MaintenanceActionForm } from '@/pages/MaintenanceActionForm'
 import { History } from '@/pages/History'
+import { Inventory } from '@/pages/Inventory'
+import { Eligibility } from '@/pages/Eligibility'
 import { Settings } from '@/pages/Settings'
+import { Checklist } from '@/pages/Checklist'
+import { Inbox } from '@/pages/Inbox'
 import { UpdateNotification } from '@/components/UpdateNotification'
 import { areNotificationsAllowed } from '@/lib/notifications'
 import { startNotificationScheduler, updateBadgeCount } from '@/lib/notification-scheduler'
+import { enableBackgroundChecks, refreshScheduledReminders } from '@/lib/background-checks'
+import { schedulePushSync } from '@/lib/push-server'
+import { useAppStore } from '@/lib/store'
 
 // Inner component that has access to router context
 function AppContent() {
   const navigate = useNavigate()
 
-  // Handle notification click - navigate to home to see due items
-  const handleNotificationClick = useCallback(() => {
+  // Handle notification click - switch to the notification's profile and show its due items
+  const handleNotificationClick = useCallback(async (_actionId: string, profileId?: string) => {
+    const { activeProfileId, switchProfile } = useAppStore.getState()
+    if (profileId && profileId !== activeProfileId) {
+      await switchProfile(profileId)
+    }
     navigate('/')
   }, [navigate])
 
+  // Handle low-stock notification click - show the profile's supply inventory
+  const handleLowStockClick = useCallback(async (_supplyId: string, profileId?: string) => {
+    const { activeProfileId, switchProfile } = useAppStore.getState()
+    if (profileId && profileId !== activeProfileId) {
+      await switchProfile(profileId)
+    }
+    navigate('/inventory')
+  }, [navigate])
+
+  // Handle eligibility notification click - show the profile's insurance allowances
+  const handleEligibilityClick = useCallback(async (_category: string, profileId?: string) => {
+    const { activeProfileId, switchProfile } = useAppStore.getState()
+    if (profileId && profileId !== activeProfileId) {
+      await switchProfile(profileId)
+    }
+    navigate('/eligibility')
+  }, [navigate])
+
+  // Handle daily digest click - open the profile's checklist for today
+  const handleDigestClick = useCallback(async (profileId?: string) => {
+    const { activeProfileId, switchProfile } = useAppStore.getState()
+    if (profileId && profileId !== activeProfileId) {
+      await switchProfile(profileId)
+    }
+    navigate('/checklist')
+  }, [navigate])
+
+  // Handle changes made from notification buttons - reload what they touch
+  const handleDataChanged = useCallback(async () => {
+    const { isInitialized, refreshMaintenanceActions, refreshMaintenanceLogs, refreshSupplies } = useAppStore.getState()
+    if (isInitialized) {
+      await Promise.all([refreshMaintenanceActions(), refreshMaintenanceLogs(), refreshSupplies()])
+    }
+  }, [])
+
   // Dark mode detection and setup
   useEffect(() => {
     const isDarkMode = window.matchMedia('(prefers-color-scheme: dark)').matches
@@ -47,13 +93,35 @@ function AppContent() {
       // Start the notification scheduler with click handler
       startNotificationScheduler({
         onNotificationClick: handleNotificationClick,
+        onLowStockClick: handleLowStockClick,
+        onEligibilityClick: handleEligibilityClick,
+        onDigestClick: handleDigestClick,
+        onDataChanged: handleDataChanged,
         checkIntervalMinutes: 15,
       })
 
       // Update badge count on app load
       updateBadgeCount()
+
+      // Keep reminders coming while the app is closed
+      enableBackgroundChecks()
     }
-  }, [handleNotificationClick])
+  }, [handleNotificationClick, handleLowStockClick, handleEligibilityClick, handleDigestClick, handleDataChanged])
+
+  // Reminders scheduled ahead of time (or on a push server) follow changes to the schedule
+  useEffect(() => {
+    return useAppStore.subscribe((state, previous) => {
+      if (
+        areNotificationsAllowed() &&
+        (state.maintenanceActions !== previous.maintenanceActions ||
+          state.notificationConfigs !== previous.notificationConfigs ||
+          state.preferences !== previous.preferences)
+      ) {
+        refreshScheduledReminders()
+        schedulePushSync()
+      }
+    })
+  }, [])
 
   return (
     <>
@@ -66,6 +134,10 @@ function AppContent() {
         <Route path="/components/:id/actions/new" element={<MaintenanceActionForm />} />
         <Route path="/components/:id/actions/:actionId/edit" element={<MaintenanceActionForm />} />
         <Route path="/history" element={<History />} />
+        <Route path="/inventory" element={<Inventory />} />
+        <Route path="/eligibility" element={<Eligibility />} />
+        <Route path="/checklist" element={<Checklist />} />
+        <Route path="/inbox" element={<Inbox />} />
         <Route path="/settings" element={<Settings />} />
       </Routes>
       <UpdateNotification />
@@ -12,9 +12,10 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { StatusIndicator } from '@/components/ui/status-indicator';
 import { getDueStatus, formatRelativeTime, getDaysOverdue } from '@/lib/date-helpers';
+import { isReplacementAction } from '@/lib/scheduler';
 import type { MaintenanceAction, Component } from '@/lib/db';
 
-type CompletionMode = 'quick' | 'detailed' | 'snooze';
+type CompletionMode = 'quick' | 'detailed' | 'snooze' | 'skip';
 
 interface CompletionModalProps {
   open: boolean;
@@ -22,8 +23,9 @@ interface CompletionModalProps {
   action: MaintenanceAction;
   component: Component;
   onComplete: (actionId: string, notes?: string) => Promise<void>;
-  onSkip: (actionId: string) => Promise<void>;
-  onSnooze: (actionId: string, hours: number) => Promise<void>;
+  onSkip: (actionId: string, reason?: string) => Promise<void>;
+  onSnooze: (actionId: string, hours: number, reason?: string) => Promise<void>;
+  onReplace?: (actionId: string, notes?: string) => Promise<void>; // Retire this instance and start tracking a new one
 }
 
 const SNOOZE_OPTIONS = [
@@ -42,9 +44,12 @@ export function CompletionModal({
   onComplete,
   onSkip,
   onSnooze,
+  onReplace,
 }: CompletionModalProps) {
   const [mode, setMode] = useState<CompletionMode>('quick');
   const [notes, setNotes] = useState('');
+  const [reason, setReason] = useState(''); // Optional reason for skipping or snoozing
+  const [startNewInstance, setStartNewInstance] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const dueStatus = action.next_due ? getDueStatus(action.next_due) : 'ok';
@@ -53,12 +58,15 @@ export function CompletionModal({
     : 0;
 
   // Check if this is a replacement action (needs more detail)
-  const isReplacement = action.action_type.toLowerCase().includes('replace');
+  const isReplacement = isReplacementAction(action);
+  const canStartNewInstance = isReplacement && Boolean(onReplace);
 
   const handleClose = () => {
     if (!isSubmitting) {
       setMode('quick');
       setNotes('');
+      setReason('');
+      setStartNewInstance(true);
       onOpenChange(false);
     }
   };
@@ -67,7 +75,12 @@ export function CompletionModal({
     if (!action.id) return;
     setIsSubmitting(true);
     try {
-      await onComplete(action.id);
+      // A replacement starts tracking the new part, as the detailed view does by default
+      if (canStartNewInstance && onReplace) {
+        await onReplace(action.id);
+      } else {
+        await onComplete(action.id);
+      }
       handleClose();
     } finally {
       setIsSubmitting(false);
@@ -78,7 +91,11 @@ export function CompletionModal({
     if (!action.id) return;
     setIsSubmitting(true);
     try {
-      await onComplete(action.id, notes.trim() || undefined);
+      if (canStartNewInstance && startNewInstance && onReplace) {
+        await onReplace(action.id, notes.trim() || undefined);
+      } else {
+        await onComplete(action.id, notes.trim() || undefined);
+      }
       handleClose();
     } finally {
       setIsSubmitting(false);
@@ -89,7 +106,7 @@ export function CompletionModal({
     if (!action.id) return;
     setIsSubmitting(true);
     try {
-      await onSkip(action.id);
+      await onSkip(action.id, reason.trim() || undefined);
       handleClose();
     } finally {
       setIsSubmitting(false);
@@ -100,7 +117,7 @@ export function CompletionModal({
     if (!action.id) return;
     setIsSubmitting(true);
     try {
-      await onSnooze(action.id, hours);
+      await onSnooze(action.id, hours, reason.trim() || undefined);
       handleClose();
     } finally {
       setIsSubmitting(false);
@@ -172,7 +189,7 @@ export function CompletionModal({
           </Button>
           <Button
             variant="ghost"
-            onClick={handleSkip}
+            onClick={() => setMode('skip')}
             disabled={isSubmitting}
             className="flex-1 text-muted-foreground"
           >
@@ -239,6 +256,28 @@ export function CompletionModal({
             These notes will be saved to your maintenance log for future reference.
           </p>
         </div>
+
+        {canStartNewInstance && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="startNewInstance"
+                checked={startNewInstance}
+                onChange={(e) => setStartNewInstance(e.target.checked)}
+                className="h-4 w-4 rounded border-input"
+                disabled={isSubmitting}
+              />
+              <Label htmlFor="startNewInstance" className="cursor-pointer">
+                Track the new part separately
+              </Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Retires the old part with its history and starts a fresh usage count and schedule
+              for the new one.
+            </p>
+          </div>
+        )}
       </div>
 
       <DialogFooter>
@@ -259,6 +298,77 @@ export function CompletionModal({
     </>
   );
 
+  // Optional reason input shared by the skip and snooze views
+  const renderReasonField = (placeholder: string) => (
+    <div className="space-y-2 pb-2">
+      <Label htmlFor="reason">Reason (optional)</Label>
+      <Textarea
+        id="reason"
+        placeholder={placeholder}
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        rows={2}
+        className="resize-none"
+        disabled={isSubmitting}
+      />
+    </div>
+  );
+
+  // Render skip view (with optional reason)
+  const renderSkipView = () => (
+    <>
+      <DialogHeader>
+        <div className="flex items-center gap-2 mb-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setMode('quick')}
+            className="h-8 px-2 -ml-2"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="m15 18-6-6 6-6" />
+            </svg>
+            Back
+          </Button>
+        </div>
+        <DialogTitle>Skip This Time</DialogTitle>
+        <DialogDescription>
+          {action.action_type} will be rescheduled for its next occurrence
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="py-4">
+        {renderReasonField('e.g., Mask was replaced yesterday, sick day...')}
+      </div>
+
+      <DialogFooter>
+        <Button
+          variant="outline"
+          onClick={() => setMode('quick')}
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={handleSkip}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? 'Skipping...' : 'Skip'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+
   // Render snooze view
   const renderSnoozeView = () => (
     <>
@@ -293,6 +403,7 @@ export function CompletionModal({
       </DialogHeader>
 
       <div className="py-4 space-y-2">
+        {renderReasonField('e.g., Traveling, will do it tonight')}
         {SNOOZE_OPTIONS.map((option) => (
           <Button
             key={option.hours}
@@ -340,6 +451,7 @@ export function CompletionModal({
         {mode === 'quick' && renderQuickView()}
         {mode === 'detailed' && renderDetailedView()}
         {mode === 'snooze' && renderSnoozeView()}
+        {mode === 'skip' && renderSkipView()}
       </DialogContent>
     </Dialog>
   );
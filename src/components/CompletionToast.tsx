@@ -1,9 +1,15 @@
 import { useEffect, useState } from 'react';
 
+interface CompletionToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface CompletionToastProps {
   message: string;
   onDismiss: () => void;
   duration?: number;
+  action?: CompletionToastAction; // e.g. Undo / Redo
 }
 
 function CheckIcon({ className }: { className?: string }) {
@@ -28,7 +34,8 @@ function CheckIcon({ className }: { className?: string }) {
 export function CompletionToast({
   message,
   onDismiss,
-  duration = 3000,
+  action,
+  duration = action ? 6000 : 3000, // Leave time to reach the action button
 }: CompletionToastProps) {
   const [isVisible, setIsVisible] = useState(false);
   const [showCheck, setShowCheck] = useState(false);
@@ -69,6 +76,15 @@ export function CompletionToast({
         <div className="flex-1 min-w-0">
           <p className="font-medium text-sm">{message}</p>
         </div>
+        {action && (
+          <button
+            type="button"
+            onClick={action.onClick}
+            className="flex-shrink-0 px-3 py-1 rounded-md bg-white/20 hover:bg-white/30 text-sm font-semibold transition-colors"
+          >
+            {action.label}
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,35 @@
+import { Select } from '@/components/ui/select';
+import { UNASSIGNED_EQUIPMENT } from '@/hooks/useEquipmentFilter';
+import type { Equipment } from '@/lib/db';
+
+interface EquipmentFilterProps {
+  equipment: Equipment[];
+  value: string | null;
+  onChange: (equipmentId: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Machine picker for list filters
+ * Renders nothing until at least one machine has been added
+ */
+export function EquipmentFilter({ equipment, value, onChange, className }: EquipmentFilterProps) {
+  if (equipment.length === 0) return null;
+
+  return (
+    <Select
+      value={value || 'all'}
+      onChange={(e) => onChange(e.target.value === 'all' ? null : e.target.value)}
+      className={className ?? 'w-[160px]'}
+      aria-label="Filter by machine"
+    >
+      <option value="all">All machines</option>
+      {equipment.map((machine) => (
+        <option key={machine.id} value={machine.id!}>
+          {machine.name}
+        </option>
+      ))}
+      <option value={UNASSIGNED_EQUIPMENT}>Unassigned</option>
+    </Select>
+  );
+}
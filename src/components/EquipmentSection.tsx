@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useAppStore } from '@/lib/store';
+import { dbOperations } from '@/lib/db-operations';
+import type { Equipment } from '@/lib/db';
+
+interface EquipmentFormState {
+  name: string;
+  model: string;
+  serialNumber: string;
+  notes: string;
+}
+
+const EMPTY_FORM: EquipmentFormState = {
+  name: '',
+  model: '',
+  serialNumber: '',
+  notes: '',
+};
+
+export function EquipmentSection() {
+  const equipment = useAppStore((state) => state.equipment);
+  const components = useAppStore((state) => state.components);
+  const refreshEquipment = useAppStore((state) => state.refreshEquipment);
+  const refreshComponents = useAppStore((state) => state.refreshComponents);
+
+  // Dialog state (editing is null when adding a new machine)
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Equipment | null>(null);
+  const [form, setForm] = useState<EquipmentFormState>(EMPTY_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<Equipment | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getComponentCount = (equipmentId: string) =>
+    components.filter((c) => c.equipment_id === equipmentId && !c.archived_at).length;
+
+  const openDialog = (machine: Equipment | null) => {
+    setEditing(machine);
+    setForm(
+      machine
+        ? {
+            name: machine.name,
+            model: machine.model || '',
+            serialNumber: machine.serial_number || '',
+            notes: machine.notes || '',
+          }
+        : EMPTY_FORM
+    );
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const values = {
+        name: form.name.trim(),
+        model: form.model.trim() || undefined,
+        serial_number: form.serialNumber.trim() || undefined,
+        notes: form.notes.trim() || undefined,
+      };
+      if (editing) {
+        await dbOperations.equipment.update(editing.id!, values);
+      } else {
+        await dbOperations.equipment.create(values);
+      }
+      await refreshEquipment();
+      setIsDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save machine');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setIsSaving(true);
+    try {
+      await dbOperations.equipment.delete(deleteTarget.id!);
+      await Promise.all([refreshEquipment(), refreshComponents()]);
+      setDeleteTarget(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Machines</CardTitle>
+        <CardDescription>
+          Group components by machine, e.g. a home and a travel CPAP
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {equipment.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No machines yet. All components are tracked together.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {equipment.map((machine) => {
+              const componentCount = getComponentCount(machine.id!);
+              return (
+                <div
+                  key={machine.id}
+                  className="flex items-center justify-between gap-3 rounded-lg border p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{machine.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[machine.model, machine.serial_number && `S/N ${machine.serial_number}`]
+                        .filter(Boolean)
+                        .join(' · ') || 'No model details'}
+                      {' · '}
+                      {componentCount} {componentCount === 1 ? 'component' : 'components'}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(machine)}>
+                      Edit
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDeleteTarget(machine)}>
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <Button variant="outline" onClick={() => openDialog(null)}>
+          Add Machine
+        </Button>
+      </CardContent>
+
+      {/* Add/edit dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent onClose={() => setIsDialogOpen(false)}>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Machine' : 'Add Machine'}</DialogTitle>
+            <DialogDescription>
+              Components can be assigned to a machine from their edit screen.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="equipmentName">Name</Label>
+              <Input
+                id="equipmentName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Travel machine"
+                disabled={isSaving}
+              />
+              {error && <p className="text-xs text-red-500">{error}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="equipmentModel">Model (optional)</Label>
+              <Input
+                id="equipmentModel"
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+                placeholder="e.g., AirSense 11"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="equipmentSerial">Serial number (optional)</Label>
+              <Input
+                id="equipmentSerial"
+                value={form.serialNumber}
+                onChange={(e) => setForm({ ...form, serialNumber: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="equipmentNotes">Notes (optional)</Label>
+              <Textarea
+                id="equipmentNotes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation dialog */}
+      <Dialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent onClose={() => setDeleteTarget(null)}>
+          <DialogHeader>
+            <DialogTitle>Delete Machine</DialogTitle>
+            <DialogDescription>
+              Delete "{deleteTarget?.name}"? Its components and their history are kept and
+              become unassigned.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
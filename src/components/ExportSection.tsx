@@ -2,31 +2,69 @@ import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Spinner } from '@/components/ui/spinner';
+import { Select } from '@/components/ui/select';
+import { useAppStore } from '@/lib/store';
 import {
   exportToJSON,
+  exportAllProfilesToJSON,
   exportMaintenanceLogsToCSV,
+  exportPurchasesToCSV,
   downloadJSON,
   downloadCSV,
 } from '@/lib/export-import';
+import { exportScheduleToICS, downloadICS } from '@/lib/calendar-export';
+import { isComponentArchived } from '@/lib/db-operations';
 
-type ExportFormat = 'json' | 'csv';
+type ExportFormat = 'json' | 'csv' | 'purchases' | 'ics';
+type ExportScope = 'profile' | 'all';
+
+const EXPORT_BUTTON_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON Backup',
+  csv: 'CSV Log',
+  purchases: 'CSV Purchases',
+  ics: 'Calendar',
+};
 
 export function ExportSection() {
+  const profiles = useAppStore((state) => state.profiles);
+  const activeProfileId = useAppStore((state) => state.activeProfileId);
+  const components = useAppStore((state) => state.components);
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('json');
+  const [scope, setScope] = useState<ExportScope>('profile');
+  const [calendarComponentId, setCalendarComponentId] = useState('');
   const [isExporting, setIsExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Name the profile in file names once there's more than one
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+  const hasMultipleProfiles = profiles.length > 1;
+  const profileSuffix = hasMultipleProfiles && activeProfile
+    ? `-${activeProfile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`
+    : undefined;
+  const date = new Date().toISOString().split('T')[0];
+  const calendarComponents = components.filter((c) => c.is_active && !isComponentArchived(c));
+
   const handleExport = async () => {
     setIsExporting(true);
     setError(null);
 
     try {
-      if (selectedFormat === 'json') {
-        const data = await exportToJSON();
-        downloadJSON(data);
-      } else {
+      if (selectedFormat === 'json' && hasMultipleProfiles && scope === 'all') {
+        const data = await exportAllProfilesToJSON();
+        downloadJSON(data, `cpap-maintenance-backup-all-profiles-${date}.json`);
+      } else if (selectedFormat === 'json') {
+        const data = await exportToJSON(activeProfile);
+        downloadJSON(data, profileSuffix && `cpap-maintenance-backup${profileSuffix}-${date}.json`);
+      } else if (selectedFormat === 'csv') {
         const csvContent = await exportMaintenanceLogsToCSV();
-        downloadCSV(csvContent);
+        downloadCSV(csvContent, profileSuffix && `cpap-maintenance-log${profileSuffix}-${date}.csv`);
+      } else if (selectedFormat === 'purchases') {
+        const csvContent = await exportPurchasesToCSV();
+        downloadCSV(csvContent, `cpap-purchases${profileSuffix ?? ''}-${date}.csv`);
+      } else {
+        // Re-exports keep the same file name so it's clear they replace the last one
+        const icsContent = await exportScheduleToICS(calendarComponentId || undefined);
+        downloadICS(icsContent, `cpap-maintenance-schedule${profileSuffix ?? ''}.ics`);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Export failed');
@@ -84,8 +122,8 @@ export function ExportSection() {
               <div>
                 <div className="font-medium text-sm">JSON Full Backup</div>
                 <div className="text-xs text-muted-foreground mt-0.5">
-                  Includes all components, maintenance actions, logs, and notification settings.
-                  Use for backups or transferring to another device.
+                  Includes all components, maintenance actions, logs, notification settings,
+                  supplies and purchases. Use for backups or transferring to another device.
                 </div>
               </div>
             </button>
@@ -114,9 +152,91 @@ export function ExportSection() {
                 </div>
               </div>
             </button>
+
+            <button
+              type="button"
+              onClick={() => setSelectedFormat('purchases')}
+              className={`flex items-start gap-3 p-3 rounded-lg border text-left transition-colors ${
+                selectedFormat === 'purchases'
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:border-primary/50'
+              }`}
+            >
+              <div className={`mt-0.5 w-4 h-4 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${
+                selectedFormat === 'purchases' ? 'border-primary' : 'border-muted-foreground'
+              }`}>
+                {selectedFormat === 'purchases' && (
+                  <div className="w-2 h-2 rounded-full bg-primary" />
+                )}
+              </div>
+              <div>
+                <div className="font-medium text-sm">CSV Purchases</div>
+                <div className="text-xs text-muted-foreground mt-0.5">
+                  Exports purchase records with prices and vendors.
+                  Useful for FSA/HSA claims or insurance paperwork.
+                </div>
+              </div>
+            </button>
+
+            <button
+              type="button"
+              onClick={() => setSelectedFormat('ics')}
+              className={`flex items-start gap-3 p-3 rounded-lg border text-left transition-colors ${
+                selectedFormat === 'ics'
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:border-primary/50'
+              }`}
+            >
+              <div className={`mt-0.5 w-4 h-4 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${
+                selectedFormat === 'ics' ? 'border-primary' : 'border-muted-foreground'
+              }`}>
+                {selectedFormat === 'ics' && (
+                  <div className="w-2 h-2 rounded-full bg-primary" />
+                )}
+              </div>
+              <div>
+                <div className="font-medium text-sm">Calendar Schedule (.ics)</div>
+                <div className="text-xs text-muted-foreground mt-0.5">
+                  Adds each maintenance task to your calendar as a repeating event with reminders.
+                  Importing a newer export updates the events instead of duplicating them.
+                </div>
+              </div>
+            </button>
           </div>
         </div>
 
+        {/* Profile scope (CSV logs are always for the current profile) */}
+        {hasMultipleProfiles && selectedFormat === 'json' && (
+          <div className="space-y-2">
+            <label htmlFor="exportScope" className="text-sm font-medium">Profiles</label>
+            <Select
+              id="exportScope"
+              value={scope}
+              onChange={(e) => setScope(e.target.value as ExportScope)}
+            >
+              <option value="profile">Current profile ({activeProfile?.name})</option>
+              <option value="all">All profiles ({profiles.length})</option>
+            </Select>
+          </div>
+        )}
+
+        {/* Component scope for the calendar */}
+        {selectedFormat === 'ics' && (
+          <div className="space-y-2">
+            <label htmlFor="calendarComponent" className="text-sm font-medium">Components</label>
+            <Select
+              id="calendarComponent"
+              value={calendarComponentId}
+              onChange={(e) => setCalendarComponentId(e.target.value)}
+            >
+              <option value="">All components</option>
+              {calendarComponents.map((component) => (
+                <option key={component.id} value={component.id}>{component.name}</option>
+              ))}
+            </Select>
+          </div>
+        )}
+
         {/* Error display */}
         {error && (
           <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800">
@@ -169,7 +289,7 @@ export function ExportSection() {
                 <polyline points="7 10 12 15 17 10" />
                 <line x1="12" y1="15" x2="12" y2="3" />
               </svg>
-              Export {selectedFormat === 'json' ? 'JSON Backup' : 'CSV Log'}
+              Export {EXPORT_BUTTON_LABELS[selectedFormat]}
             </>
           )}
         </Button>
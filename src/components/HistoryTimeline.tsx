@@ -4,6 +4,12 @@ import { Badge } from '@/components/ui/badge';
 import { formatShortDate, formatRelativeTime } from '@/lib/date-helpers';
 import type { MaintenanceLog, MaintenanceAction, Component } from '@/lib/db';
 
+// Dot color for each outcome; completions use green (on time) or yellow (late)
+const OUTCOME_DOT_COLORS = {
+  skipped: 'bg-muted-foreground',
+  snoozed: 'bg-blue-500',
+};
+
 interface HistoryTimelineProps {
   logs: MaintenanceLog[];
   actions: MaintenanceAction[];
@@ -67,24 +73,42 @@ export function HistoryTimeline({
                 const action = actionMap.get(log.action_id);
                 const component = componentMap.get(log.component_id);
 
+                const outcome = log.outcome ?? 'completed';
+                const isCompletion = outcome === 'completed';
+
                 return (
-                  <Card key={log.id} className="overflow-hidden">
+                  <Card
+                    key={log.id}
+                    className={`overflow-hidden ${isCompletion ? '' : 'border-dashed bg-muted/30'}`}
+                  >
                     <CardContent className="p-4">
                       <div className="flex items-start gap-3">
                         {/* Status indicator */}
                         <div
                           className={`mt-1.5 h-2.5 w-2.5 rounded-full flex-shrink-0 ${
-                            log.was_overdue ? 'bg-yellow-500' : 'bg-green-500'
+                            isCompletion
+                              ? log.was_overdue ? 'bg-yellow-500' : 'bg-green-500'
+                              : OUTCOME_DOT_COLORS[outcome]
                           }`}
                         />
 
                         {/* Content */}
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center gap-2 flex-wrap">
-                            <span className="font-medium">
+                            <span className={`font-medium ${isCompletion ? '' : 'text-muted-foreground'}`}>
                               {action?.action_type || 'Unknown Action'}
                             </span>
-                            {log.was_overdue && (
+                            {outcome === 'skipped' && (
+                              <Badge variant="outline" className="text-xs">
+                                Skipped
+                              </Badge>
+                            )}
+                            {outcome === 'snoozed' && (
+                              <Badge variant="outline" className="text-xs text-blue-600 dark:text-blue-400">
+                                Snoozed
+                              </Badge>
+                            )}
+                            {isCompletion && log.was_overdue && (
                               <Badge variant="secondary" className="text-xs">
                                 Completed late
                               </Badge>
@@ -104,6 +128,12 @@ export function HistoryTimeline({
                             {formatRelativeTime(log.completed_at)}
                           </p>
 
+                          {log.reason && (
+                            <p className="text-sm text-muted-foreground mt-2 italic">
+                              Reason: {log.reason}
+                            </p>
+                          )}
+
                           {log.notes && (
                             <p className="text-sm text-muted-foreground mt-2 bg-muted/50 p-2 rounded">
                               {log.notes}
@@ -9,13 +9,14 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Spinner } from '@/components/ui/spinner';
-import type { ExportData, ImportValidationResult, ImportMode } from '@/lib/export-import';
-import { importData } from '@/lib/export-import';
+import type { ExportData, ProfilesExportData, ImportValidationResult, ImportMode } from '@/lib/export-import';
+import { importData, importAllProfiles, isProfilesExport } from '@/lib/export-import';
+import { useAppStore } from '@/lib/store';
 
 interface ImportPreviewModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  data: ExportData;
+  data: ExportData | ProfilesExportData;
   validation: ImportValidationResult;
   onImportComplete: () => void;
 }
@@ -30,6 +31,10 @@ export function ImportPreviewModal({
   const [mode, setMode] = useState<ImportMode>('merge');
   const [isImporting, setIsImporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const profiles = useAppStore((state) => state.profiles);
+  const activeProfileId = useAppStore((state) => state.activeProfileId);
+  const activeProfileName = profiles.find((p) => p.id === activeProfileId)?.name;
+  const isAllProfiles = isProfilesExport(data);
 
   const handleClose = () => {
     if (!isImporting) {
@@ -43,7 +48,11 @@ export function ImportPreviewModal({
     setError(null);
 
     try {
-      await importData(data, mode);
+      if (isProfilesExport(data)) {
+        await importAllProfiles(data, mode);
+      } else {
+        await importData(data, mode);
+      }
       onImportComplete();
       handleClose();
     } catch (err) {
@@ -91,6 +100,19 @@ export function ImportPreviewModal({
         </DialogHeader>
 
         <div className="py-4 space-y-4">
+          {/* Destination profile(s) */}
+          {isAllProfiles ? (
+            <p className="text-sm text-muted-foreground">
+              Backup of {validation.profiles?.length} profiles: {validation.profiles?.join(', ')}.
+              Each is imported into the profile with the same ID, which is created if missing.
+            </p>
+          ) : profiles.length > 1 && (
+            <p className="text-sm text-muted-foreground">
+              {data.profile && data.profile.name !== activeProfileName && `Exported from ${data.profile.name}. `}
+              Importing into the current profile, <strong>{activeProfileName}</strong>.
+            </p>
+          )}
+
           {/* Data summary */}
           <div className="space-y-2">
             <h4 className="text-sm font-medium">Data Summary</h4>
@@ -111,6 +133,42 @@ export function ImportPreviewModal({
                 <span className="text-muted-foreground">Notifications</span>
                 <span className="font-medium">{validation.summary.notificationConfigs}</span>
               </div>
+              {validation.summary.equipment > 0 && (
+                <div className="flex justify-between p-2 rounded bg-muted">
+                  <span className="text-muted-foreground">Machines</span>
+                  <span className="font-medium">{validation.summary.equipment}</span>
+                </div>
+              )}
+              {validation.summary.supplies > 0 && (
+                <div className="flex justify-between p-2 rounded bg-muted">
+                  <span className="text-muted-foreground">Supplies</span>
+                  <span className="font-medium">{validation.summary.supplies}</span>
+                </div>
+              )}
+              {validation.summary.purchases > 0 && (
+                <div className="flex justify-between p-2 rounded bg-muted">
+                  <span className="text-muted-foreground">Purchases</span>
+                  <span className="font-medium">{validation.summary.purchases}</span>
+                </div>
+              )}
+              {validation.summary.allowanceRules > 0 && (
+                <div className="flex justify-between p-2 rounded bg-muted">
+                  <span className="text-muted-foreground">Allowance Rules</span>
+                  <span className="font-medium">{validation.summary.allowanceRules}</span>
+                </div>
+              )}
+              {validation.summary.suppliers > 0 && (
+                <div className="flex justify-between p-2 rounded bg-muted">
+                  <span className="text-muted-foreground">Suppliers</span>
+                  <span className="font-medium">{validation.summary.suppliers}</span>
+                </div>
+              )}
+              {validation.summary.usageJournal > 0 && (
+                <div className="flex justify-between p-2 rounded bg-muted">
+                  <span className="text-muted-foreground">Usage Nights</span>
+                  <span className="font-medium">{validation.summary.usageJournal}</span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -221,7 +279,9 @@ export function ImportPreviewModal({
                 <line x1="12" y1="17" x2="12.01" y2="17" />
               </svg>
               <div className="text-xs text-red-700 dark:text-red-300">
-                <strong>Warning:</strong> All current data including components, maintenance history, and settings will be permanently deleted and replaced with the imported data.
+                <strong>Warning:</strong> All current data including components, maintenance history, and settings
+                {isAllProfiles ? ' of every profile in the backup' : profiles.length > 1 ? ` of ${activeProfileName}` : ''} will
+                be permanently deleted and replaced with the imported data.
               </div>
             </div>
           )}
@@ -3,12 +3,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Spinner } from '@/components/ui/spinner';
 import { ImportPreviewModal } from './ImportPreviewModal';
+import { OscarImportPreviewModal } from './OscarImportPreviewModal';
 import {
   readImportFile,
   validateImportData,
   type ExportData,
+  type ProfilesExportData,
   type ImportValidationResult,
 } from '@/lib/export-import';
+import { parseOscarSummaryCSV, type OscarSummary } from '@/lib/oscar-import';
 
 interface ImportSectionProps {
   onImportComplete: () => void;
@@ -16,11 +19,13 @@ interface ImportSectionProps {
 
 export function ImportSection({ onImportComplete }: ImportSectionProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const oscarInputRef = useRef<HTMLInputElement>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [previewData, setPreviewData] = useState<ExportData | null>(null);
+  const [previewData, setPreviewData] = useState<ExportData | ProfilesExportData | null>(null);
   const [validation, setValidation] = useState<ImportValidationResult | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [oscarFile, setOscarFile] = useState<{ name: string; summary: OscarSummary } | null>(null);
 
   const handleSelectFile = () => {
     fileInputRef.current?.click();
@@ -49,7 +54,7 @@ export function ImportSection({ onImportComplete }: ImportSectionProps) {
       }
 
       // Store data and show preview modal
-      setPreviewData(data as ExportData);
+      setPreviewData(data as ExportData | ProfilesExportData);
       setValidation(validationResult);
       setShowPreview(true);
     } catch (err) {
@@ -59,6 +64,29 @@ export function ImportSection({ onImportComplete }: ImportSectionProps) {
     }
   };
 
+  const handleOscarFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    // Reset the input so the same file can be selected again
+    event.target.value = '';
+
+    setIsProcessing(true);
+    setError(null);
+
+    try {
+      const summary = parseOscarSummaryCSV(await file.text());
+      if (summary.nights.length === 0) {
+        throw new Error('The file has no nights to import');
+      }
+      setOscarFile({ name: file.name, summary });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to process file');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handlePreviewClose = () => {
     setShowPreview(false);
     setPreviewData(null);
@@ -70,6 +98,11 @@ export function ImportSection({ onImportComplete }: ImportSectionProps) {
     onImportComplete();
   };
 
+  const handleOscarImportComplete = () => {
+    setOscarFile(null);
+    onImportComplete();
+  };
+
   return (
     <>
       <Card>
@@ -110,6 +143,13 @@ export function ImportSection({ onImportComplete }: ImportSectionProps) {
             onChange={handleFileChange}
             className="hidden"
           />
+          <input
+            ref={oscarInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleOscarFileChange}
+            className="hidden"
+          />
 
           {/* Error display */}
           {error && (
@@ -167,6 +207,21 @@ export function ImportSection({ onImportComplete }: ImportSectionProps) {
               </>
             )}
           </Button>
+
+          <div className="border-t pt-4 space-y-2">
+            <p className="text-sm text-muted-foreground">
+              Import nights of use from an OSCAR daily summary CSV export. Each night's hours,
+              AHI, leak and pressure go into your usage journal.
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => oscarInputRef.current?.click()}
+              disabled={isProcessing}
+              className="w-full"
+            >
+              Select OSCAR CSV
+            </Button>
+          </div>
         </CardContent>
       </Card>
 
@@ -180,6 +235,17 @@ export function ImportSection({ onImportComplete }: ImportSectionProps) {
           onImportComplete={handleImportComplete}
         />
       )}
+
+      {/* OSCAR import preview modal */}
+      {oscarFile && (
+        <OscarImportPreviewModal
+          open
+          onOpenChange={() => setOscarFile(null)}
+          fileName={oscarFile.name}
+          summary={oscarFile.summary}
+          onImportComplete={handleOscarImportComplete}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,52 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import type { SupplyItem } from '@/lib/db';
+
+interface LowStockAlertProps {
+  supplies: SupplyItem[];
+}
+
+/**
+ * Banner prompting a reorder when spare parts reach their low-stock threshold
+ */
+export function LowStockAlert({ supplies }: LowStockAlertProps) {
+  if (supplies.length === 0) return null;
+
+  const names = supplies.map((supply) =>
+    supply.quantity === 0 ? `${supply.name} (out)` : `${supply.name} (${supply.quantity} left)`
+  );
+
+  return (
+    <div className="flex items-start justify-between gap-3 p-3 mb-4 rounded-lg bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800">
+      <div className="flex items-start gap-2 min-w-0">
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="16"
+          height="16"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5"
+        >
+          <path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3Z" />
+          <line x1="12" y1="9" x2="12" y2="13" />
+          <line x1="12" y1="17" x2="12.01" y2="17" />
+        </svg>
+        <div className="text-sm">
+          <p className="font-medium text-yellow-800 dark:text-yellow-200">
+            Running low on {supplies.length === 1 ? 'a spare part' : `${supplies.length} spare parts`}
+          </p>
+          <p className="text-yellow-700 dark:text-yellow-300">{names.join(', ')}</p>
+        </div>
+      </div>
+      <Link to="/inventory" className="flex-shrink-0">
+        <Button variant="outline" size="sm">
+          View Supplies
+        </Button>
+      </Link>
+    </div>
+  );
+}
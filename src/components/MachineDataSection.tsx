@@ -0,0 +1,179 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import { useAppStore } from '@/lib/store';
+import { readResMedCard, isResMedUsageFile, toDeviceNights, type ResMedNight } from '@/lib/resmed';
+import { getDefaultImportStart, importDeviceNights } from '@/lib/usage-journal';
+
+function formatNight(date: string): string {
+  return format(parseISO(date), 'MMM d, yyyy');
+}
+
+/**
+ * Log nights of use from a CPAP machine's SD card
+ * Files are read in the browser; nothing is uploaded
+ */
+export function MachineDataSection() {
+  const components = useAppStore((state) => state.components);
+  const usageJournal = useAppStore((state) => state.usageJournal);
+  const refreshUsageJournal = useAppStore((state) => state.refreshUsageJournal);
+  const refreshComponents = useAppStore((state) => state.refreshComponents);
+  const refreshMaintenanceActions = useAppStore((state) => state.refreshMaintenanceActions);
+
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const [nights, setNights] = useState<ResMedNight[] | null>(null);
+  const [since, setSince] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  // React doesn't know the folder picker attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const nightsToLog = useMemo(
+    () => (nights ?? []).filter((night) => !since || night.date >= since),
+    [nights, since]
+  );
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Reset the input so the same card can be selected again
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsProcessing(true);
+    setError(null);
+    setResult(null);
+    try {
+      const cardFiles = await Promise.all(
+        files
+          .map((file) => ({ file, path: file.webkitRelativePath || file.name }))
+          .filter(({ path }) => isResMedUsageFile(path))
+          .map(async ({ file, path }) => ({ path, data: await file.arrayBuffer() }))
+      );
+      const cardNights = readResMedCard(cardFiles);
+      if (cardNights.length === 0) {
+        throw new Error('The card has no nights recorded yet');
+      }
+      setNights(cardNights);
+      setSince(getDefaultImportStart(usageJournal, components) ?? cardNights[0].date);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the SD card');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!nights) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const { logged, used } = await importDeviceNights(toDeviceNights(nights), since || undefined);
+      await Promise.all([refreshUsageJournal(), refreshComponents(), refreshMaintenanceActions()]);
+      setResult(`Logged ${logged} ${logged === 1 ? 'night' : 'nights'} from your machine (${used} used)`);
+      setNights(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log nights');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const usedNights = nightsToLog.filter((night) => night.hours > 0);
+  const averageHours = usedNights.length > 0
+    ? usedNights.reduce((sum, night) => sum + night.hours, 0) / usedNights.length
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Machine Data</CardTitle>
+        <CardDescription>
+          Log nights of use from your ResMed AirSense 10/11 SD card
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Select the SD card folder (with STR.edf and DATALOG) or its EDF files. Usage hours,
+          mask sessions and leak are read on this device and advance your usage-based parts.
+        </p>
+
+        {/* Hidden file inputs */}
+        <input ref={folderInputRef} type="file" multiple onChange={handleFiles} className="hidden" />
+        <input ref={filesInputRef} type="file" multiple accept=".edf" onChange={handleFiles} className="hidden" />
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        {result && <p className="text-sm text-green-600">{result}</p>}
+
+        {nights ? (
+          <div className="space-y-3 rounded-lg border p-3">
+            <p className="text-sm">
+              Found {nights.length} {nights.length === 1 ? 'night' : 'nights'} from{' '}
+              {formatNight(nights[0].date)} to {formatNight(nights[nights.length - 1].date)}
+            </p>
+            <div className="space-y-1">
+              <Label htmlFor="machineDataSince" className="text-xs">Log nights from</Label>
+              <Input
+                id="machineDataSince"
+                type="date"
+                value={since}
+                onChange={(e) => setSince(e.target.value)}
+                className="w-40"
+                disabled={isProcessing}
+              />
+              <p className="text-xs text-muted-foreground">
+                Earlier nights would count toward parts that weren't in use yet.
+              </p>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {nightsToLog.length} {nightsToLog.length === 1 ? 'night' : 'nights'} · {usedNights.length} used
+              {usedNights.length > 0 && ` · ${averageHours.toFixed(1)} h average`}
+            </p>
+            <div className="flex gap-2">
+              <Button onClick={handleImport} disabled={isProcessing || nightsToLog.length === 0}>
+                {isProcessing ? 'Logging...' : `Log ${nightsToLog.length} nights`}
+              </Button>
+              <Button variant="outline" onClick={() => setNights(null)} disabled={isProcessing}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button
+              variant="outline"
+              onClick={() => folderInputRef.current?.click()}
+              disabled={isProcessing}
+              className="flex-1"
+            >
+              {isProcessing ? (
+                <>
+                  <Spinner size="sm" className="mr-2" />
+                  Reading...
+                </>
+              ) : (
+                'Select SD Card Folder'
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => filesInputRef.current?.click()}
+              disabled={isProcessing}
+              className="flex-1"
+            >
+              Select EDF Files
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
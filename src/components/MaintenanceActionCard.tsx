@@ -3,7 +3,9 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { StatusIndicator } from '@/components/ui/status-indicator';
-import { getDueStatus, formatRelativeTime, getDaysOverdue } from '@/lib/date-helpers';
+import { UsageProgress } from '@/components/UsageProgress';
+import { getDueStatus, formatRelativeTime, getDaysOverdue, formatTime, formatDateTime, isDueToday } from '@/lib/date-helpers';
+import { isActionSnoozed } from '@/lib/db-operations';
 
 interface MaintenanceActionCardProps {
   action: MaintenanceAction;
@@ -20,6 +22,7 @@ export function MaintenanceActionCard({
 }: MaintenanceActionCardProps) {
   const dueStatus = action.next_due ? getDueStatus(action.next_due) : 'ok';
   const daysOverdue = action.next_due && dueStatus === 'overdue' ? getDaysOverdue(action.next_due as Date) : 0;
+  const isSnoozed = isActionSnoozed(action);
 
   const statusColors = {
     overdue: 'bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-900',
@@ -61,6 +64,15 @@ export function MaintenanceActionCard({
                   Due today
                 </Badge>
               )}
+              {isSnoozed && (
+                <Badge variant="secondary" className="text-xs">
+                  Snoozed until{' '}
+                  {isDueToday(action.snoozed_until!)
+                    ? formatTime(action.snoozed_until!)
+                    : formatDateTime(action.snoozed_until!)}
+                  {action.snooze_count && action.snooze_count > 1 ? ` (${action.snooze_count}x)` : ''}
+                </Badge>
+              )}
               {action.next_due && (
                 <span className="text-xs text-muted-foreground">
                   {dueStatus === 'overdue'
@@ -71,6 +83,8 @@ export function MaintenanceActionCard({
               )}
             </div>
 
+            <UsageProgress action={action} className="mt-2 max-w-xs" />
+
             {action.instructions && (
               <p className="text-sm text-muted-foreground mt-2 line-clamp-2">
                 {action.instructions}
@@ -0,0 +1,49 @@
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import type { MissedReminder } from '@/lib/notification-scheduler';
+
+interface MissedRemindersAlertProps {
+  missed: MissedReminder[];
+}
+
+/**
+ * Banner pointing to the inbox when reminders went unanswered
+ */
+export function MissedRemindersAlert({ missed }: MissedRemindersAlertProps) {
+  if (missed.length === 0) return null;
+
+  const names = missed.map(({ action }) => action.action_type);
+
+  return (
+    <div className="flex items-start justify-between gap-3 p-3 mb-4 rounded-lg bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800">
+      <div className="flex items-start gap-2 min-w-0">
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="16"
+          height="16"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="text-blue-600 dark:text-blue-400 flex-shrink-0 mt-0.5"
+        >
+          <path d="M6 8a6 6 0 0 1 12 0c0 7 3 9 3 9H3s3-2 3-9" />
+          <path d="M10.3 21a1.94 1.94 0 0 0 3.4 0" />
+        </svg>
+        <div className="text-sm">
+          <p className="font-medium text-blue-800 dark:text-blue-200">
+            {missed.length === 1 ? 'A reminder' : `${missed.length} reminders`} went unanswered
+          </p>
+          <p className="text-blue-700 dark:text-blue-300">{names.join(', ')}</p>
+        </div>
+      </div>
+      <Link to="/inbox" className="flex-shrink-0">
+        <Button variant="outline" size="sm">
+          View Inbox
+        </Button>
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Spinner } from '@/components/ui/spinner';
+import type { OscarSummary } from '@/lib/oscar-import';
+import { getDefaultImportStart, importDeviceNights } from '@/lib/usage-journal';
+import { useAppStore } from '@/lib/store';
+
+interface OscarImportPreviewModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  summary: OscarSummary;
+  onImportComplete: () => void;
+}
+
+function average(values: (number | undefined)[]): number | undefined {
+  const present = values.filter((value): value is number => value !== undefined);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : undefined;
+}
+
+export function OscarImportPreviewModal({
+  open,
+  onOpenChange,
+  fileName,
+  summary,
+  onImportComplete,
+}: OscarImportPreviewModalProps) {
+  const components = useAppStore((state) => state.components);
+  const usageJournal = useAppStore((state) => state.usageJournal);
+  const [since, setSince] = useState(
+    () => getDefaultImportStart(usageJournal, components) ?? summary.nights[0]?.date ?? ''
+  );
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const nights = useMemo(
+    () => summary.nights.filter((night) => !since || night.date >= since),
+    [summary.nights, since]
+  );
+  const usedNights = nights.filter((night) => night.hours > 0);
+  const loggedDates = new Set(usageJournal.map((entry) => entry.date));
+  const alreadyLogged = nights.filter((night) => loggedDates.has(night.date)).length;
+  const averageHours = average(usedNights.map((night) => night.hours));
+  const averageAhi = average(usedNights.map((night) => night.ahi));
+
+  const handleClose = () => {
+    if (!isImporting) {
+      setError(null);
+      onOpenChange(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      await importDeviceNights(nights);
+      onImportComplete();
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const first = summary.nights[0]?.date;
+  const last = summary.nights[summary.nights.length - 1]?.date;
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent onClose={handleClose} className="max-w-md mx-4">
+        <DialogHeader>
+          <DialogTitle>OSCAR Import Preview</DialogTitle>
+          <DialogDescription>
+            {fileName}
+            {first && last && ` · ${format(parseISO(first), 'MMM d, yyyy')} to ${format(parseISO(last), 'MMM d, yyyy')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          {/* First night to import */}
+          <div className="space-y-1">
+            <Label htmlFor="oscarSince" className="text-sm">Import nights from</Label>
+            <Input
+              id="oscarSince"
+              type="date"
+              value={since}
+              onChange={(e) => setSince(e.target.value)}
+              className="w-40"
+              disabled={isImporting}
+            />
+            <p className="text-xs text-muted-foreground">
+              Earlier nights would count toward parts that weren't in use yet.
+            </p>
+          </div>
+
+          {/* Data summary */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Data Summary</h4>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="flex justify-between p-2 rounded bg-muted">
+                <span className="text-muted-foreground">Nights</span>
+                <span className="font-medium">{nights.length}</span>
+              </div>
+              <div className="flex justify-between p-2 rounded bg-muted">
+                <span className="text-muted-foreground">Used</span>
+                <span className="font-medium">{usedNights.length}</span>
+              </div>
+              {averageHours !== undefined && (
+                <div className="flex justify-between p-2 rounded bg-muted">
+                  <span className="text-muted-foreground">Avg Hours</span>
+                  <span className="font-medium">{averageHours.toFixed(1)}</span>
+                </div>
+              )}
+              {averageAhi !== undefined && (
+                <div className="flex justify-between p-2 rounded bg-muted">
+                  <span className="text-muted-foreground">Avg AHI</span>
+                  <span className="font-medium">{averageAhi.toFixed(1)}</span>
+                </div>
+              )}
+            </div>
+            {alreadyLogged > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {alreadyLogged} of these {alreadyLogged === 1 ? 'night is' : 'nights are'} already in your
+                usage journal and will be updated, not added again.
+              </p>
+            )}
+          </div>
+
+          {/* Warnings */}
+          {summary.warnings.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-yellow-600 dark:text-yellow-400">Warnings</h4>
+              <div className="space-y-1.5">
+                {summary.warnings.map((warning, index) => (
+                  <div
+                    key={index}
+                    className="text-xs p-2 rounded bg-yellow-50 dark:bg-yellow-950 border border-yellow-200 dark:border-yellow-800 text-yellow-700 dark:text-yellow-300"
+                  >
+                    {warning}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Error display */}
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800">
+              <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={isImporting || nights.length === 0}>
+            {isImporting ? (
+              <>
+                <Spinner size="sm" className="mr-2" />
+                Importing...
+              </>
+            ) : (
+              `Import ${nights.length} ${nights.length === 1 ? 'Night' : 'Nights'}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
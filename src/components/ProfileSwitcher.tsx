@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { Select } from '@/components/ui/select';
+import { useAppStore } from '@/lib/store';
+import { getDueCountsByProfile } from '@/lib/notification-scheduler';
+
+/**
+ * Header control for switching between profiles
+ * Shows how many items are due for each profile; hidden until a second profile exists
+ */
+export function ProfileSwitcher() {
+  const profiles = useAppStore((state) => state.profiles);
+  const activeProfileId = useAppStore((state) => state.activeProfileId);
+  const switchProfile = useAppStore((state) => state.switchProfile);
+  const maintenanceActions = useAppStore((state) => state.maintenanceActions);
+  const [dueCounts, setDueCounts] = useState<Record<string, number>>({});
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  // Recount whenever the active profile's actions change
+  useEffect(() => {
+    if (profiles.length < 2) return;
+    let cancelled = false;
+    getDueCountsByProfile()
+      .then((counts) => {
+        if (!cancelled) setDueCounts(counts);
+      })
+      .catch((error) => console.error('Error counting due items:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [profiles, maintenanceActions]);
+
+  if (profiles.length < 2) return null;
+
+  const handleChange = async (profileId: string) => {
+    setIsSwitching(true);
+    try {
+      await switchProfile(profileId);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <Select
+      value={activeProfileId}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={isSwitching}
+      className="w-auto min-w-[140px]"
+      aria-label="Switch profile"
+    >
+      {profiles.map((profile) => {
+        const dueCount = dueCounts[profile.id] ?? 0;
+        return (
+          <option key={profile.id} value={profile.id}>
+            {profile.name}
+            {dueCount > 0 ? ` (${dueCount} due)` : ''}
+          </option>
+        );
+      })}
+    </Select>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useAppStore } from '@/lib/store';
+import { profileOperations, DEFAULT_PROFILE_ID, type Profile } from '@/lib/profiles';
+
+export function ProfilesSection() {
+  const profiles = useAppStore((state) => state.profiles);
+  const activeProfileId = useAppStore((state) => state.activeProfileId);
+  const switchProfile = useAppStore((state) => state.switchProfile);
+  const refreshProfiles = useAppStore((state) => state.refreshProfiles);
+
+  // Dialog state (editing is null when adding a new profile)
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Profile | null>(null);
+  const [name, setName] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<Profile | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = (profile: Profile | null) => {
+    setEditing(profile);
+    setName(profile?.name || '');
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await profileOperations.rename(editing.id, name.trim());
+      } else {
+        await profileOperations.create(name.trim());
+      }
+      await refreshProfiles();
+      setIsDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setIsSaving(true);
+    try {
+      await profileOperations.delete(deleteTarget.id);
+      await refreshProfiles();
+      setDeleteTarget(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Profiles</CardTitle>
+        <CardDescription>
+          Give everyone who shares this device their own components, history and reminders
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          {profiles.map((profile) => {
+            const isActive = profile.id === activeProfileId;
+            return (
+              <div
+                key={profile.id}
+                className="flex items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <p className="text-sm font-medium truncate">{profile.name}</p>
+                  {isActive && <Badge variant="secondary">Active</Badge>}
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  {!isActive && (
+                    <Button variant="ghost" size="sm" onClick={() => switchProfile(profile.id)}>
+                      Switch
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(profile)}>
+                    Rename
+                  </Button>
+                  {!isActive && profile.id !== DEFAULT_PROFILE_ID && (
+                    <Button variant="ghost" size="sm" onClick={() => setDeleteTarget(profile)}>
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <Button variant="outline" onClick={() => openDialog(null)}>
+          Add Profile
+        </Button>
+      </CardContent>
+
+      {/* Add/rename dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent onClose={() => setIsDialogOpen(false)}>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Rename Profile' : 'Add Profile'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'The name is shown in the header and in notifications.'
+                : 'New profiles start empty. Switch to it from the header to add components.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-2">
+            <Label htmlFor="profileName">Name</Label>
+            <Input
+              id="profileName"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Alex"
+              disabled={isSaving}
+            />
+            {error && <p className="text-xs text-red-500">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation dialog */}
+      <Dialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent onClose={() => setDeleteTarget(null)}>
+          <DialogHeader>
+            <DialogTitle>Delete Profile</DialogTitle>
+            <DialogDescription>
+              This permanently erases "{deleteTarget?.name}" together with all of its components,
+              history and reminder settings. Consider exporting a backup first.
+            </DialogDescription>
+          </DialogHeader>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? 'Deleting...' : 'Delete Profile'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
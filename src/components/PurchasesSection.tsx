@@ -0,0 +1,429 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useAppStore } from '@/lib/store';
+import { dbOperations, isCompletionLog } from '@/lib/db-operations';
+import { isReplacementAction } from '@/lib/scheduler';
+import { getCategoryDisplayName } from '@/lib/component-templates';
+import { formatMoney, getLastUsedCurrency } from '@/lib/spending';
+import { formatShortDate } from '@/lib/date-helpers';
+import type { Component, Purchase } from '@/lib/db';
+
+const CATEGORIES: Component['category'][] = [
+  'mask_cushion',
+  'mask_frame',
+  'tubing',
+  'water_chamber',
+  'filter',
+  'other',
+];
+
+// Purchases shown before "Show all"
+const RECENT_LIMIT = 5;
+
+interface PurchaseFormState {
+  purchasedAt: string; // yyyy-MM-dd
+  item: string;
+  componentId: string;
+  category: Component['category'];
+  logId: string;
+  quantity: string;
+  price: string;
+  currency: string;
+  vendor: string;
+  notes: string;
+}
+
+export function PurchasesSection() {
+  const purchases = useAppStore((state) => state.purchases);
+  const components = useAppStore((state) => state.components);
+  const actions = useAppStore((state) => state.maintenanceActions);
+  const logs = useAppStore((state) => state.maintenanceLogs);
+  const refreshPurchases = useAppStore((state) => state.refreshPurchases);
+
+  // Dialog state (editing is null when recording a new purchase)
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Purchase | null>(null);
+  const [form, setForm] = useState<PurchaseFormState | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Purchase | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const componentMap = useMemo(() => new Map(components.map((c) => [c.id, c])), [components]);
+
+  // Completed replacements of the selected component, newest first
+  const replacementLogs = useMemo(() => {
+    if (!form?.componentId) return [];
+    const replacementActionIds = new Set(
+      actions.filter((a) => a.component_id === form.componentId && isReplacementAction(a)).map((a) => a.id)
+    );
+    return logs
+      .filter((log) => isCompletionLog(log) && replacementActionIds.has(log.action_id))
+      .sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
+  }, [form?.componentId, actions, logs]);
+
+  const openDialog = (purchase: Purchase | null) => {
+    setEditing(purchase);
+    setForm(
+      purchase
+        ? {
+            purchasedAt: format(purchase.purchased_at, 'yyyy-MM-dd'),
+            item: purchase.item,
+            componentId: purchase.component_id || '',
+            category: purchase.category,
+            logId: purchase.log_id || '',
+            quantity: String(purchase.quantity),
+            price: purchase.price.toFixed(2),
+            currency: purchase.currency,
+            vendor: purchase.vendor || '',
+            notes: purchase.notes || '',
+          }
+        : {
+            purchasedAt: format(new Date(), 'yyyy-MM-dd'),
+            item: '',
+            componentId: '',
+            category: 'mask_cushion',
+            logId: '',
+            quantity: '1',
+            price: '',
+            currency: getLastUsedCurrency(purchases),
+            vendor: '',
+            notes: '',
+          }
+    );
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  // Picking a component also picks its category and clears a stale log link
+  const handleComponentChange = (componentId: string) => {
+    if (!form) return;
+    const component = componentMap.get(componentId);
+    setForm({
+      ...form,
+      componentId,
+      category: component?.category ?? form.category,
+      logId: '',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const quantity = parseInt(form.quantity, 10);
+    const price = parseFloat(form.price);
+    const currency = form.currency.trim().toUpperCase();
+
+    if (!form.item.trim()) {
+      setError('Item is required');
+      return;
+    }
+    if (!form.purchasedAt) {
+      setError('Purchase date is required');
+      return;
+    }
+    if (isNaN(quantity) || quantity < 1) {
+      setError('Quantity must be at least 1');
+      return;
+    }
+    if (isNaN(price) || price < 0) {
+      setError('Price must be 0 or more');
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      setError('Currency must be a 3-letter code, e.g. USD');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const values = {
+        purchased_at: parseISO(form.purchasedAt),
+        item: form.item.trim(),
+        category: form.category,
+        component_id: form.componentId || undefined,
+        log_id: form.logId || undefined,
+        quantity,
+        price,
+        currency,
+        vendor: form.vendor.trim() || undefined,
+        notes: form.notes.trim() || undefined,
+      };
+      if (editing) {
+        await dbOperations.purchases.update(editing.id!, values);
+      } else {
+        await dbOperations.purchases.create(values);
+      }
+      await refreshPurchases();
+      setIsDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save purchase');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setIsSaving(true);
+    try {
+      await dbOperations.purchases.delete(deleteTarget.id!);
+      await refreshPurchases();
+      setDeleteTarget(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const visiblePurchases = showAll ? purchases : purchases.slice(0, RECENT_LIMIT);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Purchases</CardTitle>
+        <CardDescription>
+          Record what you pay for parts to see yearly costs and export receipts
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {purchases.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No purchases recorded yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {visiblePurchases.map((purchase) => {
+              const component = purchase.component_id ? componentMap.get(purchase.component_id) : undefined;
+              return (
+                <div
+                  key={purchase.id}
+                  className="flex items-center justify-between gap-3 rounded-lg border p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {purchase.quantity > 1 && `${purchase.quantity} × `}
+                      {purchase.item}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {formatShortDate(purchase.purchased_at)}
+                      {' · '}
+                      {component?.name || getCategoryDisplayName(purchase.category)}
+                      {purchase.vendor && ` · ${purchase.vendor}`}
+                      {purchase.log_id && ' · linked to replacement'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <span className="text-sm font-medium mr-2">
+                      {formatMoney(purchase.price, purchase.currency)}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(purchase)}>
+                      Edit
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setDeleteTarget(purchase)}>
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => openDialog(null)}>
+            Record Purchase
+          </Button>
+          {purchases.length > RECENT_LIMIT && (
+            <Button variant="ghost" onClick={() => setShowAll(!showAll)}>
+              {showAll ? 'Show recent' : `Show all (${purchases.length})`}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      {/* Add/edit dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent onClose={() => setIsDialogOpen(false)}>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Purchase' : 'Record Purchase'}</DialogTitle>
+            <DialogDescription>
+              Link a purchase to a replacement to keep receipts with your maintenance history.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="py-4 space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="purchaseDate">Date</Label>
+                  <Input
+                    id="purchaseDate"
+                    type="date"
+                    value={form.purchasedAt}
+                    onChange={(e) => setForm({ ...form, purchasedAt: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="purchaseVendor">Vendor (optional)</Label>
+                  <Input
+                    id="purchaseVendor"
+                    value={form.vendor}
+                    onChange={(e) => setForm({ ...form, vendor: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="purchaseItem">Item</Label>
+                <Input
+                  id="purchaseItem"
+                  value={form.item}
+                  onChange={(e) => setForm({ ...form, item: e.target.value })}
+                  placeholder="e.g., AirFit F20 cushion (M)"
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="purchaseComponent">Component (optional)</Label>
+                  <Select
+                    id="purchaseComponent"
+                    value={form.componentId}
+                    onChange={(e) => handleComponentChange(e.target.value)}
+                    disabled={isSaving}
+                  >
+                    <option value="">None</option>
+                    {components.map((component) => (
+                      <option key={component.id} value={component.id}>
+                        {component.name}
+                        {component.archived_at ? ` (retired ${formatShortDate(component.archived_at)})` : ''}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="purchaseCategory">Category</Label>
+                  <Select
+                    id="purchaseCategory"
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value as Component['category'] })}
+                    disabled={isSaving || !!form.componentId}
+                  >
+                    {CATEGORIES.map((category) => (
+                      <option key={category} value={category}>
+                        {getCategoryDisplayName(category)}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+              {replacementLogs.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="purchaseLog">Replacement (optional)</Label>
+                  <Select
+                    id="purchaseLog"
+                    value={form.logId}
+                    onChange={(e) => setForm({ ...form, logId: e.target.value })}
+                    disabled={isSaving}
+                  >
+                    <option value="">Not linked</option>
+                    {replacementLogs.map((log) => (
+                      <option key={log.id} value={log.id}>
+                        Replaced {formatShortDate(log.completed_at)}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+              )}
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="purchaseQuantity">Quantity</Label>
+                  <Input
+                    id="purchaseQuantity"
+                    type="number"
+                    min="1"
+                    value={form.quantity}
+                    onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="purchasePrice">Total price</Label>
+                  <Input
+                    id="purchasePrice"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.price}
+                    onChange={(e) => setForm({ ...form, price: e.target.value })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="purchaseCurrency">Currency</Label>
+                  <Input
+                    id="purchaseCurrency"
+                    value={form.currency}
+                    onChange={(e) => setForm({ ...form, currency: e.target.value })}
+                    maxLength={3}
+                    disabled={isSaving}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="purchaseNotes">Notes (optional)</Label>
+                <Textarea
+                  id="purchaseNotes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={2}
+                  disabled={isSaving}
+                />
+              </div>
+              {error && <p className="text-xs text-red-500">{error}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation dialog */}
+      <Dialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent onClose={() => setDeleteTarget(null)}>
+          <DialogHeader>
+            <DialogTitle>Delete Purchase</DialogTitle>
+            <DialogDescription>
+              Delete the purchase of "{deleteTarget?.item}"? It will no longer count toward spend reports.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
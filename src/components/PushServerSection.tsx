@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { areNotificationsAllowed } from '@/lib/notifications';
+import {
+  connectPushServer,
+  disconnectPushServer,
+  getPushServerConnection,
+  isPushSupported,
+  syncPushSchedule,
+  type PushServerConnection,
+} from '@/lib/push-server';
+import { formatDateTime } from '@/lib/date-helpers';
+
+/**
+ * Connect to a self-hosted push server so reminders arrive on time while the app is closed
+ */
+export function PushServerSection() {
+  const [connection, setConnection] = useState<PushServerConnection | null>(null);
+  const [serverUrl, setServerUrl] = useState('');
+  const [apiToken, setApiToken] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPushServerConnection().then(setConnection);
+  }, []);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setConnection(await getPushServerConnection());
+      setIsBusy(false);
+    }
+  };
+
+  if (!areNotificationsAllowed()) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Push Server</CardTitle>
+        <CardDescription>
+          Optional: have your own server push reminders so they arrive on time while the app is closed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isPushSupported() ? (
+          <p className="text-sm text-muted-foreground">This browser doesn't support push messages.</p>
+        ) : connection ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm font-medium truncate">{connection.server_url}</p>
+              <Badge variant={connection.last_sync_error ? 'overdue' : 'ok'} className="flex-shrink-0">
+                {connection.last_sync_error ? 'Sync failed' : 'Connected'}
+              </Badge>
+            </div>
+            {connection.last_synced_at && (
+              <p className="text-xs text-muted-foreground">
+                {connection.last_sync_count} upcoming reminders uploaded {formatDateTime(connection.last_synced_at)}
+              </p>
+            )}
+            {connection.last_sync_error && (
+              <p className="text-xs text-red-600 dark:text-red-400">{connection.last_sync_error}</p>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => runAction(syncPushSchedule)} disabled={isBusy}>
+                Sync Now
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => runAction(disconnectPushServer)} disabled={isBusy}>
+                Disconnect
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="pushServerUrl">Server URL</Label>
+              <Input
+                id="pushServerUrl"
+                type="url"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                placeholder="https://push.example.com"
+                disabled={isBusy}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pushServerToken">Access Token</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="pushServerToken"
+                  type="password"
+                  value={apiToken}
+                  onChange={(e) => setApiToken(e.target.value)}
+                  placeholder="API_TOKEN from the server's .env"
+                  autoComplete="off"
+                  disabled={isBusy}
+                />
+                <Button
+                  onClick={() => runAction(() => connectPushServer(serverUrl, apiToken))}
+                  disabled={isBusy || !serverUrl.trim() || !apiToken.trim()}
+                >
+                  {isBusy ? 'Connecting...' : 'Connect'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <p className="text-xs text-muted-foreground">
+          Only reminder times and task names are sent to the server. Components, notes and history stay on
+          this device.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
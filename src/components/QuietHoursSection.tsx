@@ -0,0 +1,128 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAppStore, useSchedulableActions } from '@/lib/store';
+import { dbOperations } from '@/lib/db-operations';
+import type { QuietHours } from '@/lib/db';
+import { formatTime, getEffectiveQuietHours, isInQuietHours } from '@/lib/date-helpers';
+import { getReminderTimes } from '@/lib/notification-scheduler';
+
+// Number of upcoming actions shown in the preview
+const PREVIEW_LIMIT = 5;
+
+/**
+ * Quiet hours for reminders, with a preview of when upcoming reminders will arrive
+ */
+export function QuietHoursSection() {
+  const preferences = useAppStore((state) => state.preferences);
+  const components = useAppStore((state) => state.components);
+  const notificationConfigs = useAppStore((state) => state.notificationConfigs);
+  const refreshPreferences = useAppStore((state) => state.refreshPreferences);
+  const actions = useSchedulableActions();
+
+  const updateQuietHours = async (updates: { quiet_hours_enabled?: boolean; quiet_hours?: QuietHours }) => {
+    await dbOperations.preferences.update(updates);
+    await refreshPreferences();
+  };
+
+  const preview = useMemo(() => {
+    return actions
+      .filter((action) => action.next_due)
+      .map((action) => ({ action, config: notificationConfigs.find((c) => c.action_id === action.id) }))
+      .filter(({ config }) => config?.enabled !== false)
+      .sort((a, b) => a.action.next_due!.getTime() - b.action.next_due!.getTime())
+      .slice(0, PREVIEW_LIMIT)
+      .map(({ action, config }) => {
+        const quietHours = getEffectiveQuietHours(preferences, config);
+        const scheduled = getReminderTimes(action, config);
+
+        return {
+          action,
+          componentName: components.find((c) => c.id === action.component_id)?.name,
+          times: getReminderTimes(action, config, quietHours),
+          held: scheduled.filter((t) => isInQuietHours(t, quietHours)),
+          hasOverride: config?.quiet_hours !== undefined,
+        };
+      });
+  }, [actions, components, notificationConfigs, preferences]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Quiet Hours</CardTitle>
+        <CardDescription>
+          Hold reminders while you sleep and send them when quiet hours end
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="quietHoursEnabled"
+            checked={preferences.quiet_hours_enabled}
+            onChange={(e) => updateQuietHours({ quiet_hours_enabled: e.target.checked })}
+            className="h-4 w-4 rounded border-input"
+          />
+          <Label htmlFor="quietHoursEnabled" className="cursor-pointer">
+            Don't send reminders during quiet hours
+          </Label>
+        </div>
+
+        <div className="grid gap-4 grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="quietHoursStart">From</Label>
+            <Input
+              id="quietHoursStart"
+              type="time"
+              value={preferences.quiet_hours.start}
+              onChange={(e) => e.target.value && updateQuietHours({
+                quiet_hours: { ...preferences.quiet_hours, start: e.target.value },
+              })}
+              disabled={!preferences.quiet_hours_enabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quietHoursEnd">Until</Label>
+            <Input
+              id="quietHoursEnd"
+              type="time"
+              value={preferences.quiet_hours.end}
+              onChange={(e) => e.target.value && updateQuietHours({
+                quiet_hours: { ...preferences.quiet_hours, end: e.target.value },
+              })}
+              disabled={!preferences.quiet_hours_enabled}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Individual actions can use their own quiet hours in their notification settings.
+        </p>
+
+        {/* Preview of effective reminder times */}
+        {preview.length > 0 && (
+          <div className="space-y-2 pt-2 border-t">
+            <h4 className="text-sm font-medium">Upcoming reminders</h4>
+            <ul className="space-y-2">
+              {preview.map(({ action, componentName, times, held, hasOverride }) => (
+                <li key={action.id} className="text-sm">
+                  <p>
+                    {action.action_type}
+                    {componentName && <span className="text-muted-foreground"> · {componentName}</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(times[0], 'EEE, MMM d')}: {times.map((t) => formatTime(t)).join(', ')}
+                    {held.length > 0 &&
+                      ` (${held.map((t) => formatTime(t)).join(', ')} held until quiet hours end)`}
+                    {hasOverride && ' · own quiet hours'}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select } from '@/components/ui/select';
+import { useAppStore } from '@/lib/store';
+import {
+  REORDER_WINDOWS,
+  getReorderList,
+  groupReorderLines,
+  describeReorderLine,
+  formatReorderText,
+  formatReorderCSV,
+  buildReorderMailto,
+} from '@/lib/reorder';
+import { downloadCSV, downloadText } from '@/lib/export-import';
+import { formatShortDate, isOverdue } from '@/lib/date-helpers';
+
+export function ReorderList() {
+  const components = useAppStore((state) => state.components);
+  const actions = useAppStore((state) => state.maintenanceActions);
+  const suppliers = useAppStore((state) => state.suppliers);
+  const [days, setDays] = useState(30);
+  const [copied, setCopied] = useState(false);
+
+  const lines = useMemo(
+    () => getReorderList(components, actions, suppliers, days),
+    [components, actions, suppliers, days]
+  );
+  const groups = useMemo(() => groupReorderLines(lines), [lines]);
+  const date = new Date().toISOString().split('T')[0];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(formatReorderText(lines, days));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying reorder list:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Reorder List</CardTitle>
+            <CardDescription>Parts needed for upcoming replacements</CardDescription>
+          </div>
+          <Select
+            aria-label="Look ahead"
+            value={String(days)}
+            onChange={(e) => setDays(parseInt(e.target.value, 10))}
+            className="w-auto"
+          >
+            {REORDER_WINDOWS.map((window) => (
+              <option key={window} value={window}>
+                Next {window} days
+              </option>
+            ))}
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No replacements due in the next {days} days.
+          </p>
+        ) : (
+          <>
+            {groups.map((group) => (
+              <div key={group.supplier?.id ?? 'none'} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {group.supplier?.name ?? 'No supplier set'}
+                    </p>
+                    {group.supplier?.phone && (
+                      <p className="text-xs text-muted-foreground">{group.supplier.phone}</p>
+                    )}
+                  </div>
+                  <a href={buildReorderMailto(group.supplier, group.lines)} className="flex-shrink-0">
+                    <Button variant="outline" size="sm">
+                      Email Order
+                    </Button>
+                  </a>
+                </div>
+                <ul className="space-y-1">
+                  {group.lines.map((line) => (
+                    <li key={line.key} className="flex items-center justify-between gap-3 text-sm">
+                      <Link
+                        to={`/components/${line.components[0].id}`}
+                        className="min-w-0 truncate hover:underline"
+                      >
+                        {describeReorderLine(line)}
+                      </Link>
+                      <Badge variant={isOverdue(line.dueDate) ? 'overdue' : 'secondary'} className="flex-shrink-0">
+                        {isOverdue(line.dueDate) ? 'Overdue' : formatShortDate(line.dueDate)}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? 'Copied!' : 'Copy Text'}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadText(formatReorderText(lines, days), `cpap-reorder-list-${date}.txt`)}
+              >
+                Download Text
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => downloadCSV(formatReorderCSV(lines), `cpap-reorder-list-${date}.csv`)}
+              >
+                Download CSV
+              </Button>
+            </div>
+          </>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Set part numbers, sizes and suppliers when editing a component.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
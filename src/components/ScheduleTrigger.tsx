@@ -0,0 +1,45 @@
+import type { MaintenanceAction } from '@/lib/db';
+import { formatShortDate, getDueStatus } from '@/lib/date-helpers';
+import { getScheduleTrigger, getUseLimit, getUsesSinceCompletion } from '@/lib/scheduler';
+import { describeRecurrence, isValidRecurrence, parseRecurrence } from '@/lib/recurrence';
+
+interface ScheduleTriggerProps {
+  action: MaintenanceAction;
+  className?: string;
+}
+
+/**
+ * Describe an action's schedule and which limit sets its due date
+ * e.g. "Every 30 days or 30 nights · Use limit reached (30 of 30 nights)"
+ * or "Every month on the 1st · Next due Jun 1, 2026 by the day limit"
+ */
+export function ScheduleTrigger({ action, className = '' }: ScheduleTriggerProps) {
+  const useLimit = getUseLimit(action);
+  const trigger = getScheduleTrigger(action);
+  const isDue = action.next_due ? getDueStatus(action.next_due) !== 'ok' : false;
+
+  const days = action.recurrence && isValidRecurrence(action.recurrence)
+    ? describeRecurrence(parseRecurrence(action.recurrence))
+    : `Every ${action.schedule_frequency} days`;
+  const schedule = action.schedule_unit === 'uses'
+    ? `Every ${action.schedule_frequency} nights`
+    : useLimit !== undefined
+      ? `${days} or ${useLimit} nights, whichever comes first`
+      : days;
+
+  const limitName = trigger === 'uses' ? 'Use limit' : 'Day limit';
+  const usage = useLimit !== undefined
+    ? ` (${getUsesSinceCompletion(action)} of ${useLimit} nights used)`
+    : '';
+  const status = !action.next_due
+    ? 'Not scheduled yet'
+    : isDue
+      ? `${limitName} reached${usage}`
+      : `Next due ${formatShortDate(action.next_due)} by the ${limitName.toLowerCase()}${usage}`;
+
+  return (
+    <p className={`text-xs text-muted-foreground ${className}`}>
+      {schedule} · {status}
+    </p>
+  );
+}
@@ -0,0 +1,150 @@
+import { useMemo, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { getCategoryDisplayName } from '@/lib/component-templates';
+import { summarizeSpend, formatMoney, formatSpendPeriod, type SpendPeriod } from '@/lib/spending';
+import type { Component, Purchase } from '@/lib/db';
+
+interface SpendReportProps {
+  purchases: Purchase[];
+}
+
+const COLORS = ['#4F46E5', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#06B6D4', '#EC4899'];
+
+const CATEGORIES: Component['category'][] = [
+  'mask_cushion',
+  'mask_frame',
+  'tubing',
+  'water_chamber',
+  'filter',
+  'other',
+];
+
+// Months shown in the chart (the table lists every period)
+const CHART_MONTHS = 12;
+
+export function SpendReport({ purchases }: SpendReportProps) {
+  const [period, setPeriod] = useState<SpendPeriod>('month');
+
+  const rows = useMemo(() => summarizeSpend(purchases, period), [purchases, period]);
+
+  // Chart the currency with the most purchases; other currencies appear in the table only
+  const chartCurrency = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const purchase of purchases) {
+      counts.set(purchase.currency, (counts.get(purchase.currency) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+  }, [purchases]);
+
+  const chartData = useMemo(() => {
+    const currencyRows = rows.filter((row) => row.currency === chartCurrency);
+    const limited = period === 'month' ? currencyRows.slice(0, CHART_MONTHS) : currencyRows;
+    return limited.reverse().map((row) => ({
+      period: formatSpendPeriod(row.period),
+      ...row.byCategory,
+    }));
+  }, [rows, chartCurrency, period]);
+
+  const chartCategories = CATEGORIES.filter((category) =>
+    purchases.some((purchase) => purchase.category === category && purchase.currency === chartCurrency)
+  );
+
+  if (rows.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Spending</CardTitle>
+          <CardDescription>What your CPAP upkeep costs</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-center text-muted-foreground py-8">No purchases recorded</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">Spending</CardTitle>
+            <CardDescription>
+              {period === 'month' ? 'Monthly' : 'Yearly'} totals by category
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            <Button
+              variant={period === 'month' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setPeriod('month')}
+            >
+              Monthly
+            </Button>
+            <Button
+              variant={period === 'year' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setPeriod('year')}
+            >
+              Yearly
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ResponsiveContainer width="100%" height={220}>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+            <XAxis dataKey="period" tick={{ fontSize: 12 }} />
+            <YAxis tick={{ fontSize: 12 }} />
+            <Tooltip
+              formatter={(value, name) => [
+                formatMoney(Number(value), chartCurrency!),
+                getCategoryDisplayName(name as Component['category']),
+              ]}
+              contentStyle={{
+                backgroundColor: 'hsl(var(--card))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px',
+              }}
+            />
+            <Legend formatter={(value) => getCategoryDisplayName(value as Component['category'])} />
+            {chartCategories.map((category, index) => (
+              <Bar key={category} dataKey={category} stackId="spend" fill={COLORS[index % COLORS.length]} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+
+        <div className="divide-y rounded-lg border text-sm">
+          {rows.map((row) => (
+            <div key={`${row.period}-${row.currency}`} className="flex items-start justify-between gap-4 p-2">
+              <div className="min-w-0">
+                <p className="font-medium">{formatSpendPeriod(row.period)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {CATEGORIES.filter((category) => row.byCategory[category] !== undefined)
+                    .map((category) => `${getCategoryDisplayName(category)} ${formatMoney(row.byCategory[category]!, row.currency)}`)
+                    .join(' · ')}
+                </p>
+              </div>
+              <span className="font-medium flex-shrink-0">{formatMoney(row.total, row.currency)}</span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Default export for React.lazy dynamic import
+export default SpendReport;
@@ -0,0 +1,302 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useAppStore } from '@/lib/store';
+import { dbOperations } from '@/lib/db-operations';
+import type { Supplier } from '@/lib/db';
+
+interface SupplierFormState {
+  name: string;
+  phone: string;
+  email: string;
+  website: string;
+  accountNumber: string;
+  notes: string;
+}
+
+const EMPTY_FORM: SupplierFormState = {
+  name: '',
+  phone: '',
+  email: '',
+  website: '',
+  accountNumber: '',
+  notes: '',
+};
+
+/**
+ * Make a website entered without a scheme clickable
+ */
+function toWebsiteUrl(website: string): string {
+  return /^https?:\/\//i.test(website) ? website : `https://${website}`;
+}
+
+export function SuppliersSection() {
+  const suppliers = useAppStore((state) => state.suppliers);
+  const components = useAppStore((state) => state.components);
+  const refreshSuppliers = useAppStore((state) => state.refreshSuppliers);
+  const refreshComponents = useAppStore((state) => state.refreshComponents);
+
+  // Dialog state (editing is null when adding a new supplier)
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Supplier | null>(null);
+  const [form, setForm] = useState<SupplierFormState>(EMPTY_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<Supplier | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = (supplier: Supplier | null) => {
+    setEditing(supplier);
+    setForm(
+      supplier
+        ? {
+            name: supplier.name,
+            phone: supplier.phone || '',
+            email: supplier.email || '',
+            website: supplier.website || '',
+            accountNumber: supplier.account_number || '',
+            notes: supplier.notes || '',
+          }
+        : EMPTY_FORM
+    );
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (form.email.trim() && !/^[^\s@]+@[^\s@]+$/.test(form.email.trim())) {
+      setError('Email address looks incomplete');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const values = {
+        name: form.name.trim(),
+        phone: form.phone.trim() || undefined,
+        email: form.email.trim() || undefined,
+        website: form.website.trim() || undefined,
+        account_number: form.accountNumber.trim() || undefined,
+        notes: form.notes.trim() || undefined,
+      };
+      if (editing) {
+        await dbOperations.suppliers.update(editing.id!, values);
+      } else {
+        await dbOperations.suppliers.create(values);
+      }
+      await refreshSuppliers();
+      setIsDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save supplier');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setIsSaving(true);
+    try {
+      await dbOperations.suppliers.delete(deleteTarget.id!);
+      await Promise.all([refreshSuppliers(), refreshComponents()]);
+      setDeleteTarget(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteTargetParts = deleteTarget
+    ? components.filter((c) => c.supplier_id === deleteTarget.id).length
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Suppliers</CardTitle>
+        <CardDescription>
+          Who you order parts from, so the reorder list knows who to contact
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {suppliers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No suppliers added yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {suppliers.map((supplier) => (
+              <div
+                key={supplier.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{supplier.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {[
+                      supplier.phone && (
+                        <a key="phone" href={`tel:${supplier.phone}`} className="hover:underline">
+                          {supplier.phone}
+                        </a>
+                      ),
+                      supplier.email && (
+                        <a key="email" href={`mailto:${supplier.email}`} className="hover:underline">
+                          {supplier.email}
+                        </a>
+                      ),
+                      supplier.website && (
+                        <a
+                          key="website"
+                          href={toWebsiteUrl(supplier.website)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:underline"
+                        >
+                          {supplier.website}
+                        </a>
+                      ),
+                      supplier.account_number && <span key="account">Account {supplier.account_number}</span>,
+                    ]
+                      .filter(Boolean)
+                      .flatMap((item, index) => (index > 0 ? [' · ', item] : [item]))}
+                  </p>
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(supplier)}>
+                    Edit
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setDeleteTarget(supplier)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <Button variant="outline" onClick={() => openDialog(null)}>
+          Add Supplier
+        </Button>
+      </CardContent>
+
+      {/* Add/edit dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent onClose={() => setIsDialogOpen(false)}>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+            <DialogDescription>
+              Your DME company, pharmacy or online store.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplierName">Name</Label>
+              <Input
+                id="supplierName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Acme Medical Supply"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="supplierPhone">Phone</Label>
+                <Input
+                  id="supplierPhone"
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplierEmail">Email</Label>
+                <Input
+                  id="supplierEmail"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="supplierWebsite">Website</Label>
+                <Input
+                  id="supplierWebsite"
+                  value={form.website}
+                  onChange={(e) => setForm({ ...form, website: e.target.value })}
+                  placeholder="e.g., acmemedical.com"
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplierAccount">Account number</Label>
+                <Input
+                  id="supplierAccount"
+                  value={form.accountNumber}
+                  onChange={(e) => setForm({ ...form, accountNumber: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplierNotes">Notes (optional)</Label>
+              <Textarea
+                id="supplierNotes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+                disabled={isSaving}
+              />
+            </div>
+            {error && <p className="text-xs text-red-500">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation dialog */}
+      <Dialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent onClose={() => setDeleteTarget(null)}>
+          <DialogHeader>
+            <DialogTitle>Delete Supplier</DialogTitle>
+            <DialogDescription>
+              Remove "{deleteTarget?.name}" from your suppliers?
+              {deleteTargetParts > 0 &&
+                ` ${deleteTargetParts} component${deleteTargetParts === 1 ? '' : 's'} will keep their part details without a supplier.`}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
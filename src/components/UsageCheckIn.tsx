@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/lib/store';
+import { logNight, getLastNightKey, isUsageTracked } from '@/lib/usage-journal';
+
+/**
+ * Morning prompt to log last night in the usage journal
+ * Shown only while usage-tracked components exist, last night is unlogged and
+ * nights aren't being assumed used
+ */
+export function UsageCheckIn() {
+  const components = useAppStore((state) => state.components);
+  const usageJournal = useAppStore((state) => state.usageJournal);
+  const assumeSince = useAppStore((state) => state.preferences.assume_nightly_use_since);
+  const refreshUsageJournal = useAppStore((state) => state.refreshUsageJournal);
+  const refreshComponents = useAppStore((state) => state.refreshComponents);
+  const refreshMaintenanceActions = useAppStore((state) => state.refreshMaintenanceActions);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const lastNight = getLastNightKey();
+  const hasUsageTracking = components.some(isUsageTracked);
+  const isLogged = usageJournal.some((entry) => entry.date === lastNight);
+
+  if (!hasUsageTracking || isLogged || assumeSince) return null;
+
+  const handleLog = async (used: boolean) => {
+    setIsSaving(true);
+    try {
+      await logNight(lastNight, used);
+      await Promise.all([refreshUsageJournal(), refreshComponents(), refreshMaintenanceActions()]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-3 p-3 mb-4 rounded-lg border bg-muted/30">
+      <p className="text-sm font-medium">Did you use your CPAP last night?</p>
+      <div className="flex gap-2 flex-shrink-0">
+        <Button size="sm" onClick={() => handleLog(true)} disabled={isSaving}>
+          Yes
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => handleLog(false)} disabled={isSaving}>
+          No
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAppStore } from '@/lib/store';
+import {
+  logNight,
+  deleteNight,
+  getLastNightKey,
+  setAssumeNightlyUse,
+  summarizeUsage,
+  toNightKey,
+} from '@/lib/usage-journal';
+import type { UsageEntry } from '@/lib/db';
+
+// Nights shown before "Show all"
+const RECENT_LIMIT = 14;
+
+/**
+ * Nightly usage journal: log nights, correct them, and review which nights the machine was used
+ */
+export function UsageJournal() {
+  const usageJournal = useAppStore((state) => state.usageJournal);
+  const assumeSince = useAppStore((state) => state.preferences.assume_nightly_use_since);
+  const refreshUsageJournal = useAppStore((state) => state.refreshUsageJournal);
+  const refreshComponents = useAppStore((state) => state.refreshComponents);
+  const refreshMaintenanceActions = useAppStore((state) => state.refreshMaintenanceActions);
+  const refreshPreferences = useAppStore((state) => state.refreshPreferences);
+
+  const [night, setNight] = useState(getLastNightKey());
+  const [hours, setHours] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const summary = useMemo(() => summarizeUsage(usageJournal, 30), [usageJournal]);
+
+  const refresh = () =>
+    Promise.all([refreshUsageJournal(), refreshComponents(), refreshMaintenanceActions()]);
+
+  const handleLog = async (used: boolean) => {
+    const parsedHours = hours ? parseFloat(hours) : undefined;
+    if (!night || night > toNightKey(new Date())) {
+      setError('Pick tonight or an earlier night');
+      return;
+    }
+    if (parsedHours !== undefined && (isNaN(parsedHours) || parsedHours < 0 || parsedHours > 24)) {
+      setError('Hours must be between 0 and 24');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await logNight(night, used, parsedHours);
+      await refresh();
+      setHours('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log night');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (entry: UsageEntry) => {
+    setIsSaving(true);
+    try {
+      await logNight(entry.date, !entry.used);
+      await refresh();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: UsageEntry) => {
+    setIsSaving(true);
+    try {
+      await deleteNight(entry);
+      await refresh();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAssumeChange = async (enabled: boolean) => {
+    await setAssumeNightlyUse(enabled);
+    await refreshPreferences();
+  };
+
+  const visibleEntries = showAll ? usageJournal : usageJournal.slice(0, RECENT_LIMIT);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Usage Journal</CardTitle>
+        <CardDescription>
+          {summary.logged > 0
+            ? `Used ${summary.used} of the last 30 nights${
+                summary.averageHours !== undefined ? ` · ${summary.averageHours.toFixed(1)} h average` : ''
+              }`
+            : 'Log the nights you use your machine to drive usage-based schedules'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Log a night */}
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="usageNight" className="text-xs">Night of</Label>
+            <Input
+              id="usageNight"
+              type="date"
+              value={night}
+              max={toNightKey(new Date())}
+              onChange={(e) => setNight(e.target.value)}
+              className="w-40"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="usageHours" className="text-xs">Hours (optional)</Label>
+            <Input
+              id="usageHours"
+              type="number"
+              min="0"
+              max="24"
+              step="0.5"
+              value={hours}
+              onChange={(e) => setHours(e.target.value)}
+              className="w-24"
+              disabled={isSaving}
+            />
+          </div>
+          <Button onClick={() => handleLog(true)} disabled={isSaving}>
+            Used
+          </Button>
+          <Button variant="outline" onClick={() => handleLog(false)} disabled={isSaving}>
+            Not used
+          </Button>
+        </div>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="assumeNightlyUse"
+            checked={Boolean(assumeSince)}
+            onChange={(e) => handleAssumeChange(e.target.checked)}
+            className="h-4 w-4 rounded border-input"
+          />
+          <Label htmlFor="assumeNightlyUse" className="cursor-pointer">
+            Assume used every night unless I say otherwise
+          </Label>
+        </div>
+
+        {/* Nights */}
+        {usageJournal.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No nights logged yet.</p>
+        ) : (
+          <div className="divide-y rounded-lg border text-sm">
+            {visibleEntries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-3 p-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium">{format(parseISO(entry.date), 'EEE, MMM d, yyyy')}</span>
+                  <Badge variant={entry.used ? 'ok' : 'secondary'}>
+                    {entry.used ? 'Used' : 'Not used'}
+                  </Badge>
+                  {entry.hours !== undefined && (
+                    <span className="text-xs text-muted-foreground">{entry.hours} h</span>
+                  )}
+                  {entry.ahi !== undefined && (
+                    <span className="text-xs text-muted-foreground">AHI {entry.ahi}</span>
+                  )}
+                  {entry.leak_95 !== undefined && (
+                    <span className="text-xs text-muted-foreground">95% leak {entry.leak_95} L/min</span>
+                  )}
+                  {entry.source === 'assumed' && (
+                    <span className="text-xs text-muted-foreground">assumed</span>
+                  )}
+                  {entry.source === 'device' && (
+                    <span className="text-xs text-muted-foreground">from machine</span>
+                  )}
+                </div>
+                <div className="flex gap-1 flex-shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => handleToggle(entry)} disabled={isSaving}>
+                    {entry.used ? 'Mark not used' : 'Mark used'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(entry)} disabled={isSaving}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {usageJournal.length > RECENT_LIMIT && (
+          <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Show recent' : `Show all (${usageJournal.length})`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,41 @@
+import type { MaintenanceAction } from '@/lib/db';
+import { getUseLimit, getUsesSinceCompletion } from '@/lib/scheduler';
+
+interface UsageProgressProps {
+  action: MaintenanceAction;
+  label?: string;
+  className?: string;
+}
+
+/**
+ * Progress toward an action's use limit ("Used 23 of 30 nights")
+ * Renders nothing for actions without a use limit
+ */
+export function UsageProgress({ action, label, className = '' }: UsageProgressProps) {
+  const limit = getUseLimit(action);
+  if (limit === undefined) return null;
+
+  const uses = getUsesSinceCompletion(action);
+  const percent = Math.min(100, Math.round((uses / limit) * 100));
+  const barColor = uses >= limit ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-primary';
+
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground mb-1">
+        <span className="truncate">{label}</span>
+        <span className="flex-shrink-0">
+          Used {uses} of {limit} {limit === 1 ? 'night' : 'nights'}
+        </span>
+      </div>
+      <div
+        className="h-2 w-full rounded-full bg-muted overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={limit}
+        aria-valuenow={Math.min(uses, limit)}
+      >
+        <div className={`h-full rounded-full ${barColor}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import * as React from "react"
 import { cn } from "@/lib/utils"
+import { ProfileSwitcher } from "@/components/ProfileSwitcher"
 
 export interface HeaderProps extends React.HTMLAttributes<HTMLElement> {
   title?: string
@@ -15,16 +16,21 @@ const Header = React.forwardRef<HTMLElement, HeaderProps>(
         {...props}
       >
         <div className="container mx-auto px-4 py-6">
-          {title && (
-            <h1 className="text-3xl font-bold text-foreground">
-              {title}
-            </h1>
-          )}
-          {description && (
-            <p className="text-muted-foreground mt-2">
-              {description}
-            </p>
-          )}
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              {title && (
+                <h1 className="text-3xl font-bold text-foreground">
+                  {title}
+                </h1>
+              )}
+              {description && (
+                <p className="text-muted-foreground mt-2">
+                  {description}
+                </p>
+              )}
+            </div>
+            <ProfileSwitcher />
+          </div>
           {children}
         </div>
       </header>
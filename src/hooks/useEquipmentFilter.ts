@@ -0,0 +1,52 @@
+import { useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { Component } from '@/lib/db';
+
+/**
+ * Filter value for components that don't belong to any machine
+ */
+export const UNASSIGNED_EQUIPMENT = 'none';
+
+/**
+ * Check if a component matches a machine filter (null matches everything)
+ */
+export function matchesEquipmentFilter(
+  component: Component | undefined,
+  equipmentId: string | null
+): boolean {
+  if (!equipmentId) return true;
+  if (!component) return false;
+  if (equipmentId === UNASSIGNED_EQUIPMENT) return !component.equipment_id;
+  return component.equipment_id === equipmentId;
+}
+
+/**
+ * Machine filter stored in the `machine` URL param so it survives navigation
+ */
+export function useEquipmentFilter(): {
+  equipmentId: string | null;
+  setEquipmentId: (equipmentId: string | null) => void;
+} {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const equipmentId = searchParams.get('machine') || null;
+
+  const setEquipmentId = useCallback(
+    (value: string | null) => {
+      setSearchParams(
+        (prev) => {
+          const params = new URLSearchParams(prev);
+          if (value) {
+            params.set('machine', value);
+          } else {
+            params.delete('machine');
+          }
+          return params;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return { equipmentId, setEquipmentId };
+}
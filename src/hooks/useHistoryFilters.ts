@@ -1,8 +1,10 @@
 import { useState, useMemo, useCallback, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import type { MaintenanceLog, Component, MaintenanceAction } from '@/lib/db';
+import { matchesEquipmentFilter } from './useEquipmentFilter';
 
 export interface HistoryFilters {
+  equipmentId: string | null;
   componentId: string | null;
   actionType: string | null;
   dateRange: 'all' | '7d' | '30d' | '90d' | '1y';
@@ -18,6 +20,7 @@ export interface UseHistoryFiltersResult {
 }
 
 const DEFAULT_FILTERS: HistoryFilters = {
+  equipmentId: null,
   componentId: null,
   actionType: null,
   dateRange: '30d',
@@ -44,12 +47,13 @@ function getDateRangeStart(range: HistoryFilters['dateRange']): Date | null {
 export function useHistoryFilters(
   logs: MaintenanceLog[],
   actions: MaintenanceAction[],
-  _components: Component[]
+  components: Component[]
 ): UseHistoryFiltersResult {
   const [searchParams, setSearchParams] = useSearchParams();
 
   // Initialize filters from URL params
   const [filters, setFilters] = useState<HistoryFilters>(() => ({
+    equipmentId: searchParams.get('machine') || null,
     componentId: searchParams.get('component') || null,
     actionType: searchParams.get('action') || null,
     dateRange: (searchParams.get('range') as HistoryFilters['dateRange']) || DEFAULT_FILTERS.dateRange,
@@ -59,6 +63,7 @@ export function useHistoryFilters(
   // Sync filters to URL params
   useEffect(() => {
     const params = new URLSearchParams();
+    if (filters.equipmentId) params.set('machine', filters.equipmentId);
     if (filters.componentId) params.set('component', filters.componentId);
     if (filters.actionType) params.set('action', filters.actionType);
     if (filters.dateRange !== DEFAULT_FILTERS.dateRange) params.set('range', filters.dateRange);
@@ -88,10 +93,22 @@ export function useHistoryFilters(
     return new Map(actions.map((a) => [a.id, a]));
   }, [actions]);
 
+  // Create component lookup map
+  const componentMap = useMemo(() => {
+    return new Map(components.map((c) => [c.id, c]));
+  }, [components]);
+
   // Apply filters to logs
   const filteredLogs = useMemo(() => {
     let result = [...logs];
 
+    // Filter by machine
+    if (filters.equipmentId) {
+      result = result.filter((log) =>
+        matchesEquipmentFilter(componentMap.get(log.component_id), filters.equipmentId)
+      );
+    }
+
     // Filter by component
     if (filters.componentId) {
       result = result.filter((log) => log.component_id === filters.componentId);
@@ -120,7 +137,7 @@ export function useHistoryFilters(
     result.sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
 
     return result;
-  }, [logs, filters, actionMap]);
+  }, [logs, filters, actionMap, componentMap]);
 
   return {
     filters,
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { subDays } from 'date-fns';
+import { useAppStore } from '@/lib/store';
+import { getNotificationHistory, type NotificationHistoryEntry } from '@/lib/notifications';
+import { getMissedReminders, type MissedReminder } from '@/lib/notification-scheduler';
+
+/**
+ * The active profile's recent notifications, and the reminders among them
+ * that were missed
+ *
+ * @param days - How many days of history to load
+ */
+export function useNotificationHistory(days: number): {
+  history: NotificationHistoryEntry[];
+  missed: MissedReminder[];
+  isLoading: boolean;
+  reload: () => Promise<void>;
+} {
+  const activeProfileId = useAppStore((state) => state.activeProfileId);
+  const maintenanceActions = useAppStore((state) => state.maintenanceActions);
+  const [history, setHistory] = useState<NotificationHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setHistory(await getNotificationHistory(subDays(new Date(), days), activeProfileId));
+    setIsLoading(false);
+  }, [days, activeProfileId]);
+
+  // Actions change when a reminder is answered from a notification, so reload with them
+  useEffect(() => {
+    reload();
+  }, [reload, maintenanceActions]);
+
+  const missed = useMemo(() => getMissedReminders(history, maintenanceActions), [history, maintenanceActions]);
+
+  return { history, missed, isLoading, reload };
+}
@@ -112,7 +112,7 @@ export async function clearAllData(): Promise<void> {
   const components = await dbOperations.components.getAll();
   for (const component of components) {
     if (component.id) {
-      await dbOperations.components.delete(component.id);
+      await dbOperations.components.purge(component.id);
     }
   }
 
@@ -166,7 +166,7 @@ export async function testComponentOperations(): Promise<void> {
   console.log('✓ Toggle Active:', toggled?.is_active);
 
   // Delete
-  await dbOperations.components.delete(componentId);
+  await dbOperations.components.purge(componentId);
   const deleted = await dbOperations.components.getById(componentId);
   console.log('✓ Delete:', deleted === undefined ? 'Success' : 'Failed');
 
@@ -221,7 +221,7 @@ export async function testSchedulingLogic(): Promise<void> {
   console.log('✓ Actions needing attention:', needsAttention.length);
 
   // Cleanup
-  await dbOperations.components.delete(componentId);
+  await dbOperations.components.purge(componentId);
   console.log('✓ Cleaned up test data');
 
   console.log('✅ Scheduling logic tests complete\n');
@@ -257,6 +257,7 @@ export async function testMaintenanceLogOperations(): Promise<void> {
     component_id: componentId,
     action_id: actionId,
     completed_at: new Date(),
+    outcome: 'completed',
     was_overdue: false,
     notes: 'First log entry',
     logged_by: 'user',
@@ -266,6 +267,7 @@ export async function testMaintenanceLogOperations(): Promise<void> {
     component_id: componentId,
     action_id: actionId,
     completed_at: new Date(),
+    outcome: 'completed',
     was_overdue: true,
     notes: 'Second log entry (overdue)',
     logged_by: 'user',
@@ -290,7 +292,7 @@ export async function testMaintenanceLogOperations(): Promise<void> {
   console.log('✓ Get overdue logs:', overdueLogs.length);
 
   // Cleanup
-  await dbOperations.components.delete(componentId);
+  await dbOperations.components.purge(componentId);
   console.log('✓ Cleaned up test data');
 
   console.log('✅ Maintenance log tests complete\n');
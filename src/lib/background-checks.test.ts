@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db } from './db';
+import { dbOperations } from './db-operations';
+import { scheduleUpcomingReminders } from './background-checks';
+import { checkAndNotify } from './notification-scheduler';
+import { clearNotificationRecords, getNotificationHistory, getReminderCount } from './notifications';
+
+class FakeNotification {
+  static permission = 'granted';
+  onclick: (() => void) | null = null;
+  close() {}
+}
+
+class FakeTimestampTrigger {
+  constructor(public timestamp: number) {}
+}
+
+function fakeRegistration() {
+  const scheduled: Array<{ title: string; options: { showTrigger: FakeTimestampTrigger } }> = [];
+  const registration = {
+    getNotifications: async () => [],
+    showNotification: async (title: string, options: { showTrigger: FakeTimestampTrigger }) => {
+      scheduled.push({ title, options });
+    },
+  } as unknown as ServiceWorkerRegistration;
+  return { registration, scheduled };
+}
+
+async function createDueClean(): Promise<string> {
+  const componentId = await dbOperations.components.create({
+    name: 'Water Chamber',
+    category: 'water_chamber',
+    tracking_mode: 'calendar',
+    usage_count: 0,
+    is_active: true,
+  });
+  return await dbOperations.maintenanceActions.create({
+    component_id: componentId,
+    action_type: 'Weekly Clean',
+    description: 'Clean the tank',
+    schedule_frequency: 7,
+    schedule_unit: 'days',
+    notification_time: '21:00',
+    reminder_strategy: 'standard',
+    next_due: new Date(2025, 5, 1, 21, 0),
+  });
+}
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+  await clearNotificationRecords();
+  vi.stubGlobal('Notification', FakeNotification);
+  vi.stubGlobal('TimestampTrigger', FakeTimestampTrigger);
+  // Only the clock is faked so IndexedDB callbacks still run
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('notification triggers', () => {
+  it('should count a triggered reminder as sent so the app does not send it again', async () => {
+    const actionId = await createDueClean();
+
+    vi.setSystemTime(new Date(2025, 5, 1, 20, 0));
+    const { registration, scheduled } = fakeRegistration();
+    expect(await scheduleUpcomingReminders(registration)).toBe(1);
+    expect(scheduled[0].options.showTrigger.timestamp).toBe(new Date(2025, 5, 1, 21, 0).getTime());
+    // Not sent yet
+    expect(await getNotificationHistory()).toEqual([]);
+
+    // The app opens after the trigger went off
+    vi.setSystemTime(new Date(2025, 5, 1, 21, 10));
+    expect(await checkAndNotify()).toBe(0);
+    expect(await getReminderCount(actionId)).toBe(1);
+    const history = await getNotificationHistory();
+    expect(history.map((entry) => [entry.title, entry.sent_at])).toEqual([
+      ['Due Now: Weekly Clean', new Date(2025, 5, 1, 21, 0)],
+    ]);
+  });
+
+  it('should forget reminders whose triggers were replaced before going off', async () => {
+    const actionId = await createDueClean();
+
+    vi.setSystemTime(new Date(2025, 5, 1, 20, 0));
+    await scheduleUpcomingReminders(fakeRegistration().registration);
+    // Moved to next week before the reminder went off
+    await dbOperations.maintenanceActions.update(actionId, { next_due: new Date(2025, 5, 8, 21, 0) });
+    await scheduleUpcomingReminders(fakeRegistration().registration);
+
+    vi.setSystemTime(new Date(2025, 5, 1, 21, 10));
+    expect(await getNotificationHistory()).toEqual([]);
+  });
+});
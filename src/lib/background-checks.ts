@@ -0,0 +1,233 @@
+/**
+ * Background Due Checks
+ *
+ * The page's NotificationScheduler only runs while a tab is open. So that
+ * reminders still arrive when the app is closed, the service worker takes
+ * over in whichever way the browser supports:
+ * - Periodic Background Sync wakes the service worker to run the same due
+ *   check as the page (installed app in Chromium browsers; the browser
+ *   decides how often)
+ * - Otherwise Notification Triggers schedule each action's next reminder
+ *   ahead of time; they are rescheduled whenever the schedule changes, and
+ *   join the notification history once their time has passed
+ * - Otherwise reminders only arrive while the app is open
+ *
+ * Runs in both the page and the service worker.
+ */
+
+import { addDays } from 'date-fns';
+import { getUpcomingReminders } from './notification-scheduler';
+import {
+  cancelScheduledNotifications,
+  getActiveServiceWorkerRegistration,
+  getMaintenanceNotificationOptions,
+  getReminderNotificationOptions,
+  getServiceWorkerRegistration,
+  recordNotificationScheduled,
+} from './notifications';
+import { profileOperations } from './profiles';
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+export type BackgroundCheckMode = 'periodic-sync' | 'notification-triggers' | 'open-app';
+
+export interface BackgroundCheckCapabilities {
+  serviceWorker: boolean;
+  periodicSync: boolean;
+  periodicSyncPermission: PermissionState | null; // null when it can't be queried
+  notificationTriggers: boolean;
+}
+
+// Tag of the periodic sync registration that runs due checks
+export const DUE_CHECK_SYNC_TAG = 'cpap-due-check';
+
+// Shortest gap between periodic checks we ask for (browsers often wait longer)
+const DUE_CHECK_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+// How far ahead reminders are scheduled with Notification Triggers
+const SCHEDULE_AHEAD_DAYS = 7;
+
+// Periodic Background Sync and Notification Triggers aren't in the DOM typings yet
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval?: number }): Promise<void>;
+  getTags(): Promise<string[]>;
+}
+
+type TimestampTriggerConstructor = new (timestamp: number) => unknown;
+
+function getPeriodicSync(registration: ServiceWorkerRegistration): PeriodicSyncManager | undefined {
+  return (registration as ServiceWorkerRegistration & { periodicSync?: PeriodicSyncManager }).periodicSync;
+}
+
+function getTimestampTrigger(): TimestampTriggerConstructor | undefined {
+  return (globalThis as unknown as { TimestampTrigger?: TimestampTriggerConstructor }).TimestampTrigger;
+}
+
+// ============================================================================
+// Capabilities
+// ============================================================================
+
+/**
+ * Check which background checking features this browser offers
+ */
+export async function getBackgroundCheckCapabilities(): Promise<BackgroundCheckCapabilities> {
+  const serviceWorker = typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+  const periodicSync = typeof ServiceWorkerRegistration !== 'undefined' &&
+    'periodicSync' in ServiceWorkerRegistration.prototype;
+
+  let periodicSyncPermission: PermissionState | null = null;
+  if (periodicSync && navigator.permissions) {
+    try {
+      const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+      periodicSyncPermission = status.state;
+    } catch {
+      periodicSyncPermission = null;
+    }
+  }
+
+  return {
+    serviceWorker,
+    periodicSync,
+    periodicSyncPermission,
+    notificationTriggers: typeof Notification !== 'undefined' &&
+      'showTrigger' in Notification.prototype &&
+      getTimestampTrigger() !== undefined,
+  };
+}
+
+/**
+ * Work out how reminders reach the user while the app is closed
+ */
+export async function getBackgroundCheckMode(
+  registration?: ServiceWorkerRegistration | null
+): Promise<BackgroundCheckMode> {
+  const periodicSync = registration && getPeriodicSync(registration);
+  if (periodicSync) {
+    try {
+      if ((await periodicSync.getTags()).includes(DUE_CHECK_SYNC_TAG)) {
+        return 'periodic-sync';
+      }
+    } catch {
+      // Fall through to the next option
+    }
+  }
+
+  const capabilities = await getBackgroundCheckCapabilities();
+  return capabilities.serviceWorker && capabilities.notificationTriggers ? 'notification-triggers' : 'open-app';
+}
+
+// ============================================================================
+// Setup
+// ============================================================================
+
+/**
+ * Set up due checks that run while the app is closed
+ * Call on startup once notifications are allowed; safe to call repeatedly
+ *
+ * @returns How reminders will arrive while the app is closed
+ */
+export async function enableBackgroundChecks(): Promise<BackgroundCheckMode> {
+  const registration = await getServiceWorkerRegistration();
+  if (!registration) {
+    return 'open-app';
+  }
+
+  const periodicSync = getPeriodicSync(registration);
+  const { periodicSyncPermission } = await getBackgroundCheckCapabilities();
+  if (periodicSync && periodicSyncPermission === 'granted') {
+    try {
+      await periodicSync.register(DUE_CHECK_SYNC_TAG, { minInterval: DUE_CHECK_MIN_INTERVAL_MS });
+    } catch (error) {
+      console.error('Error registering periodic due check:', error);
+    }
+  }
+
+  const mode = await getBackgroundCheckMode(registration);
+  if (mode === 'notification-triggers') {
+    await scheduleUpcomingReminders(registration);
+  }
+  return mode;
+}
+
+/**
+ * Reschedule reminders after maintenance data changes
+ * Only does anything when reminders are scheduled ahead with Notification Triggers
+ */
+export async function refreshScheduledReminders(registration?: ServiceWorkerRegistration | null): Promise<void> {
+  const activeRegistration = registration ?? (await getActiveServiceWorkerRegistration());
+  if (activeRegistration && (await getBackgroundCheckMode(activeRegistration)) === 'notification-triggers') {
+    await scheduleUpcomingReminders(activeRegistration);
+  }
+}
+
+// ============================================================================
+// Notification Triggers
+// ============================================================================
+
+/**
+ * Replace scheduled reminders with each action's next reminder for the coming week
+ * (including the end of a snooze or the next day's reminder for an overdue action)
+ *
+ * @returns The number of reminders scheduled
+ */
+export async function scheduleUpcomingReminders(registration: ServiceWorkerRegistration): Promise<number> {
+  const TimestampTrigger = getTimestampTrigger();
+  if (!TimestampTrigger) return 0;
+
+  try {
+    // Cancel reminders that haven't gone off yet; ones already showing stay
+    const now = Date.now();
+    const existing = await registration.getNotifications({ includeTriggered: true } as GetNotificationOptions);
+    for (const notification of existing as Array<Notification & { timestamp: number }>) {
+      if (notification.data?.scheduled && notification.timestamp > now) {
+        notification.close();
+      }
+    }
+    await cancelScheduledNotifications();
+
+    const hasMultipleProfiles = (await profileOperations.getAll()).length > 1;
+    const reminders = await getUpcomingReminders(addDays(new Date(), SCHEDULE_AHEAD_DAYS));
+
+    for (const { item, at, reminderNumber, isOverdue, isRepeat } of reminders) {
+      const profileName = hasMultipleProfiles ? item.profile!.name : undefined;
+      // Worded as checkAndNotify would word a reminder shown at that time
+      const options = isOverdue && isRepeat
+        ? getReminderNotificationOptions(
+            item.action.id!,
+            item.action.action_type,
+            item.component.name,
+            reminderNumber,
+            item.profile!.id,
+            profileName
+          )
+        : getMaintenanceNotificationOptions(
+            item.action.id!,
+            item.action.action_type,
+            item.component.name,
+            isOverdue,
+            item.profile!.id,
+            profileName
+          );
+
+      await registration.showNotification(options.title, {
+        body: options.body,
+        icon: '/pwa-192x192.png',
+        badge: '/pwa-192x192.png',
+        tag: options.tag,
+        data: { ...options.data, scheduled: true },
+        requireInteraction: options.requireInteraction,
+        actions: options.actions,
+        showTrigger: new TimestampTrigger(at.getTime()),
+      } as NotificationOptions);
+      // Counted as sent once its time comes, so checkAndNotify doesn't send it again
+      await recordNotificationScheduled(item.action.id!, reminderNumber, options, at);
+    }
+
+    return reminders.length;
+  } catch (error) {
+    console.error('Error scheduling reminders:', error);
+    return 0;
+  }
+}
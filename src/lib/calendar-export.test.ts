@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { Component, MaintenanceAction } from './db';
+import { generateICS } from './calendar-export';
+
+const component: Component = {
+  id: 'component-1',
+  name: 'Water Chamber',
+  category: 'water_chamber',
+  tracking_mode: 'calendar',
+  usage_count: 0,
+  is_active: true,
+  created_at: new Date(2025, 0, 1),
+};
+
+function createAction(overrides: Partial<MaintenanceAction>): MaintenanceAction {
+  return {
+    id: 'action-1',
+    component_id: component.id!,
+    action_type: 'Weekly Clean',
+    description: 'Clean the tank',
+    schedule_frequency: 7,
+    schedule_unit: 'days',
+    reminder_strategy: 'gentle',
+    next_due: new Date(2025, 5, 1, 9, 0),
+    ...overrides,
+  };
+}
+
+// Unfold continuation lines before looking at events
+function getEvents(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('BEGIN:VEVENT').slice(1);
+}
+
+describe('generateICS', () => {
+  it('should turn each action into a recurring event with its reminders as alarms', () => {
+    const ics = generateICS(
+      {
+        components: [component],
+        actions: [
+          createAction({
+            notification_time: '21:00',
+            reminder_strategy: 'standard',
+            instructions: 'Soak in warm, soapy water; rinse well',
+          }),
+          createAction({ id: 'action-2', action_type: 'Sunday Soak', recurrence: 'FREQ=WEEKLY;BYDAY=SU' }),
+          createAction({ id: 'action-3', action_type: 'Replace', schedule_unit: 'uses', schedule_frequency: 30 }),
+        ],
+        notificationConfigs: [],
+      },
+      new Date(Date.UTC(2025, 4, 20, 12, 0))
+    );
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+
+    const [clean, soak, replace] = getEvents(ics);
+    expect(clean).toContain('UID:maintenance-action-1@cpap-maintenance-tracker');
+    expect(clean).toContain('DTSTAMP:20250520T120000Z');
+    expect(clean).toContain('DTSTART:20250601T210000');
+    expect(clean).toContain('RRULE:FREQ=DAILY;INTERVAL=7');
+    expect(clean).toContain('SUMMARY:Water Chamber: Weekly Clean');
+    expect(clean).toContain('DESCRIPTION:Clean the tank\\n\\nInstructions:\\nSoak in warm\\, soapy water\\; rinse well');
+    // Standard reminders: at the due time, then 4 and 8 hours later
+    expect(clean.match(/TRIGGER:[^\r]+/g)).toEqual(['TRIGGER:PT0M', 'TRIGGER:PT4H', 'TRIGGER:PT8H']);
+
+    expect(soak).toContain('DTSTART:20250601T090000');
+    expect(soak).toContain('RRULE:FREQ=WEEKLY;BYDAY=SU');
+
+    // Usage-based actions have no calendar pattern
+    expect(replace).not.toContain('RRULE');
+  });
+
+  it('should keep UIDs stable and leave out disabled reminders and archived components', () => {
+    const data = {
+      components: [component, { ...component, id: 'component-2', archived_at: new Date(2025, 0, 1) }],
+      actions: [
+        createAction({ description: 'x'.repeat(100) }),
+        createAction({ id: 'action-2', component_id: 'component-2' }),
+      ],
+      notificationConfigs: [
+        {
+          action_id: 'action-1',
+          enabled: false,
+          time: '08:00',
+          escalation_strategy: 'single_daily' as const,
+          escalation_intervals: [0],
+        },
+      ],
+    };
+
+    const first = generateICS(data, new Date(2025, 4, 20));
+    const second = generateICS(data, new Date(2025, 4, 21));
+    const uids = (ics: string) => ics.match(/UID:[^\r]+/g);
+    expect(uids(first)).toEqual(['UID:maintenance-action-1@cpap-maintenance-tracker']);
+    expect(uids(second)).toEqual(uids(first));
+
+    expect(first).toContain('DTSTART:20250601T080000');
+    expect(first).not.toContain('VALARM');
+
+    // Long lines are folded to 75 octets
+    for (const line of first.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(first).toContain('\r\n x');
+  });
+
+  it('should hold alarms past quiet hours and start recurring events on their pattern', () => {
+    const ics = generateICS({
+      components: [component],
+      actions: [
+        // Standard reminders at 20:00, 00:00 and 04:00
+        createAction({ notification_time: '20:00', reminder_strategy: 'standard' }),
+        // June 3, 2025 is a Tuesday, off the Sunday pattern
+        createAction({
+          id: 'action-2',
+          recurrence: 'FREQ=WEEKLY;BYDAY=SU',
+          next_due: new Date(2025, 5, 3, 9, 0),
+        }),
+      ],
+      notificationConfigs: [],
+      preferences: { quiet_hours_enabled: true, quiet_hours: { start: '22:00', end: '07:30' } },
+    });
+
+    const [evening, sunday] = getEvents(ics);
+    // Both night reminders move to the end of quiet hours and are only sent once
+    expect(evening.match(/TRIGGER:[^\r]+/g)).toEqual(['TRIGGER:PT0M', 'TRIGGER:PT11H30M']);
+
+    expect(sunday).toContain('DTSTART:20250608T090000');
+    expect(sunday).toContain('RRULE:FREQ=WEEKLY;BYDAY=SU');
+  });
+});
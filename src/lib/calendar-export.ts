@@ -0,0 +1,261 @@
+/**
+ * Calendar Export
+ *
+ * Builds an iCalendar (.ics) file of the maintenance schedule so tasks show up
+ * in the user's usual calendar app. Each action becomes one recurring event
+ * starting at its next due date, with an alarm for every reminder the app
+ * itself would send (held past quiet hours, as the app holds them). UIDs come
+ * from the action IDs, so importing a newer export updates the events instead
+ * of adding copies.
+ */
+
+import { differenceInMinutes, format } from 'date-fns';
+import { db } from './db';
+import type { Component, MaintenanceAction, NotificationConfig, UserPreferences } from './db';
+import { dbOperations, isComponentArchived } from './db-operations';
+import { getReminderIntervals } from './notification-scheduler';
+import { getEffectiveQuietHours, getEscalationNotificationTimes, setTime } from './date-helpers';
+import { formatRecurrence, getFirstOccurrence, isValidRecurrence, parseRecurrence } from './recurrence';
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+export interface CalendarExportData {
+  components: Component[];
+  actions: MaintenanceAction[];
+  notificationConfigs: NotificationConfig[];
+  preferences?: Pick<UserPreferences, 'quiet_hours_enabled' | 'quiet_hours'>; // For quiet hours
+}
+
+const PRODUCT_ID = '-//CPAP Maintenance Tracker//Maintenance Schedule//EN';
+const CALENDAR_NAME = 'CPAP Maintenance';
+const UID_DOMAIN = 'cpap-maintenance-tracker';
+
+// How long each event blocks out in the calendar
+const EVENT_DURATION = 'PT15M';
+
+// Content lines are folded to at most this many octets (RFC 5545 3.1)
+const MAX_LINE_OCTETS = 75;
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Escape a TEXT value (backslashes, semicolons, commas and newlines)
+ */
+export function escapeICSText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line longer than 75 octets onto continuation lines
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a date as a floating local DATE-TIME, so events follow the device's time zone
+ */
+function formatLocalDateTime(date: Date): string {
+  return format(date, "yyyyMMdd'T'HHmmss");
+}
+
+function formatUTCDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format minutes after the event start as an alarm trigger, e.g. "PT4H" or "PT9H30M"
+ */
+function formatTrigger(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `PT${rest}M`;
+  return rest === 0 ? `PT${hours}H` : `PT${hours}H${rest}M`;
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Get the RRULE value for an action's schedule
+ * Usage-based actions have no calendar pattern and export as a single event.
+ */
+export function getActionRecurrenceRule(action: MaintenanceAction): string | null {
+  // Rules the app can't schedule fall back to the frequency, as they do in the app
+  if (action.recurrence && isValidRecurrence(action.recurrence)) {
+    return formatRecurrence(parseRecurrence(action.recurrence));
+  }
+  if (action.schedule_unit !== 'days') return null;
+  return action.schedule_frequency === 1 ? 'FREQ=DAILY' : `FREQ=DAILY;INTERVAL=${action.schedule_frequency}`;
+}
+
+/**
+ * Get the stable UID for an action's event
+ */
+export function getActionEventUID(action: MaintenanceAction): string {
+  return `maintenance-${action.id}@${UID_DOMAIN}`;
+}
+
+/**
+ * Build the VEVENT lines for one action
+ */
+function buildActionEvent(
+  action: MaintenanceAction,
+  component: Component,
+  notificationConfig: NotificationConfig | undefined,
+  preferences: CalendarExportData['preferences'],
+  now: Date
+): string[] {
+  const time = notificationConfig?.time || action.notification_time || format(action.next_due!, 'HH:mm');
+  const rule = getActionRecurrenceRule(action);
+  // DTSTART must be an occurrence of the rule, or calendars show it as an extra one
+  const dueDate =
+    action.recurrence && isValidRecurrence(action.recurrence)
+      ? getFirstOccurrence(parseRecurrence(action.recurrence), action.next_due!)
+      : action.next_due!;
+  const start = setTime(dueDate, time);
+  const summary = `${component.name}: ${action.action_type}`;
+  const description = [action.description, action.instructions && `Instructions:\n${action.instructions}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getActionEventUID(action)}`,
+    `DTSTAMP:${formatUTCDateTime(now)}`,
+    `DTSTART:${formatLocalDateTime(start)}`,
+    `DURATION:${EVENT_DURATION}`,
+    `SUMMARY:${escapeICSText(summary)}`,
+  ];
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeICSText(description)}`);
+  }
+  if (rule) {
+    lines.push(`RRULE:${rule}`);
+  }
+  lines.push(`CATEGORIES:${escapeICSText(CALENDAR_NAME)}`);
+
+  // One alarm per reminder, unless reminders are off for this action
+  if (notificationConfig?.enabled !== false) {
+    const quietHours = preferences ? getEffectiveQuietHours(preferences, notificationConfig) : null;
+    const reminderTimes = getEscalationNotificationTimes(
+      start,
+      time,
+      getReminderIntervals(action, notificationConfig),
+      quietHours
+    );
+    reminderTimes.forEach((reminderTime, index) => {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER:${formatTrigger(differenceInMinutes(reminderTime, start))}`,
+        `DESCRIPTION:${escapeICSText(index === 0 ? summary : `Still due: ${summary}`)}`,
+        'END:VALARM'
+      );
+    });
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Generate an iCalendar file for the schedules of active components
+ * Actions without a due date and archived or inactive components are left out.
+ */
+export function generateICS(
+  { components, actions, notificationConfigs, preferences }: CalendarExportData,
+  now: Date = new Date()
+): string {
+  const componentMap = new Map(components.map((c) => [c.id, c]));
+  const configMap = new Map(notificationConfigs.map((nc) => [nc.action_id, nc]));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICSText(CALENDAR_NAME)}`,
+  ];
+
+  for (const action of actions) {
+    const component = componentMap.get(action.component_id);
+    if (!action.id || !action.next_due) continue;
+    if (!component || !component.is_active || isComponentArchived(component)) continue;
+
+    lines.push(...buildActionEvent(action, component, configMap.get(action.id), preferences, now));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Export the current profile's schedule as iCalendar
+ *
+ * @param componentId - Only export this component's actions
+ */
+export async function exportScheduleToICS(componentId?: string): Promise<string> {
+  const [components, actions, notificationConfigs, preferences] = await Promise.all([
+    db.components.toArray(),
+    db.maintenanceActions.toArray(),
+    db.notificationConfigs.toArray(),
+    dbOperations.preferences.get(),
+  ]);
+
+  return generateICS({
+    components,
+    actions: componentId ? actions.filter((a) => a.component_id === componentId) : actions,
+    notificationConfigs,
+    preferences,
+  });
+}
+
+/**
+ * Trigger a browser download for an iCalendar file
+ */
+export function downloadICS(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,80 @@
+/**
+ * Component Replacement Lineage
+ *
+ * Each physical instance of a part (e.g. one mask cushion) is its own Component.
+ * Replacing it archives the old instance and creates a successor that points
+ * back via replaced_from_id. These helpers walk that chain so the UI can show
+ * how long every instance actually lasted.
+ */
+
+import { differenceInDays } from 'date-fns';
+import type { Component } from './db';
+
+export interface LineageEntry {
+  component: Component;
+  serviceStart: Date;
+  serviceEnd?: Date; // Undefined while the instance is still in service
+  serviceDays: number;
+  isCurrent: boolean;
+}
+
+/**
+ * Get the number of days an instance was (or has been) in service
+ */
+export function getServiceDays(component: Component, now: Date = new Date()): number {
+  const end = component.archived_at || now;
+  return Math.max(0, differenceInDays(end, component.created_at));
+}
+
+/**
+ * Get every instance in a component's replacement chain, oldest first
+ */
+export function getComponentLineage(
+  componentId: string,
+  components: Component[],
+  now: Date = new Date()
+): LineageEntry[] {
+  const byId = new Map(components.map((c) => [c.id, c]));
+  const successorOf = new Map<string, Component>();
+  for (const component of components) {
+    if (component.replaced_from_id) {
+      successorOf.set(component.replaced_from_id, component);
+    }
+  }
+
+  const start = byId.get(componentId);
+  if (!start) return [];
+
+  // Walk back to the first instance (guarding against broken or circular links)
+  const visited = new Set<string>();
+  let root = start;
+  while (root.replaced_from_id && byId.has(root.replaced_from_id) && !visited.has(root.id!)) {
+    visited.add(root.id!);
+    root = byId.get(root.replaced_from_id)!;
+  }
+
+  // Walk forward through successors
+  const chain: Component[] = [];
+  const seen = new Set<string>();
+  let current: Component | undefined = root;
+  while (current && !seen.has(current.id!)) {
+    seen.add(current.id!);
+    chain.push(current);
+    current = successorOf.get(current.id!);
+  }
+
+  return chain.map((component) => ({
+    component,
+    serviceStart: component.created_at,
+    serviceEnd: component.archived_at,
+    serviceDays: getServiceDays(component, now),
+    isCurrent: !component.archived_at,
+  }));
+}
+
+/**
+ * Get the component that replaced this one, if any
+ */
+export function getSuccessor(componentId: string, components: Component[]): Component | undefined {
+  return components.find((c) => c.replaced_from_id === componentId);
+}
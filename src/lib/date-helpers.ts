@@ -14,6 +14,8 @@ import {
   parseISO,
   isValid,
 } from 'date-fns';
+import type { NotificationConfig, QuietHours, UserPreferences } from './db';
+import { getFirstOccurrence, getNextOccurrence, parseRecurrence } from './recurrence';
 
 // ============================================================================
 // Date Calculation Helpers
@@ -24,11 +26,14 @@ import {
  * This prevents schedule drift by always calculating from the original due date
  *
  * Example: Weekly clean due Monday, completed Wednesday → next due following Monday
+ * With a recurrence rule the next date follows the calendar pattern instead
+ * (e.g. the 1st of each month) rather than adding a fixed number of days.
  */
 export function calculateNextDueDate(
   originalDueDate: Date,
   frequency: number,
-  unit: 'days' | 'uses'
+  unit: 'days' | 'uses',
+  recurrence?: string
 ): Date {
   if (unit === 'uses') {
     // For usage-based tracking, we can't calculate automatically
@@ -39,10 +44,11 @@ export function calculateNextDueDate(
   // For calendar-based tracking
   const now = new Date();
   let nextDue = new Date(originalDueDate);
+  const rule = recurrence ? parseRecurrence(recurrence) : undefined;
 
   // Keep adding frequency until we're in the future
   while (isBefore(nextDue, now) || isToday(nextDue)) {
-    nextDue = addDays(nextDue, frequency);
+    nextDue = rule ? getNextOccurrence(rule, nextDue) : addDays(nextDue, frequency);
   }
 
   return nextDue;
@@ -51,11 +57,13 @@ export function calculateNextDueDate(
 /**
  * Calculate initial due date for a new maintenance action
  * Sets the first occurrence based on current time and notification time
+ * Recurring actions start on the first matching day, which may be today
  */
 export function calculateInitialDueDate(
   frequency: number,
   unit: 'days' | 'uses',
-  notificationTime?: string
+  notificationTime?: string,
+  recurrence?: string
 ): Date {
   const now = new Date();
 
@@ -66,7 +74,9 @@ export function calculateInitialDueDate(
   }
 
   // For calendar-based
-  let dueDate = addDays(now, frequency);
+  const dueDate = recurrence
+    ? getFirstOccurrence(parseRecurrence(recurrence), now)
+    : addDays(now, frequency);
 
   // If notification time is specified, set the time component
   if (notificationTime) {
@@ -258,19 +268,77 @@ export function shouldSendNotification(
 
 /**
  * Calculate escalation notification times
+ * With quiet hours, reminders inside the window move to its end; reminders
+ * that land on the same time are only sent once
  */
 export function getEscalationNotificationTimes(
   dueDate: Date,
   notificationTime: string,
-  escalationIntervals: number[]
+  escalationIntervals: number[],
+  quietHours?: QuietHours | null
 ): Date[] {
   const { hours, minutes } = parseTime(notificationTime);
   const baseNotificationTime = new Date(dueDate);
   baseNotificationTime.setHours(hours, minutes, 0, 0);
 
-  return escalationIntervals.map((intervalHours) => {
-    return addHours(baseNotificationTime, intervalHours);
+  const times = escalationIntervals.map((intervalHours) => {
+    return deferPastQuietHours(addHours(baseNotificationTime, intervalHours), quietHours);
   });
+  return times.filter((time, index) => index === 0 || time.getTime() !== times[index - 1].getTime());
+}
+
+// ============================================================================
+// Quiet Hours
+// ============================================================================
+
+function minutesOfDay(timeString: string): number {
+  const { hours, minutes } = parseTime(timeString);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check if a time falls inside quiet hours (the end time itself is not quiet)
+ */
+export function isInQuietHours(date: Date, quietHours: QuietHours | null | undefined): boolean {
+  if (!quietHours) return false;
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  if (start === end) return false;
+  // A window like 22:00-07:00 spans midnight
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Move a time inside quiet hours to the end of the window
+ */
+export function deferPastQuietHours(date: Date, quietHours: QuietHours | null | undefined): Date {
+  if (!quietHours || !isInQuietHours(date, quietHours)) return date;
+  const end = setTime(date, quietHours.end);
+  return end > date ? end : addDays(end, 1);
+}
+
+/**
+ * Get the quiet hours that apply to an action's reminders
+ * An action's own setting wins; null there turns quiet hours off for it
+ */
+export function getEffectiveQuietHours(
+  preferences: Pick<UserPreferences, 'quiet_hours_enabled' | 'quiet_hours'>,
+  notificationConfig?: Pick<NotificationConfig, 'quiet_hours'>
+): QuietHours | null {
+  if (notificationConfig?.quiet_hours !== undefined) return notificationConfig.quiet_hours;
+  return preferences.quiet_hours_enabled ? preferences.quiet_hours : null;
+}
+
+/**
+ * Format quiet hours for display (e.g., "10:00 PM - 7:00 AM")
+ */
+export function formatQuietHours(quietHours: QuietHours): string {
+  const today = new Date();
+  return `${formatTime(setTime(today, quietHours.start))} - ${formatTime(setTime(today, quietHours.end))}`;
 }
 
 /**
@@ -388,6 +456,19 @@ export function calculateCompliancePercentage(
   return Math.round((completedCount / requiredCount) * 100);
 }
 
+/**
+ * Get how many occurrences were required once intentional skips are accounted for
+ * 'excused' skips drop out of the required count; 'missed' skips still count against compliance
+ */
+export function getRequiredCountAfterSkips(
+  requiredCount: number,
+  skippedCount: number,
+  skipCompliance: UserPreferences['skip_compliance']
+): number {
+  if (skipCompliance === 'missed') return requiredCount;
+  return Math.max(0, requiredCount - skippedCount);
+}
+
 /**
  * Get date range for last N days
  */
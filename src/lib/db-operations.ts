@@ -1,5 +1,19 @@
 import { db } from './db';
-import type { Component, MaintenanceAction, MaintenanceLog, NotificationConfig } from './db';
+import type {
+  CPAPDatabase,
+  AllowanceRule,
+  Supplier,
+  UsageEntry,
+  Equipment,
+  Component,
+  MaintenanceAction,
+  MaintenanceLog,
+  NotificationConfig,
+  OperationJournalEntry,
+  Purchase,
+  SupplyItem,
+  UserPreferences,
+} from './db';
 
 // Generate UUID using crypto API (available in modern browsers)
 const generateId = (): string => {
@@ -26,6 +40,8 @@ const parseMaintenanceActionDates = (action: MaintenanceAction): MaintenanceActi
   ...action,
   next_due: parseDate(action.next_due),
   last_completed: parseDate(action.last_completed),
+  snoozed_until: parseDate(action.snoozed_until),
+  calendar_due: parseDate(action.calendar_due),
 });
 
 /**
@@ -36,417 +52,1017 @@ const parseMaintenanceLogDates = (log: MaintenanceLog): MaintenanceLog => ({
   completed_at: parseDate(log.completed_at) as Date,
 });
 
+/**
+ * Parse date fields in an equipment record
+ */
+const parseEquipmentDates = (equipment: Equipment): Equipment => ({
+  ...equipment,
+  created_at: parseDate(equipment.created_at) as Date,
+});
+
+/**
+ * Parse date fields in a supply item
+ */
+const parseSupplyDates = (supply: SupplyItem): SupplyItem => ({
+  ...supply,
+  created_at: parseDate(supply.created_at) as Date,
+});
+
+/**
+ * Parse date fields in a purchase
+ */
+const parsePurchaseDates = (purchase: Purchase): Purchase => ({
+  ...purchase,
+  purchased_at: parseDate(purchase.purchased_at) as Date,
+  created_at: parseDate(purchase.created_at) as Date,
+});
+
+/**
+ * Parse date fields in a supplier
+ */
+const parseSupplierDates = (supplier: Supplier): Supplier => ({
+  ...supplier,
+  created_at: parseDate(supplier.created_at) as Date,
+});
+
+/**
+ * Parse date fields in a usage journal entry
+ */
+const parseUsageEntryDates = (entry: UsageEntry): UsageEntry => ({
+  ...entry,
+  created_at: parseDate(entry.created_at) as Date,
+});
+
+/**
+ * Parse date fields in an allowance rule
+ */
+const parseAllowanceRuleDates = (rule: AllowanceRule): AllowanceRule => ({
+  ...rule,
+  created_at: parseDate(rule.created_at) as Date,
+});
+
 /**
  * Parse date fields in a component
  */
 const parseComponentDates = (component: Component): Component => ({
   ...component,
   created_at: parseDate(component.created_at) as Date,
+  archived_at: parseDate(component.archived_at),
 });
 
-// ============================================================================
-// Component CRUD Operations
-// ============================================================================
+/**
+ * Check if a component has been archived (retired but history kept)
+ */
+export const isComponentArchived = (component: Component): boolean => Boolean(component.archived_at);
 
-export const componentOperations = {
-  /**
-   * Create a new component
-   */
-  async create(component: Omit<Component, 'id' | 'created_at'>): Promise<string> {
-    const id = generateId();
-    await db.components.add({
-      ...component,
-      id,
-      created_at: new Date(),
-    });
-    return id;
-  },
-
-  /**
-   * Get a component by ID
-   */
-  async getById(id: string): Promise<Component | undefined> {
-    const component = await db.components.get(id);
-    return component ? parseComponentDates(component) : undefined;
-  },
-
-  /**
-   * Get all components
-   */
-  async getAll(): Promise<Component[]> {
-    const components = await db.components.toArray();
-    return components.map(parseComponentDates);
-  },
-
-  /**
-   * Get all active components
-   */
-  async getActive(): Promise<Component[]> {
-    const components = await db.components.where('is_active').equals(1).toArray();
-    return components.map(parseComponentDates);
-  },
-
-  /**
-   * Get components by category
-   */
-  async getByCategory(category: Component['category']): Promise<Component[]> {
-    const components = await db.components.where('category').equals(category).toArray();
-    return components.map(parseComponentDates);
-  },
-
-  /**
-   * Update a component
-   */
-  async update(id: string, updates: Partial<Omit<Component, 'id' | 'created_at'>>): Promise<void> {
-    await db.components.update(id, updates);
-  },
-
-  /**
-   * Delete a component (and cascade delete related data)
-   */
-  async delete(id: string): Promise<void> {
-    // Delete all maintenance actions for this component
-    const actions = await maintenanceActionOperations.getByComponent(id);
-    for (const action of actions) {
-      await maintenanceActionOperations.delete(action.id!);
-    }
-
-    // Delete all maintenance logs for this component
-    await db.maintenanceLogs.where('component_id').equals(id).delete();
-
-    // Delete the component
-    await db.components.delete(id);
-  },
-
-  /**
-   * Increment usage count for a component
-   */
-  async incrementUsage(id: string, increment: number = 1): Promise<void> {
-    const component = await db.components.get(id);
-    if (component) {
-      await db.components.update(id, {
-        usage_count: component.usage_count + increment,
-      });
-    }
-  },
-
-  /**
-   * Toggle component active status
-   */
-  async toggleActive(id: string): Promise<void> {
-    const component = await db.components.get(id);
-    if (component) {
-      await db.components.update(id, {
-        is_active: !component.is_active,
-      });
-    }
-  },
-};
+/**
+ * Check if a log records an actual completion (not a skip or snooze)
+ */
+export const isCompletionLog = (log: MaintenanceLog): boolean =>
+  (log.outcome ?? 'completed') === 'completed';
+
+/**
+ * Check if an action's reminders are currently snoozed
+ * Snoozes expire on their own once snoozed_until has passed
+ */
+export const isActionSnoozed = (action: MaintenanceAction, now: Date = new Date()): boolean =>
+  Boolean(action.snoozed_until && action.snoozed_until > now);
 
 // ============================================================================
-// Maintenance Action CRUD Operations
+// User Preferences Defaults
 // ============================================================================
 
-export const maintenanceActionOperations = {
-  /**
-   * Create a new maintenance action
-   */
-  async create(action: Omit<MaintenanceAction, 'id'>): Promise<string> {
-    const id = generateId();
-    await db.maintenanceActions.add({
-      ...action,
-      id,
-    });
-    return id;
-  },
-
-  /**
-   * Get a maintenance action by ID
-   */
-  async getById(id: string): Promise<MaintenanceAction | undefined> {
-    const action = await db.maintenanceActions.get(id);
-    return action ? parseMaintenanceActionDates(action) : undefined;
-  },
-
-  /**
-   * Get all maintenance actions
-   */
-  async getAll(): Promise<MaintenanceAction[]> {
-    const actions = await db.maintenanceActions.toArray();
-    return actions.map(parseMaintenanceActionDates);
-  },
-
-  /**
-   * Get all maintenance actions for a component
-   */
-  async getByComponent(componentId: string): Promise<MaintenanceAction[]> {
-    const actions = await db.maintenanceActions.where('component_id').equals(componentId).toArray();
-    return actions.map(parseMaintenanceActionDates);
-  },
-
-  /**
-   * Get all due maintenance actions
-   */
-  async getDue(): Promise<MaintenanceAction[]> {
-    const now = new Date();
-    const actions = await db.maintenanceActions.toArray();
-    return actions.map(parseMaintenanceActionDates).filter(action => action.next_due && action.next_due <= now);
-  },
-
-  /**
-   * Get all overdue maintenance actions
-   */
-  async getOverdue(): Promise<MaintenanceAction[]> {
-    const now = new Date();
-    const actions = await db.maintenanceActions.toArray();
-    return actions.map(parseMaintenanceActionDates).filter(action => {
-      if (!action.next_due) return false;
-      const daysDiff = Math.floor((now.getTime() - action.next_due.getTime()) / (1000 * 60 * 60 * 24));
-      return daysDiff > 0;
-    });
-  },
-
-  /**
-   * Get all due today maintenance actions
-   */
-  async getDueToday(): Promise<MaintenanceAction[]> {
-    const now = new Date();
-    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59);
-
-    const actions = await db.maintenanceActions.toArray();
-    return actions.map(parseMaintenanceActionDates).filter(action => {
-      if (!action.next_due) return false;
-      return action.next_due >= startOfDay && action.next_due <= endOfDay;
-    });
-  },
-
-  /**
-   * Get upcoming maintenance actions (next N days)
-   */
-  async getUpcoming(days: number = 7): Promise<MaintenanceAction[]> {
-    const now = new Date();
-    const futureDate = new Date(now);
-    futureDate.setDate(futureDate.getDate() + days);
-
-    const actions = await db.maintenanceActions.toArray();
-    return actions.map(parseMaintenanceActionDates).filter(action => {
-      if (!action.next_due) return false;
-      return action.next_due > now && action.next_due <= futureDate;
-    }).sort((a, b) => {
-      if (!a.next_due || !b.next_due) return 0;
-      return a.next_due.getTime() - b.next_due.getTime();
-    });
-  },
-
-  /**
-   * Update a maintenance action
-   */
-  async update(id: string, updates: Partial<Omit<MaintenanceAction, 'id'>>): Promise<void> {
-    await db.maintenanceActions.update(id, updates);
-  },
-
-  /**
-   * Delete a maintenance action (and cascade delete related data)
-   */
-  async delete(id: string): Promise<void> {
-    // Delete notification config for this action
-    await db.notificationConfigs.where('action_id').equals(id).delete();
-
-    // Delete maintenance logs for this action
-    await db.maintenanceLogs.where('action_id').equals(id).delete();
-
-    // Delete the action
-    await db.maintenanceActions.delete(id);
-  },
-
-  /**
-   * Mark action as completed (updates last_completed and next_due)
-   */
-  async complete(id: string, completedAt: Date, nextDue: Date): Promise<void> {
-    await db.maintenanceActions.update(id, {
-      last_completed: completedAt,
-      next_due: nextDue,
-    });
-  },
+export const PREFERENCES_ID = 'user';
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  skip_compliance: 'missed',
+  eligibility_reminders: false,
+  quiet_hours_enabled: true,
+  quiet_hours: { start: '22:00', end: '07:00' },
+  digest_enabled: false,
+  digest_time: '08:00',
 };
 
 // ============================================================================
-// Maintenance Log CRUD Operations
+// Operations
 // ============================================================================
 
-export const maintenanceLogOperations = {
-  /**
-   * Create a new maintenance log entry
-   */
-  async create(log: Omit<MaintenanceLog, 'id'>): Promise<string> {
-    const id = generateId();
-    await db.maintenanceLogs.add({
-      ...log,
-      id,
-    });
-    return id;
-  },
-
-  /**
-   * Get a maintenance log by ID
-   */
-  async getById(id: string): Promise<MaintenanceLog | undefined> {
-    const log = await db.maintenanceLogs.get(id);
-    return log ? parseMaintenanceLogDates(log) : undefined;
-  },
-
-  /**
-   * Get all maintenance logs
-   */
-  async getAll(): Promise<MaintenanceLog[]> {
-    const logs = await db.maintenanceLogs.toArray();
-    return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
-  },
-
-  /**
-   * Get logs for a specific component
-   */
-  async getByComponent(componentId: string): Promise<MaintenanceLog[]> {
-    const logs = await db.maintenanceLogs.where('component_id').equals(componentId).toArray();
-    return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
-  },
-
-  /**
-   * Get logs for a specific action
-   */
-  async getByAction(actionId: string): Promise<MaintenanceLog[]> {
-    const logs = await db.maintenanceLogs.where('action_id').equals(actionId).toArray();
-    return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
-  },
-
-  /**
-   * Get logs within a date range
-   */
-  async getByDateRange(startDate: Date, endDate: Date): Promise<MaintenanceLog[]> {
-    const logs = await db.maintenanceLogs
-      .where('completed_at')
-      .between(startDate, endDate, true, true)
-      .toArray();
-    return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
-  },
-
-  /**
-   * Get overdue logs only
-   */
-  async getOverdue(): Promise<MaintenanceLog[]> {
-    const logs = await db.maintenanceLogs.where('was_overdue').equals(1).toArray();
-    return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
-  },
-
-  /**
-   * Update a maintenance log
-   */
-  async update(id: string, updates: Partial<Omit<MaintenanceLog, 'id'>>): Promise<void> {
-    await db.maintenanceLogs.update(id, updates);
-  },
-
-  /**
-   * Delete a maintenance log
-   */
-  async delete(id: string): Promise<void> {
-    await db.maintenanceLogs.delete(id);
-  },
-
-  /**
-   * Delete all logs for a component
-   */
-  async deleteByComponent(componentId: string): Promise<void> {
-    await db.maintenanceLogs.where('component_id').equals(componentId).delete();
-  },
-};
+/**
+ * Build the CRUD operations for a database
+ * dbOperations works on the active profile's database; code handed another
+ * profile's database (see withProfileDatabase) uses getDbOperations.
+ */
+function createDbOperations(getDatabase: () => CPAPDatabase) {
+  // ============================================================================
+  // Equipment CRUD Operations
+  // ============================================================================
 
-// ============================================================================
-// Notification Config CRUD Operations
-// ============================================================================
+  const equipmentOperations = {
+    /**
+     * Create a new equipment record (machine)
+     */
+    async create(equipment: Omit<Equipment, 'id' | 'created_at'>): Promise<string> {
+      const id = generateId();
+      await getDatabase().equipment.add({
+        ...equipment,
+        id,
+        created_at: new Date(),
+      });
+      return id;
+    },
 
-export const notificationConfigOperations = {
-  /**
-   * Create a new notification config
-   */
-  async create(config: Omit<NotificationConfig, 'id'>): Promise<string> {
-    const id = generateId();
-    await db.notificationConfigs.add({
-      ...config,
-      id,
-    });
-    return id;
-  },
-
-  /**
-   * Get a notification config by ID
-   */
-  async getById(id: string): Promise<NotificationConfig | undefined> {
-    return await db.notificationConfigs.get(id);
-  },
-
-  /**
-   * Get notification config for an action
-   */
-  async getByAction(actionId: string): Promise<NotificationConfig | undefined> {
-    return await db.notificationConfigs.where('action_id').equals(actionId).first();
-  },
-
-  /**
-   * Get all enabled notification configs
-   */
-  async getEnabled(): Promise<NotificationConfig[]> {
-    return await db.notificationConfigs.where('enabled').equals(1).toArray();
-  },
-
-  /**
-   * Get all notification configs
-   */
-  async getAll(): Promise<NotificationConfig[]> {
-    return await db.notificationConfigs.toArray();
-  },
-
-  /**
-   * Update a notification config
-   */
-  async update(id: string, updates: Partial<Omit<NotificationConfig, 'id'>>): Promise<void> {
-    await db.notificationConfigs.update(id, updates);
-  },
-
-  /**
-   * Toggle notification enabled status
-   */
-  async toggleEnabled(id: string): Promise<void> {
-    const config = await db.notificationConfigs.get(id);
-    if (config) {
-      await db.notificationConfigs.update(id, {
-        enabled: !config.enabled,
+    /**
+     * Get an equipment record by ID
+     */
+    async getById(id: string): Promise<Equipment | undefined> {
+      const equipment = await getDatabase().equipment.get(id);
+      return equipment ? parseEquipmentDates(equipment) : undefined;
+    },
+
+    /**
+     * Get all equipment, oldest first
+     */
+    async getAll(): Promise<Equipment[]> {
+      const equipment = await getDatabase().equipment.orderBy('created_at').toArray();
+      return equipment.map(parseEquipmentDates);
+    },
+
+    /**
+     * Update an equipment record
+     */
+    async update(id: string, updates: Partial<Omit<Equipment, 'id' | 'created_at'>>): Promise<void> {
+      await getDatabase().equipment.update(id, updates);
+    },
+
+    /**
+     * Delete an equipment record
+     * Its components are kept and become unassigned
+     */
+    async delete(id: string): Promise<void> {
+      const database = getDatabase();
+      await database.transaction('rw', [database.equipment, database.components], async () => {
+        await database.components.where('equipment_id').equals(id).modify((component) => {
+          delete component.equipment_id;
+        });
+        await database.equipment.delete(id);
       });
-    }
-  },
-
-  /**
-   * Delete a notification config
-   */
-  async delete(id: string): Promise<void> {
-    await db.notificationConfigs.delete(id);
-  },
-
-  /**
-   * Delete notification config for an action
-   */
-  async deleteByAction(actionId: string): Promise<void> {
-    await db.notificationConfigs.where('action_id').equals(actionId).delete();
-  },
-};
+    },
+  };
+
+  // ============================================================================
+  // Component CRUD Operations
+  // ============================================================================
+
+  const componentOperations = {
+    /**
+     * Create a new component
+     */
+    async create(component: Omit<Component, 'id' | 'created_at'>): Promise<string> {
+      const id = generateId();
+      await getDatabase().components.add({
+        ...component,
+        id,
+        created_at: new Date(),
+      });
+      return id;
+    },
+
+    /**
+     * Get a component by ID
+     */
+    async getById(id: string): Promise<Component | undefined> {
+      const component = await getDatabase().components.get(id);
+      return component ? parseComponentDates(component) : undefined;
+    },
+
+    /**
+     * Get all components
+     */
+    async getAll(): Promise<Component[]> {
+      const components = await getDatabase().components.toArray();
+      return components.map(parseComponentDates);
+    },
+
+    /**
+     * Get all components that have not been archived
+     */
+    async getUnarchived(): Promise<Component[]> {
+      const components = await componentOperations.getAll();
+      return components.filter((component) => !isComponentArchived(component));
+    },
+
+    /**
+     * Get all archived components
+     */
+    async getArchived(): Promise<Component[]> {
+      const components = await componentOperations.getAll();
+      return components.filter(isComponentArchived);
+    },
+
+    /**
+     * Get all active components
+     */
+    async getActive(): Promise<Component[]> {
+      const components = await getDatabase().components.where('is_active').equals(1).toArray();
+      return components.map(parseComponentDates);
+    },
+
+    /**
+     * Get components that belong to a machine
+     */
+    async getByEquipment(equipmentId: string): Promise<Component[]> {
+      const components = await getDatabase().components.where('equipment_id').equals(equipmentId).toArray();
+      return components.map(parseComponentDates);
+    },
+
+    /**
+     * Get components by category
+     */
+    async getByCategory(category: Component['category']): Promise<Component[]> {
+      const components = await getDatabase().components.where('category').equals(category).toArray();
+      return components.map(parseComponentDates);
+    },
+
+    /**
+     * Update a component
+     */
+    async update(id: string, updates: Partial<Omit<Component, 'id' | 'created_at'>>): Promise<void> {
+      await getDatabase().components.update(id, updates);
+    },
+
+    /**
+     * Archive a component
+     * Archived components leave scheduling and notifications, but their actions
+     * and logs are kept so the maintenance history stays intact
+     */
+    async archive(id: string, reason?: string, archivedAt: Date = new Date()): Promise<void> {
+      await getDatabase().components.update(id, {
+        archived_at: archivedAt,
+        archive_reason: reason?.trim() || undefined,
+      });
+    },
+
+    /**
+     * Restore an archived component back into scheduling
+     */
+    async restore(id: string): Promise<void> {
+      await getDatabase().components.update(id, {
+        archived_at: undefined,
+        archive_reason: undefined,
+      });
+    },
+
+    /**
+     * Permanently delete a component and ALL of its actions, logs and notification configs
+     * This erases the maintenance history - prefer archive() unless the user explicitly asks
+     */
+    async purge(id: string): Promise<void> {
+      // Delete all maintenance actions for this component
+      const actions = await maintenanceActionOperations.getByComponent(id);
+      for (const action of actions) {
+        await maintenanceActionOperations.delete(action.id!);
+      }
+
+      // Delete all maintenance logs for this component
+      await getDatabase().maintenanceLogs.where('component_id').equals(id).delete();
+
+      // Purchases are financial records; keep them but drop the links
+      await getDatabase().purchases.where('component_id').equals(id).modify((purchase) => {
+        delete purchase.component_id;
+        delete purchase.log_id;
+      });
+
+      // Delete the component
+      await getDatabase().components.delete(id);
+    },
+
+    /**
+     * Increment usage count for a component (negative increments take uses back, down to 0)
+     */
+    async incrementUsage(id: string, increment: number = 1): Promise<void> {
+      const component = await getDatabase().components.get(id);
+      if (component) {
+        await getDatabase().components.update(id, {
+          usage_count: Math.max(0, component.usage_count + increment),
+        });
+      }
+    },
+
+    /**
+     * Toggle component active status
+     */
+    async toggleActive(id: string): Promise<void> {
+      const component = await getDatabase().components.get(id);
+      if (component) {
+        await getDatabase().components.update(id, {
+          is_active: !component.is_active,
+        });
+      }
+    },
+  };
+
+  // ============================================================================
+  // Maintenance Action CRUD Operations
+  // ============================================================================
+
+  const maintenanceActionOperations = {
+    /**
+     * Create a new maintenance action
+     */
+    async create(action: Omit<MaintenanceAction, 'id'>): Promise<string> {
+      const id = generateId();
+      await getDatabase().maintenanceActions.add({
+        ...action,
+        id,
+      });
+      return id;
+    },
+
+    /**
+     * Get a maintenance action by ID
+     */
+    async getById(id: string): Promise<MaintenanceAction | undefined> {
+      const action = await getDatabase().maintenanceActions.get(id);
+      return action ? parseMaintenanceActionDates(action) : undefined;
+    },
+
+    /**
+     * Get all maintenance actions
+     */
+    async getAll(): Promise<MaintenanceAction[]> {
+      const actions = await getDatabase().maintenanceActions.toArray();
+      return actions.map(parseMaintenanceActionDates);
+    },
+
+    /**
+     * Get all maintenance actions for a component
+     */
+    async getByComponent(componentId: string): Promise<MaintenanceAction[]> {
+      const actions = await getDatabase().maintenanceActions.where('component_id').equals(componentId).toArray();
+      return actions.map(parseMaintenanceActionDates);
+    },
+
+    /**
+     * Get all maintenance actions whose component has not been archived
+     */
+    async getSchedulable(): Promise<MaintenanceAction[]> {
+      const [actions, archivedComponents] = await Promise.all([
+        maintenanceActionOperations.getAll(),
+        componentOperations.getArchived(),
+      ]);
+      const archivedIds = new Set(archivedComponents.map((c) => c.id));
+      return actions.filter((action) => !archivedIds.has(action.component_id));
+    },
+
+    /**
+     * Get all due maintenance actions
+     */
+    async getDue(): Promise<MaintenanceAction[]> {
+      const now = new Date();
+      const actions = await maintenanceActionOperations.getSchedulable();
+      return actions.filter(action => action.next_due && action.next_due <= now && !isActionSnoozed(action, now));
+    },
+
+    /**
+     * Get all overdue maintenance actions
+     */
+    async getOverdue(): Promise<MaintenanceAction[]> {
+      const now = new Date();
+      const actions = await maintenanceActionOperations.getSchedulable();
+      return actions.filter(action => {
+        if (!action.next_due || isActionSnoozed(action, now)) return false;
+        const daysDiff = Math.floor((now.getTime() - action.next_due.getTime()) / (1000 * 60 * 60 * 24));
+        return daysDiff > 0;
+      });
+    },
+
+    /**
+     * Get all due today maintenance actions
+     */
+    async getDueToday(): Promise<MaintenanceAction[]> {
+      const now = new Date();
+      const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59);
+
+      const actions = await maintenanceActionOperations.getSchedulable();
+      return actions.filter(action => {
+        if (!action.next_due || isActionSnoozed(action, now)) return false;
+        return action.next_due >= startOfDay && action.next_due <= endOfDay;
+      });
+    },
+
+    /**
+     * Get upcoming maintenance actions (next N days)
+     */
+    async getUpcoming(days: number = 7): Promise<MaintenanceAction[]> {
+      const now = new Date();
+      const futureDate = new Date(now);
+      futureDate.setDate(futureDate.getDate() + days);
+
+      const actions = await maintenanceActionOperations.getSchedulable();
+      return actions.filter(action => {
+        if (!action.next_due) return false;
+        return action.next_due > now && action.next_due <= futureDate;
+      }).sort((a, b) => {
+        if (!a.next_due || !b.next_due) return 0;
+        return a.next_due.getTime() - b.next_due.getTime();
+      });
+    },
+
+    /**
+     * Update a maintenance action
+     */
+    async update(id: string, updates: Partial<Omit<MaintenanceAction, 'id'>>): Promise<void> {
+      await getDatabase().maintenanceActions.update(id, updates);
+    },
+
+    /**
+     * Delete a maintenance action (and cascade delete related data)
+     */
+    async delete(id: string): Promise<void> {
+      // Delete notification config for this action
+      await getDatabase().notificationConfigs.where('action_id').equals(id).delete();
+
+      // Delete maintenance logs for this action
+      await getDatabase().maintenanceLogs.where('action_id').equals(id).delete();
+
+      // Delete the action
+      await getDatabase().maintenanceActions.delete(id);
+    },
+
+    /**
+     * Mark action as completed (updates last_completed and next_due)
+     */
+    async complete(id: string, completedAt: Date, nextDue: Date): Promise<void> {
+      await getDatabase().maintenanceActions.update(id, {
+        last_completed: completedAt,
+        next_due: nextDue,
+      });
+    },
+  };
+
+  // ============================================================================
+  // Maintenance Log CRUD Operations
+  // ============================================================================
+
+  const maintenanceLogOperations = {
+    /**
+     * Create a new maintenance log entry
+     */
+    async create(log: Omit<MaintenanceLog, 'id'>): Promise<string> {
+      const id = generateId();
+      await getDatabase().maintenanceLogs.add({
+        ...log,
+        id,
+      });
+      return id;
+    },
+
+    /**
+     * Get a maintenance log by ID
+     */
+    async getById(id: string): Promise<MaintenanceLog | undefined> {
+      const log = await getDatabase().maintenanceLogs.get(id);
+      return log ? parseMaintenanceLogDates(log) : undefined;
+    },
+
+    /**
+     * Get all maintenance logs
+     */
+    async getAll(): Promise<MaintenanceLog[]> {
+      const logs = await getDatabase().maintenanceLogs.toArray();
+      return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
+    },
+
+    /**
+     * Get logs for a specific component
+     */
+    async getByComponent(componentId: string): Promise<MaintenanceLog[]> {
+      const logs = await getDatabase().maintenanceLogs.where('component_id').equals(componentId).toArray();
+      return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
+    },
+
+    /**
+     * Get logs for a specific action
+     */
+    async getByAction(actionId: string): Promise<MaintenanceLog[]> {
+      const logs = await getDatabase().maintenanceLogs.where('action_id').equals(actionId).toArray();
+      return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
+    },
+
+    /**
+     * Get logs within a date range
+     */
+    async getByDateRange(startDate: Date, endDate: Date): Promise<MaintenanceLog[]> {
+      const logs = await getDatabase().maintenanceLogs
+        .where('completed_at')
+        .between(startDate, endDate, true, true)
+        .toArray();
+      return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
+    },
+
+    /**
+     * Get overdue logs only
+     */
+    async getOverdue(): Promise<MaintenanceLog[]> {
+      const logs = await getDatabase().maintenanceLogs.where('was_overdue').equals(1).toArray();
+      return logs.map(parseMaintenanceLogDates).sort((a, b) => b.completed_at.getTime() - a.completed_at.getTime());
+    },
+
+    /**
+     * Update a maintenance log
+     */
+    async update(id: string, updates: Partial<Omit<MaintenanceLog, 'id'>>): Promise<void> {
+      await getDatabase().maintenanceLogs.update(id, updates);
+    },
+
+    /**
+     * Delete a maintenance log
+     */
+    async delete(id: string): Promise<void> {
+      await getDatabase().maintenanceLogs.delete(id);
+    },
+
+    /**
+     * Delete all logs for a component
+     */
+    async deleteByComponent(componentId: string): Promise<void> {
+      await getDatabase().maintenanceLogs.where('component_id').equals(componentId).delete();
+    },
+  };
+
+  // ============================================================================
+  // Notification Config CRUD Operations
+  // ============================================================================
+
+  const notificationConfigOperations = {
+    /**
+     * Create a new notification config
+     */
+    async create(config: Omit<NotificationConfig, 'id'>): Promise<string> {
+      const id = generateId();
+      await getDatabase().notificationConfigs.add({
+        ...config,
+        id,
+      });
+      return id;
+    },
+
+    /**
+     * Get a notification config by ID
+     */
+    async getById(id: string): Promise<NotificationConfig | undefined> {
+      return await getDatabase().notificationConfigs.get(id);
+    },
+
+    /**
+     * Get notification config for an action
+     */
+    async getByAction(actionId: string): Promise<NotificationConfig | undefined> {
+      return await getDatabase().notificationConfigs.where('action_id').equals(actionId).first();
+    },
+
+    /**
+     * Get all enabled notification configs
+     */
+    async getEnabled(): Promise<NotificationConfig[]> {
+      return await getDatabase().notificationConfigs.where('enabled').equals(1).toArray();
+    },
+
+    /**
+     * Get all notification configs
+     */
+    async getAll(): Promise<NotificationConfig[]> {
+      return await getDatabase().notificationConfigs.toArray();
+    },
+
+    /**
+     * Update a notification config
+     */
+    async update(id: string, updates: Partial<Omit<NotificationConfig, 'id'>>): Promise<void> {
+      await getDatabase().notificationConfigs.update(id, updates);
+    },
+
+    /**
+     * Toggle notification enabled status
+     */
+    async toggleEnabled(id: string): Promise<void> {
+      const config = await getDatabase().notificationConfigs.get(id);
+      if (config) {
+        await getDatabase().notificationConfigs.update(id, {
+          enabled: !config.enabled,
+        });
+      }
+    },
+
+    /**
+     * Delete a notification config
+     */
+    async delete(id: string): Promise<void> {
+      await getDatabase().notificationConfigs.delete(id);
+    },
+
+    /**
+     * Delete notification config for an action
+     */
+    async deleteByAction(actionId: string): Promise<void> {
+      await getDatabase().notificationConfigs.where('action_id').equals(actionId).delete();
+    },
+  };
+
+  // ============================================================================
+  // Operation Journal CRUD Operations
+  // ============================================================================
+
+  const operationJournalOperations = {
+    /**
+     * Append an entry to the journal (sequence is assigned automatically)
+     */
+    async create(entry: Omit<OperationJournalEntry, 'id' | 'sequence'>): Promise<string> {
+      const id = generateId();
+      const last = await getDatabase().operationJournal.orderBy('sequence').last();
+      await getDatabase().operationJournal.add({
+        ...entry,
+        id,
+        sequence: (last?.sequence ?? 0) + 1,
+      });
+      return id;
+    },
+
+    /**
+     * Get all journal entries, oldest first
+     */
+    async getAll(): Promise<OperationJournalEntry[]> {
+      return await getDatabase().operationJournal.orderBy('sequence').toArray();
+    },
+
+    /**
+     * Update a journal entry
+     */
+    async update(id: string, updates: Partial<Omit<OperationJournalEntry, 'id' | 'sequence'>>): Promise<void> {
+      await getDatabase().operationJournal.update(id, updates);
+    },
+
+    /**
+     * Delete journal entries by ID
+     */
+    async bulkDelete(ids: string[]): Promise<void> {
+      await getDatabase().operationJournal.bulkDelete(ids);
+    },
+
+    /**
+     * Delete every journal entry
+     */
+    async clear(): Promise<void> {
+      await getDatabase().operationJournal.clear();
+    },
+  };
+
+  // ============================================================================
+  // User Preferences Operations
+  // ============================================================================
+
+  const preferenceOperations = {
+    /**
+     * Get the user's preferences (defaults fill in anything not yet saved)
+     */
+    async get(): Promise<UserPreferences> {
+      const stored = await getDatabase().preferences.get(PREFERENCES_ID);
+      return { ...DEFAULT_USER_PREFERENCES, ...stored, id: PREFERENCES_ID };
+    },
+
+    /**
+     * Update the user's preferences
+     */
+    async update(updates: Partial<Omit<UserPreferences, 'id'>>): Promise<void> {
+      const current = await preferenceOperations.get();
+      await getDatabase().preferences.put({ ...current, ...updates, id: PREFERENCES_ID });
+    },
+  };
+
+  // ============================================================================
+  // Supply Inventory Operations
+  // ============================================================================
+
+  const supplyOperations = {
+    /**
+     * Add a spare part to the inventory
+     */
+    async create(supply: Omit<SupplyItem, 'id' | 'created_at'>): Promise<string> {
+      const id = generateId();
+      await getDatabase().supplies.add({
+        ...supply,
+        id,
+        created_at: new Date(),
+      });
+      return id;
+    },
+
+    /**
+     * Get a spare part by ID
+     */
+    async getById(id: string): Promise<SupplyItem | undefined> {
+      const supply = await getDatabase().supplies.get(id);
+      return supply ? parseSupplyDates(supply) : undefined;
+    },
+
+    /**
+     * Get all spare parts, oldest first
+     */
+    async getAll(): Promise<SupplyItem[]> {
+      const supplies = await getDatabase().supplies.orderBy('created_at').toArray();
+      return supplies.map(parseSupplyDates);
+    },
+
+    /**
+     * Get spare parts that fit a component category, oldest first
+     */
+    async getByCategory(category: SupplyItem['category']): Promise<SupplyItem[]> {
+      const supplies = await getDatabase().supplies.where('category').equals(category).sortBy('created_at');
+      return supplies.map(parseSupplyDates);
+    },
+
+    /**
+     * Update a spare part
+     */
+    async update(id: string, updates: Partial<Omit<SupplyItem, 'id' | 'created_at'>>): Promise<void> {
+      await getDatabase().supplies.update(id, updates);
+    },
+
+    /**
+     * Change the stock level by a number of units (never below zero)
+     */
+    async adjustQuantity(id: string, delta: number): Promise<void> {
+      await getDatabase().supplies.where('id').equals(id).modify((supply) => {
+        supply.quantity = Math.max(0, supply.quantity + delta);
+      });
+    },
+
+    /**
+     * Delete a spare part
+     */
+    async delete(id: string): Promise<void> {
+      await getDatabase().supplies.delete(id);
+    },
+  };
+
+  // ============================================================================
+  // Purchase Operations
+  // ============================================================================
+
+  const purchaseOperations = {
+    /**
+     * Record a purchase
+     */
+    async create(purchase: Omit<Purchase, 'id' | 'created_at'>): Promise<string> {
+      const id = generateId();
+      await getDatabase().purchases.add({
+        ...purchase,
+        id,
+        created_at: new Date(),
+      });
+      return id;
+    },
+
+    /**
+     * Get a purchase by ID
+     */
+    async getById(id: string): Promise<Purchase | undefined> {
+      const purchase = await getDatabase().purchases.get(id);
+      return purchase ? parsePurchaseDates(purchase) : undefined;
+    },
+
+    /**
+     * Get all purchases, newest first
+     */
+    async getAll(): Promise<Purchase[]> {
+      const purchases = await getDatabase().purchases.orderBy('purchased_at').reverse().toArray();
+      return purchases.map(parsePurchaseDates);
+    },
+
+    /**
+     * Get purchases linked to a replacement log
+     */
+    async getByLog(logId: string): Promise<Purchase[]> {
+      const purchases = await getDatabase().purchases.where('log_id').equals(logId).toArray();
+      return purchases.map(parsePurchaseDates);
+    },
+
+    /**
+     * Update a purchase
+     */
+    async update(id: string, updates: Partial<Omit<Purchase, 'id' | 'created_at'>>): Promise<void> {
+      await getDatabase().purchases.update(id, updates);
+    },
+
+    /**
+     * Delete a purchase
+     */
+    async delete(id: string): Promise<void> {
+      await getDatabase().purchases.delete(id);
+    },
+  };
+
+  // ============================================================================
+  // Insurance Allowance Rule Operations
+  // ============================================================================
+
+  const allowanceRuleOperations = {
+    /**
+     * Set the allowance rule for a category, replacing any existing rule
+     */
+    async set(rule: Omit<AllowanceRule, 'id' | 'created_at'>): Promise<string> {
+      const existing = await getDatabase().allowanceRules.where('category').equals(rule.category).first();
+      if (existing?.id) {
+        await getDatabase().allowanceRules.update(existing.id, rule);
+        return existing.id;
+      }
+
+      const id = generateId();
+      await getDatabase().allowanceRules.add({
+        ...rule,
+        id,
+        created_at: new Date(),
+      });
+      return id;
+    },
+
+    /**
+     * Get all allowance rules
+     */
+    async getAll(): Promise<AllowanceRule[]> {
+      const rules = await getDatabase().allowanceRules.toArray();
+      return rules.map(parseAllowanceRuleDates);
+    },
+
+    /**
+     * Get the allowance rule for a category
+     */
+    async getByCategory(category: AllowanceRule['category']): Promise<AllowanceRule | undefined> {
+      const rule = await getDatabase().allowanceRules.where('category').equals(category).first();
+      return rule ? parseAllowanceRuleDates(rule) : undefined;
+    },
+
+    /**
+     * Delete an allowance rule
+     */
+    async delete(id: string): Promise<void> {
+      await getDatabase().allowanceRules.delete(id);
+    },
+  };
+
+  // ============================================================================
+  // Supplier Operations
+  // ============================================================================
+
+  const supplierOperations = {
+    /**
+     * Add a supplier to the directory
+     */
+    async create(supplier: Omit<Supplier, 'id' | 'created_at'>): Promise<string> {
+      const id = generateId();
+      await getDatabase().suppliers.add({
+        ...supplier,
+        id,
+        created_at: new Date(),
+      });
+      return id;
+    },
+
+    /**
+     * Get a supplier by ID
+     */
+    async getById(id: string): Promise<Supplier | undefined> {
+      const supplier = await getDatabase().suppliers.get(id);
+      return supplier ? parseSupplierDates(supplier) : undefined;
+    },
+
+    /**
+     * Get all suppliers, by name
+     */
+    async getAll(): Promise<Supplier[]> {
+      const suppliers = await getDatabase().suppliers.orderBy('name').toArray();
+      return suppliers.map(parseSupplierDates);
+    },
+
+    /**
+     * Update a supplier
+     */
+    async update(id: string, updates: Partial<Omit<Supplier, 'id' | 'created_at'>>): Promise<void> {
+      await getDatabase().suppliers.update(id, updates);
+    },
+
+    /**
+     * Delete a supplier
+     * Components that were reordered from it keep their part details
+     */
+    async delete(id: string): Promise<void> {
+      const database = getDatabase();
+      await database.transaction('rw', [database.suppliers, database.components], async () => {
+        await database.components.where('supplier_id').equals(id).modify((component) => {
+          delete component.supplier_id;
+        });
+        await database.suppliers.delete(id);
+      });
+    },
+  };
+
+  // ============================================================================
+  // Usage Journal Operations
+  // ============================================================================
+
+  const usageJournalOperations = {
+    /**
+     * Get all nights, newest first
+     */
+    async getAll(): Promise<UsageEntry[]> {
+      const entries = await getDatabase().usageJournal.orderBy('date').reverse().toArray();
+      return entries.map(parseUsageEntryDates);
+    },
+
+    /**
+     * Get the entry for a night (yyyy-MM-dd)
+     */
+    async getByDate(date: string): Promise<UsageEntry | undefined> {
+      const entry = await getDatabase().usageJournal.where('date').equals(date).first();
+      return entry ? parseUsageEntryDates(entry) : undefined;
+    },
+
+    /**
+     * Get the most recently logged night
+     */
+    async getLatest(): Promise<UsageEntry | undefined> {
+      const entry = await getDatabase().usageJournal.orderBy('date').last();
+      return entry ? parseUsageEntryDates(entry) : undefined;
+    },
+
+    /**
+     * Save the entry for a night, replacing any existing entry for that date
+     */
+    async put(entry: Omit<UsageEntry, 'id' | 'created_at'>): Promise<string> {
+      const existing = await getDatabase().usageJournal.where('date').equals(entry.date).first();
+      if (existing?.id) {
+        await getDatabase().usageJournal.put({ ...entry, id: existing.id, created_at: existing.created_at });
+        return existing.id;
+      }
+
+      const id = generateId();
+      await getDatabase().usageJournal.add({
+        ...entry,
+        id,
+        created_at: new Date(),
+      });
+      return id;
+    },
+
+    /**
+     * Delete the entry for a night
+     */
+    async delete(id: string): Promise<void> {
+      await getDatabase().usageJournal.delete(id);
+    },
+  };
+
+  return {
+    equipment: equipmentOperations,
+    components: componentOperations,
+    maintenanceActions: maintenanceActionOperations,
+    maintenanceLogs: maintenanceLogOperations,
+    notificationConfigs: notificationConfigOperations,
+    operationJournal: operationJournalOperations,
+    preferences: preferenceOperations,
+    supplies: supplyOperations,
+    purchases: purchaseOperations,
+    allowanceRules: allowanceRuleOperations,
+    suppliers: supplierOperations,
+    usageJournal: usageJournalOperations,
+  };
+}
 
 // ============================================================================
 // Export all operations
 // ============================================================================
 
-export const dbOperations = {
-  components: componentOperations,
-  maintenanceActions: maintenanceActionOperations,
-  maintenanceLogs: maintenanceLogOperations,
-  notificationConfigs: notificationConfigOperations,
-};
+export type DbOperations = ReturnType<typeof createDbOperations>;
+
+export const dbOperations: DbOperations = createDbOperations(() => db);
+
+export const equipmentOperations = dbOperations.equipment;
+export const componentOperations = dbOperations.components;
+export const maintenanceActionOperations = dbOperations.maintenanceActions;
+export const maintenanceLogOperations = dbOperations.maintenanceLogs;
+export const notificationConfigOperations = dbOperations.notificationConfigs;
+export const operationJournalOperations = dbOperations.operationJournal;
+export const preferenceOperations = dbOperations.preferences;
+export const supplyOperations = dbOperations.supplies;
+export const purchaseOperations = dbOperations.purchases;
+export const allowanceRuleOperations = dbOperations.allowanceRules;
+export const supplierOperations = dbOperations.suppliers;
+export const usageJournalOperations = dbOperations.usageJournal;
+
+/**
+ * Get the operations for a database: dbOperations for the active one
+ */
+export function getDbOperations(database: CPAPDatabase = db): DbOperations {
+  return database === db ? dbOperations : createDbOperations(() => database);
+}
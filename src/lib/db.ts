@@ -1,6 +1,16 @@
 import Dexie, { Table } from 'dexie';
+import { applySchemaMigrations, CURRENT_SCHEMA_VERSION } from './migrations';
 
 // Type definitions based on SPEC.md data models
+export interface Equipment {
+  id?: string;
+  name: string; // e.g., "Home machine", "Travel machine"
+  model?: string;
+  serial_number?: string;
+  notes?: string;
+  created_at: Date;
+}
+
 export interface Component {
   id?: string;
   name: string;
@@ -10,6 +20,13 @@ export interface Component {
   is_active: boolean;
   created_at: Date;
   notes?: string;
+  archived_at?: Date; // Set when the component is retired; its history is kept
+  archive_reason?: string;
+  replaced_from_id?: string; // Previous physical instance this component replaced
+  equipment_id?: string; // Machine this component belongs to (unassigned if missing)
+  part_number?: string; // Reorder details, carried over to the replacement part
+  size?: string; // e.g., "Medium", "Wide"
+  supplier_id?: string; // Supplier the part is reordered from
 }
 
 export interface MaintenanceAction {
@@ -19,18 +36,28 @@ export interface MaintenanceAction {
   description: string;
   schedule_frequency: number; // number of days or uses
   schedule_unit: 'days' | 'uses';
+  use_limit?: number; // Hybrid schedules: also due after this many uses, whichever comes first
+  recurrence?: string; // Calendar schedules: iCalendar RRULE value, e.g. "FREQ=WEEKLY;BYDAY=SU"
   notification_time?: string; // HH:MM format
   reminder_strategy: 'gentle' | 'standard' | 'urgent';
   last_completed?: Date;
   next_due?: Date;
+  snoozed_until?: Date; // Reminders paused until this time; next_due keeps the real schedule
+  snooze_count?: number; // Snoozes since the last completion or skip
+  uses_since_completion?: number; // Usage-based and hybrid schedules: uses since the last completion or skip
+  calendar_due?: Date; // Hybrid schedules: when the day limit is reached; next_due is the earlier limit
   instructions?: string;
 }
 
+export type MaintenanceLogOutcome = 'completed' | 'skipped' | 'snoozed';
+
 export interface MaintenanceLog {
   id?: string;
   component_id: string;
   action_id: string;
-  completed_at: Date;
+  completed_at: Date; // When the occurrence was completed, skipped or snoozed
+  outcome: MaintenanceLogOutcome;
+  reason?: string; // Why the occurrence was skipped or snoozed
   was_overdue: boolean;
   notes?: string;
   logged_by: 'user' | 'system';
@@ -43,26 +70,139 @@ export interface NotificationConfig {
   time: string; // HH:MM format
   escalation_strategy: 'single_daily' | 'multiple_daily' | 'increasing_urgency';
   escalation_intervals: number[]; // hours, e.g., [0, 4, 8]
+  quiet_hours?: QuietHours | null; // Overrides the global quiet hours; null means none for this action
+}
+
+export interface QuietHours {
+  start: string; // HH:MM format
+  end: string; // HH:MM format; earlier than start when the window spans midnight
+}
+
+export interface OperationJournalEntry {
+  id?: string;
+  sequence: number; // Monotonic order of operations (timestamps can collide)
+  operation: 'complete' | 'skip' | 'snooze';
+  action_id: string;
+  before: Partial<MaintenanceAction>; // Scheduling fields before the operation
+  after: Partial<MaintenanceAction>; // Scheduling fields after the operation
+  log?: MaintenanceLog; // Log created by the operation (removed on undo, restored on redo)
+  supply_id?: string; // Spare part taken from stock (put back on undo, taken again on redo)
+  created_at: Date;
+  undone: boolean;
+}
+
+export interface SupplyItem {
+  id?: string;
+  category: Component['category']; // Which components this spare part fits
+  name: string; // e.g., "AirFit F20 cushion, medium"
+  quantity: number; // Units in stock
+  pack_size: number; // Units per pack, used when restocking
+  low_stock_threshold: number; // Alert when quantity falls to this many units
+  notes?: string;
+  created_at: Date;
+}
+
+export interface Purchase {
+  id?: string;
+  purchased_at: Date;
+  item: string; // e.g., "AirFit F20 cushion, medium"
+  category: Component['category']; // Kept on the purchase so spend reports survive component changes
+  component_id?: string; // Component the purchase was for
+  log_id?: string; // Replacement log the purchase covers
+  quantity: number;
+  price: number; // Total paid for the line (quantity included)
+  currency: string; // ISO 4217 code, e.g., "USD"
+  vendor?: string;
+  notes?: string;
+  created_at: Date;
+}
+
+export interface Supplier {
+  id?: string;
+  name: string; // e.g., DME company or online store
+  phone?: string;
+  email?: string;
+  website?: string;
+  account_number?: string; // Customer/patient account with the supplier
+  notes?: string;
+  created_at: Date;
+}
+
+export interface AllowanceRule {
+  id?: string;
+  category: Component['category']; // One rule per category
+  quantity: number; // Replacements covered per period
+  period_months: number; // e.g., 3 for "1 tubing per 3 months"
+  label?: string; // e.g., "Full-face cushion"
+  created_at: Date;
+}
+
+export interface UsageEntry {
+  id?: string;
+  date: string; // yyyy-MM-dd of the evening the night started; one entry per night
+  used: boolean;
+  hours?: number;
+  sessions?: number; // Mask-on sessions (machine data)
+  leak_50?: number; // Median leak in L/min (machine data)
+  leak_95?: number; // 95th percentile leak in L/min (machine data)
+  ahi?: number; // Apnea-hypopnea index (machine data)
+  pressure?: number; // Median pressure in cmH2O (machine data)
+  source: 'user' | 'assumed' | 'device'; // Assumed entries are backfilled while "assume used" is on; device entries come from machine data
+  created_at: Date;
+}
+
+export interface UserPreferences {
+  id?: string;
+  skip_compliance: 'missed' | 'excused'; // How intentional skips count toward compliance
+  eligibility_reminders: boolean; // Notify when insurance eligibility opens for a category
+  assume_nightly_use_since?: string; // yyyy-MM-dd; while set, unlogged nights from this date count as used
+  quiet_hours_enabled: boolean; // Hold reminders during quiet hours until the window ends
+  quiet_hours: QuietHours;
+  digest_enabled: boolean; // One daily notification for everything due instead of one per action (urgent actions still notify)
+  digest_time: string; // HH:MM format
 }
 
 // Dexie database class
 export class CPAPDatabase extends Dexie {
+  equipment!: Table<Equipment, string>;
   components!: Table<Component, string>;
   maintenanceActions!: Table<MaintenanceAction, string>;
   maintenanceLogs!: Table<MaintenanceLog, string>;
   notificationConfigs!: Table<NotificationConfig, string>;
+  operationJournal!: Table<OperationJournalEntry, string>;
+  preferences!: Table<UserPreferences, string>;
+  supplies!: Table<SupplyItem, string>;
+  purchases!: Table<Purchase, string>;
+  allowanceRules!: Table<AllowanceRule, string>;
+  suppliers!: Table<Supplier, string>;
+  usageJournal!: Table<UsageEntry, string>;
 
-  constructor() {
-    super('CPAPMaintenanceDB');
+  /**
+   * @param name - Database name (tests pass a unique name per case)
+   * @param targetVersion - Highest schema version to declare (tests open older schemas)
+   */
+  constructor(name: string = 'CPAPMaintenanceDB', targetVersion: number = CURRENT_SCHEMA_VERSION) {
+    super(name);
 
-    this.version(1).stores({
-      components: 'id, category, is_active, created_at',
-      maintenanceActions: 'id, component_id, action_type, next_due',
-      maintenanceLogs: 'id, component_id, action_id, completed_at',
-      notificationConfigs: 'id, action_id, enabled'
-    });
+    // Schema versions and upgrade transforms live in migrations.ts
+    applySchemaMigrations(this, targetVersion);
   }
 }
 
+export const DEFAULT_DATABASE_NAME = 'CPAPMaintenanceDB';
+
 // Create and export database instance
-export const db = new CPAPDatabase();
+// Each profile has its own database; `db` is reassigned when the active profile changes
+// and importers see the new connection through the live module binding
+export let db = new CPAPDatabase(DEFAULT_DATABASE_NAME);
+
+/**
+ * Point `db` at another database, closing the previous connection
+ */
+export function setActiveDatabase(name: string): CPAPDatabase {
+  if (db.name !== name) {
+    db.close();
+    db = new CPAPDatabase(name);
+  }
+  return db;
+}
@@ -0,0 +1,203 @@
+/**
+ * EDF Reader
+ *
+ * Minimal parser for European Data Format (EDF/EDF+) files, the format CPAP
+ * machines write to their SD cards. Reads the fixed ASCII header, the
+ * per-signal headers and the 16-bit little-endian data records, and converts
+ * samples to physical values on request. Runs entirely in the browser.
+ *
+ * Format reference: https://www.edfplus.info/specs/edf.html
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EDFSignal {
+  label: string;
+  transducer: string;
+  physicalDimension: string; // Unit of the physical values, e.g. "L/s"
+  physicalMin: number;
+  physicalMax: number;
+  digitalMin: number;
+  digitalMax: number;
+  prefiltering: string;
+  samplesPerRecord: number;
+}
+
+export interface EDFFile {
+  patientId: string;
+  recordingId: string;
+  startDate: Date; // Local time of the first data record
+  recordCount: number;
+  recordDuration: number; // Seconds per data record
+  signals: EDFSignal[];
+  samples: Int16Array[]; // Digital samples per signal, all records concatenated
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const HEADER_BYTES = 256;
+const SIGNAL_HEADER_BYTES = 256;
+
+// Width of each per-signal header field; fields are stored one block per field
+const SIGNAL_FIELD_WIDTHS = [16, 80, 8, 8, 8, 8, 8, 80, 8, 32];
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let text = '';
+  for (let i = offset; i < offset + length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text.trim();
+}
+
+function readNumber(bytes: Uint8Array, offset: number, length: number, field: string): number {
+  const value = Number(readAscii(bytes, offset, length));
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid EDF header: ${field} is not a number`);
+  }
+  return value;
+}
+
+/**
+ * Parse the "dd.mm.yy" and "hh.mm.ss" header fields
+ * Two-digit years 85-99 are 1985-1999, the rest 2000-2084 (per the EDF spec)
+ */
+function parseStartDate(date: string, time: string): Date {
+  const [day, month, year] = date.split('.').map(Number);
+  const [hours, minutes, seconds] = time.split('.').map(Number);
+  if ([day, month, year, hours, minutes, seconds].some((part) => !Number.isFinite(part))) {
+    throw new Error('Invalid EDF header: bad start date');
+  }
+  const fullYear = year >= 85 ? 1900 + year : 2000 + year;
+  return new Date(fullYear, month - 1, day, hours, minutes, seconds);
+}
+
+/**
+ * Parse an EDF or EDF+ file
+ *
+ * @param buffer - The raw file contents
+ * @returns The header, signal headers and digital samples
+ */
+export function parseEDF(buffer: ArrayBuffer): EDFFile {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.length < HEADER_BYTES || readAscii(bytes, 0, 8) !== '0') {
+    throw new Error('Not an EDF file');
+  }
+
+  const headerBytes = readNumber(bytes, 184, 8, 'header size');
+  const signalCount = readNumber(bytes, 252, 4, 'signal count');
+  if (headerBytes !== HEADER_BYTES + signalCount * SIGNAL_HEADER_BYTES || bytes.length < headerBytes) {
+    throw new Error('Invalid EDF header: header size does not match the signal count');
+  }
+
+  // Per-signal fields are stored field by field: all labels, then all transducers, ...
+  const fields: string[][] = [];
+  let offset = HEADER_BYTES;
+  for (const width of SIGNAL_FIELD_WIDTHS) {
+    const values: string[] = [];
+    for (let i = 0; i < signalCount; i++) {
+      values.push(readAscii(bytes, offset, width));
+      offset += width;
+    }
+    fields.push(values);
+  }
+
+  const signals: EDFSignal[] = [];
+  for (let i = 0; i < signalCount; i++) {
+    const signal: EDFSignal = {
+      label: fields[0][i],
+      transducer: fields[1][i],
+      physicalDimension: fields[2][i],
+      physicalMin: Number(fields[3][i]),
+      physicalMax: Number(fields[4][i]),
+      digitalMin: Number(fields[5][i]),
+      digitalMax: Number(fields[6][i]),
+      prefiltering: fields[7][i],
+      samplesPerRecord: Number(fields[8][i]),
+    };
+    if (!Number.isInteger(signal.samplesPerRecord) || signal.samplesPerRecord < 0) {
+      throw new Error(`Invalid EDF header: bad sample count for ${signal.label}`);
+    }
+    signals.push(signal);
+  }
+
+  // A record count of -1 means the recording was not closed; use the records present
+  const samplesPerRecord = signals.reduce((sum, signal) => sum + signal.samplesPerRecord, 0);
+  const recordBytes = samplesPerRecord * 2;
+  const declaredRecords = readNumber(bytes, 236, 8, 'record count');
+  const availableRecords = recordBytes > 0 ? Math.floor((bytes.length - headerBytes) / recordBytes) : 0;
+  const recordCount = declaredRecords >= 0 ? Math.min(declaredRecords, availableRecords) : availableRecords;
+
+  const view = new DataView(buffer);
+  const samples = signals.map((signal) => new Int16Array(signal.samplesPerRecord * recordCount));
+  let position = headerBytes;
+  for (let record = 0; record < recordCount; record++) {
+    signals.forEach((signal, index) => {
+      const target = samples[index];
+      const start = record * signal.samplesPerRecord;
+      for (let i = 0; i < signal.samplesPerRecord; i++) {
+        target[start + i] = view.getInt16(position, true);
+        position += 2;
+      }
+    });
+  }
+
+  return {
+    patientId: readAscii(bytes, 8, 80),
+    recordingId: readAscii(bytes, 88, 80),
+    startDate: parseStartDate(readAscii(bytes, 168, 8), readAscii(bytes, 176, 8)),
+    recordCount,
+    recordDuration: readNumber(bytes, 244, 8, 'record duration'),
+    signals,
+    samples,
+  };
+}
+
+// ============================================================================
+// Signals
+// ============================================================================
+
+/**
+ * Find a signal by label (case-insensitive, ignoring surrounding spaces)
+ */
+export function findSignal(file: EDFFile, label: string): number {
+  const wanted = label.toLowerCase();
+  return file.signals.findIndex((signal) => signal.label.toLowerCase() === wanted);
+}
+
+/**
+ * Get a signal's samples converted to physical values
+ *
+ * @returns The physical values, or undefined if the file has no such signal
+ */
+export function getPhysicalValues(file: EDFFile, label: string): number[] | undefined {
+  const index = findSignal(file, label);
+  if (index < 0) return undefined;
+
+  const signal = file.signals[index];
+  const digitalRange = signal.digitalMax - signal.digitalMin;
+  const scale = digitalRange !== 0 ? (signal.physicalMax - signal.physicalMin) / digitalRange : 1;
+  return Array.from(file.samples[index], (digital) =>
+    (digital - signal.digitalMin) * scale + signal.physicalMin
+  );
+}
+
+/**
+ * Get a signal's physical values split into one array per data record
+ *
+ * @returns The values per record, or undefined if the file has no such signal
+ */
+export function getRecordValues(file: EDFFile, label: string): number[][] | undefined {
+  const values = getPhysicalValues(file, label);
+  if (!values) return undefined;
+
+  const perRecord = file.signals[findSignal(file, label)].samplesPerRecord;
+  const records: number[][] = [];
+  for (let record = 0; record < file.recordCount; record++) {
+    records.push(values.slice(record * perRecord, (record + 1) * perRecord));
+  }
+  return records;
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { AllowanceRule, Component, MaintenanceAction, MaintenanceLog } from './db';
+import { calculateEligibility, getReplacementDates, formatAllowance } from './eligibility';
+
+function rule(overrides: Partial<AllowanceRule> = {}): AllowanceRule {
+  return {
+    id: 'rule-1',
+    category: 'tubing',
+    quantity: 1,
+    period_months: 3,
+    created_at: new Date(2025, 0, 1),
+    ...overrides,
+  };
+}
+
+describe('calculateEligibility', () => {
+  const now = new Date(2025, 5, 15);
+
+  it('should be eligible when nothing has been replaced', () => {
+    const status = calculateEligibility(rule(), [], now);
+
+    expect(status.eligible).toBe(true);
+    expect(status.used).toBe(0);
+    expect(status.nextEligibleDate).toBeUndefined();
+  });
+
+  it('should open eligibility a full period after the limiting replacement', () => {
+    const status = calculateEligibility(rule(), [new Date(2025, 4, 1)], now);
+
+    expect(status.eligible).toBe(false);
+    expect(status.used).toBe(1);
+    expect(status.nextEligibleDate).toEqual(new Date(2025, 7, 1));
+  });
+
+  it('should allow several replacements per period', () => {
+    const twoPerMonth = rule({ category: 'mask_cushion', quantity: 2, period_months: 1 });
+
+    const oneUsed = calculateEligibility(twoPerMonth, [new Date(2025, 5, 10)], now);
+    expect(oneUsed.eligible).toBe(true);
+
+    const bothUsed = calculateEligibility(
+      twoPerMonth,
+      [new Date(2025, 5, 10), new Date(2025, 5, 1)],
+      now
+    );
+    expect(bothUsed.eligible).toBe(false);
+    expect(bothUsed.nextEligibleDate).toEqual(new Date(2025, 6, 1));
+    expect(formatAllowance(twoPerMonth)).toBe('2 per month');
+  });
+});
+
+describe('getReplacementDates', () => {
+  it('should count completed replacements across retired instances of a category', () => {
+    const components = [
+      { id: 'old', category: 'tubing' },
+      { id: 'new', category: 'tubing' },
+      { id: 'mask', category: 'mask_cushion' },
+    ] as Component[];
+    const actions = [
+      { id: 'a-old', component_id: 'old', action_type: 'Replace' },
+      { id: 'a-new', component_id: 'new', action_type: 'Replace' },
+      { id: 'a-clean', component_id: 'new', action_type: 'Clean' },
+      { id: 'a-mask', component_id: 'mask', action_type: 'Replace' },
+    ] as MaintenanceAction[];
+    const logs = [
+      { action_id: 'a-old', completed_at: new Date(2025, 0, 1) },
+      { action_id: 'a-new', completed_at: new Date(2025, 3, 1), outcome: 'skipped' },
+      { action_id: 'a-clean', completed_at: new Date(2025, 4, 1) },
+      { action_id: 'a-mask', completed_at: new Date(2025, 4, 1) },
+      { action_id: 'a-new', completed_at: new Date(2025, 2, 1), outcome: 'completed' },
+    ] as MaintenanceLog[];
+
+    expect(getReplacementDates('tubing', components, actions, logs)).toEqual([
+      new Date(2025, 2, 1),
+      new Date(2025, 0, 1),
+    ]);
+  });
+});
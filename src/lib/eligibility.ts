@@ -0,0 +1,142 @@
+/**
+ * Insurance Replacement Eligibility
+ *
+ * Insurers cover a set number of replacements per category over a rolling
+ * period (e.g. 2 full-face cushions per month, 1 tubing per 3 months).
+ * Eligibility is worked out from the completed replacement logs of every
+ * component in the category, including retired instances, so the count
+ * carries over when a part is replaced.
+ */
+
+import { addMonths, subMonths } from 'date-fns';
+import { db } from './db';
+import type { AllowanceRule, Component, CPAPDatabase, MaintenanceAction, MaintenanceLog } from './db';
+import { isCompletionLog } from './db-operations';
+import { isReplacementAction } from './scheduler';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EligibilityStatus {
+  category: Component['category'];
+  rule: AllowanceRule;
+  used: number; // Replacements within the current period
+  eligible: boolean;
+  nextEligibleDate?: Date; // When the oldest counted replacement drops out of the period
+  lastReplaced?: Date;
+}
+
+/**
+ * Common Medicare replacement schedule, offered as a starting point
+ */
+export const MEDICARE_ALLOWANCES: Array<Pick<AllowanceRule, 'category' | 'quantity' | 'period_months' | 'label'>> = [
+  { category: 'mask_cushion', quantity: 2, period_months: 1, label: 'Full-face cushion' },
+  { category: 'mask_frame', quantity: 1, period_months: 3, label: 'Full-face mask' },
+  { category: 'tubing', quantity: 1, period_months: 3, label: 'Tubing' },
+  { category: 'water_chamber', quantity: 1, period_months: 6, label: 'Humidifier chamber' },
+  { category: 'filter', quantity: 2, period_months: 1, label: 'Disposable filter' },
+];
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+/**
+ * Get the dates replacements were completed in a category, newest first
+ */
+export function getReplacementDates(
+  category: Component['category'],
+  components: Component[],
+  actions: MaintenanceAction[],
+  logs: MaintenanceLog[]
+): Date[] {
+  const componentIds = new Set(
+    components.filter((c) => c.category === category).map((c) => c.id)
+  );
+  const replacementActionIds = new Set(
+    actions
+      .filter((a) => componentIds.has(a.component_id) && isReplacementAction(a))
+      .map((a) => a.id)
+  );
+
+  return logs
+    .filter((log) => replacementActionIds.has(log.action_id) && isCompletionLog(log))
+    .map((log) => log.completed_at)
+    .sort((a, b) => b.getTime() - a.getTime());
+}
+
+/**
+ * Work out eligibility for one rule from its category's replacement dates
+ *
+ * @param replacementDates - Completed replacements, newest first
+ */
+export function calculateEligibility(
+  rule: AllowanceRule,
+  replacementDates: Date[],
+  now: Date = new Date()
+): EligibilityStatus {
+  const periodStart = subMonths(now, rule.period_months);
+  const used = replacementDates.filter((date) => date > periodStart).length;
+
+  // The allowance frees up once the quantity-th most recent replacement is a full period old
+  const limitingDate = replacementDates[rule.quantity - 1];
+  const nextEligibleDate = limitingDate ? addMonths(limitingDate, rule.period_months) : undefined;
+
+  return {
+    category: rule.category,
+    rule,
+    used,
+    eligible: !nextEligibleDate || nextEligibleDate <= now,
+    nextEligibleDate,
+    lastReplaced: replacementDates[0],
+  };
+}
+
+/**
+ * Work out eligibility for every rule
+ */
+export function getEligibilityStatuses(
+  rules: AllowanceRule[],
+  components: Component[],
+  actions: MaintenanceAction[],
+  logs: MaintenanceLog[],
+  now: Date = new Date()
+): EligibilityStatus[] {
+  return rules.map((rule) =>
+    calculateEligibility(
+      rule,
+      getReplacementDates(rule.category, components, actions, logs),
+      now
+    )
+  );
+}
+
+/**
+ * Work out eligibility for every rule in a profile database
+ *
+ * @param database - Profile database to check (defaults to the active profile)
+ */
+export async function getEligibilityForDatabase(
+  database: CPAPDatabase = db
+): Promise<EligibilityStatus[]> {
+  const [rules, components, actions, logs] = await Promise.all([
+    database.allowanceRules.toArray(),
+    database.components.toArray(),
+    database.maintenanceActions.toArray(),
+    database.maintenanceLogs.toArray(),
+  ]);
+  return getEligibilityStatuses(rules, components, actions, logs);
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Describe an allowance rule, e.g. "2 per month" or "1 per 3 months"
+ */
+export function formatAllowance(rule: Pick<AllowanceRule, 'quantity' | 'period_months'>): string {
+  const period = rule.period_months === 1 ? 'month' : `${rule.period_months} months`;
+  return `${rule.quantity} per ${period}`;
+}
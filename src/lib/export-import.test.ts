@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from './db';
+import { dbOperations, getDbOperations } from './db-operations';
+import {
+  exportAllProfilesToJSON,
+  exportToJSON,
+  importAllProfiles,
+  importData,
+  validateImportData,
+} from './export-import';
+import { profileOperations, withProfileDatabase, DEFAULT_PROFILE_ID } from './profiles';
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+afterEach(async () => {
+  for (const profile of await profileOperations.getAll()) {
+    if (profile.id !== DEFAULT_PROFILE_ID) {
+      await profileOperations.delete(profile.id);
+    }
+  }
+});
+
+describe('preferences in backups', () => {
+  it('should restore preferences in replace and merge mode', async () => {
+    await dbOperations.preferences.update({
+      skip_compliance: 'excused',
+      quiet_hours_enabled: true,
+      quiet_hours: { start: '23:00', end: '06:30' },
+      digest_enabled: true,
+      digest_time: '19:00',
+    });
+    const backup = JSON.parse(JSON.stringify(await exportToJSON()));
+    expect((await validateImportData(backup)).isValid).toBe(true);
+
+    await db.preferences.clear();
+    await importData(backup, 'replace');
+    expect(await dbOperations.preferences.get()).toMatchObject({
+      skip_compliance: 'excused',
+      quiet_hours: { start: '23:00', end: '06:30' },
+      digest_enabled: true,
+      digest_time: '19:00',
+    });
+
+    await dbOperations.preferences.update({ digest_enabled: false, eligibility_reminders: false });
+    await importData(backup, 'merge');
+    const merged = await dbOperations.preferences.get();
+    expect(merged.digest_enabled).toBe(true);
+    expect(merged.skip_compliance).toBe('excused');
+  });
+
+  it('should keep each profile\'s preferences in an all-profile backup', async () => {
+    const partnerId = await profileOperations.create('Partner');
+    await withProfileDatabase(partnerId, (database) =>
+      getDbOperations(database).preferences.update({ digest_enabled: true, digest_time: '07:15' })
+    );
+    const backup = JSON.parse(JSON.stringify(await exportAllProfilesToJSON()));
+
+    await withProfileDatabase(partnerId, (database) => database.preferences.clear());
+    await importAllProfiles(backup, 'replace');
+
+    const restored = await withProfileDatabase(partnerId, (database) => getDbOperations(database).preferences.get());
+    expect(restored).toMatchObject({ digest_enabled: true, digest_time: '07:15' });
+    expect((await dbOperations.preferences.get()).digest_enabled).toBe(false);
+  });
+
+  it('should accept backups made before preferences were exported', async () => {
+    const backup = JSON.parse(JSON.stringify(await exportToJSON()));
+    delete backup.data.preferences;
+
+    expect((await validateImportData(backup)).isValid).toBe(true);
+    await importData(backup, 'merge');
+    expect(await db.preferences.count()).toBe(0);
+  });
+});
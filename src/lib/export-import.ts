@@ -1,5 +1,9 @@
 import { db } from './db';
-import type { Component, MaintenanceAction, MaintenanceLog, NotificationConfig } from './db';
+import type { CPAPDatabase, Equipment, SupplyItem, Purchase, AllowanceRule, Supplier, UsageEntry, Component, MaintenanceAction, MaintenanceLog, NotificationConfig, UserPreferences } from './db';
+import { CURRENT_SCHEMA_VERSION, migrateTableRecords } from './migrations';
+import { profileOperations, withProfileDatabase, type Profile } from './profiles';
+import { getCategoryDisplayName } from './component-templates';
+import { isValidRecurrence } from './recurrence';
 
 // ============================================================================
 // Export Data Types
@@ -7,8 +11,18 @@ import type { Component, MaintenanceAction, MaintenanceLog, NotificationConfig }
 
 export interface ExportData {
   version: string;
+  schemaVersion?: number; // Database schema the data was exported from (absent in pre-migration backups)
   exportedAt: string;
+  profile?: { id: string; name: string }; // Profile the data was exported from
+  // Optional tables are absent in backups created before they existed
   data: {
+    equipment?: Equipment[];
+    supplies?: SupplyItem[];
+    purchases?: Purchase[];
+    allowanceRules?: AllowanceRule[];
+    suppliers?: Supplier[];
+    usageJournal?: UsageEntry[];
+    preferences?: UserPreferences[];
     components: Component[];
     maintenanceActions: MaintenanceAction[];
     maintenanceLogs: MaintenanceLog[];
@@ -16,11 +30,30 @@ export interface ExportData {
   };
 }
 
+/**
+ * Backup of every profile on the device, one regular export per profile
+ */
+export interface ProfilesExportData {
+  version: string;
+  exportedAt: string;
+  profiles: Array<{
+    profile: { id: string; name: string };
+    export: ExportData;
+  }>;
+}
+
 export interface ImportValidationResult {
   isValid: boolean;
   errors: string[];
   warnings: string[];
+  profiles?: string[]; // Profile names, for all-profile backups
   summary: {
+    equipment: number;
+    supplies: number;
+    purchases: number;
+    allowanceRules: number;
+    suppliers: number;
+    usageJournal: number;
     components: number;
     maintenanceActions: number;
     maintenanceLogs: number;
@@ -35,20 +68,42 @@ export type ImportMode = 'merge' | 'replace';
 // ============================================================================
 
 /**
- * Export all data as a JSON object with version metadata
+ * Export all data of one profile as a JSON object with version metadata
+ *
+ * @param profile - Recorded in the export so the backup says whose data it is
+ * @param database - Profile database to export (defaults to the active profile)
  */
-export async function exportToJSON(): Promise<ExportData> {
-  const [components, maintenanceActions, maintenanceLogs, notificationConfigs] = await Promise.all([
-    db.components.toArray(),
-    db.maintenanceActions.toArray(),
-    db.maintenanceLogs.toArray(),
-    db.notificationConfigs.toArray(),
+export async function exportToJSON(
+  profile?: Profile,
+  database: CPAPDatabase = db
+): Promise<ExportData> {
+  const [equipment, supplies, purchases, allowanceRules, suppliers, usageJournal, preferences, components, maintenanceActions, maintenanceLogs, notificationConfigs] = await Promise.all([
+    database.equipment.toArray(),
+    database.supplies.toArray(),
+    database.purchases.toArray(),
+    database.allowanceRules.toArray(),
+    database.suppliers.toArray(),
+    database.usageJournal.toArray(),
+    database.preferences.toArray(),
+    database.components.toArray(),
+    database.maintenanceActions.toArray(),
+    database.maintenanceLogs.toArray(),
+    database.notificationConfigs.toArray(),
   ]);
 
   return {
     version: '1.0',
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     exportedAt: new Date().toISOString(),
+    profile: profile ? { id: profile.id, name: profile.name } : undefined,
     data: {
+      equipment,
+      supplies,
+      purchases,
+      allowanceRules,
+      suppliers,
+      usageJournal,
+      preferences,
       components,
       maintenanceActions,
       maintenanceLogs,
@@ -57,6 +112,31 @@ export async function exportToJSON(): Promise<ExportData> {
   };
 }
 
+/**
+ * Export every profile on this device into a single backup
+ */
+export async function exportAllProfilesToJSON(): Promise<ProfilesExportData> {
+  const profiles = await profileOperations.getAll();
+  const entries: ProfilesExportData['profiles'] = [];
+
+  for (const profile of profiles) {
+    const data = await withProfileDatabase(profile.id, (database) => exportToJSON(profile, database));
+    entries.push({ profile: { id: profile.id, name: profile.name }, export: data });
+  }
+
+  return {
+    version: '1.0',
+    exportedAt: new Date().toISOString(),
+    profiles: entries,
+  };
+}
+
+const CSV_OUTCOME_LABELS: Record<MaintenanceLog['outcome'], string> = {
+  completed: 'Completed',
+  skipped: 'Skipped',
+  snoozed: 'Snoozed',
+};
+
 /**
  * Export maintenance logs as CSV for medical records
  */
@@ -79,7 +159,7 @@ export async function exportMaintenanceLogsToCSV(): Promise<string> {
   });
 
   // CSV header
-  const header = ['Date', 'Component', 'Action', 'Was Overdue', 'Notes', 'Logged By'];
+  const header = ['Date', 'Component', 'Action', 'Outcome', 'Reason', 'Was Overdue', 'Notes', 'Logged By'];
 
   // CSV rows
   const rows = sortedLogs.map(log => {
@@ -93,6 +173,8 @@ export async function exportMaintenanceLogsToCSV(): Promise<string> {
       completedAt.toISOString().split('T')[0], // YYYY-MM-DD format
       component?.name || 'Unknown',
       action?.action_type || 'Unknown',
+      CSV_OUTCOME_LABELS[log.outcome],
+      escapeCSV(log.reason || ''),
       log.was_overdue ? 'Yes' : 'No',
       escapeCSV(log.notes || ''),
       log.logged_by,
@@ -108,10 +190,68 @@ export async function exportMaintenanceLogsToCSV(): Promise<string> {
   return csvContent;
 }
 
+/**
+ * Export purchases as CSV for FSA/HSA and insurance paperwork
+ */
+export async function exportPurchasesToCSV(): Promise<string> {
+  const [purchases, components, logs] = await Promise.all([
+    db.purchases.toArray(),
+    db.components.toArray(),
+    db.maintenanceLogs.toArray(),
+  ]);
+
+  // Create lookup maps
+  const componentMap = new Map(components.map(c => [c.id, c]));
+  const logMap = new Map(logs.map(l => [l.id, l]));
+
+  // Sort purchases by date (newest first)
+  const sortedPurchases = [...purchases].sort((a, b) => {
+    const dateA = a.purchased_at instanceof Date ? a.purchased_at : new Date(a.purchased_at);
+    const dateB = b.purchased_at instanceof Date ? b.purchased_at : new Date(b.purchased_at);
+    return dateB.getTime() - dateA.getTime();
+  });
+
+  // CSV header
+  const header = ['Date', 'Item', 'Category', 'Component', 'Quantity', 'Price', 'Currency', 'Vendor', 'Replacement Date', 'Notes'];
+
+  // CSV rows
+  const rows = sortedPurchases.map(purchase => {
+    const component = purchase.component_id ? componentMap.get(purchase.component_id) : undefined;
+    const log = purchase.log_id ? logMap.get(purchase.log_id) : undefined;
+    const purchasedAt = purchase.purchased_at instanceof Date
+      ? purchase.purchased_at
+      : new Date(purchase.purchased_at);
+    const replacedAt = log
+      ? (log.completed_at instanceof Date ? log.completed_at : new Date(log.completed_at))
+      : undefined;
+
+    return [
+      purchasedAt.toISOString().split('T')[0], // YYYY-MM-DD format
+      escapeCSV(purchase.item),
+      escapeCSV(getCategoryDisplayName(purchase.category)),
+      escapeCSV(component?.name || ''),
+      purchase.quantity,
+      purchase.price.toFixed(2),
+      purchase.currency,
+      escapeCSV(purchase.vendor || ''),
+      replacedAt ? replacedAt.toISOString().split('T')[0] : '',
+      escapeCSV(purchase.notes || ''),
+    ];
+  });
+
+  // Combine header and rows
+  const csvContent = [
+    header.join(','),
+    ...rows.map(row => row.join(','))
+  ].join('\n');
+
+  return csvContent;
+}
+
 /**
  * Escape a value for CSV (handles commas, quotes, and newlines)
  */
-function escapeCSV(value: string): string {
+export function escapeCSV(value: string): string {
   if (value.includes(',') || value.includes('"') || value.includes('\n')) {
     return `"${value.replace(/"/g, '""')}"`;
   }
@@ -121,7 +261,7 @@ function escapeCSV(value: string): string {
 /**
  * Trigger a browser download for JSON data
  */
-export function downloadJSON(data: ExportData, filename?: string): void {
+export function downloadJSON(data: ExportData | ProfilesExportData, filename?: string): void {
   const jsonString = JSON.stringify(data, null, 2);
   const blob = new Blob([jsonString], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
@@ -157,6 +297,22 @@ export function downloadCSV(csvContent: string, filename?: string): void {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Trigger a browser download for plain text
+ */
+export function downloadText(content: string, filename: string): void {
+  const blob = new Blob([content], { type: 'text/plain;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 // ============================================================================
 // Import Functions
 // ============================================================================
@@ -186,10 +342,22 @@ export function readImportFile(file: File): Promise<unknown> {
   });
 }
 
+/**
+ * Check if parsed import data is an all-profile backup
+ */
+export function isProfilesExport(data: unknown): data is ProfilesExportData {
+  return Boolean(data) && typeof data === 'object' && Array.isArray((data as ProfilesExportData).profiles);
+}
+
 /**
  * Validate import data schema and return errors/warnings/summary
+ * All-profile backups are validated profile by profile and summarized together
  */
 export async function validateImportData(data: unknown): Promise<ImportValidationResult> {
+  if (isProfilesExport(data)) {
+    return await validateProfilesExport(data);
+  }
+
   const errors: string[] = [];
   const warnings: string[] = [];
 
@@ -199,7 +367,7 @@ export async function validateImportData(data: unknown): Promise<ImportValidatio
       isValid: false,
       errors: ['Invalid data format: expected an object'],
       warnings: [],
-      summary: { components: 0, maintenanceActions: 0, maintenanceLogs: 0, notificationConfigs: 0 },
+      summary: { equipment: 0, supplies: 0, purchases: 0, allowanceRules: 0, suppliers: 0, usageJournal: 0, components: 0, maintenanceActions: 0, maintenanceLogs: 0, notificationConfigs: 0 },
     };
   }
 
@@ -212,19 +380,52 @@ export async function validateImportData(data: unknown): Promise<ImportValidatio
     warnings.push(`Unknown version "${exportData.version}", import may not work correctly`);
   }
 
+  // Check schema version
+  const schemaVersion = getExportSchemaVersion(exportData);
+  if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+    warnings.push(
+      `Backup was created by a newer version of the app (schema ${schemaVersion}), some fields may be ignored`
+    );
+  } else if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+    warnings.push(
+      `Backup uses an older data format (schema ${schemaVersion}) and will be upgraded during import`
+    );
+  }
+
   // Check data structure
   if (!exportData.data || typeof exportData.data !== 'object') {
     return {
       isValid: false,
       errors: ['Missing or invalid data field'],
       warnings,
-      summary: { components: 0, maintenanceActions: 0, maintenanceLogs: 0, notificationConfigs: 0 },
+      summary: { equipment: 0, supplies: 0, purchases: 0, allowanceRules: 0, suppliers: 0, usageJournal: 0, components: 0, maintenanceActions: 0, maintenanceLogs: 0, notificationConfigs: 0 },
     };
   }
 
-  const { components = [], maintenanceActions = [], maintenanceLogs = [], notificationConfigs = [] } = exportData.data;
+  const { equipment = [], supplies = [], purchases = [], allowanceRules = [], suppliers = [], usageJournal = [], preferences = [], components = [], maintenanceActions = [], maintenanceLogs = [], notificationConfigs = [] } = exportData.data;
 
   // Validate arrays
+  if (!Array.isArray(equipment)) {
+    errors.push('equipment must be an array');
+  }
+  if (!Array.isArray(supplies)) {
+    errors.push('supplies must be an array');
+  }
+  if (!Array.isArray(purchases)) {
+    errors.push('purchases must be an array');
+  }
+  if (!Array.isArray(allowanceRules)) {
+    errors.push('allowanceRules must be an array');
+  }
+  if (!Array.isArray(suppliers)) {
+    errors.push('suppliers must be an array');
+  }
+  if (!Array.isArray(usageJournal)) {
+    errors.push('usageJournal must be an array');
+  }
+  if (!Array.isArray(preferences)) {
+    errors.push('preferences must be an array');
+  }
   if (!Array.isArray(components)) {
     errors.push('components must be an array');
   }
@@ -243,15 +444,26 @@ export async function validateImportData(data: unknown): Promise<ImportValidatio
       isValid: false,
       errors,
       warnings,
-      summary: { components: 0, maintenanceActions: 0, maintenanceLogs: 0, notificationConfigs: 0 },
+      summary: { equipment: 0, supplies: 0, purchases: 0, allowanceRules: 0, suppliers: 0, usageJournal: 0, components: 0, maintenanceActions: 0, maintenanceLogs: 0, notificationConfigs: 0 },
     };
   }
 
   // Build component ID set for reference validation
   const componentIds = new Set(components.map(c => c.id));
   const actionIds = new Set(maintenanceActions.map(a => a.id));
+  const equipmentIds = new Set(equipment.map(e => e.id));
 
   // Check for orphaned references
+  let orphanedComponents = 0;
+  for (const component of components) {
+    if (component.equipment_id && !equipmentIds.has(component.equipment_id)) {
+      orphanedComponents++;
+    }
+  }
+  if (orphanedComponents > 0) {
+    warnings.push(`${orphanedComponents} component(s) reference missing machines`);
+  }
+
   let orphanedActions = 0;
   for (const action of maintenanceActions) {
     if (!componentIds.has(action.component_id)) {
@@ -262,6 +474,16 @@ export async function validateImportData(data: unknown): Promise<ImportValidatio
     warnings.push(`${orphanedActions} maintenance action(s) reference missing components`);
   }
 
+  // Rules this app can't schedule are dropped on import; the action keeps its day frequency
+  const unsupportedRecurrences = maintenanceActions.filter(
+    (action) => action.recurrence && !isValidRecurrence(action.recurrence)
+  ).length;
+  if (unsupportedRecurrences > 0) {
+    warnings.push(
+      `${unsupportedRecurrences} maintenance action(s) have unsupported recurrence rules and will repeat by their day frequency`
+    );
+  }
+
   let orphanedLogs = 0;
   for (const log of maintenanceLogs) {
     if (!componentIds.has(log.component_id) || !actionIds.has(log.action_id)) {
@@ -282,6 +504,68 @@ export async function validateImportData(data: unknown): Promise<ImportValidatio
     warnings.push(`${orphanedConfigs} notification config(s) reference missing actions`);
   }
 
+  const logIds = new Set(maintenanceLogs.map(l => l.id));
+  let orphanedPurchases = 0;
+  for (const purchase of purchases) {
+    if ((purchase.component_id && !componentIds.has(purchase.component_id)) ||
+        (purchase.log_id && !logIds.has(purchase.log_id))) {
+      orphanedPurchases++;
+    }
+  }
+  if (orphanedPurchases > 0) {
+    warnings.push(`${orphanedPurchases} purchase(s) link to missing components or logs`);
+  }
+
+  // Validate required fields on equipment
+  for (let i = 0; i < equipment.length; i++) {
+    const e = equipment[i];
+    if (!e.id) errors.push(`Machine at index ${i} missing id`);
+    if (!e.name) errors.push(`Machine at index ${i} missing name`);
+  }
+
+  // Validate required fields on supplies
+  for (let i = 0; i < supplies.length; i++) {
+    const s = supplies[i];
+    if (!s.id) errors.push(`Supply at index ${i} missing id`);
+    if (!s.name) errors.push(`Supply at index ${i} missing name`);
+  }
+
+  // Validate required fields on purchases
+  for (let i = 0; i < purchases.length; i++) {
+    const p = purchases[i];
+    if (!p.id) errors.push(`Purchase at index ${i} missing id`);
+    if (!p.item) errors.push(`Purchase at index ${i} missing item`);
+  }
+
+  // Validate required fields on allowance rules
+  for (let i = 0; i < allowanceRules.length; i++) {
+    const r = allowanceRules[i];
+    if (!r.id) errors.push(`Allowance rule at index ${i} missing id`);
+    if (!r.category) errors.push(`Allowance rule at index ${i} missing category`);
+    if (!(r.quantity >= 1) || !(r.period_months >= 1)) {
+      errors.push(`Allowance rule at index ${i} needs a quantity and period of at least 1`);
+    }
+  }
+
+  // Validate required fields on suppliers
+  for (let i = 0; i < suppliers.length; i++) {
+    const s = suppliers[i];
+    if (!s.id) errors.push(`Supplier at index ${i} missing id`);
+    if (!s.name) errors.push(`Supplier at index ${i} missing name`);
+  }
+
+  // Validate required fields on usage journal entries
+  for (let i = 0; i < usageJournal.length; i++) {
+    const u = usageJournal[i];
+    if (!u.id) errors.push(`Usage entry at index ${i} missing id`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(u.date ?? '')) errors.push(`Usage entry at index ${i} has an invalid date`);
+  }
+
+  // Validate required fields on preferences
+  for (let i = 0; i < preferences.length; i++) {
+    if (!preferences[i].id) errors.push(`Preferences at index ${i} missing id`);
+  }
+
   // Validate required fields on components
   for (let i = 0; i < components.length; i++) {
     const c = components[i];
@@ -301,6 +585,12 @@ export async function validateImportData(data: unknown): Promise<ImportValidatio
     errors,
     warnings,
     summary: {
+      equipment: equipment.length,
+      supplies: supplies.length,
+      purchases: purchases.length,
+      allowanceRules: allowanceRules.length,
+      suppliers: suppliers.length,
+      usageJournal: usageJournal.length,
       components: components.length,
       maintenanceActions: maintenanceActions.length,
       maintenanceLogs: maintenanceLogs.length,
@@ -309,28 +599,125 @@ export async function validateImportData(data: unknown): Promise<ImportValidatio
   };
 }
 
+/**
+ * Validate each profile in an all-profile backup
+ * Messages are prefixed with the profile name they came from
+ */
+async function validateProfilesExport(data: ProfilesExportData): Promise<ImportValidationResult> {
+  const result: ImportValidationResult = {
+    isValid: true,
+    errors: [],
+    warnings: [],
+    profiles: [],
+    summary: { equipment: 0, supplies: 0, purchases: 0, allowanceRules: 0, suppliers: 0, usageJournal: 0, components: 0, maintenanceActions: 0, maintenanceLogs: 0, notificationConfigs: 0 },
+  };
+
+  for (let i = 0; i < data.profiles.length; i++) {
+    const entry = data.profiles[i];
+    if (!entry?.profile?.id || !entry.profile.name) {
+      result.errors.push(`Profile at index ${i} missing id or name`);
+      continue;
+    }
+
+    const name = entry.profile.name;
+    const validation = await validateImportData(entry.export);
+    result.profiles!.push(name);
+    result.errors.push(...validation.errors.map((message) => `${name}: ${message}`));
+    result.warnings.push(...validation.warnings.map((message) => `${name}: ${message}`));
+    for (const key of Object.keys(result.summary) as (keyof ImportValidationResult['summary'])[]) {
+      result.summary[key] += validation.summary[key];
+    }
+  }
+
+  if (data.profiles.length === 0) {
+    result.errors.push('Backup contains no profiles');
+  }
+
+  result.isValid = result.errors.length === 0;
+  return result;
+}
+
 /**
  * Import data with specified mode (merge or replace)
+ * Imports into the active profile unless another profile database is given
  */
-export async function importData(data: ExportData, mode: ImportMode): Promise<void> {
-  const { components, maintenanceActions, maintenanceLogs, notificationConfigs } = data.data;
+export async function importData(
+  data: ExportData,
+  mode: ImportMode,
+  database: CPAPDatabase = db
+): Promise<void> {
+  const { equipment = [], supplies = [], purchases = [], allowanceRules = [], suppliers = [], usageJournal = [], preferences = [], components, maintenanceActions, maintenanceLogs, notificationConfigs } = migrateExportData(data).data;
 
   if (mode === 'replace') {
     // Clear all existing data first
-    await clearAllData();
+    await clearAllData(database);
 
     // Bulk insert all data
-    await bulkImportComponents(components);
-    await bulkImportMaintenanceActions(maintenanceActions);
-    await bulkImportMaintenanceLogs(maintenanceLogs);
-    await bulkImportNotificationConfigs(notificationConfigs);
+    await bulkImportEquipment(equipment, database);
+    await bulkImportSupplies(supplies, database);
+    await bulkImportSuppliers(suppliers, database);
+    await bulkImportComponents(components, database);
+    await bulkImportMaintenanceActions(maintenanceActions, database);
+    await bulkImportMaintenanceLogs(maintenanceLogs, database);
+    await bulkImportNotificationConfigs(notificationConfigs, database);
+    await bulkImportPurchases(purchases, database);
+    await bulkImportAllowanceRules(allowanceRules, database);
+    await bulkImportUsageJournal(usageJournal, database);
+    await bulkImportPreferences(preferences, database);
   } else {
     // Merge mode: add new items, update existing by ID
-    await mergeImportComponents(components);
-    await mergeImportMaintenanceActions(maintenanceActions);
-    await mergeImportMaintenanceLogs(maintenanceLogs);
-    await mergeImportNotificationConfigs(notificationConfigs);
+    await mergeImportEquipment(equipment, database);
+    await mergeImportSupplies(supplies, database);
+    await mergeImportSuppliers(suppliers, database);
+    await mergeImportComponents(components, database);
+    await mergeImportMaintenanceActions(maintenanceActions, database);
+    await mergeImportMaintenanceLogs(maintenanceLogs, database);
+    await mergeImportNotificationConfigs(notificationConfigs, database);
+    await mergeImportPurchases(purchases, database);
+    await mergeImportAllowanceRules(allowanceRules, database);
+    await mergeImportUsageJournal(usageJournal, database);
+    await mergeImportPreferences(preferences, database);
+  }
+}
+
+/**
+ * Import an all-profile backup
+ * Profiles are matched by ID and created when missing. In replace mode only
+ * the profiles contained in the backup are replaced; others are left alone.
+ */
+export async function importAllProfiles(data: ProfilesExportData, mode: ImportMode): Promise<void> {
+  for (const entry of data.profiles) {
+    const existing = await profileOperations.getById(entry.profile.id);
+    if (!existing) {
+      await profileOperations.create(entry.profile.name, entry.profile.id);
+    }
+
+    await withProfileDatabase(entry.profile.id, (database) => importData(entry.export, mode, database));
+  }
+}
+
+/**
+ * Get the schema version an export was written with
+ * Backups created before schema migrations existed have no schemaVersion and are schema 1
+ */
+export function getExportSchemaVersion(data: Partial<ExportData>): number {
+  return typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+}
+
+/**
+ * Upgrade exported data to the current schema using the same transforms as the database migrations
+ */
+export function migrateExportData(data: ExportData): ExportData {
+  const fromVersion = getExportSchemaVersion(data);
+  if (fromVersion >= CURRENT_SCHEMA_VERSION) {
+    return data;
   }
+
+  return {
+    ...data,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    data: migrateTableRecords(data.data, fromVersion),
+  };
 }
 
 // ============================================================================
@@ -340,34 +727,73 @@ export async function importData(data: ExportData, mode: ImportMode): Promise<vo
 /**
  * Clear all data from all tables
  */
-export async function clearAllData(): Promise<void> {
+export async function clearAllData(database: CPAPDatabase = db): Promise<void> {
   await Promise.all([
-    db.components.clear(),
-    db.maintenanceActions.clear(),
-    db.maintenanceLogs.clear(),
-    db.notificationConfigs.clear(),
+    database.equipment.clear(),
+    database.supplies.clear(),
+    database.purchases.clear(),
+    database.allowanceRules.clear(),
+    database.suppliers.clear(),
+    database.usageJournal.clear(),
+    database.preferences.clear(),
+    database.components.clear(),
+    database.maintenanceActions.clear(),
+    database.maintenanceLogs.clear(),
+    database.notificationConfigs.clear(),
+    database.operationJournal.clear(), // Entries would point at replaced records
   ]);
 }
 
+/**
+ * Bulk import equipment (for replace mode)
+ */
+async function bulkImportEquipment(equipment: Equipment[], database: CPAPDatabase): Promise<void> {
+  if (equipment.length === 0) return;
+
+  // Parse dates and ensure proper format
+  const parsed = equipment.map(e => ({
+    ...e,
+    created_at: e.created_at instanceof Date ? e.created_at : new Date(e.created_at),
+  }));
+
+  await database.equipment.bulkAdd(parsed);
+}
+
+/**
+ * Bulk import supplies (for replace mode)
+ */
+async function bulkImportSupplies(supplies: SupplyItem[], database: CPAPDatabase): Promise<void> {
+  if (supplies.length === 0) return;
+
+  // Parse dates and ensure proper format
+  const parsed = supplies.map(s => ({
+    ...s,
+    created_at: s.created_at instanceof Date ? s.created_at : new Date(s.created_at),
+  }));
+
+  await database.supplies.bulkAdd(parsed);
+}
+
 /**
  * Bulk import components (for replace mode)
  */
-async function bulkImportComponents(components: Component[]): Promise<void> {
+async function bulkImportComponents(components: Component[], database: CPAPDatabase): Promise<void> {
   if (components.length === 0) return;
 
   // Parse dates and ensure proper format
   const parsed = components.map(c => ({
     ...c,
     created_at: c.created_at instanceof Date ? c.created_at : new Date(c.created_at),
+    archived_at: c.archived_at ? (c.archived_at instanceof Date ? c.archived_at : new Date(c.archived_at)) : undefined,
   }));
 
-  await db.components.bulkAdd(parsed);
+  await database.components.bulkAdd(parsed);
 }
 
 /**
  * Bulk import maintenance actions (for replace mode)
  */
-async function bulkImportMaintenanceActions(actions: MaintenanceAction[]): Promise<void> {
+async function bulkImportMaintenanceActions(actions: MaintenanceAction[], database: CPAPDatabase): Promise<void> {
   if (actions.length === 0) return;
 
   // Parse dates and ensure proper format
@@ -375,15 +801,18 @@ async function bulkImportMaintenanceActions(actions: MaintenanceAction[]): Promi
     ...a,
     next_due: a.next_due ? (a.next_due instanceof Date ? a.next_due : new Date(a.next_due)) : undefined,
     last_completed: a.last_completed ? (a.last_completed instanceof Date ? a.last_completed : new Date(a.last_completed)) : undefined,
+    snoozed_until: a.snoozed_until ? (a.snoozed_until instanceof Date ? a.snoozed_until : new Date(a.snoozed_until)) : undefined,
+    calendar_due: a.calendar_due ? (a.calendar_due instanceof Date ? a.calendar_due : new Date(a.calendar_due)) : undefined,
+    recurrence: a.recurrence && isValidRecurrence(a.recurrence) ? a.recurrence : undefined,
   }));
 
-  await db.maintenanceActions.bulkAdd(parsed);
+  await database.maintenanceActions.bulkAdd(parsed);
 }
 
 /**
  * Bulk import maintenance logs (for replace mode)
  */
-async function bulkImportMaintenanceLogs(logs: MaintenanceLog[]): Promise<void> {
+async function bulkImportMaintenanceLogs(logs: MaintenanceLog[], database: CPAPDatabase): Promise<void> {
   if (logs.length === 0) return;
 
   // Parse dates and ensure proper format
@@ -392,32 +821,71 @@ async function bulkImportMaintenanceLogs(logs: MaintenanceLog[]): Promise<void>
     completed_at: l.completed_at instanceof Date ? l.completed_at : new Date(l.completed_at),
   }));
 
-  await db.maintenanceLogs.bulkAdd(parsed);
+  await database.maintenanceLogs.bulkAdd(parsed);
 }
 
 /**
  * Bulk import notification configs (for replace mode)
  */
-async function bulkImportNotificationConfigs(configs: NotificationConfig[]): Promise<void> {
+async function bulkImportNotificationConfigs(configs: NotificationConfig[], database: CPAPDatabase): Promise<void> {
   if (configs.length === 0) return;
-  await db.notificationConfigs.bulkAdd(configs);
+  await database.notificationConfigs.bulkAdd(configs);
+}
+
+/**
+ * Merge import equipment (for merge mode)
+ */
+async function mergeImportEquipment(equipment: Equipment[], database: CPAPDatabase): Promise<void> {
+  for (const machine of equipment) {
+    const existing = await database.equipment.get(machine.id!);
+    const parsed = {
+      ...machine,
+      created_at: machine.created_at instanceof Date ? machine.created_at : new Date(machine.created_at),
+    };
+
+    if (existing) {
+      await database.equipment.update(machine.id!, parsed);
+    } else {
+      await database.equipment.add(parsed);
+    }
+  }
+}
+
+/**
+ * Merge import supplies (for merge mode)
+ */
+async function mergeImportSupplies(supplies: SupplyItem[], database: CPAPDatabase): Promise<void> {
+  for (const supply of supplies) {
+    const existing = await database.supplies.get(supply.id!);
+    const parsed = {
+      ...supply,
+      created_at: supply.created_at instanceof Date ? supply.created_at : new Date(supply.created_at),
+    };
+
+    if (existing) {
+      await database.supplies.update(supply.id!, parsed);
+    } else {
+      await database.supplies.add(parsed);
+    }
+  }
 }
 
 /**
  * Merge import components (for merge mode)
  */
-async function mergeImportComponents(components: Component[]): Promise<void> {
+async function mergeImportComponents(components: Component[], database: CPAPDatabase): Promise<void> {
   for (const component of components) {
-    const existing = await db.components.get(component.id!);
+    const existing = await database.components.get(component.id!);
     const parsed = {
       ...component,
       created_at: component.created_at instanceof Date ? component.created_at : new Date(component.created_at),
+      archived_at: component.archived_at ? (component.archived_at instanceof Date ? component.archived_at : new Date(component.archived_at)) : undefined,
     };
 
     if (existing) {
-      await db.components.update(component.id!, parsed);
+      await database.components.update(component.id!, parsed);
     } else {
-      await db.components.add(parsed);
+      await database.components.add(parsed);
     }
   }
 }
@@ -425,19 +893,22 @@ async function mergeImportComponents(components: Component[]): Promise<void> {
 /**
  * Merge import maintenance actions (for merge mode)
  */
-async function mergeImportMaintenanceActions(actions: MaintenanceAction[]): Promise<void> {
+async function mergeImportMaintenanceActions(actions: MaintenanceAction[], database: CPAPDatabase): Promise<void> {
   for (const action of actions) {
-    const existing = await db.maintenanceActions.get(action.id!);
+    const existing = await database.maintenanceActions.get(action.id!);
     const parsed = {
       ...action,
       next_due: action.next_due ? (action.next_due instanceof Date ? action.next_due : new Date(action.next_due)) : undefined,
       last_completed: action.last_completed ? (action.last_completed instanceof Date ? action.last_completed : new Date(action.last_completed)) : undefined,
+      snoozed_until: action.snoozed_until ? (action.snoozed_until instanceof Date ? action.snoozed_until : new Date(action.snoozed_until)) : undefined,
+      calendar_due: action.calendar_due ? (action.calendar_due instanceof Date ? action.calendar_due : new Date(action.calendar_due)) : undefined,
+      recurrence: action.recurrence && isValidRecurrence(action.recurrence) ? action.recurrence : undefined,
     };
 
     if (existing) {
-      await db.maintenanceActions.update(action.id!, parsed);
+      await database.maintenanceActions.update(action.id!, parsed);
     } else {
-      await db.maintenanceActions.add(parsed);
+      await database.maintenanceActions.add(parsed);
     }
   }
 }
@@ -445,18 +916,18 @@ async function mergeImportMaintenanceActions(actions: MaintenanceAction[]): Prom
 /**
  * Merge import maintenance logs (for merge mode)
  */
-async function mergeImportMaintenanceLogs(logs: MaintenanceLog[]): Promise<void> {
+async function mergeImportMaintenanceLogs(logs: MaintenanceLog[], database: CPAPDatabase): Promise<void> {
   for (const log of logs) {
-    const existing = await db.maintenanceLogs.get(log.id!);
+    const existing = await database.maintenanceLogs.get(log.id!);
     const parsed = {
       ...log,
       completed_at: log.completed_at instanceof Date ? log.completed_at : new Date(log.completed_at),
     };
 
     if (existing) {
-      await db.maintenanceLogs.update(log.id!, parsed);
+      await database.maintenanceLogs.update(log.id!, parsed);
     } else {
-      await db.maintenanceLogs.add(parsed);
+      await database.maintenanceLogs.add(parsed);
     }
   }
 }
@@ -464,14 +935,174 @@ async function mergeImportMaintenanceLogs(logs: MaintenanceLog[]): Promise<void>
 /**
  * Merge import notification configs (for merge mode)
  */
-async function mergeImportNotificationConfigs(configs: NotificationConfig[]): Promise<void> {
+async function mergeImportNotificationConfigs(configs: NotificationConfig[], database: CPAPDatabase): Promise<void> {
   for (const config of configs) {
-    const existing = await db.notificationConfigs.get(config.id!);
+    const existing = await database.notificationConfigs.get(config.id!);
+
+    if (existing) {
+      await database.notificationConfigs.update(config.id!, config);
+    } else {
+      await database.notificationConfigs.add(config);
+    }
+  }
+}
+
+/**
+ * Bulk import purchases (for replace mode)
+ */
+async function bulkImportPurchases(purchases: Purchase[], database: CPAPDatabase): Promise<void> {
+  if (purchases.length === 0) return;
+
+  // Parse dates and ensure proper format
+  const parsed = purchases.map(p => ({
+    ...p,
+    purchased_at: p.purchased_at instanceof Date ? p.purchased_at : new Date(p.purchased_at),
+    created_at: p.created_at instanceof Date ? p.created_at : new Date(p.created_at),
+  }));
+
+  await database.purchases.bulkAdd(parsed);
+}
+
+/**
+ * Merge import purchases (for merge mode)
+ */
+async function mergeImportPurchases(purchases: Purchase[], database: CPAPDatabase): Promise<void> {
+  for (const purchase of purchases) {
+    const existing = await database.purchases.get(purchase.id!);
+    const parsed = {
+      ...purchase,
+      purchased_at: purchase.purchased_at instanceof Date ? purchase.purchased_at : new Date(purchase.purchased_at),
+      created_at: purchase.created_at instanceof Date ? purchase.created_at : new Date(purchase.created_at),
+    };
 
     if (existing) {
-      await db.notificationConfigs.update(config.id!, config);
+      await database.purchases.update(purchase.id!, parsed);
     } else {
-      await db.notificationConfigs.add(config);
+      await database.purchases.add(parsed);
     }
   }
 }
+
+/**
+ * Bulk import allowance rules (for replace mode)
+ */
+async function bulkImportAllowanceRules(rules: AllowanceRule[], database: CPAPDatabase): Promise<void> {
+  if (rules.length === 0) return;
+
+  // Parse dates and ensure proper format
+  const parsed = rules.map(r => ({
+    ...r,
+    created_at: r.created_at instanceof Date ? r.created_at : new Date(r.created_at),
+  }));
+
+  await database.allowanceRules.bulkAdd(parsed);
+}
+
+/**
+ * Merge import allowance rules (for merge mode)
+ * Rules are matched by category since each category has at most one
+ */
+async function mergeImportAllowanceRules(rules: AllowanceRule[], database: CPAPDatabase): Promise<void> {
+  for (const rule of rules) {
+    const existing = await database.allowanceRules.where('category').equals(rule.category).first();
+    const parsed = {
+      ...rule,
+      created_at: rule.created_at instanceof Date ? rule.created_at : new Date(rule.created_at),
+    };
+
+    if (existing) {
+      await database.allowanceRules.update(existing.id!, { ...parsed, id: existing.id });
+    } else {
+      await database.allowanceRules.add(parsed);
+    }
+  }
+}
+
+/**
+ * Bulk import suppliers (for replace mode)
+ */
+async function bulkImportSuppliers(suppliers: Supplier[], database: CPAPDatabase): Promise<void> {
+  if (suppliers.length === 0) return;
+
+  // Parse dates and ensure proper format
+  const parsed = suppliers.map(s => ({
+    ...s,
+    created_at: s.created_at instanceof Date ? s.created_at : new Date(s.created_at),
+  }));
+
+  await database.suppliers.bulkAdd(parsed);
+}
+
+/**
+ * Merge import suppliers (for merge mode)
+ */
+async function mergeImportSuppliers(suppliers: Supplier[], database: CPAPDatabase): Promise<void> {
+  for (const supplier of suppliers) {
+    const existing = await database.suppliers.get(supplier.id!);
+    const parsed = {
+      ...supplier,
+      created_at: supplier.created_at instanceof Date ? supplier.created_at : new Date(supplier.created_at),
+    };
+
+    if (existing) {
+      await database.suppliers.update(supplier.id!, parsed);
+    } else {
+      await database.suppliers.add(parsed);
+    }
+  }
+}
+
+/**
+ * Bulk import usage journal entries (for replace mode)
+ * Component usage counts come from the backup, so nothing is re-applied
+ */
+async function bulkImportUsageJournal(entries: UsageEntry[], database: CPAPDatabase): Promise<void> {
+  if (entries.length === 0) return;
+
+  // Parse dates and ensure proper format
+  const parsed = entries.map(e => ({
+    ...e,
+    created_at: e.created_at instanceof Date ? e.created_at : new Date(e.created_at),
+  }));
+
+  await database.usageJournal.bulkAdd(parsed);
+}
+
+/**
+ * Merge import usage journal entries (for merge mode)
+ * Entries are matched by night since each night has at most one
+ */
+async function mergeImportUsageJournal(entries: UsageEntry[], database: CPAPDatabase): Promise<void> {
+  for (const entry of entries) {
+    const existing = await database.usageJournal.where('date').equals(entry.date).first();
+    const parsed = {
+      ...entry,
+      created_at: entry.created_at instanceof Date ? entry.created_at : new Date(entry.created_at),
+    };
+
+    if (existing) {
+      await database.usageJournal.update(existing.id!, { ...parsed, id: existing.id });
+    } else {
+      await database.usageJournal.add(parsed);
+    }
+  }
+}
+
+/**
+ * Bulk import preferences (for replace mode)
+ */
+async function bulkImportPreferences(preferences: UserPreferences[], database: CPAPDatabase): Promise<void> {
+  if (preferences.length === 0) return;
+  await database.preferences.bulkAdd(preferences);
+}
+
+/**
+ * Merge import preferences (for merge mode)
+ * Settings in the backup win; settings it doesn't have are kept
+ */
+async function mergeImportPreferences(preferences: UserPreferences[], database: CPAPDatabase): Promise<void> {
+  for (const preference of preferences) {
+    const existing = await database.preferences.get(preference.id!);
+    await database.preferences.put({ ...existing, ...preference });
+  }
+}
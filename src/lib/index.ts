@@ -1,6 +1,8 @@
 // Database
 export * from './db';
 export * from './db-operations';
+export * from './migrations';
+export * from './profiles';
 
 // State Management
 export * from './store';
@@ -9,7 +11,14 @@ export * from './store';
 export * from './utils';
 export * from './date-helpers';
 export * from './scheduler';
+export * from './operation-journal';
 export * from './component-templates';
+export * from './component-lineage';
+export * from './inventory';
+export * from './spending';
+export * from './eligibility';
+export * from './reorder';
+export * from './usage-journal';
 
 // Notifications
 export * from './notifications';
@@ -17,10 +26,17 @@ export * from './notification-scheduler';
 
 // Types re-exports for convenience
 export type {
+  Equipment,
+  SupplyItem,
+  Purchase,
+  AllowanceRule,
+  Supplier,
+  UsageEntry,
   Component,
   MaintenanceAction,
   MaintenanceLog,
   NotificationConfig,
+  OperationJournalEntry,
 } from './db';
 
 export type {
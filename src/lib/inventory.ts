@@ -0,0 +1,97 @@
+/**
+ * Supply Inventory
+ *
+ * Spare parts are stocked per component category and counted in units.
+ * Completing a replacement takes one unit from the oldest matching item that
+ * still has stock. Items at or below their low-stock threshold are reported
+ * so the Home screen and the notification scheduler can prompt a reorder.
+ */
+
+import { db } from './db';
+import type { CPAPDatabase, SupplyItem } from './db';
+import { dbOperations, getDbOperations } from './db-operations';
+
+// ============================================================================
+// Stock Levels
+// ============================================================================
+
+/**
+ * Check if a spare part has fallen to its low-stock threshold
+ */
+export function isLowStock(supply: SupplyItem): boolean {
+  return supply.quantity <= supply.low_stock_threshold;
+}
+
+/**
+ * Describe a stock level in units and, for multi-unit packs, full packs
+ * e.g. "5 units (2 packs + 1)"
+ */
+export function formatStockLevel(supply: SupplyItem): string {
+  const units = `${supply.quantity} ${supply.quantity === 1 ? 'unit' : 'units'}`;
+  if (supply.pack_size <= 1 || supply.quantity === 0) return units;
+
+  const packs = Math.floor(supply.quantity / supply.pack_size);
+  const loose = supply.quantity % supply.pack_size;
+  const packLabel = `${packs} ${packs === 1 ? 'pack' : 'packs'}`;
+  if (packs === 0) return units;
+  return loose > 0 ? `${units} (${packLabel} + ${loose})` : `${units} (${packLabel})`;
+}
+
+/**
+ * Get spare parts at or below their low-stock threshold
+ *
+ * @param database - Profile database to check (defaults to the active profile)
+ */
+export async function getLowStockSupplies(database: CPAPDatabase = db): Promise<SupplyItem[]> {
+  const supplies = await database.supplies.toArray();
+  return supplies.filter(isLowStock);
+}
+
+// ============================================================================
+// Consumption
+// ============================================================================
+
+/**
+ * Take one spare part out of stock for a component that was replaced
+ *
+ * @returns The ID of the supply item that was used, or undefined if none was in stock
+ */
+export async function takeSupplyForComponent(
+  componentId: string,
+  database: CPAPDatabase = db
+): Promise<string | undefined> {
+  const operations = getDbOperations(database);
+  const component = await operations.components.getById(componentId);
+  if (!component) return undefined;
+
+  const supplies = await operations.supplies.getByCategory(component.category);
+  const supply = supplies.find((s) => s.quantity > 0);
+  if (!supply?.id) return undefined;
+
+  await operations.supplies.adjustQuantity(supply.id, -1);
+  return supply.id;
+}
+
+/**
+ * Add full packs to a spare part's stock
+ */
+export async function restockSupply(supplyId: string, packs: number = 1): Promise<void> {
+  const supply = await dbOperations.supplies.getById(supplyId);
+  if (!supply) {
+    throw new Error(`Supply item ${supplyId} not found`);
+  }
+
+  await dbOperations.supplies.adjustQuantity(supplyId, packs * supply.pack_size);
+}
+
+// ============================================================================
+// Export all functions
+// ============================================================================
+
+export const inventory = {
+  isLowStock,
+  formatStockLevel,
+  getLowStock: getLowStockSupplies,
+  takeForComponent: takeSupplyForComponent,
+  restock: restockSupply,
+};
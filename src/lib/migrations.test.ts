@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import Dexie from 'dexie';
+import { CPAPDatabase, type MaintenanceLog } from './db';
+import { SCHEMA_MIGRATIONS, CURRENT_SCHEMA_VERSION, migrateTableRecords } from './migrations';
+import { migrateExportData, validateImportData, type ExportData } from './export-import';
+
+// Each test opens its own database so upgrades never leak between cases
+const openedNames: string[] = [];
+function uniqueDbName(): string {
+  const name = `migration-test-${openedNames.length}-${Date.now()}`;
+  openedNames.push(name);
+  return name;
+}
+
+afterEach(async () => {
+  while (openedNames.length > 0) {
+    await Dexie.delete(openedNames.pop()!);
+  }
+});
+
+describe('schema migration registry', () => {
+  it('should declare consecutive versions starting at 1', () => {
+    SCHEMA_MIGRATIONS.forEach((migration, index) => {
+      expect(migration.version).toBe(index + 1);
+    });
+    expect(CURRENT_SCHEMA_VERSION).toBe(SCHEMA_MIGRATIONS.length);
+  });
+
+  it('should open a fresh database at the current version', async () => {
+    const db = new CPAPDatabase(uniqueDbName());
+    await db.open();
+    expect(db.verno).toBe(CURRENT_SCHEMA_VERSION);
+    db.close();
+  });
+});
+
+describe('upgrading an existing install', () => {
+  it('should keep every record and normalize string dates when upgrading from v1', async () => {
+    const name = uniqueDbName();
+
+    // Seed a database the way the original v1 app could have stored it
+    const legacy = new CPAPDatabase(name, 1);
+    await legacy.open();
+    await legacy.table('components').add({
+      id: 'c1',
+      name: 'Mask Cushion',
+      category: 'mask_cushion',
+      tracking_mode: 'calendar',
+      usage_count: 3,
+      is_active: true,
+      created_at: '2024-01-01T08:00:00.000Z',
+    });
+    await legacy.table('maintenanceActions').add({
+      id: 'a1',
+      component_id: 'c1',
+      action_type: 'Daily Rinse',
+      description: 'Rinse',
+      schedule_frequency: 1,
+      schedule_unit: 'days',
+      reminder_strategy: 'gentle',
+      next_due: '2024-01-02T08:00:00.000Z',
+    });
+    await legacy.table('maintenanceLogs').bulkAdd([
+      { id: 'l1', component_id: 'c1', action_id: 'a1', completed_at: '2024-01-01T09:00:00.000Z', was_overdue: false, logged_by: 'user' },
+      { id: 'l2', component_id: 'c1', action_id: 'a1', completed_at: new Date('2024-01-02T09:00:00.000Z'), was_overdue: true, logged_by: 'user' },
+    ]);
+    legacy.close();
+
+    // Reopen with the current schema, which runs the upgrade transforms
+    const db = new CPAPDatabase(name);
+    await db.open();
+    expect(db.verno).toBe(CURRENT_SCHEMA_VERSION);
+
+    const component = await db.components.get('c1');
+    expect(component?.created_at).toBeInstanceOf(Date);
+    expect(component?.usage_count).toBe(3);
+
+    const action = await db.maintenanceActions.get('a1');
+    expect(action?.next_due).toBeInstanceOf(Date);
+    expect(action?.next_due?.toISOString()).toBe('2024-01-02T08:00:00.000Z');
+
+    const logs = await db.maintenanceLogs.toArray();
+    expect(logs).toHaveLength(2);
+    expect(logs.every((log) => log.completed_at instanceof Date)).toBe(true);
+    expect(logs.every((log) => log.outcome === 'completed')).toBe(true);
+
+    db.close();
+  });
+});
+
+describe('upgrading exported backups', () => {
+  const legacyBackup: ExportData = {
+    version: '1.0',
+    exportedAt: '2024-01-05T00:00:00.000Z',
+    data: {
+      components: [],
+      maintenanceActions: [],
+      maintenanceLogs: [
+        // Written before log outcomes existed
+        { id: 'l1', component_id: 'c1', action_id: 'a1', completed_at: '2024-01-01T09:00:00.000Z' as unknown as Date, was_overdue: false, logged_by: 'user' } as MaintenanceLog,
+      ],
+      notificationConfigs: [],
+    },
+  };
+
+  it('should treat backups without schemaVersion as schema 1 and upgrade them', () => {
+    const migrated = migrateExportData(legacyBackup);
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.data.maintenanceLogs[0].completed_at).toBeInstanceOf(Date);
+    expect(migrated.data.maintenanceLogs[0].outcome).toBe('completed');
+  });
+
+  it('should not modify the original backup', () => {
+    migrateExportData(legacyBackup);
+    expect(typeof legacyBackup.data.maintenanceLogs[0].completed_at).toBe('string');
+  });
+
+  it('should leave tables it has no transforms for untouched', () => {
+    const tables = migrateTableRecords({ unknownTable: [{ id: 'x', value: '2024-01-01' }] }, 1);
+    expect(tables.unknownTable).toEqual([{ id: 'x', value: '2024-01-01' }]);
+  });
+
+  it('should warn when a backup comes from a newer schema', async () => {
+    const result = await validateImportData({ ...legacyBackup, schemaVersion: CURRENT_SCHEMA_VERSION + 1 });
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.some((w) => w.includes('newer version'))).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Database Schema Migrations
+ *
+ * Single registry describing how the IndexedDB schema evolves over time.
+ * Each entry declares the Dexie store definitions for one schema version and,
+ * optionally, per-record transforms that bring existing rows up to date.
+ *
+ * The same transforms are used in two places:
+ * - Dexie's upgrade() when an existing install opens a newer schema
+ * - The backup importer when restoring an export written by an older version
+ *
+ * Rules for adding a migration:
+ * - Never edit or remove a released entry, only append a new version
+ * - Only list tables whose indexes change in `stores` (null deletes a table)
+ * - Transforms mutate the record in place and must be safe to run twice
+ */
+
+import type Dexie from 'dexie';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Mutates a single stored record in place
+ */
+export type RecordTransform = (record: Record<string, unknown>) => void;
+
+export interface SchemaMigration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>;
+  transforms?: Record<string, RecordTransform>;
+}
+
+// ============================================================================
+// Transform Helpers
+// ============================================================================
+
+/**
+ * Convert ISO string date fields to Date objects (leaves other values alone)
+ */
+function normalizeDateFields(...fields: string[]): RecordTransform {
+  return (record) => {
+    for (const field of fields) {
+      const value = record[field];
+      if (typeof value === 'string') {
+        const parsed = new Date(value);
+        if (!isNaN(parsed.getTime())) {
+          record[field] = parsed;
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Fill in a field that older records don't have yet
+ */
+function defaultField(field: string, value: unknown): RecordTransform {
+  return (record) => {
+    if (record[field] === undefined) {
+      record[field] = value;
+    }
+  };
+}
+
+// ============================================================================
+// Migration Registry
+// ============================================================================
+
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    stores: {
+      components: 'id, category, is_active, created_at',
+      maintenanceActions: 'id, component_id, action_type, next_due',
+      maintenanceLogs: 'id, component_id, action_id, completed_at',
+      notificationConfigs: 'id, action_id, enabled',
+    },
+  },
+  {
+    version: 2,
+    description: 'Store all date fields as Date objects so date indexes sort correctly',
+    stores: {},
+    transforms: {
+      components: normalizeDateFields('created_at'),
+      maintenanceActions: normalizeDateFields('last_completed', 'next_due'),
+      maintenanceLogs: normalizeDateFields('completed_at'),
+    },
+  },
+  {
+    version: 3,
+    description: 'Add operation journal for undo/redo of scheduler mutations',
+    stores: {
+      operationJournal: 'id, sequence',
+    },
+  },
+  {
+    version: 4,
+    description: 'Add log outcomes (completed/skipped/snoozed) and user preferences',
+    stores: {
+      preferences: 'id',
+    },
+    transforms: {
+      maintenanceLogs: defaultField('outcome', 'completed'),
+    },
+  },
+  {
+    version: 5,
+    description: 'Add equipment (machines) that components belong to',
+    stores: {
+      equipment: 'id, created_at',
+      components: 'id, category, is_active, created_at, equipment_id',
+    },
+  },
+  {
+    version: 6,
+    description: 'Add supply inventory of spare parts',
+    stores: {
+      supplies: 'id, category, created_at',
+    },
+  },
+  {
+    version: 7,
+    description: 'Add purchase records for cost tracking',
+    stores: {
+      purchases: 'id, purchased_at, category, component_id, log_id',
+    },
+  },
+  {
+    version: 8,
+    description: 'Add insurance allowance rules per component category',
+    stores: {
+      allowanceRules: 'id, category',
+    },
+  },
+  {
+    version: 9,
+    description: 'Add supplier directory and per-component reorder details',
+    stores: {
+      suppliers: 'id, name',
+      components: 'id, category, is_active, created_at, equipment_id, supplier_id',
+    },
+  },
+  {
+    version: 10,
+    description: 'Add nightly usage journal',
+    stores: {
+      usageJournal: 'id, &date',
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+// ============================================================================
+// Dexie Integration
+// ============================================================================
+
+/**
+ * Declare every schema version up to targetVersion on a Dexie instance
+ * Dexie runs the upgrade() transforms for any versions the stored database is missing
+ */
+export function applySchemaMigrations(
+  db: Dexie,
+  targetVersion: number = CURRENT_SCHEMA_VERSION
+): void {
+  for (const migration of SCHEMA_MIGRATIONS) {
+    if (migration.version > targetVersion) break;
+
+    const version = db.version(migration.version).stores(migration.stores);
+    const transforms = migration.transforms;
+
+    if (transforms) {
+      version.upgrade(async (tx) => {
+        for (const [tableName, transform] of Object.entries(transforms)) {
+          await tx.table(tableName).toCollection().modify((record) => {
+            transform(record);
+          });
+        }
+      });
+    }
+  }
+}
+
+// ============================================================================
+// Exported Data Integration
+// ============================================================================
+
+/**
+ * Upgrade plain table arrays (e.g. from a JSON backup) from one schema version to the latest
+ * Returns new arrays; the input is not modified
+ */
+export function migrateTableRecords<T extends Record<string, unknown[]>>(
+  tables: T,
+  fromVersion: number
+): T {
+  const result: Record<string, unknown[]> = {};
+  for (const [tableName, records] of Object.entries(tables)) {
+    result[tableName] = Array.isArray(records)
+      ? records.map((record) =>
+          record && typeof record === 'object' ? { ...(record as object) } : record
+        )
+      : records;
+  }
+
+  for (const migration of SCHEMA_MIGRATIONS) {
+    if (migration.version <= fromVersion || !migration.transforms) continue;
+
+    for (const [tableName, transform] of Object.entries(migration.transforms)) {
+      const records = result[tableName];
+      if (!Array.isArray(records)) continue;
+      for (const record of records) {
+        if (record && typeof record === 'object') {
+          transform(record as Record<string, unknown>);
+        }
+      }
+    }
+  }
+
+  return result as T;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db, DEFAULT_DATABASE_NAME } from './db';
+import { dbOperations, getDbOperations, type DbOperations } from './db-operations';
+import { runNotificationAction } from './notification-actions';
+import { getDueItemsForAllProfiles } from './notification-scheduler';
+import { profileOperations, withProfileDatabase, DEFAULT_PROFILE_ID } from './profiles';
+
+async function createDueRinse(operations: DbOperations = dbOperations): Promise<string> {
+  const componentId = await operations.components.create({
+    name: 'Mask Cushion',
+    category: 'mask_cushion',
+    tracking_mode: 'calendar',
+    usage_count: 0,
+    is_active: true,
+  });
+  return await operations.maintenanceActions.create({
+    component_id: componentId,
+    action_type: 'Daily Rinse',
+    description: 'Rinse the cushion',
+    schedule_frequency: 1,
+    schedule_unit: 'days',
+    reminder_strategy: 'standard',
+    next_due: new Date(Date.now() - 60 * 60 * 1000),
+  });
+}
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+afterEach(async () => {
+  for (const profile of await profileOperations.getAll()) {
+    if (profile.id !== DEFAULT_PROFILE_ID) {
+      await profileOperations.delete(profile.id);
+    }
+  }
+});
+
+describe('runNotificationAction', () => {
+  it('should complete, snooze and skip like the in-app buttons', async () => {
+    const actionId = await createDueRinse();
+    const { next_due: dueBefore } = (await dbOperations.maintenanceActions.getById(actionId))!;
+
+    await runNotificationAction('snooze', actionId);
+    const snoozed = (await dbOperations.maintenanceActions.getById(actionId))!;
+    expect(snoozed.next_due).toEqual(dueBefore);
+    expect(snoozed.snoozed_until!.getTime() - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+    expect(snoozed.snoozed_until!.getTime() - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
+
+    await runNotificationAction('done', actionId);
+    const completed = (await dbOperations.maintenanceActions.getById(actionId))!;
+    expect(completed.next_due!.getTime()).toBeGreaterThan(dueBefore!.getTime());
+    expect(completed.snoozed_until).toBeUndefined();
+
+    await runNotificationAction('skip', actionId);
+    const logs = await db.maintenanceLogs.where('action_id').equals(actionId).toArray();
+    expect(logs.map((log) => log.outcome).sort()).toEqual(['completed', 'skipped', 'snoozed']);
+  });
+
+  it('should work on the notification\'s profile without switching the active database', async () => {
+    await createDueRinse();
+    const partnerId = await profileOperations.create('Partner');
+    const actionId = await withProfileDatabase(partnerId, (database) => createDueRinse(getDbOperations(database)));
+
+    // A due check running at the same time keeps working
+    const [, dueItems] = await Promise.all([
+      runNotificationAction('done', actionId, partnerId),
+      getDueItemsForAllProfiles(),
+    ]);
+    expect(dueItems.length).toBeGreaterThan(0);
+    expect(db.name).toBe(DEFAULT_DATABASE_NAME);
+
+    const { action, logs, journal } = await withProfileDatabase(partnerId, async (database) => {
+      const operations = getDbOperations(database);
+      return {
+        action: await operations.maintenanceActions.getById(actionId),
+        logs: await operations.maintenanceLogs.getAll(),
+        journal: await operations.operationJournal.getAll(),
+      };
+    });
+    expect(action!.next_due!.getTime()).toBeGreaterThan(Date.now());
+    expect(logs.map((log) => log.outcome)).toEqual(['completed']);
+    expect(journal.map((entry) => entry.action_id)).toEqual([actionId]);
+
+    // Nothing was written to the active profile
+    expect(await dbOperations.maintenanceLogs.getAll()).toEqual([]);
+    expect(await dbOperations.operationJournal.getAll()).toEqual([]);
+  });
+
+  it('should start tracking a new part when a replacement is done', async () => {
+    const partnerId = await profileOperations.create('Partner');
+    const { componentId, actionId } = await withProfileDatabase(partnerId, async (database) => {
+      const operations = getDbOperations(database);
+      const rinseId = await createDueRinse(operations);
+      const { component_id } = (await operations.maintenanceActions.getById(rinseId))!;
+      const replaceId = await operations.maintenanceActions.create({
+        component_id,
+        action_type: 'Monthly Replacement',
+        description: 'Replace the cushion',
+        schedule_frequency: 30,
+        schedule_unit: 'days',
+        reminder_strategy: 'standard',
+        next_due: new Date(),
+      });
+      return { componentId: component_id, actionId: replaceId };
+    });
+
+    await runNotificationAction('done', actionId, partnerId);
+
+    const components = await withProfileDatabase(partnerId, (database) =>
+      getDbOperations(database).components.getAll()
+    );
+    expect(components.find((c) => c.id === componentId)?.archive_reason).toBe('Replaced');
+    expect(components.find((c) => c.replaced_from_id === componentId)?.usage_count).toBe(0);
+    expect(await dbOperations.components.getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Notification Actions
+ *
+ * The Done, Snooze and Skip buttons on maintenance notifications. The service
+ * worker handles a button tap without opening the app: it runs the same
+ * scheduler functions as the in-app buttons against the notification's
+ * profile database, so the log, the next due date and undo all match. Open
+ * pages are told about the change through a message and refresh their data.
+ */
+
+import { getDbOperations } from './db-operations';
+import { DEFAULT_PROFILE_ID, withProfileDatabase } from './profiles';
+import {
+  completeMaintenanceAction,
+  isReplacementAction,
+  replaceComponent,
+  skipMaintenanceAction,
+  snoozeMaintenanceAction,
+} from './scheduler';
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+export type NotificationActionType = 'done' | 'snooze' | 'skip';
+
+// Hours a "Snooze" button holds reminders for
+export const NOTIFICATION_SNOOZE_HOURS = 1;
+
+// Done comes first: platforms that show fewer buttons drop them from the end
+export const MAINTENANCE_NOTIFICATION_ACTIONS: Array<{ action: NotificationActionType; title: string }> = [
+  { action: 'done', title: 'Done' },
+  { action: 'snooze', title: `Snooze ${NOTIFICATION_SNOOZE_HOURS}h` },
+  { action: 'skip', title: 'Skip' },
+];
+
+/**
+ * Messages the service worker posts to open pages
+ */
+export type ServiceWorkerMessage =
+  | { type: 'notification-click'; data: Record<string, unknown> }
+  | { type: 'notification-action'; action: NotificationActionType; actionId: string; profileId?: string };
+
+// ============================================================================
+// Handling
+// ============================================================================
+
+/**
+ * Check whether a notification button is one of the maintenance actions
+ */
+export function isNotificationActionType(action: string): action is NotificationActionType {
+  return MAINTENANCE_NOTIFICATION_ACTIONS.some((a) => a.action === action);
+}
+
+/**
+ * Apply a notification button to a maintenance action in its profile
+ * The profile's database is opened just for this, so a due check running at
+ * the same time keeps its own connection.
+ */
+export async function runNotificationAction(
+  action: NotificationActionType,
+  actionId: string,
+  profileId: string = DEFAULT_PROFILE_ID
+): Promise<void> {
+  await withProfileDatabase(profileId, async (database) => {
+    switch (action) {
+      case 'done': {
+        // Done on a replacement starts tracking the new part, as in the app
+        const maintenanceAction = await getDbOperations(database).maintenanceActions.getById(actionId);
+        if (maintenanceAction && isReplacementAction(maintenanceAction)) {
+          await replaceComponent(maintenanceAction.component_id, undefined, actionId, database);
+        } else {
+          await completeMaintenanceAction(actionId, new Date(), undefined, database);
+        }
+        break;
+      }
+      case 'snooze':
+        await snoozeMaintenanceAction(actionId, NOTIFICATION_SNOOZE_HOURS, undefined, database);
+        break;
+      case 'skip':
+        await skipMaintenanceAction(actionId, undefined, database);
+        break;
+    }
+  });
+}
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db } from './db';
+import { dbOperations } from './db-operations';
+import { checkAndNotify, getMissedReminders, getUpcomingReminders } from './notification-scheduler';
+import {
+  clearNotificationRecords,
+  getNotificationHistory,
+  getReminderCount,
+  recordNotificationClicked,
+} from './notifications';
+import { getEscalationNotificationTimes } from './date-helpers';
+import { snoozeMaintenanceAction } from './scheduler';
+import { getPushReminders } from './push-server';
+
+const shown: string[] = [];
+const bodies: string[] = [];
+
+class FakeNotification {
+  static permission = 'granted';
+  onclick: (() => void) | null = null;
+  constructor(title: string, options?: { body?: string }) {
+    shown.push(title);
+    bodies.push(options?.body ?? '');
+  }
+  close() {}
+}
+
+async function createDueClean(): Promise<string> {
+  const componentId = await dbOperations.components.create({
+    name: 'Water Chamber',
+    category: 'water_chamber',
+    tracking_mode: 'calendar',
+    usage_count: 0,
+    is_active: true,
+  });
+  return await dbOperations.maintenanceActions.create({
+    component_id: componentId,
+    action_type: 'Weekly Clean',
+    description: 'Clean the tank',
+    schedule_frequency: 7,
+    schedule_unit: 'days',
+    notification_time: '21:00',
+    reminder_strategy: 'standard',
+    next_due: new Date(2025, 5, 1, 21, 0),
+  });
+}
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+  localStorage.clear();
+  await clearNotificationRecords();
+  shown.length = 0;
+  bodies.length = 0;
+  vi.stubGlobal('Notification', FakeNotification);
+  // Only the clock is faked so IndexedDB callbacks still run
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('quiet hours', () => {
+  it('should hold reminders until quiet hours end and catch up once', async () => {
+    const actionId = await createDueClean();
+
+    vi.setSystemTime(new Date(2025, 5, 2, 2, 0));
+    expect(await checkAndNotify()).toBe(0);
+
+    vi.setSystemTime(new Date(2025, 5, 2, 7, 0));
+    expect(await checkAndNotify()).toBe(1);
+    expect(shown).toEqual(['Due Now: Weekly Clean']);
+    // The 1:00 and 5:00 reminders were covered by the one at 7:00
+    expect(await getReminderCount(actionId)).toBe(3);
+
+    vi.setSystemTime(new Date(2025, 5, 2, 7, 15));
+    expect(await checkAndNotify()).toBe(0);
+  });
+
+  it('should let an action opt out of quiet hours', async () => {
+    const actionId = await createDueClean();
+    await dbOperations.notificationConfigs.create({
+      action_id: actionId,
+      enabled: true,
+      time: '21:00',
+      escalation_strategy: 'multiple_daily',
+      escalation_intervals: [0, 4],
+      quiet_hours: null,
+    });
+
+    vi.setSystemTime(new Date(2025, 5, 2, 2, 0));
+    expect(await checkAndNotify()).toBe(1);
+  });
+
+  it('should preview reminder times moved past quiet hours', () => {
+    const times = getEscalationNotificationTimes(new Date(2025, 5, 1), '21:00', [0, 4, 8, 12], {
+      start: '22:00',
+      end: '07:00',
+    });
+
+    expect(times).toEqual([new Date(2025, 5, 1, 21, 0), new Date(2025, 5, 2, 7, 0), new Date(2025, 5, 2, 9, 0)]);
+  });
+});
+
+describe('daily digest', () => {
+  it('should send one digest at the chosen time and keep urgent actions separate', async () => {
+    await dbOperations.preferences.update({ digest_enabled: true, digest_time: '08:00' });
+    await createDueClean();
+    const componentId = await dbOperations.components.create({
+      name: 'Mask Cushion',
+      category: 'mask_cushion',
+      tracking_mode: 'calendar',
+      usage_count: 0,
+      is_active: true,
+    });
+    for (const [action_type, reminder_strategy, hour] of [
+      ['Daily Rinse', 'gentle', 18],
+      ['Replace', 'urgent', 7],
+    ] as const) {
+      await dbOperations.maintenanceActions.create({
+        component_id: componentId,
+        action_type,
+        description: '',
+        schedule_frequency: 30,
+        schedule_unit: 'days',
+        reminder_strategy,
+        next_due: new Date(2025, 5, 2, hour, 0),
+      });
+    }
+
+    vi.setSystemTime(new Date(2025, 5, 2, 7, 30));
+    expect(await checkAndNotify()).toBe(1);
+    expect(shown).toEqual(['Due Now: Replace']);
+
+    vi.setSystemTime(new Date(2025, 5, 2, 8, 0));
+    expect(await checkAndNotify()).toBe(1);
+    expect(shown[1]).toBe('Today: 3 tasks due');
+    expect(bodies[1]).toBe('Water Chamber: Weekly Clean\nMask Cushion: Replace, Daily Rinse');
+
+    vi.setSystemTime(new Date(2025, 5, 2, 10, 0));
+    expect(await checkAndNotify()).toBe(0);
+  });
+});
+
+describe('upcoming reminders', () => {
+  it('should find the next reminder for each action to schedule ahead', async () => {
+    const actionId = await createDueClean();
+
+    // A push server gets every reminder time, not just the next one
+    vi.setSystemTime(new Date(2025, 5, 1, 20, 0));
+    const all = await getUpcomingReminders(new Date(2025, 5, 8), true);
+    expect(all.map((reminder) => [reminder.at, reminder.reminderNumber])).toEqual([
+      [new Date(2025, 5, 1, 21, 0), 1],
+      // The 1:00 and 5:00 reminders are held by quiet hours and go out as one
+      [new Date(2025, 5, 2, 7, 0), 3],
+      // Left undone, it comes up again each morning
+      ...[3, 4, 5, 6, 7].map((day) => [new Date(2025, 5, day, 7, 0), 3]),
+    ]);
+
+    // The 21:00 reminder went out; 1:00 is held by quiet hours until 7:00
+    vi.setSystemTime(new Date(2025, 5, 1, 22, 0));
+    const reminders = await getUpcomingReminders(new Date(2025, 5, 8));
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].item.action.id).toBe(actionId);
+    expect(reminders[0].at).toEqual(new Date(2025, 5, 2, 7, 0));
+    expect(reminders[0].reminderNumber).toBe(3);
+
+    // Digest mode leaves non-urgent actions to the digest
+    await dbOperations.preferences.update({ digest_enabled: true });
+    expect(await getUpcomingReminders(new Date(2025, 5, 8))).toEqual([]);
+  });
+
+  it('should schedule the reminder for when a snooze ends', async () => {
+    const actionId = await createDueClean();
+
+    vi.setSystemTime(new Date(2025, 5, 2, 7, 0));
+    expect(await checkAndNotify()).toBe(1);
+    vi.setSystemTime(new Date(2025, 5, 2, 8, 0));
+    await snoozeMaintenanceAction(actionId, 4);
+
+    const reminders = await getUpcomingReminders(new Date(2025, 5, 8));
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].at).toEqual(new Date(2025, 5, 2, 12, 0));
+    expect(reminders[0].isRepeat).toBe(false);
+
+    // The app reminds then too, though the morning used up today's reminders
+    vi.setSystemTime(new Date(2025, 5, 2, 12, 0));
+    expect(await checkAndNotify()).toBe(1);
+    vi.setSystemTime(new Date(2025, 5, 2, 12, 15));
+    expect(await checkAndNotify()).toBe(0);
+  });
+
+  it('should schedule the next day\'s reminder for an overdue action', async () => {
+    await createDueClean();
+
+    vi.setSystemTime(new Date(2025, 5, 3, 12, 0));
+    const reminders = await getUpcomingReminders(new Date(2025, 5, 10));
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].at).toEqual(new Date(2025, 5, 4, 7, 0));
+    expect(reminders[0].isOverdue).toBe(true);
+    expect(reminders[0].isRepeat).toBe(false);
+  });
+
+  it('should upload the next digest for a profile in digest mode', async () => {
+    await createDueClean();
+    await dbOperations.preferences.update({ digest_enabled: true, digest_time: '08:00' });
+
+    // Today's digest time has passed, so it goes out tomorrow morning
+    vi.setSystemTime(new Date(2025, 5, 1, 20, 0));
+    expect(await getPushReminders(new Date())).toEqual([
+      { at: new Date(2025, 5, 2, 8, 0).toISOString(), label: 'Daily digest' },
+    ]);
+
+    await dbOperations.preferences.update({ digest_enabled: false });
+    expect((await getPushReminders(new Date())).map((reminder) => reminder.label)).not.toContain('Daily digest');
+  });
+});
+
+describe('notification history', () => {
+  it('should keep every notification and find the missed ones', async () => {
+    const actionId = await createDueClean();
+
+    vi.setSystemTime(new Date(2025, 5, 1, 21, 0));
+    expect(await checkAndNotify()).toBe(1);
+    vi.setSystemTime(new Date(2025, 5, 2, 7, 0));
+    expect(await checkAndNotify()).toBe(1);
+
+    // Today's count comes from today's notifications; yesterday's stay in the history
+    expect(await getReminderCount(actionId)).toBe(3);
+    const history = await getNotificationHistory();
+    expect(history.map((entry) => [entry.title, entry.escalation_level])).toEqual([
+      ['Due Now: Weekly Clean', 3],
+      ['Due Now: Weekly Clean', 1],
+    ]);
+    expect(history[0].action_id).toBe(actionId);
+
+    const actions = await dbOperations.maintenanceActions.getAll();
+    expect(getMissedReminders(history, actions).map((missed) => missed.entry.id)).toEqual([history[0].id]);
+
+    // Opening the latest reminder answers it
+    await recordNotificationClicked(`maintenance-${actionId}`);
+    expect(getMissedReminders(await getNotificationHistory(), actions)).toEqual([]);
+  });
+});
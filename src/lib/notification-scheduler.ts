@@ -3,20 +3,51 @@
  *
  * Handles checking for due maintenance items and triggering notifications.
  * Implements progressive reminder escalation based on reminder strategy.
+ * Every profile on the device is checked, and notifications name the profile
+ * they belong to once more than one profile exists. Spare parts that fall to
+ * their low-stock threshold get one reorder notification per day, and profiles
+ * with eligibility reminders on hear once when insurance covers a new part.
+ * Nothing is shown during quiet hours; held reminders go out when the window ends.
+ * In digest mode a profile gets one notification a day listing everything due
+ * that day, and only urgent actions still notify on their own.
+ * checkAndNotify also runs in the service worker while the app is closed
+ * (see background-checks.ts).
  */
 
-import { dbOperations } from './db-operations';
-import type { MaintenanceAction, NotificationConfig, Component } from './db';
+import { isComponentArchived, isActionSnoozed, DEFAULT_USER_PREFERENCES, PREFERENCES_ID } from './db-operations';
+import { db } from './db';
+import type { CPAPDatabase, MaintenanceAction, NotificationConfig, Component, QuietHours, UserPreferences } from './db';
+import { profileOperations, withProfileDatabase, type Profile } from './profiles';
+import { getLowStockSupplies } from './inventory';
+import { getEligibilityForDatabase } from './eligibility';
+import { getCategoryDisplayName } from './component-templates';
 import {
   areNotificationsAllowed,
-  showMaintenanceNotification,
-  showReminderNotification,
+  getMaintenanceNotificationOptions,
+  getReminderNotificationOptions,
+  getLowStockNotificationOptions,
+  getEligibilityNotificationOptions,
+  getDigestNotificationOptions,
+  showPersistentNotification,
   setBadgeCount,
   getReminderCount,
   recordNotificationShown,
+  wasNotifiedSince,
+  wasEligibilityNotified,
+  recordEligibilityNotified,
   setupNotificationClickHandler,
+  type NotificationHistoryEntry,
 } from './notifications';
-import { isOverdue } from './date-helpers';
+import type { ServiceWorkerMessage } from './notification-actions';
+import { addDays, differenceInDays, endOfDay, format, isSameDay, startOfDay } from 'date-fns';
+import {
+  isOverdue,
+  isInQuietHours,
+  deferPastQuietHours,
+  getEffectiveQuietHours,
+  getEscalationNotificationTimes,
+  setTime,
+} from './date-helpers';
 
 // ============================================================================
 // Types
@@ -28,38 +59,60 @@ export interface DueItem {
   notificationConfig?: NotificationConfig;
   isOverdue: boolean;
   hoursOverdue: number;
+  quietHours: QuietHours | null; // Effective quiet hours for this action's reminders
+  profile?: Profile; // Set when collected across profiles
 }
 
 export interface NotificationSchedulerOptions {
-  onNotificationClick?: (actionId: string) => void;
+  onNotificationClick?: (actionId: string, profileId?: string) => void;
+  onLowStockClick?: (supplyId: string, profileId?: string) => void;
+  onEligibilityClick?: (category: Component['category'], profileId?: string) => void;
+  onDigestClick?: (profileId?: string) => void;
+  onDataChanged?: () => void; // Maintenance data may have changed outside the page
   checkIntervalMinutes?: number;
 }
 
+export interface DigestGroup {
+  component: Component;
+  items: DueItem[];
+}
+
 // ============================================================================
 // Due Item Detection
 // ============================================================================
 
 /**
  * Get all items that are due or overdue for notification
+ *
+ * @param database - Profile database to check (defaults to the active profile)
+ * @param dueBy - Include items due up to this time (defaults to now)
+ * @param includeSnoozed - Include items whose reminders are snoozed
  */
-export async function getDueItemsForNotification(): Promise<DueItem[]> {
+export async function getDueItemsForNotification(
+  database: CPAPDatabase = db,
+  dueBy?: Date,
+  includeSnoozed = false
+): Promise<DueItem[]> {
   const now = new Date();
-  const allActions = await dbOperations.maintenanceActions.getAll();
-  const allComponents = await dbOperations.components.getAll();
-  const allNotificationConfigs = await dbOperations.notificationConfigs.getAll();
+  const [allActions, allComponents, allNotificationConfigs, preferences] = await Promise.all([
+    database.maintenanceActions.toArray(),
+    database.components.toArray(),
+    database.notificationConfigs.toArray(),
+    getPreferences(database),
+  ]);
 
   const dueItems: DueItem[] = [];
 
   for (const action of allActions) {
     if (!action.next_due || !action.id) continue;
 
-    // Check if action is due or overdue
-    const isDue = action.next_due <= now;
-    if (!isDue) continue;
+    // Check if action is due or overdue (snoozed actions stay quiet until the snooze ends)
+    const isDue = action.next_due <= (dueBy ?? now);
+    if (!isDue || (!includeSnoozed && isActionSnoozed(action, now))) continue;
 
     // Get the component for this action
     const component = allComponents.find((c) => c.id === action.component_id);
-    if (!component || !component.is_active) continue;
+    if (!component || !component.is_active || isComponentArchived(component)) continue;
 
     // Get notification config for this action
     const notificationConfig = allNotificationConfigs.find(
@@ -79,10 +132,61 @@ export async function getDueItemsForNotification(): Promise<DueItem[]> {
       notificationConfig,
       isOverdue: isOverdue(action.next_due),
       hoursOverdue: Math.max(0, hoursOverdue),
+      quietHours: getEffectiveQuietHours(preferences, notificationConfig),
     });
   }
 
-  // Sort by priority: overdue first, then by how overdue
+  return sortDueItems(dueItems);
+}
+
+/**
+ * Read a profile's preferences, with defaults for anything not yet saved
+ */
+async function getPreferences(database: CPAPDatabase): Promise<UserPreferences> {
+  const stored = await database.preferences.get(PREFERENCES_ID);
+  return { ...DEFAULT_USER_PREFERENCES, ...stored };
+}
+
+/**
+ * Get a profile's quiet hours, or null when they're turned off
+ */
+async function getProfileQuietHours(profile: Profile): Promise<QuietHours | null> {
+  const preferences = await withProfileDatabase(profile.id, getPreferences);
+  return getEffectiveQuietHours(preferences);
+}
+
+/**
+ * Group due items by component for the digest, keeping their priority order
+ */
+export function groupDueItemsByComponent(dueItems: DueItem[]): DigestGroup[] {
+  const groups = new Map<string, DigestGroup>();
+  for (const item of dueItems) {
+    const group = groups.get(item.component.id!) ?? { component: item.component, items: [] };
+    group.items.push(item);
+    groups.set(item.component.id!, group);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Get due items for every profile on this device, tagged with their profile
+ */
+export async function getDueItemsForAllProfiles(): Promise<DueItem[]> {
+  const profiles = await profileOperations.getAll();
+  const dueItems: DueItem[] = [];
+
+  for (const profile of profiles) {
+    const items = await withProfileDatabase(profile.id, getDueItemsForNotification);
+    dueItems.push(...items.map((item) => ({ ...item, profile })));
+  }
+
+  return sortDueItems(dueItems);
+}
+
+/**
+ * Sort by priority: overdue first, then by how overdue
+ */
+function sortDueItems(dueItems: DueItem[]): DueItem[] {
   return dueItems.sort((a, b) => {
     if (a.isOverdue && !b.isOverdue) return -1;
     if (!a.isOverdue && b.isOverdue) return 1;
@@ -90,6 +194,186 @@ export async function getDueItemsForNotification(): Promise<DueItem[]> {
   });
 }
 
+/**
+ * Count due items per profile (for the profile switcher)
+ */
+export async function getDueCountsByProfile(): Promise<Record<string, number>> {
+  const dueItems = await getDueItemsForAllProfiles();
+  const counts: Record<string, number> = {};
+  for (const item of dueItems) {
+    const profileId = item.profile!.id;
+    counts[profileId] = (counts[profileId] ?? 0) + 1;
+  }
+  return counts;
+}
+
+// ============================================================================
+// Upcoming Reminders
+// ============================================================================
+
+export interface UpcomingReminder {
+  item: DueItem;
+  at: Date;
+  reminderNumber: number; // Reminders that day including this one, counted as checkAndNotify counts them
+  isOverdue: boolean; // Whether the action is more than a day late by then
+  isRepeat: boolean; // Whether an earlier reminder went out that day
+}
+
+/**
+ * Work out when checkAndNotify will remind about a due item, up to a given time
+ * Follows its rules: the escalation times on the due date (or the end of a
+ * snooze instead), then a first reminder on each later day the action stays
+ * due, all moved past quiet hours. Reminder counts start over each day.
+ */
+export function getReminderSchedule(
+  item: DueItem,
+  until: Date,
+  now: Date = new Date()
+): Array<Omit<UpcomingReminder, 'item'>> {
+  const { action, notificationConfig, quietHours } = item;
+  if (!action.next_due) return [];
+  const dueDate = action.next_due;
+
+  const snoozedUntil = isActionSnoozed(action, now) ? action.snoozed_until! : null;
+  const times = snoozedUntil
+    ? [deferPastQuietHours(snoozedUntil, quietHours)]
+    : getReminderTimes(action, notificationConfig, quietHours);
+
+  // While the action stays due, the first check of each new day reminds again
+  for (let day = startOfDay(addDays(snoozedUntil ?? dueDate, 1)); day <= until; day = addDays(day, 1)) {
+    times.push(deferPastQuietHours(day, quietHours));
+  }
+
+  const intervals = getReminderIntervals(action, notificationConfig);
+  const schedule: Array<Omit<UpcomingReminder, 'item'>> = [];
+  let countToday = 0;
+  let previous: Date | null = null;
+
+  const sorted = times.sort((a, b) => a.getTime() - b.getTime());
+  for (const at of sorted) {
+    if (previous && at.getTime() === previous.getTime()) continue;
+    if (!previous || !isSameDay(at, previous)) countToday = 0;
+    previous = at;
+
+    const hoursOverdue = Math.max(0, Math.floor((at.getTime() - dueDate.getTime()) / (1000 * 60 * 60)));
+    const isRepeat = countToday > 0;
+    countToday = Math.max(countToday + 1, intervals.filter((interval) => hoursOverdue >= interval).length);
+
+    if (at > now && at <= until) {
+      schedule.push({ at, reminderNumber: countToday, isOverdue: differenceInDays(at, dueDate) > 0, isRepeat });
+    }
+  }
+
+  return schedule;
+}
+
+/**
+ * Get each action's next reminder between now and a given time, across all profiles
+ * Used to schedule reminders ahead of time where the service worker can't
+ * check in the background, including the reminder when a snooze ends and
+ * the daily ones for an action left overdue. As in checkAndNotify,
+ * digest-mode profiles only remind about urgent actions.
+ *
+ * @param allTimes - Include every reminder in the window, not just the next one
+ */
+export async function getUpcomingReminders(until: Date, allTimes = false): Promise<UpcomingReminder[]> {
+  const now = new Date();
+  const profiles = await profileOperations.getAll();
+  const reminders: UpcomingReminder[] = [];
+
+  for (const profile of profiles) {
+    const { preferences, items } = await withProfileDatabase(profile.id, async (database) => ({
+      preferences: await getPreferences(database),
+      items: await getDueItemsForNotification(database, until, true),
+    }));
+
+    for (const item of items) {
+      if (preferences.digest_enabled && item.action.reminder_strategy !== 'urgent') continue;
+
+      const schedule = getReminderSchedule(item, until, now);
+      for (const reminder of allTimes ? schedule : schedule.slice(0, 1)) {
+        reminders.push({ item: { ...item, profile }, ...reminder });
+      }
+    }
+  }
+
+  return reminders.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * Get each digest-mode profile's next digest between now and a given time
+ * That's the first digest time, held past quiet hours, with anything but an
+ * urgent action due by the end of its day and not snoozed past it.
+ */
+export async function getUpcomingDigests(until: Date): Promise<Array<{ profile: Profile; at: Date }>> {
+  const now = new Date();
+  const profiles = await profileOperations.getAll();
+  const digests: Array<{ profile: Profile; at: Date }> = [];
+
+  for (const profile of profiles) {
+    const { preferences, items } = await withProfileDatabase(profile.id, async (database) => ({
+      preferences: await getPreferences(database),
+      items: await getDueItemsForNotification(database, until, true),
+    }));
+    if (!preferences.digest_enabled) continue;
+
+    const digestItems = items.filter((item) => item.action.reminder_strategy !== 'urgent');
+    const quietHours = getEffectiveQuietHours(preferences);
+    for (let day = startOfDay(now); day <= until; day = addDays(day, 1)) {
+      const at = deferPastQuietHours(setTime(day, preferences.digest_time), quietHours);
+      if (at <= now || at > until) continue;
+
+      const hasDue = digestItems.some(
+        ({ action }) => action.next_due! <= endOfDay(day) && !(action.snoozed_until && action.snoozed_until > at)
+      );
+      if (hasDue) {
+        digests.push({ profile, at });
+        break;
+      }
+    }
+  }
+
+  return digests;
+}
+
+// ============================================================================
+// Missed Reminders
+// ============================================================================
+
+export interface MissedReminder {
+  entry: NotificationHistoryEntry;
+  action: MaintenanceAction;
+}
+
+/**
+ * Find reminders nobody responded to for actions that are still due
+ * Only each action's latest reminder counts: responding to it answers the
+ * earlier ones too. Completing or skipping moves the due date past the
+ * reminder, and a snooze answers it until the snooze ends.
+ */
+export function getMissedReminders(
+  history: NotificationHistoryEntry[],
+  actions: MaintenanceAction[],
+  now: Date = new Date()
+): MissedReminder[] {
+  const actionMap = new Map(actions.map((action) => [action.id, action]));
+  const seen = new Set<string>();
+  const missed: MissedReminder[] = [];
+
+  const newestFirst = [...history].sort((a, b) => b.sent_at.getTime() - a.sent_at.getTime());
+  for (const entry of newestFirst) {
+    if (!entry.action_id || seen.has(entry.action_id)) continue;
+    seen.add(entry.action_id);
+    if (entry.clicked_at || entry.acted_at) continue;
+
+    const action = actionMap.get(entry.action_id);
+    if (!action?.next_due || action.next_due > entry.sent_at || isActionSnoozed(action, now)) continue;
+    missed.push({ entry, action });
+  }
+
+  return missed;
+}
+
 // ============================================================================
 // Escalation Logic
 // ============================================================================
@@ -124,17 +408,57 @@ function shouldShowReminder(
     case 'increasing_urgency':
       // Show more frequently as time goes on
       // Start with gentler reminders, increase urgency
-      if (currentReminderCount === 0) return true;
-      if (hoursOverdue >= 4 && currentReminderCount === 1) return true;
-      if (hoursOverdue >= 8 && currentReminderCount === 2) return true;
-      if (hoursOverdue >= 24 && currentReminderCount === 3) return true;
-      return false;
+      return currentReminderCount < INCREASING_URGENCY_HOURS.length &&
+        hoursOverdue >= INCREASING_URGENCY_HOURS[currentReminderCount];
 
     default:
       return currentReminderCount === 0;
   }
 }
 
+// Hours after the due time at which increasing-urgency reminders are shown
+const INCREASING_URGENCY_HOURS = [0, 4, 8, 24];
+
+/**
+ * Get the hours after the due time at which an action's reminders are shown
+ */
+export function getReminderIntervals(
+  action: MaintenanceAction,
+  notificationConfig?: NotificationConfig
+): number[] {
+  const strategy = notificationConfig?.escalation_strategy ||
+    getDefaultEscalationStrategy(action.reminder_strategy);
+
+  switch (strategy) {
+    case 'multiple_daily':
+      return notificationConfig?.escalation_intervals ||
+        getDefaultEscalationIntervals(action.reminder_strategy);
+    case 'increasing_urgency':
+      return INCREASING_URGENCY_HOURS;
+    default:
+      return [0];
+  }
+}
+
+/**
+ * Get when an action's reminders for its current due date are shown
+ * Starts at the notification time on the due date (or the due time itself)
+ */
+export function getReminderTimes(
+  action: MaintenanceAction,
+  notificationConfig?: NotificationConfig,
+  quietHours?: QuietHours | null
+): Date[] {
+  if (!action.next_due) return [];
+  const time = notificationConfig?.time || action.notification_time || format(action.next_due, 'HH:mm');
+  return getEscalationNotificationTimes(
+    action.next_due,
+    time,
+    getReminderIntervals(action, notificationConfig),
+    quietHours
+  );
+}
+
 /**
  * Get default escalation strategy based on reminder type
  */
@@ -179,54 +503,99 @@ function getDefaultEscalationIntervals(
  * Check for due items and show notifications as needed
  */
 export async function checkAndNotify(
-  onNotificationClick?: (actionId: string) => void
+  onNotificationClick?: (actionId: string, profileId?: string) => void,
+  onLowStockClick?: (supplyId: string, profileId?: string) => void,
+  onEligibilityClick?: (category: Component['category'], profileId?: string) => void,
+  onDigestClick?: (profileId?: string) => void
 ): Promise<number> {
   // Don't do anything if notifications aren't allowed
   if (!areNotificationsAllowed()) {
     return 0;
   }
 
-  const dueItems = await getDueItemsForNotification();
+  const [dueItems, profiles] = await Promise.all([
+    getDueItemsForAllProfiles(),
+    profileOperations.getAll(),
+  ]);
+  const preferencesByProfile = new Map(
+    await Promise.all(
+      profiles.map(async (profile) => [profile.id, await withProfileDatabase(profile.id, getPreferences)] as const)
+    )
+  );
+  const hasMultipleProfiles = profiles.length > 1;
+  const now = new Date();
   let notificationsShown = 0;
 
   for (const item of dueItems) {
     const actionId = item.action.id!;
-    const currentReminderCount = getReminderCount(actionId);
+    const profile = item.profile!;
+    // Only name the profile when there's more than one to tell apart
+    const profileName = hasMultipleProfiles ? profile.name : undefined;
+    const currentReminderCount = await getReminderCount(actionId);
 
-    // Check if we should show a reminder based on escalation strategy
-    if (!shouldShowReminder(item, currentReminderCount)) {
+    // Reminders are held, not dropped, until quiet hours end
+    if (isInQuietHours(now, item.quietHours)) {
       continue;
     }
 
+    // The digest covers everything but urgent actions
+    if (preferencesByProfile.get(profile.id)?.digest_enabled && item.action.reminder_strategy !== 'urgent') {
+      continue;
+    }
+
+    // Check if we should show a reminder based on escalation strategy; a
+    // snooze that has ended reminds again even when today's reminders are used up
+    const { snoozed_until } = item.action;
+    const snoozeEnded = snoozed_until ? !(await wasNotifiedSince(actionId, snoozed_until)) : false;
+    if (!snoozeEnded && !shouldShowReminder(item, currentReminderCount)) {
+      continue;
+    }
+
+    // Reminders held back (by quiet hours or a closed app) are caught up in one notification
+    const reminderCount = Math.max(
+      currentReminderCount + 1,
+      getReminderIntervals(item.action, item.notificationConfig)
+        .filter((interval) => item.hoursOverdue >= interval).length
+    );
+
     // Show the notification
-    const notification = item.isOverdue && currentReminderCount > 0
-      ? showReminderNotification(
+    const options = item.isOverdue && currentReminderCount > 0
+      ? getReminderNotificationOptions(
           actionId,
           item.action.action_type,
           item.component.name,
-          currentReminderCount + 1
+          reminderCount,
+          profile.id,
+          profileName
         )
-      : showMaintenanceNotification(
+      : getMaintenanceNotificationOptions(
           actionId,
           item.action.action_type,
           item.component.name,
-          item.isOverdue
+          item.isOverdue,
+          profile.id,
+          profileName
         );
+    const notification = await showPersistentNotification(options);
 
     if (notification) {
-      // Set up click handler
-      if (onNotificationClick) {
+      // Set up click handler (the service worker handles clicks on its own notifications)
+      if (notification !== true && onNotificationClick) {
         setupNotificationClickHandler(notification, () => {
-          onNotificationClick(actionId);
+          onNotificationClick(actionId, profile.id);
         });
       }
 
       // Record that we showed this notification
-      recordNotificationShown(actionId, currentReminderCount + 1);
+      await recordNotificationShown(actionId, reminderCount, options);
       notificationsShown++;
     }
   }
 
+  notificationsShown += await notifyDigest(profiles, preferencesByProfile, onDigestClick);
+  notificationsShown += await notifyLowStock(profiles, onLowStockClick);
+  notificationsShown += await notifyEligibility(profiles, onEligibilityClick);
+
   // Update badge count
   await updateBadgeCount();
 
@@ -234,10 +603,156 @@ export async function checkAndNotify(
 }
 
 /**
- * Update the app badge to show number of due items
+ * Show each digest-mode profile one notification a day, from its digest time
+ * on, listing everything due or overdue that day grouped by component
+ */
+async function notifyDigest(
+  profiles: Profile[],
+  preferencesByProfile: Map<string, UserPreferences>,
+  onDigestClick?: (profileId?: string) => void
+): Promise<number> {
+  const now = new Date();
+  let notificationsShown = 0;
+
+  for (const profile of profiles) {
+    const preferences = preferencesByProfile.get(profile.id);
+    if (!preferences?.digest_enabled) continue;
+
+    const recordKey = `digest-${profile.id}`;
+    if (now < setTime(now, preferences.digest_time) || (await getReminderCount(recordKey)) > 0) continue;
+    if (isInQuietHours(now, getEffectiveQuietHours(preferences))) continue;
+
+    const dueItems = await withProfileDatabase(profile.id, (database) =>
+      getDueItemsForNotification(database, endOfDay(now))
+    );
+    if (dueItems.length === 0) continue;
+
+    const options = getDigestNotificationOptions(
+      groupDueItemsByComponent(dueItems).map((group) => ({
+        componentName: group.component.name,
+        actionTypes: group.items.map((item) => item.action.action_type),
+      })),
+      profile.id,
+      profiles.length > 1 ? profile.name : undefined
+    );
+    const notification = await showPersistentNotification(options);
+
+    if (notification) {
+      if (notification !== true && onDigestClick) {
+        setupNotificationClickHandler(notification, () => {
+          onDigestClick(profile.id);
+        });
+      }
+
+      await recordNotificationShown(recordKey, 1, options);
+      notificationsShown++;
+    }
+  }
+
+  return notificationsShown;
+}
+
+/**
+ * Show a reorder notification for each low-stock spare part (once per day)
+ */
+async function notifyLowStock(
+  profiles: Profile[],
+  onLowStockClick?: (supplyId: string, profileId?: string) => void
+): Promise<number> {
+  let notificationsShown = 0;
+
+  for (const profile of profiles) {
+    if (isInQuietHours(new Date(), await getProfileQuietHours(profile))) continue;
+
+    const lowStock = await withProfileDatabase(profile.id, getLowStockSupplies);
+    const profileName = profiles.length > 1 ? profile.name : undefined;
+
+    for (const supply of lowStock) {
+      const recordKey = `low-stock-${supply.id}`;
+      if ((await getReminderCount(recordKey)) > 0) continue;
+
+      const options = getLowStockNotificationOptions(
+        supply.id!,
+        supply.name,
+        supply.quantity,
+        profile.id,
+        profileName
+      );
+      const notification = await showPersistentNotification(options);
+
+      if (notification) {
+        if (notification !== true && onLowStockClick) {
+          setupNotificationClickHandler(notification, () => {
+            onLowStockClick(supply.id!, profile.id);
+          });
+        }
+
+        await recordNotificationShown(recordKey, 1, options);
+        notificationsShown++;
+      }
+    }
+  }
+
+  return notificationsShown;
+}
+
+/**
+ * Announce each category whose insurance allowance has opened up again
+ * Only profiles with eligibility reminders on are checked, and each opening is
+ * announced once
+ */
+async function notifyEligibility(
+  profiles: Profile[],
+  onEligibilityClick?: (category: Component['category'], profileId?: string) => void
+): Promise<number> {
+  let notificationsShown = 0;
+
+  for (const profile of profiles) {
+    if (isInQuietHours(new Date(), await getProfileQuietHours(profile))) continue;
+
+    const statuses = await withProfileDatabase(profile.id, async (database) => {
+      const { eligibility_reminders } = await getPreferences(database);
+      return eligibility_reminders ? getEligibilityForDatabase(database) : [];
+    });
+    const profileName = profiles.length > 1 ? profile.name : undefined;
+
+    for (const status of statuses) {
+      // Categories never replaced have nothing to open up
+      if (!status.eligible || !status.nextEligibleDate) continue;
+
+      const recordKey = `${profile.id}-${status.category}`;
+      if (await wasEligibilityNotified(recordKey, status.nextEligibleDate)) continue;
+
+      const options = getEligibilityNotificationOptions(
+        status.category,
+        status.rule.label || getCategoryDisplayName(status.category),
+        profile.id,
+        profileName
+      );
+      const notification = await showPersistentNotification(options);
+
+      if (notification) {
+        if (notification !== true && onEligibilityClick) {
+          setupNotificationClickHandler(notification, () => {
+            onEligibilityClick(status.category, profile.id);
+          });
+        }
+
+        await recordEligibilityNotified(recordKey, status.nextEligibleDate);
+        await recordNotificationShown(recordKey, 1, options);
+        notificationsShown++;
+      }
+    }
+  }
+
+  return notificationsShown;
+}
+
+/**
+ * Update the app badge to show number of due items across all profiles
  */
 export async function updateBadgeCount(): Promise<void> {
-  const dueItems = await getDueItemsForNotification();
+  const dueItems = await getDueItemsForAllProfiles();
   await setBadgeCount(dueItems.length);
 }
 
@@ -279,6 +794,9 @@ export class NotificationScheduler {
     // Also check when the page becomes visible (user returns to app)
     document.addEventListener('visibilitychange', this.handleVisibilityChange);
 
+    // Clicks and buttons on service worker notifications arrive as messages
+    navigator.serviceWorker?.addEventListener('message', this.handleServiceWorkerMessage);
+
     console.log(`Notification scheduler started (checking every ${this.options.checkIntervalMinutes} minutes)`);
   }
 
@@ -296,6 +814,7 @@ export class NotificationScheduler {
     }
 
     document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    navigator.serviceWorker?.removeEventListener('message', this.handleServiceWorkerMessage);
 
     console.log('Notification scheduler stopped');
   }
@@ -305,7 +824,12 @@ export class NotificationScheduler {
    */
   async check(): Promise<number> {
     try {
-      return await checkAndNotify(this.options.onNotificationClick);
+      return await checkAndNotify(
+        this.options.onNotificationClick,
+        this.options.onLowStockClick,
+        this.options.onEligibilityClick,
+        this.options.onDigestClick
+      );
     } catch (error) {
       console.error('Error checking notifications:', error);
       return 0;
@@ -317,11 +841,48 @@ export class NotificationScheduler {
    */
   private handleVisibilityChange = (): void => {
     if (document.visibilityState === 'visible') {
-      // User returned to the app, check for due items
+      // User returned to the app: pick up anything done from a notification
+      // while it was hidden, then check for due items
+      this.options.onDataChanged?.();
       this.check();
     }
   };
 
+  /**
+   * Handle a message from the service worker about one of its notifications
+   */
+  private handleServiceWorkerMessage = (event: MessageEvent<ServiceWorkerMessage>): void => {
+    const message = event.data;
+    if (message?.type === 'notification-click') {
+      this.handleNotificationClick(message.data);
+    } else if (message?.type === 'notification-action') {
+      this.options.onDataChanged?.();
+      updateBadgeCount();
+    }
+  };
+
+  /**
+   * Route a click on a service worker notification to the matching handler
+   */
+  private handleNotificationClick(data: Record<string, unknown>): void {
+    const profileId = data.profileId as string | undefined;
+    switch (data.type) {
+      case 'maintenance':
+      case 'reminder':
+        this.options.onNotificationClick?.(data.actionId as string, profileId);
+        break;
+      case 'low-stock':
+        this.options.onLowStockClick?.(data.supplyId as string, profileId);
+        break;
+      case 'eligibility':
+        this.options.onEligibilityClick?.(data.category as Component['category'], profileId);
+        break;
+      case 'digest':
+        this.options.onDigestClick?.(profileId);
+        break;
+    }
+  }
+
   /**
    * Check if scheduler is running
    */
@@ -410,11 +971,14 @@ export function isNotificationTimeReached(
 
 export const notificationScheduler = {
   getDueItems: getDueItemsForNotification,
+  getDueItemsForAllProfiles,
+  getDueCountsByProfile,
   checkAndNotify,
   updateBadge: updateBadgeCount,
   getScheduler: getNotificationScheduler,
   start: startNotificationScheduler,
   stop: stopNotificationScheduler,
   getNextTime: getNextNotificationTime,
+  getReminderIntervals,
   isTimeReached: isNotificationTimeReached,
 };
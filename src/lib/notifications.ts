@@ -6,8 +6,16 @@
  * - Notification display with click handling
  * - Badge count support (where available)
  * - Service worker integration
+ *
+ * Everything here also runs inside the service worker, which checks for due
+ * items while the app is closed. A history of what was shown is kept in
+ * IndexedDB so the page and the service worker share it.
  */
 
+import Dexie, { Table } from 'dexie';
+import { startOfDay } from 'date-fns';
+import { MAINTENANCE_NOTIFICATION_ACTIONS, type NotificationActionType } from './notification-actions';
+
 export type NotificationPermissionState = 'granted' | 'denied' | 'default';
 
 export interface NotificationOptions {
@@ -25,6 +33,13 @@ export interface NotificationOptions {
   }>;
 }
 
+/**
+ * A notification that may have gone through the service worker: the page
+ * Notification, true when the service worker showed it (its clicks then go to
+ * the service worker), or null when nothing was shown
+ */
+export type ShownNotification = Notification | true | null;
+
 // ============================================================================
 // Permission Management
 // ============================================================================
@@ -33,7 +48,7 @@ export interface NotificationOptions {
  * Check if the browser supports notifications
  */
 export function isNotificationSupported(): boolean {
-  return 'Notification' in window;
+  return typeof Notification !== 'undefined';
 }
 
 /**
@@ -125,58 +140,222 @@ export function showNotification(options: NotificationOptions): Notification | n
 }
 
 /**
- * Show a notification for a maintenance action that's due
+ * Build the notification for a maintenance action that's due
+ * Carries Done / Snooze / Skip buttons, which need the service worker
  */
-export function showMaintenanceNotification(
+export function getMaintenanceNotificationOptions(
   actionId: string,
   actionType: string,
   componentName: string,
-  isOverdue: boolean = false
-): Notification | null {
+  isOverdue: boolean = false,
+  profileId?: string,
+  profileName?: string
+): NotificationOptions {
+  const forProfile = profileName ? ` for ${profileName}` : '';
   const title = isOverdue
-    ? `Overdue: ${actionType}`
-    : `Due Now: ${actionType}`;
+    ? `Overdue${forProfile}: ${actionType}`
+    : `Due Now${forProfile}: ${actionType}`;
 
   const body = `${componentName} - ${actionType} is ${isOverdue ? 'overdue' : 'due now'}`;
 
-  return showNotification({
+  return {
     title,
     body,
     tag: `maintenance-${actionId}`, // Replace previous notification for same action
     data: {
       type: 'maintenance',
       actionId,
+      profileId,
       url: '/', // Navigate to home to see due items
     },
     requireInteraction: isOverdue, // Keep overdue notifications visible
-  });
+    actions: MAINTENANCE_NOTIFICATION_ACTIONS,
+  };
 }
 
 /**
- * Show a reminder notification (for escalation)
+ * Show a notification for a maintenance action that's due
  */
-export function showReminderNotification(
+export function showMaintenanceNotification(
   actionId: string,
   actionType: string,
   componentName: string,
-  reminderCount: number
-): Notification | null {
-  const title = `Reminder: ${actionType}`;
+  isOverdue: boolean = false,
+  profileId?: string,
+  profileName?: string
+): Promise<ShownNotification> {
+  return showPersistentNotification(
+    getMaintenanceNotificationOptions(actionId, actionType, componentName, isOverdue, profileId, profileName)
+  );
+}
+
+/**
+ * Build a reminder notification (for escalation)
+ * Carries Done / Snooze / Skip buttons, which need the service worker
+ */
+export function getReminderNotificationOptions(
+  actionId: string,
+  actionType: string,
+  componentName: string,
+  reminderCount: number,
+  profileId?: string,
+  profileName?: string
+): NotificationOptions {
+  const title = profileName ? `Reminder for ${profileName}: ${actionType}` : `Reminder: ${actionType}`;
   const body = reminderCount > 1
     ? `${componentName} - ${actionType} still needs attention (reminder ${reminderCount})`
     : `${componentName} - ${actionType} needs your attention`;
 
-  return showNotification({
+  return {
     title,
     body,
     tag: `reminder-${actionId}`,
     data: {
       type: 'reminder',
       actionId,
+      profileId,
       url: '/',
     },
     requireInteraction: true,
-  });
+    actions: MAINTENANCE_NOTIFICATION_ACTIONS,
+  };
+}
+
+/**
+ * Show a reminder notification (for escalation)
+ */
+export function showReminderNotification(
+  actionId: string,
+  actionType: string,
+  componentName: string,
+  reminderCount: number,
+  profileId?: string,
+  profileName?: string
+): Promise<ShownNotification> {
+  return showPersistentNotification(
+    getReminderNotificationOptions(actionId, actionType, componentName, reminderCount, profileId, profileName)
+  );
+}
+
+/**
+ * Build the notification for a spare part that's running low
+ */
+export function getLowStockNotificationOptions(
+  supplyId: string,
+  supplyName: string,
+  quantity: number,
+  profileId?: string,
+  profileName?: string
+): NotificationOptions {
+  const title = profileName ? `Low Stock for ${profileName}: ${supplyName}` : `Low Stock: ${supplyName}`;
+  const body = quantity === 0
+    ? `You're out of ${supplyName} - time to reorder`
+    : `Only ${quantity} ${supplyName} left - time to reorder`;
+
+  return {
+    title,
+    body,
+    tag: `low-stock-${supplyId}`,
+    data: {
+      type: 'low-stock',
+      supplyId,
+      profileId,
+      url: '/inventory',
+    },
+  };
+}
+
+/**
+ * Show a notification for a spare part that's running low
+ */
+export function showLowStockNotification(
+  supplyId: string,
+  supplyName: string,
+  quantity: number,
+  profileId?: string,
+  profileName?: string
+): Promise<ShownNotification> {
+  return showPersistentNotification(
+    getLowStockNotificationOptions(supplyId, supplyName, quantity, profileId, profileName)
+  );
+}
+
+/**
+ * Build the notification that insurance will cover another replacement in a category
+ */
+export function getEligibilityNotificationOptions(
+  category: string,
+  categoryName: string,
+  profileId?: string,
+  profileName?: string
+): NotificationOptions {
+  const title = profileName
+    ? `Eligible to Reorder for ${profileName}: ${categoryName}`
+    : `Eligible to Reorder: ${categoryName}`;
+
+  return {
+    title,
+    body: `Insurance now covers a new ${categoryName.toLowerCase()}`,
+    tag: `eligibility-${profileId ?? 'default'}-${category}`,
+    data: {
+      type: 'eligibility',
+      category,
+      profileId,
+      url: '/eligibility',
+    },
+  };
+}
+
+/**
+ * Show a notification that insurance will cover another replacement in a category
+ */
+export function showEligibilityNotification(
+  category: string,
+  categoryName: string,
+  profileId?: string,
+  profileName?: string
+): Promise<ShownNotification> {
+  return showPersistentNotification(
+    getEligibilityNotificationOptions(category, categoryName, profileId, profileName)
+  );
+}
+
+/**
+ * Build the daily digest: everything due today in one notification, grouped by component
+ */
+export function getDigestNotificationOptions(
+  groups: Array<{ componentName: string; actionTypes: string[] }>,
+  profileId?: string,
+  profileName?: string
+): NotificationOptions {
+  const count = groups.reduce((sum, group) => sum + group.actionTypes.length, 0);
+  const forProfile = profileName ? ` for ${profileName}` : '';
+  const title = `Today${forProfile}: ${count} ${count === 1 ? 'task' : 'tasks'} due`;
+  const body = groups
+    .map((group) => `${group.componentName}: ${group.actionTypes.join(', ')}`)
+    .join('\n');
+
+  return {
+    title,
+    body,
+    tag: `digest-${profileId ?? 'default'}`,
+    data: {
+      type: 'digest',
+      profileId,
+      url: '/checklist',
+    },
+  };
+}
+
+/**
+ * Show the daily digest: everything due today in one notification, grouped by component
+ */
+export function showDigestNotification(
+  groups: Array<{ componentName: string; actionTypes: string[] }>,
+  profileId?: string,
+  profileName?: string
+): Promise<ShownNotification> {
+  return showPersistentNotification(getDigestNotificationOptions(groups, profileId, profileName));
 }
 
 // ============================================================================
@@ -200,6 +379,10 @@ export function setupNotificationClickHandler(
     const data = (notification as Notification & { data?: Record<string, unknown> }).data || {};
     onClick(data);
 
+    if (notification.tag) {
+      recordNotificationClicked(notification.tag);
+    }
+
     // Close the notification
     notification.close();
   };
@@ -267,10 +450,25 @@ export async function clearBadge(): Promise<boolean> {
 // Service Worker Notifications (for background)
 // ============================================================================
 
+/**
+ * Get the service worker's own registration when running inside it
+ */
+function getOwnServiceWorkerRegistration(): ServiceWorkerRegistration | null {
+  if (typeof window !== 'undefined') {
+    return null;
+  }
+  return (globalThis as unknown as { registration?: ServiceWorkerRegistration }).registration ?? null;
+}
+
 /**
  * Check if service worker is available and has push capability
  */
 export async function getServiceWorkerRegistration(): Promise<ServiceWorkerRegistration | null> {
+  const ownRegistration = getOwnServiceWorkerRegistration();
+  if (ownRegistration) {
+    return ownRegistration;
+  }
+
   if (!('serviceWorker' in navigator)) {
     return null;
   }
@@ -283,6 +481,48 @@ export async function getServiceWorkerRegistration(): Promise<ServiceWorkerRegis
   }
 }
 
+/**
+ * Get the registration of the service worker controlling the app, if one is active
+ * Unlike getServiceWorkerRegistration this doesn't wait for one to be installed
+ */
+export async function getActiveServiceWorkerRegistration(): Promise<ServiceWorkerRegistration | null> {
+  const ownRegistration = getOwnServiceWorkerRegistration();
+  if (ownRegistration) {
+    return ownRegistration;
+  }
+
+  if (!('serviceWorker' in navigator)) {
+    return null;
+  }
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    return registration?.active ? registration : null;
+  } catch (error) {
+    console.error('Error getting service worker registration:', error);
+    return null;
+  }
+}
+
+/**
+ * Show a notification through the service worker when one is active, so it
+ * stays clickable after the page closes and can carry action buttons;
+ * otherwise as a page notification (without buttons)
+ */
+export async function showPersistentNotification(options: NotificationOptions): Promise<ShownNotification> {
+  if (!areNotificationsAllowed()) {
+    console.warn('Notifications are not allowed');
+    return null;
+  }
+
+  if (!(await getActiveServiceWorkerRegistration())) {
+    const { actions: _actions, ...pageOptions } = options;
+    return showNotification(pageOptions);
+  }
+
+  return (await showServiceWorkerNotification(options)) || null;
+}
+
 /**
  * Show a notification through the service worker (works when app is in background)
  */
@@ -306,7 +546,8 @@ export async function showServiceWorkerNotification(
       data: options.data,
       requireInteraction: options.requireInteraction ?? false,
       silent: options.silent ?? false,
-    });
+      ...(options.actions && { actions: options.actions }),
+    } as globalThis.NotificationOptions);
     return true;
   } catch (error) {
     console.error('Error showing service worker notification:', error);
@@ -315,30 +556,187 @@ export async function showServiceWorkerNotification(
 }
 
 // ============================================================================
-// Notification Storage (for tracking shown notifications)
+// Notification History (for tracking shown notifications)
 // ============================================================================
 
+/**
+ * A notification that was sent, kept so escalation can count today's
+ * reminders and the inbox can show what may have been missed
+ */
+export interface NotificationHistoryEntry {
+  id: string;
+  key: string; // What it's about: an action ID, or a key like "low-stock-<supply ID>"
+  type: string; // 'maintenance', 'reminder', 'digest', 'low-stock' or 'eligibility'
+  tag?: string;
+  title: string;
+  body: string;
+  profile_id?: string;
+  action_id?: string;
+  url?: string;
+  sent_at: Date;
+  escalation_level: number; // 1 for the first notification about it that day, then one per reminder
+  clicked_at?: Date;
+  action_taken?: NotificationActionType;
+  acted_at?: Date;
+}
+
+interface EligibilityNotifiedRecord {
+  key: string;
+  eligibleFrom: string;
+}
+
+/**
+ * Device-wide notification records, shared by the page and the service worker
+ * (which can't read localStorage)
+ */
+class NotificationStateDatabase extends Dexie {
+  notificationHistory!: Table<NotificationHistoryEntry, string>;
+  scheduledNotifications!: Table<NotificationHistoryEntry, string>; // Set to show later by a trigger
+  eligibilityNotified!: Table<EligibilityNotifiedRecord, string>;
+
+  constructor() {
+    super('CPAPNotificationsDB');
+    this.version(1).stores({
+      shownNotifications: 'actionId',
+      eligibilityNotified: 'key',
+    });
+    // Version 2: the daily shown records become a full history
+    this.version(2)
+      .stores({
+        shownNotifications: null,
+        notificationHistory: 'id, key, tag, sent_at, profile_id',
+      })
+      .upgrade(async (tx) => {
+        const records: Array<{ actionId: string; shownAt: string; reminderCount: number }> =
+          await tx.table('shownNotifications').toArray();
+        await tx.table('notificationHistory').bulkAdd(records.map(toHistoryEntry));
+      });
+    // Version 3: notifications scheduled with Notification Triggers join the
+    // history once their time has passed
+    this.version(3).stores({
+      scheduledNotifications: 'id, sent_at',
+    });
+  }
+}
+
+const notificationState = new NotificationStateDatabase();
+
+/**
+ * Turn a shown record from before the history existed into a history entry
+ */
+function toHistoryEntry(record: { actionId: string; shownAt: string; reminderCount: number }): NotificationHistoryEntry {
+  return {
+    id: crypto.randomUUID(),
+    key: record.actionId,
+    type: 'unknown',
+    title: '',
+    body: '',
+    sent_at: new Date(record.shownAt),
+    escalation_level: record.reminderCount,
+  };
+}
+
+// Where the records lived before they moved to IndexedDB
 const SHOWN_NOTIFICATIONS_KEY = 'cpap_shown_notifications';
+const ELIGIBILITY_NOTIFIED_KEY = 'cpap_eligibility_notified';
 
-interface ShownNotificationRecord {
-  actionId: string;
-  shownAt: string;
-  reminderCount: number;
+let legacyRecordsMoved: Promise<void> | null = null;
+
+/**
+ * Move records kept in localStorage by earlier versions into IndexedDB (once)
+ */
+function moveLegacyRecords(): Promise<void> {
+  if (!legacyRecordsMoved) {
+    legacyRecordsMoved = (async () => {
+      try {
+        if (typeof localStorage === 'undefined') return;
+
+        const shown = localStorage.getItem(SHOWN_NOTIFICATIONS_KEY);
+        if (shown) {
+          await notificationState.notificationHistory.bulkAdd(JSON.parse(shown).map(toHistoryEntry));
+          localStorage.removeItem(SHOWN_NOTIFICATIONS_KEY);
+        }
+
+        const eligibility = localStorage.getItem(ELIGIBILITY_NOTIFIED_KEY);
+        if (eligibility) {
+          const records: Record<string, string> = JSON.parse(eligibility);
+          await notificationState.eligibilityNotified.bulkPut(
+            Object.entries(records).map(([key, eligibleFrom]) => ({ key, eligibleFrom }))
+          );
+          localStorage.removeItem(ELIGIBILITY_NOTIFIED_KEY);
+        }
+      } catch (error) {
+        console.error('Error moving notification records:', error);
+      }
+    })();
+  }
+  return legacyRecordsMoved;
 }
 
 /**
- * Get record of shown notifications (for today)
+ * Move scheduled notifications whose time has passed into the history
+ * A trigger shows them without running any code, so they're counted here
+ * instead, before the history is read.
  */
-export function getShownNotifications(): ShownNotificationRecord[] {
+async function moveDeliveredNotifications(): Promise<void> {
   try {
-    const stored = localStorage.getItem(SHOWN_NOTIFICATIONS_KEY);
-    if (!stored) return [];
+    await notificationState.transaction(
+      'rw',
+      notificationState.scheduledNotifications,
+      notificationState.notificationHistory,
+      async () => {
+        const delivered = await notificationState.scheduledNotifications
+          .where('sent_at')
+          .belowOrEqual(new Date())
+          .toArray();
+        if (delivered.length === 0) return;
+        await notificationState.notificationHistory.bulkPut(delivered);
+        await notificationState.scheduledNotifications.bulkDelete(delivered.map((entry) => entry.id));
+      }
+    );
+  } catch (error) {
+    console.error('Error moving scheduled notifications:', error);
+  }
+}
 
-    const records: ShownNotificationRecord[] = JSON.parse(stored);
+/**
+ * Bring in records kept elsewhere before the history is read or added to
+ */
+async function prepareNotificationRecords(): Promise<void> {
+  await moveLegacyRecords();
+  await moveDeliveredNotifications();
+}
 
-    // Filter to only today's notifications
-    const today = new Date().toDateString();
-    return records.filter((r) => new Date(r.shownAt).toDateString() === today);
+/**
+ * Get the notifications sent today
+ */
+export async function getShownNotifications(): Promise<NotificationHistoryEntry[]> {
+  try {
+    await prepareNotificationRecords();
+    return await notificationState.notificationHistory
+      .where('sent_at')
+      .aboveOrEqual(startOfDay(new Date()))
+      .toArray();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get sent notifications, newest first
+ *
+ * @param since - Only notifications sent from this time
+ * @param profileId - Only notifications for this profile
+ */
+export async function getNotificationHistory(since?: Date, profileId?: string): Promise<NotificationHistoryEntry[]> {
+  try {
+    await prepareNotificationRecords();
+    const entries = await notificationState.notificationHistory
+      .where('sent_at')
+      .aboveOrEqual(since ?? new Date(0))
+      .reverse()
+      .toArray();
+    return profileId ? entries.filter((entry) => entry.profile_id === profileId) : entries;
   } catch {
     return [];
   }
@@ -346,43 +744,165 @@ export function getShownNotifications(): ShownNotificationRecord[] {
 
 /**
  * Record that a notification was shown
+ *
+ * @param key - What the notification is about, for counting reminders
+ * @param escalationLevel - Which reminder about it this is today
+ * @param options - The notification that was shown
  */
-export function recordNotificationShown(actionId: string, reminderCount: number = 1): void {
+export async function recordNotificationShown(
+  key: string,
+  escalationLevel: number,
+  options: NotificationOptions
+): Promise<void> {
   try {
-    const records = getShownNotifications();
-    const existingIndex = records.findIndex((r) => r.actionId === actionId);
+    await prepareNotificationRecords();
+    await notificationState.notificationHistory.add(toNotificationEntry(key, escalationLevel, options, new Date()));
+  } catch (error) {
+    console.error('Error recording notification:', error);
+  }
+}
 
-    if (existingIndex >= 0) {
-      records[existingIndex].reminderCount = reminderCount;
-      records[existingIndex].shownAt = new Date().toISOString();
-    } else {
-      records.push({
-        actionId,
-        shownAt: new Date().toISOString(),
-        reminderCount,
-      });
-    }
+/**
+ * Record a notification a trigger will show at a later time
+ * It counts as sent from then on, like one shown by recordNotificationShown.
+ */
+export async function recordNotificationScheduled(
+  key: string,
+  escalationLevel: number,
+  options: NotificationOptions,
+  at: Date
+): Promise<void> {
+  try {
+    await notificationState.scheduledNotifications.add(toNotificationEntry(key, escalationLevel, options, at));
+  } catch (error) {
+    console.error('Error recording scheduled notification:', error);
+  }
+}
 
-    localStorage.setItem(SHOWN_NOTIFICATIONS_KEY, JSON.stringify(records));
+/**
+ * Forget scheduled notifications that haven't been shown yet (when their
+ * triggers are cancelled)
+ */
+export async function cancelScheduledNotifications(): Promise<void> {
+  try {
+    await moveDeliveredNotifications();
+    await notificationState.scheduledNotifications.where('sent_at').above(new Date()).delete();
   } catch (error) {
-    console.error('Error recording notification:', error);
+    console.error('Error cancelling scheduled notifications:', error);
+  }
+}
+
+function toNotificationEntry(
+  key: string,
+  escalationLevel: number,
+  options: NotificationOptions,
+  sentAt: Date
+): NotificationHistoryEntry {
+  return {
+    id: crypto.randomUUID(),
+    key,
+    type: (options.data?.type as string) ?? 'unknown',
+    tag: options.tag,
+    title: options.title,
+    body: options.body,
+    profile_id: options.data?.profileId as string | undefined,
+    action_id: options.data?.actionId as string | undefined,
+    url: options.data?.url as string | undefined,
+    sent_at: sentAt,
+    escalation_level: escalationLevel,
+  };
+}
+
+/**
+ * Check whether a notification about something was sent at or after a time
+ */
+export async function wasNotifiedSince(key: string, since: Date): Promise<boolean> {
+  try {
+    await prepareNotificationRecords();
+    const count = await notificationState.notificationHistory
+      .where('key')
+      .equals(key)
+      .filter((entry) => entry.sent_at >= since)
+      .count();
+    return count > 0;
+  } catch {
+    return false;
   }
 }
 
 /**
  * Get the reminder count for an action (how many times we've notified today)
  */
-export function getReminderCount(actionId: string): number {
-  const records = getShownNotifications();
-  const record = records.find((r) => r.actionId === actionId);
-  return record?.reminderCount || 0;
+export async function getReminderCount(key: string): Promise<number> {
+  const records = await getShownNotifications();
+  return records
+    .filter((r) => r.key === key)
+    .reduce((count, r) => Math.max(count, r.escalation_level), 0);
 }
 
 /**
- * Clear notification records (called at start of new day)
+ * Update the most recent notification sent with a tag
  */
-export function clearNotificationRecords(): void {
-  localStorage.removeItem(SHOWN_NOTIFICATIONS_KEY);
+async function updateLatestNotification(tag: string, changes: Partial<NotificationHistoryEntry>): Promise<void> {
+  try {
+    await prepareNotificationRecords();
+    const entries = await notificationState.notificationHistory.where('tag').equals(tag).sortBy('sent_at');
+    const latest = entries[entries.length - 1];
+    if (latest) {
+      await notificationState.notificationHistory.update(latest.id, changes);
+    }
+  } catch (error) {
+    console.error('Error updating notification history:', error);
+  }
+}
+
+/**
+ * Record that the latest notification with a tag was clicked
+ */
+export function recordNotificationClicked(tag: string): Promise<void> {
+  return updateLatestNotification(tag, { clicked_at: new Date() });
+}
+
+/**
+ * Record that the latest notification with a tag was acted on, from its
+ * buttons or the inbox
+ */
+export function recordNotificationActed(tag: string, action: NotificationActionType): Promise<void> {
+  return updateLatestNotification(tag, { action_taken: action, acted_at: new Date() });
+}
+
+/**
+ * Clear the notification history
+ */
+export async function clearNotificationRecords(): Promise<void> {
+  await notificationState.notificationHistory.clear();
+  await notificationState.scheduledNotifications.clear();
+}
+
+/**
+ * Check if the eligibility opening on a date was already announced
+ * Unlike the daily reminder counts these last, so each opening is announced once
+ */
+export async function wasEligibilityNotified(key: string, eligibleFrom: Date): Promise<boolean> {
+  try {
+    await moveLegacyRecords();
+    const record = await notificationState.eligibilityNotified.get(key);
+    return record?.eligibleFrom === eligibleFrom.toISOString();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Record that the eligibility opening on a date was announced
+ */
+export async function recordEligibilityNotified(key: string, eligibleFrom: Date): Promise<void> {
+  try {
+    await moveLegacyRecords();
+    await notificationState.eligibilityNotified.put({ key, eligibleFrom: eligibleFrom.toISOString() });
+  } catch (error) {
+    console.error('Error recording eligibility notification:', error);
+  }
 }
 
 // ============================================================================
@@ -402,6 +922,8 @@ export const notifications = {
   show: showNotification,
   showMaintenance: showMaintenanceNotification,
   showReminder: showReminderNotification,
+  showLowStock: showLowStockNotification,
+  showEligibility: showEligibilityNotification,
   showWithNavigation: showNotificationWithNavigation,
   showViaServiceWorker: showServiceWorkerNotification,
 
@@ -415,7 +937,14 @@ export const notifications = {
 
   // Records
   getShownRecords: getShownNotifications,
+  getHistory: getNotificationHistory,
   recordShown: recordNotificationShown,
+  recordScheduled: recordNotificationScheduled,
+  cancelScheduled: cancelScheduledNotifications,
+  recordClicked: recordNotificationClicked,
+  recordActed: recordNotificationActed,
   getReminderCount,
   clearRecords: clearNotificationRecords,
+  wasEligibilityNotified,
+  recordEligibilityNotified,
 };
@@ -0,0 +1,248 @@
+/**
+ * Operation Journal (Undo/Redo)
+ *
+ * Complete, skip and snooze each record the action's scheduling fields before
+ * and after the change, plus any log entry the operation created. Undo puts
+ * the "before" state back and removes the log; redo re-applies the "after"
+ * state and restores the log. A spare part taken from stock by a replacement
+ * is returned on undo and taken again on redo.
+ *
+ * The journal is stored in IndexedDB so an accidental tap can still be undone
+ * after a reload. Undone entries form the redo stack, which is discarded as
+ * soon as a new operation is recorded.
+ */
+
+import { db } from './db';
+import type { CPAPDatabase, MaintenanceAction, MaintenanceLog, OperationJournalEntry } from './db';
+import { dbOperations, getDbOperations } from './db-operations';
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+export type JournaledOperation = OperationJournalEntry['operation'];
+
+/**
+ * Action fields changed by scheduler operations
+ * Add new per-action scheduling state here so undo restores it too
+ */
+export const JOURNALED_ACTION_FIELDS: (keyof MaintenanceAction)[] = [
+  'next_due',
+  'last_completed',
+  'snoozed_until',
+  'snooze_count',
+  'uses_since_completion',
+  'calendar_due',
+];
+
+/**
+ * Oldest entries beyond this are dropped
+ */
+export const MAX_JOURNAL_ENTRIES = 50;
+
+const OPERATION_LABELS: Record<JournaledOperation, string> = {
+  complete: 'Completion',
+  skip: 'Skip',
+  snooze: 'Snooze',
+};
+
+/**
+ * Get a display label for a journaled operation
+ */
+export function getOperationLabel(operation: JournaledOperation): string {
+  return OPERATION_LABELS[operation];
+}
+
+// ============================================================================
+// Snapshot Helpers
+// ============================================================================
+
+/**
+ * Copy the journaled fields of an action
+ */
+export function snapshotAction(action: MaintenanceAction): Partial<MaintenanceAction> {
+  const snapshot: Partial<MaintenanceAction> = {};
+  for (const field of JOURNALED_ACTION_FIELDS) {
+    if (action[field] !== undefined) {
+      (snapshot as Record<string, unknown>)[field] = action[field];
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Build an update that sets every journaled field to the snapshot value
+ * Fields missing from the snapshot are set to undefined so Dexie removes them
+ */
+function toActionUpdate(snapshot: Partial<MaintenanceAction>): Partial<MaintenanceAction> {
+  const updates: Record<string, unknown> = {};
+  for (const field of JOURNALED_ACTION_FIELDS) {
+    updates[field] = snapshot[field];
+  }
+  return updates as Partial<MaintenanceAction>;
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  return a === b;
+}
+
+/**
+ * Check that an action is still in the state a journal entry expects
+ * Prevents undo/redo from overwriting edits made outside the journal
+ */
+function matchesSnapshot(action: MaintenanceAction, snapshot: Partial<MaintenanceAction>): boolean {
+  return JOURNALED_ACTION_FIELDS.every((field) => isSameValue(action[field], snapshot[field]));
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Journal a scheduler mutation
+ * Clears the redo stack and trims the journal to MAX_JOURNAL_ENTRIES
+ *
+ * @param operation - Which scheduler operation ran
+ * @param before - The action as it was before the operation
+ * @param after - The action as it is after the operation
+ * @param log - Log entry created by the operation, if any
+ * @param supplyId - Supply item the operation took a spare part from, if any
+ * @param database - Profile database the operation ran on (defaults to the active profile)
+ */
+export async function recordOperation(
+  operation: JournaledOperation,
+  before: MaintenanceAction,
+  after: MaintenanceAction,
+  log?: MaintenanceLog,
+  supplyId?: string,
+  database: CPAPDatabase = db
+): Promise<string> {
+  const { operationJournal } = getDbOperations(database);
+  const entries = await operationJournal.getAll();
+  const redoEntries = entries.filter((entry) => entry.undone);
+  const undoEntries = entries.filter((entry) => !entry.undone);
+  const overflow = undoEntries.slice(0, Math.max(0, undoEntries.length - MAX_JOURNAL_ENTRIES + 1));
+
+  const staleIds = [...redoEntries, ...overflow].map((entry) => entry.id!);
+  if (staleIds.length > 0) {
+    await operationJournal.bulkDelete(staleIds);
+  }
+
+  return await operationJournal.create({
+    operation,
+    action_id: before.id!,
+    before: snapshotAction(before),
+    after: snapshotAction(after),
+    log,
+    supply_id: supplyId,
+    created_at: new Date(),
+    undone: false,
+  });
+}
+
+// ============================================================================
+// Undo / Redo
+// ============================================================================
+
+/**
+ * Make sure an entry can still be applied, discarding it if not
+ */
+async function assertEntryApplies(
+  entry: OperationJournalEntry,
+  expected: Partial<MaintenanceAction>,
+  verb: 'undone' | 'redone'
+): Promise<void> {
+  const action = await dbOperations.maintenanceActions.getById(entry.action_id);
+
+  if (!action || !matchesSnapshot(action, expected)) {
+    await dbOperations.operationJournal.bulkDelete([entry.id!]);
+    throw new Error(
+      action
+        ? `This task has changed since, so the change can no longer be ${verb}`
+        : `This task no longer exists, so the change can no longer be ${verb}`
+    );
+  }
+}
+
+/**
+ * Undo the most recent operation that has not been undone
+ *
+ * @returns The undone entry, or null if there is nothing to undo
+ */
+export async function undoLastOperation(): Promise<OperationJournalEntry | null> {
+  const entries = await dbOperations.operationJournal.getAll();
+  const entry = [...entries].reverse().find((e) => !e.undone);
+  if (!entry) return null;
+
+  await assertEntryApplies(entry, entry.after, 'undone');
+
+  await db.transaction('rw', [db.maintenanceActions, db.maintenanceLogs, db.supplies, db.operationJournal], async () => {
+    await dbOperations.maintenanceActions.update(entry.action_id, toActionUpdate(entry.before));
+    if (entry.log?.id) {
+      await dbOperations.maintenanceLogs.delete(entry.log.id);
+    }
+    if (entry.supply_id) {
+      await dbOperations.supplies.adjustQuantity(entry.supply_id, 1);
+    }
+    await dbOperations.operationJournal.update(entry.id!, { undone: true });
+  });
+
+  return { ...entry, undone: true };
+}
+
+/**
+ * Redo the most recently undone operation
+ *
+ * @returns The redone entry, or null if there is nothing to redo
+ */
+export async function redoLastOperation(): Promise<OperationJournalEntry | null> {
+  const entries = await dbOperations.operationJournal.getAll();
+  const entry = entries.find((e) => e.undone);
+  if (!entry) return null;
+
+  await assertEntryApplies(entry, entry.before, 'redone');
+
+  await db.transaction('rw', [db.maintenanceActions, db.maintenanceLogs, db.supplies, db.operationJournal], async () => {
+    await dbOperations.maintenanceActions.update(entry.action_id, toActionUpdate(entry.after));
+    if (entry.log) {
+      await db.maintenanceLogs.put(entry.log);
+    }
+    if (entry.supply_id) {
+      await dbOperations.supplies.adjustQuantity(entry.supply_id, -1);
+    }
+    await dbOperations.operationJournal.update(entry.id!, { undone: false });
+  });
+
+  return { ...entry, undone: false };
+}
+
+/**
+ * Check if there is an operation to undo
+ */
+export async function canUndo(): Promise<boolean> {
+  const entries = await dbOperations.operationJournal.getAll();
+  return entries.some((entry) => !entry.undone);
+}
+
+/**
+ * Check if there is an undone operation to redo
+ */
+export async function canRedo(): Promise<boolean> {
+  const entries = await dbOperations.operationJournal.getAll();
+  return entries.some((entry) => entry.undone);
+}
+
+// ============================================================================
+// Export all functions
+// ============================================================================
+
+export const operationJournal = {
+  record: recordOperation,
+  undo: undoLastOperation,
+  redo: redoLastOperation,
+  canUndo,
+  canRedo,
+};
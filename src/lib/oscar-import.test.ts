@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from './db';
+import { dbOperations } from './db-operations';
+import { parseOscarSummaryCSV } from './oscar-import';
+import { importDeviceNights } from './usage-journal';
+
+const SUMMARY_CSV = [
+  'Date,Session Count,Start,End,Total Time,AHI,CA Count,OA Count,H Count,Median Pressure,95% Pressure,Median Leak,95% Leak',
+  '2025-06-01,2,2025-06-01T22:10:00,2025-06-02T06:20:00,07:45:30,1.94,1,3,11,9.12,11.4,2.4,18.6',
+  '2025-06-02,0,,,00:00:00,0,0,0,0,0,0,0,0',
+  '2025-06-03,1,2025-06-03T23:00:00,2025-06-04T06:00:00,07:00:00,0.86,0,2,4,8.8,10.9,1.2,12',
+  'not a date,1,,,01:00:00,0,0,0,0,0,0,0,0',
+].join('\r\n');
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+describe('parseOscarSummaryCSV', () => {
+  it('should map daily summary columns to nights', () => {
+    const { nights, warnings } = parseOscarSummaryCSV(SUMMARY_CSV);
+
+    expect(nights).toHaveLength(3);
+    expect(nights[0]).toEqual({
+      date: '2025-06-01',
+      hours: 7.76,
+      sessions: 2,
+      ahi: 1.94,
+      leak_50: 2.4,
+      leak_95: 18.6,
+      pressure: 9.12,
+    });
+    expect(nights[1]).toMatchObject({ date: '2025-06-02', hours: 0, ahi: undefined });
+    expect(warnings).toEqual(['1 row without a valid date or usage time skipped']);
+  });
+
+  it('should read slash dates in one format for the whole file', () => {
+    const ambiguity = 'Dates could be month/day or day/month; they were read as month/day';
+    const csv = (dates: string[]) => ['Date,Total Time', ...dates.map((date) => `${date},07:00:00`)].join('\n');
+
+    // 25/6 can only be day/month, so 3/6 is June 3 too
+    const european = parseOscarSummaryCSV(csv(['3/6/2025', '25/6/2025']));
+    expect(european.nights.map((night) => night.date)).toEqual(['2025-06-03', '2025-06-25']);
+    expect(european.warnings).not.toContain(ambiguity);
+
+    const us = parseOscarSummaryCSV(csv(['6/3/2025', '6/25/2025']));
+    expect(us.nights.map((night) => night.date)).toEqual(['2025-06-03', '2025-06-25']);
+    expect(us.warnings).not.toContain(ambiguity);
+
+    const ambiguous = parseOscarSummaryCSV(csv(['6/3/2025', '6/4/2025']));
+    expect(ambiguous.nights.map((night) => night.date)).toEqual(['2025-06-03', '2025-06-04']);
+    expect(ambiguous.warnings).toContain(ambiguity);
+  });
+
+  it('should reject files that are not a daily summary', () => {
+    expect(() => parseOscarSummaryCSV('Name,Value\nfoo,1')).toThrow('Not an OSCAR daily summary');
+  });
+});
+
+describe('importing an OSCAR summary', () => {
+  it('should not duplicate nights or uses when the same file is imported twice', async () => {
+    const componentId = await dbOperations.components.create({
+      name: 'Cushion',
+      category: 'mask_cushion',
+      tracking_mode: 'usage',
+      usage_count: 0,
+      is_active: true,
+    });
+    // In use before the imported nights, so they count for it
+    await db.components.update(componentId, { created_at: new Date(2025, 0, 1) });
+    const { nights } = parseOscarSummaryCSV(SUMMARY_CSV);
+
+    await importDeviceNights(nights);
+    await importDeviceNights(nights);
+
+    expect(await dbOperations.usageJournal.getAll()).toHaveLength(3);
+    expect((await dbOperations.components.getById(componentId))?.usage_count).toBe(2);
+    expect(await dbOperations.usageJournal.getByDate('2025-06-03')).toMatchObject({ ahi: 0.86, pressure: 8.8 });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * OSCAR Summary Import
+ *
+ * Reads the daily summary CSV that OSCAR (the open-source CPAP analysis app)
+ * exports and maps each row to a night of use: date, hours used, AHI, leak
+ * and pressure. Column names vary a little between OSCAR versions and
+ * machines, so each value is looked up under several headings.
+ */
+
+import { isValid, parse } from 'date-fns';
+import { toNightKey, type DeviceNight } from './usage-journal';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OscarSummary {
+  nights: DeviceNight[]; // Oldest first, one per date
+  warnings: string[];
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields
+ */
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+// Headings each value may appear under, most specific first
+const DATE_COLUMNS = ['date'];
+const HOURS_COLUMNS = ['total time', 'usage', 'hours', 'hours used'];
+const SESSIONS_COLUMNS = ['session count', 'sessions'];
+const AHI_COLUMNS = ['ahi'];
+const LEAK_50_COLUMNS = ['median leak rate', 'median leak', 'leak median', 'leak rate', 'leak'];
+const LEAK_95_COLUMNS = ['95% leak rate', '95% leak', 'leak 95%'];
+const PRESSURE_COLUMNS = ['median pressure', 'pressure median', 'median cpap pressure', 'pressure'];
+
+function findColumn(headings: string[], names: string[]): number {
+  for (const name of names) {
+    const index = headings.indexOf(name);
+    if (index >= 0) return index;
+  }
+  return -1;
+}
+
+/**
+ * Parse a duration as "hh:mm:ss", "hh:mm" or decimal hours
+ */
+function parseHours(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (trimmed.includes(':')) {
+    const [hours, minutes = 0, seconds = 0] = trimmed.split(':').map(Number);
+    if ([hours, minutes, seconds].some((part) => !Number.isFinite(part))) return undefined;
+    return hours + minutes / 60 + seconds / 3600;
+  }
+  const hours = parseFloat(trimmed);
+  return Number.isFinite(hours) ? hours : undefined;
+}
+
+const US_SLASH_DATE = 'M/d/yyyy';
+const EUROPEAN_SLASH_DATE = 'd/M/yyyy';
+
+/**
+ * Pick the slash date format for a whole file
+ * A first part above 12 can only be a day and a second part above 12 only a
+ * month; with neither the file is ambiguous and is read as US dates.
+ *
+ * @returns The format, and whether the file gave no way to tell
+ */
+function getSlashDateFormat(values: string[]): { pattern: string; ambiguous: boolean } {
+  for (const value of values) {
+    const match = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/\d{4}$/);
+    if (!match) continue;
+    if (Number(match[1]) > 12) return { pattern: EUROPEAN_SLASH_DATE, ambiguous: false };
+    if (Number(match[2]) > 12) return { pattern: US_SLASH_DATE, ambiguous: false };
+  }
+  return { pattern: US_SLASH_DATE, ambiguous: values.some((value) => value.includes('/')) };
+}
+
+/**
+ * Parse a date in OSCAR's ISO format, or the file's slash format as a fallback
+ */
+function parseNightDate(value: string, slashPattern: string): string | undefined {
+  const trimmed = value.trim();
+  for (const pattern of ['yyyy-MM-dd', slashPattern]) {
+    const date = parse(trimmed, pattern, new Date());
+    if (isValid(date)) return toNightKey(date);
+  }
+  return undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? Math.round(number * 100) / 100 : undefined;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse an OSCAR daily summary CSV export
+ *
+ * @param text - The CSV file contents
+ * @returns Nights (one per date) and warnings about rows that were left out
+ * @throws If the file has no date or usage column
+ */
+export function parseOscarSummaryCSV(text: string): OscarSummary {
+  const [header, ...rows] = parseCSV(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error('The file is empty');
+  }
+
+  const headings = header.map((heading) => heading.trim().toLowerCase());
+  const dateColumn = findColumn(headings, DATE_COLUMNS);
+  const hoursColumn = findColumn(headings, HOURS_COLUMNS);
+  if (dateColumn < 0 || hoursColumn < 0) {
+    throw new Error('Not an OSCAR daily summary: expected "Date" and "Total Time" columns');
+  }
+  if (headings.includes('session')) {
+    throw new Error('This is an OSCAR sessions export. Export the daily summary instead.');
+  }
+
+  const sessionsColumn = findColumn(headings, SESSIONS_COLUMNS);
+  const ahiColumn = findColumn(headings, AHI_COLUMNS);
+  const leak50Column = findColumn(headings, LEAK_50_COLUMNS);
+  const leak95Column = findColumn(headings, LEAK_95_COLUMNS);
+  const pressureColumn = findColumn(headings, PRESSURE_COLUMNS);
+
+  const warnings: string[] = [];
+  const byDate = new Map<string, DeviceNight>();
+  let skipped = 0;
+
+  const slashDates = getSlashDateFormat(rows.map((row) => row[dateColumn] ?? ''));
+  if (slashDates.ambiguous) {
+    warnings.push('Dates could be month/day or day/month; they were read as month/day');
+  }
+
+  for (const row of rows) {
+    const date = parseNightDate(row[dateColumn] ?? '', slashDates.pattern);
+    const hours = parseHours(row[hoursColumn] ?? '');
+    if (!date || hours === undefined || hours < 0 || hours > 24) {
+      skipped++;
+      continue;
+    }
+
+    if (byDate.has(date)) {
+      warnings.push(`${date} appears more than once; the last row is used`);
+    }
+    const used = hours > 0;
+    byDate.set(date, {
+      date,
+      hours: Math.round(hours * 100) / 100,
+      sessions: used && sessionsColumn >= 0 ? parseNumber(row[sessionsColumn]) : undefined,
+      ahi: used && ahiColumn >= 0 ? parseNumber(row[ahiColumn]) : undefined,
+      leak_50: used && leak50Column >= 0 ? parseNumber(row[leak50Column]) : undefined,
+      leak_95: used && leak95Column >= 0 ? parseNumber(row[leak95Column]) : undefined,
+      pressure: used && pressureColumn >= 0 ? parseNumber(row[pressureColumn]) : undefined,
+    });
+  }
+
+  if (skipped > 0) {
+    warnings.push(`${skipped} ${skipped === 1 ? 'row' : 'rows'} without a valid date or usage time skipped`);
+  }
+  if (ahiColumn < 0) warnings.push('No AHI column found');
+  if (leak50Column < 0) warnings.push('No leak column found');
+  if (pressureColumn < 0) warnings.push('No pressure column found');
+
+  const nights = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  return { nights, warnings };
+}
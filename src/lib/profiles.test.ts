@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db, DEFAULT_DATABASE_NAME } from './db';
+import { dbOperations } from './db-operations';
+import {
+  profileOperations,
+  activateProfile,
+  getActiveProfileId,
+  withProfileDatabase,
+  DEFAULT_PROFILE_ID,
+} from './profiles';
+import { getDueItemsForAllProfiles } from './notification-scheduler';
+import {
+  exportAllProfilesToJSON,
+  importAllProfiles,
+  validateImportData,
+} from './export-import';
+
+async function createDueRinse(name: string): Promise<string> {
+  const componentId = await dbOperations.components.create({
+    name,
+    category: 'mask_cushion',
+    tracking_mode: 'calendar',
+    usage_count: 0,
+    is_active: true,
+  });
+  return await dbOperations.maintenanceActions.create({
+    component_id: componentId,
+    action_type: 'Daily Rinse',
+    description: 'Rinse cushion',
+    schedule_frequency: 1,
+    schedule_unit: 'days',
+    reminder_strategy: 'gentle',
+    next_due: new Date(Date.now() - 60 * 60 * 1000),
+  });
+}
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+afterEach(async () => {
+  await activateProfile(DEFAULT_PROFILE_ID);
+  for (const profile of await profileOperations.getAll()) {
+    if (profile.id !== DEFAULT_PROFILE_ID) {
+      await profileOperations.delete(profile.id);
+    }
+  }
+});
+
+describe('profiles', () => {
+  it('should keep existing data in the default profile', async () => {
+    const profiles = await profileOperations.getAll();
+
+    expect(profiles.map((p) => p.id)).toEqual([DEFAULT_PROFILE_ID]);
+    expect(db.name).toBe(DEFAULT_DATABASE_NAME);
+  });
+
+  it('should isolate data between profiles', async () => {
+    await createDueRinse('Mine');
+    const partnerId = await profileOperations.create('Partner');
+
+    await activateProfile(partnerId);
+
+    expect(getActiveProfileId()).toBe(partnerId);
+    expect(await dbOperations.components.getAll()).toHaveLength(0);
+    await createDueRinse('Theirs');
+
+    await activateProfile(DEFAULT_PROFILE_ID);
+    const components = await dbOperations.components.getAll();
+    expect(components.map((c) => c.name)).toEqual(['Mine']);
+  });
+
+  it('should refuse to delete the active or default profile', async () => {
+    const partnerId = await profileOperations.create('Partner');
+    await activateProfile(partnerId);
+
+    await expect(profileOperations.delete(partnerId)).rejects.toThrow('Switch to another profile');
+    await expect(profileOperations.delete(DEFAULT_PROFILE_ID)).rejects.toThrow('cannot be deleted');
+  });
+
+  it('should collect due items from every profile', async () => {
+    await createDueRinse('Mine');
+    const partnerId = await profileOperations.create('Partner');
+    await withProfileDatabase(partnerId, async (database) => {
+      await database.components.add({
+        id: 'partner-cushion',
+        name: 'Theirs',
+        category: 'mask_cushion',
+        tracking_mode: 'calendar',
+        usage_count: 0,
+        is_active: true,
+        created_at: new Date(),
+      });
+      await database.maintenanceActions.add({
+        id: 'partner-rinse',
+        component_id: 'partner-cushion',
+        action_type: 'Daily Rinse',
+        description: 'Rinse cushion',
+        schedule_frequency: 1,
+        schedule_unit: 'days',
+        reminder_strategy: 'gentle',
+        next_due: new Date(Date.now() - 60 * 60 * 1000),
+      });
+    });
+
+    const dueItems = await getDueItemsForAllProfiles();
+
+    expect(dueItems.map((item) => item.profile?.name).sort()).toEqual(['Me', 'Partner']);
+    expect(dueItems.find((item) => item.profile?.id === partnerId)?.component.name).toBe('Theirs');
+  });
+
+  it('should round-trip an all-profile backup', async () => {
+    await createDueRinse('Mine');
+    const partnerId = await profileOperations.create('Partner');
+    await activateProfile(partnerId);
+    await createDueRinse('Theirs');
+    await activateProfile(DEFAULT_PROFILE_ID);
+
+    const backup = await exportAllProfilesToJSON();
+    const validation = await validateImportData(backup);
+    expect(validation.isValid).toBe(true);
+    expect(validation.profiles).toEqual(['Me', 'Partner']);
+    expect(validation.summary.components).toBe(2);
+
+    await profileOperations.delete(partnerId);
+    await importAllProfiles(backup, 'replace');
+
+    const restored = await profileOperations.getById(partnerId);
+    expect(restored?.name).toBe('Partner');
+    const partnerComponents = await withProfileDatabase(partnerId, (database) => database.components.toArray());
+    expect(partnerComponents.map((c) => c.name)).toEqual(['Theirs']);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * User Profiles
+ *
+ * Each person sharing the device gets a profile backed by its own IndexedDB
+ * database, so components, actions, logs and notification configs never mix.
+ * The default profile keeps the original database name, which turns data
+ * created before profiles existed into the first profile.
+ *
+ * The list of profiles lives in a small registry database of its own. Which
+ * profile is active is remembered per device in localStorage.
+ */
+
+import Dexie, { Table } from 'dexie';
+import { db, CPAPDatabase, DEFAULT_DATABASE_NAME, setActiveDatabase } from './db';
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+export interface Profile {
+  id: string;
+  name: string;
+  created_at: Date;
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+const DEFAULT_PROFILE_NAME = 'Me';
+const ACTIVE_PROFILE_KEY = 'cpap_active_profile';
+
+class ProfileRegistryDatabase extends Dexie {
+  profiles!: Table<Profile, string>;
+
+  constructor() {
+    super('CPAPProfilesDB');
+    this.version(1).stores({
+      profiles: 'id, created_at',
+    });
+  }
+}
+
+const registry = new ProfileRegistryDatabase();
+
+// ============================================================================
+// Active Profile
+// ============================================================================
+
+/**
+ * Get the database name that stores a profile's data
+ */
+export function getProfileDatabaseName(profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID
+    ? DEFAULT_DATABASE_NAME
+    : `${DEFAULT_DATABASE_NAME}-${profileId}`;
+}
+
+/**
+ * Get the ID of the profile this device last switched to
+ */
+export function getActiveProfileId(): string {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY) || DEFAULT_PROFILE_ID;
+  } catch {
+    return DEFAULT_PROFILE_ID;
+  }
+}
+
+/**
+ * Open the active profile's database
+ * Call once on startup before anything reads from `db`
+ */
+export function restoreActiveProfile(): void {
+  setActiveDatabase(getProfileDatabaseName(getActiveProfileId()));
+}
+
+/**
+ * Switch the app to another profile
+ * Callers must reload any data they hold from the previous profile
+ */
+export async function activateProfile(profileId: string): Promise<void> {
+  const profile = await profileOperations.getById(profileId);
+  if (!profile) {
+    throw new Error('Profile not found');
+  }
+
+  try {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profileId);
+  } catch (error) {
+    console.error('Error saving active profile:', error);
+  }
+  setActiveDatabase(getProfileDatabaseName(profileId));
+}
+
+/**
+ * Run a callback against a profile's database
+ * Uses the open connection for the active profile; other profiles get a
+ * temporary connection that is closed afterwards
+ */
+export async function withProfileDatabase<T>(
+  profileId: string,
+  callback: (database: CPAPDatabase) => Promise<T>
+): Promise<T> {
+  const name = getProfileDatabaseName(profileId);
+  if (db.name === name) {
+    return await callback(db);
+  }
+
+  const database = new CPAPDatabase(name);
+  try {
+    return await callback(database);
+  } finally {
+    database.close();
+  }
+}
+
+// ============================================================================
+// Profile CRUD Operations
+// ============================================================================
+
+/**
+ * Register the default profile the first time profiles are read
+ */
+async function ensureDefaultProfile(): Promise<void> {
+  const existing = await registry.profiles.get(DEFAULT_PROFILE_ID);
+  if (!existing) {
+    await registry.profiles.put({
+      id: DEFAULT_PROFILE_ID,
+      name: DEFAULT_PROFILE_NAME,
+      created_at: new Date(0),
+    });
+  }
+}
+
+export const profileOperations = {
+  /**
+   * Get all profiles, default profile first
+   */
+  async getAll(): Promise<Profile[]> {
+    await ensureDefaultProfile();
+    return await registry.profiles.orderBy('created_at').toArray();
+  },
+
+  /**
+   * Get a profile by ID
+   */
+  async getById(id: string): Promise<Profile | undefined> {
+    await ensureDefaultProfile();
+    return await registry.profiles.get(id);
+  },
+
+  /**
+   * Create a new profile with an empty database
+   *
+   * @param name - Display name
+   * @param id - Reuse an existing ID (used when importing another device's profiles)
+   */
+  async create(name: string, id: string = crypto.randomUUID()): Promise<string> {
+    await ensureDefaultProfile();
+    await registry.profiles.add({
+      id,
+      name,
+      created_at: new Date(),
+    });
+    return id;
+  },
+
+  /**
+   * Rename a profile
+   */
+  async rename(id: string, name: string): Promise<void> {
+    await registry.profiles.update(id, { name });
+  },
+
+  /**
+   * Delete a profile and its entire database
+   * The default profile and the active profile cannot be deleted
+   */
+  async delete(id: string): Promise<void> {
+    if (id === DEFAULT_PROFILE_ID) {
+      throw new Error('The default profile cannot be deleted');
+    }
+    if (id === getActiveProfileId()) {
+      throw new Error('Switch to another profile before deleting this one');
+    }
+
+    await Dexie.delete(getProfileDatabaseName(id));
+    await registry.profiles.delete(id);
+  },
+};
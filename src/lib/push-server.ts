@@ -0,0 +1,276 @@
+/**
+ * Push Server Sync
+ *
+ * An optional, self-hosted push server (see server/) can send reminders as
+ * Web Push messages, which arrive on time even where the browser can't check
+ * in the background. The app uploads only when each upcoming reminder is due
+ * and the action's label; a push just wakes the service worker, which builds
+ * the notification from the data on the device as usual.
+ *
+ * The schedule is uploaded again whenever it changes, so the server never
+ * holds reminders for actions that were done, snoozed or skipped.
+ * Runs in both the page and the service worker.
+ */
+
+import Dexie, { Table } from 'dexie';
+import { addDays } from 'date-fns';
+import { getUpcomingDigests, getUpcomingReminders } from './notification-scheduler';
+import { getActiveServiceWorkerRegistration, getServiceWorkerRegistration } from './notifications';
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+export interface PushServerConnection {
+  id: string;
+  server_url: string;
+  api_token: string; // The server's shared secret, sent with every request
+  endpoint: string; // The push subscription the server knows this device by
+  connected_at: Date;
+  last_synced_at?: Date;
+  last_sync_count?: number; // Reminders uploaded in the last sync
+  last_sync_error?: string;
+}
+
+/**
+ * A reminder as uploaded: nothing but a time and the action's label
+ */
+export interface PushReminder {
+  at: string; // ISO timestamp
+  label: string;
+}
+
+// How far ahead reminders are uploaded
+const SYNC_AHEAD_DAYS = 30;
+
+// The most reminders the server accepts in one upload
+const MAX_PUSH_REMINDERS = 500;
+
+// Label uploaded for a digest, which lists everything due that day
+const DIGEST_LABEL = 'Daily digest';
+
+// Changes that come in together are uploaded once
+const SYNC_DEBOUNCE_MS = 2000;
+
+const CONNECTION_ID = 'push-server';
+
+/**
+ * The connection is kept per device, where the service worker can read it
+ */
+class PushServerDatabase extends Dexie {
+  connections!: Table<PushServerConnection, string>;
+
+  constructor() {
+    super('CPAPPushServerDB');
+    this.version(1).stores({
+      connections: 'id',
+    });
+  }
+}
+
+const pushServerState = new PushServerDatabase();
+
+// ============================================================================
+// Connection
+// ============================================================================
+
+/**
+ * Check whether this browser can receive Web Push
+ */
+export function isPushSupported(): boolean {
+  return typeof navigator !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    typeof PushManager !== 'undefined';
+}
+
+/**
+ * Get the push server this device is connected to, if any
+ */
+export async function getPushServerConnection(): Promise<PushServerConnection | null> {
+  try {
+    return (await pushServerState.connections.get(CONNECTION_ID)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turn a typed-in server address into the base URL requests go to
+ */
+export function normalizeServerUrl(serverUrl: string): string {
+  const url = new URL(serverUrl.trim());
+  if (url.protocol !== 'https:' && url.hostname !== 'localhost' && url.hostname !== '127.0.0.1') {
+    throw new Error('The push server must use https');
+  }
+  return url.href.replace(/\/+$/, '');
+}
+
+/**
+ * Decode a base64url VAPID key into the bytes PushManager expects
+ */
+function decodeVapidKey(key: string): Uint8Array<ArrayBuffer> {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+async function requestServer(
+  serverUrl: string,
+  apiToken: string,
+  path: string,
+  init?: RequestInit
+): Promise<Response> {
+  const headers: Record<string, string> = { Authorization: `Bearer ${apiToken}` };
+  if (init?.body) {
+    headers['Content-Type'] = 'application/json';
+  }
+  const response = await fetch(`${serverUrl}${path}`, { ...init, headers });
+  if (response.status === 401) {
+    throw new Error('The push server rejected the access token. Disconnect and connect again with the right one.');
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Push server responded with ${response.status}`);
+  }
+  return response;
+}
+
+/**
+ * Subscribe to push from a server and upload the current schedule
+ * Notifications must already be allowed.
+ *
+ * @returns The saved connection
+ */
+export async function connectPushServer(serverUrl: string, apiToken: string): Promise<PushServerConnection> {
+  const baseUrl = normalizeServerUrl(serverUrl);
+  const token = apiToken.trim();
+  if (!token) {
+    throw new Error("Enter the push server's access token");
+  }
+  const registration = await getServiceWorkerRegistration();
+  if (!registration) {
+    throw new Error('Push needs the app to be installed or served over https');
+  }
+
+  const response = await requestServer(baseUrl, token, '/api/push/vapid-public-key');
+  const { publicKey } = await response.json();
+  const applicationServerKey = decodeVapidKey(publicKey);
+
+  // A subscription made with another server's key can't be reused
+  const existing = await registration.pushManager.getSubscription();
+  if (existing) {
+    await existing.unsubscribe();
+  }
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey,
+  });
+
+  const connection: PushServerConnection = {
+    id: CONNECTION_ID,
+    server_url: baseUrl,
+    api_token: token,
+    endpoint: subscription.endpoint,
+    connected_at: new Date(),
+  };
+  await pushServerState.connections.put(connection);
+  await syncPushSchedule(registration);
+
+  return (await getPushServerConnection()) ?? connection;
+}
+
+/**
+ * Stop receiving push and ask the server to forget this device
+ */
+export async function disconnectPushServer(): Promise<void> {
+  const connection = await getPushServerConnection();
+  if (!connection) return;
+
+  try {
+    await requestServer(connection.server_url, connection.api_token, '/api/push/subscription', {
+      method: 'DELETE',
+      body: JSON.stringify({ endpoint: connection.endpoint }),
+    });
+  } catch (error) {
+    // The server may be gone for good; forget it here regardless
+    console.error('Error removing push subscription from server:', error);
+  }
+
+  const registration = await getActiveServiceWorkerRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  await subscription?.unsubscribe();
+  await pushServerState.connections.delete(CONNECTION_ID);
+}
+
+// ============================================================================
+// Schedule Upload
+// ============================================================================
+
+/**
+ * Get the reminders to upload: every reminder time over the coming weeks,
+ * plus the next digest of each profile in digest mode
+ */
+export async function getPushReminders(now: Date = new Date()): Promise<PushReminder[]> {
+  const until = addDays(now, SYNC_AHEAD_DAYS);
+  const [reminders, digests] = await Promise.all([getUpcomingReminders(until, true), getUpcomingDigests(until)]);
+  return [
+    ...reminders.map(({ item, at }) => ({ at, label: item.action.action_type })),
+    ...digests.map(({ at }) => ({ at, label: DIGEST_LABEL })),
+  ]
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .slice(0, MAX_PUSH_REMINDERS)
+    .map(({ at, label }) => ({ at: at.toISOString(), label }));
+}
+
+/**
+ * Upload the current schedule to the connected push server
+ * Does nothing when no server is connected.
+ *
+ * @returns The number of reminders uploaded
+ */
+export async function syncPushSchedule(registration?: ServiceWorkerRegistration | null): Promise<number> {
+  const connection = await getPushServerConnection();
+  if (!connection) return 0;
+
+  try {
+    const activeRegistration = registration ?? (await getActiveServiceWorkerRegistration());
+    const subscription = await activeRegistration?.pushManager.getSubscription();
+    if (!subscription) {
+      throw new Error('This device is no longer subscribed to push. Connect again.');
+    }
+
+    const reminders = await getPushReminders();
+    await requestServer(connection.server_url, connection.api_token, '/api/push/schedule', {
+      method: 'PUT',
+      body: JSON.stringify({ subscription: subscription.toJSON(), reminders }),
+    });
+
+    await pushServerState.connections.update(CONNECTION_ID, {
+      endpoint: subscription.endpoint,
+      last_synced_at: new Date(),
+      last_sync_count: reminders.length,
+      last_sync_error: undefined,
+    });
+    return reminders.length;
+  } catch (error) {
+    console.error('Error uploading reminders to push server:', error);
+    await pushServerState.connections.update(CONNECTION_ID, {
+      last_sync_error: error instanceof Error ? error.message : String(error),
+    });
+    return 0;
+  }
+}
+
+let pendingSync: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Upload the schedule shortly, once a burst of changes has settled
+ */
+export function schedulePushSync(): void {
+  if (pendingSync) {
+    clearTimeout(pendingSync);
+  }
+  pendingSync = setTimeout(() => {
+    pendingSync = null;
+    syncPushSchedule();
+  }, SYNC_DEBOUNCE_MS);
+}
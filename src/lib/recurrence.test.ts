@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { startOfDay } from 'date-fns';
+import { db } from './db';
+import { dbOperations } from './db-operations';
+import { completeMaintenanceAction, initializeMaintenanceAction } from './scheduler';
+import {
+  describeRecurrence,
+  formatRecurrence,
+  getFirstOccurrence,
+  getNextOccurrence,
+  getOccurrencesBetween,
+  parseRecurrence,
+} from './recurrence';
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+describe('parseRecurrence', () => {
+  it('should round-trip RRULE values and describe them', () => {
+    const weekly = parseRecurrence('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO');
+    expect(weekly).toEqual({ freq: 'WEEKLY', interval: 2, byDay: ['MO', 'TH'] });
+    expect(formatRecurrence(weekly)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+    expect(describeRecurrence(weekly)).toBe('Every 2 weeks on Monday and Thursday');
+
+    const monthly = parseRecurrence('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1');
+    expect(describeRecurrence(monthly)).toBe('Every 3 months on the last day');
+
+    expect(() => parseRecurrence('FREQ=DAILY')).toThrow('Unsupported recurrence frequency');
+    expect(() => parseRecurrence('FREQ=MONTHLY;BYDAY=1SU')).toThrow();
+  });
+});
+
+describe('occurrences', () => {
+  it('should follow weekdays and days of the month without drifting', () => {
+    // June 1, 2025 is a Sunday
+    const sundays = parseRecurrence('FREQ=WEEKLY;BYDAY=SU');
+    expect(getNextOccurrence(sundays, new Date(2025, 5, 1, 9, 0))).toEqual(new Date(2025, 5, 8, 9, 0));
+
+    const lastDay = parseRecurrence('FREQ=MONTHLY;BYMONTHDAY=-1');
+    expect(getNextOccurrence(lastDay, new Date(2025, 0, 31))).toEqual(new Date(2025, 1, 28));
+    expect(getNextOccurrence(lastDay, new Date(2025, 1, 28))).toEqual(new Date(2025, 2, 31));
+
+    // The 31st skips months that don't have one, like RRULE
+    const thirtyFirst = parseRecurrence('FREQ=MONTHLY;BYMONTHDAY=31');
+    expect(getNextOccurrence(thirtyFirst, new Date(2025, 0, 31))).toEqual(new Date(2025, 2, 31));
+
+    const quarterly = parseRecurrence('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1');
+    expect(
+      getOccurrencesBetween(quarterly, new Date(2025, 6, 1), new Date(2025, 0, 1), new Date(2025, 11, 31))
+    ).toEqual([new Date(2025, 0, 1), new Date(2025, 3, 1), new Date(2025, 6, 1), new Date(2025, 9, 1)]);
+  });
+
+  it('should start a rule without a day on the given date', () => {
+    // June 4, 2025 is a Wednesday
+    const from = new Date(2025, 5, 4, 9, 0);
+    expect(getFirstOccurrence(parseRecurrence('FREQ=WEEKLY;INTERVAL=2'), from)).toEqual(from);
+    expect(getFirstOccurrence(parseRecurrence('FREQ=MONTHLY'), from)).toEqual(from);
+
+    // Rules with a day still wait for it, or match on it
+    expect(getFirstOccurrence(parseRecurrence('FREQ=WEEKLY;BYDAY=SU'), from)).toEqual(new Date(2025, 5, 8, 9, 0));
+    expect(getFirstOccurrence(parseRecurrence('FREQ=WEEKLY;BYDAY=WE'), from)).toEqual(from);
+    expect(getFirstOccurrence(parseRecurrence('FREQ=MONTHLY;BYMONTHDAY=1'), from)).toEqual(new Date(2025, 6, 1, 9, 0));
+  });
+
+  it('should schedule a recurring action on its pattern', async () => {
+    const componentId = await dbOperations.components.create({
+      name: 'Filter',
+      category: 'filter',
+      tracking_mode: 'calendar',
+      usage_count: 0,
+      is_active: true,
+    });
+    const action = {
+      component_id: componentId,
+      action_type: 'Replace',
+      description: 'Replace filter',
+      schedule_frequency: 30,
+      schedule_unit: 'days' as const,
+      recurrence: 'FREQ=MONTHLY;BYMONTHDAY=1',
+      notification_time: '09:00',
+      reminder_strategy: 'standard' as const,
+    };
+
+    // A new action starts on the first matching day
+    const newId = await dbOperations.maintenanceActions.create(action);
+    const { next_due: firstDue } = await initializeMaintenanceAction(newId);
+    expect(firstDue!.getDate()).toBe(1);
+    expect(firstDue!.getTime()).toBeGreaterThanOrEqual(startOfDay(new Date()).getTime());
+
+    // Completing late still lands on the 1st of the next month
+    const today = new Date();
+    const dueId = await dbOperations.maintenanceActions.create({
+      ...action,
+      next_due: new Date(today.getFullYear(), today.getMonth(), 1, 9, 0),
+    });
+    const { nextDueDate } = await completeMaintenanceAction(dueId, today);
+    expect(nextDueDate).toEqual(new Date(today.getFullYear(), today.getMonth() + 1, 1, 9, 0));
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Recurrence Rules
+ *
+ * Calendar-aware schedules such as "every Sunday" or "on the 1st of every
+ * 3 months", stored as a subset of the iCalendar RRULE value
+ * (e.g. "FREQ=WEEKLY;BYDAY=SU" or "FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1").
+ * The action's current due date plays the part of DTSTART: intervals are
+ * counted from it, so completing late never shifts the pattern.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  getDaysInMonth,
+  isAfter,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  subMonths,
+  subWeeks,
+} from 'date-fns';
+import type { MaintenanceAction } from './db';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecurrenceFrequency = 'WEEKLY' | 'MONTHLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number; // Every N weeks or months
+  byDay?: Weekday[]; // Weekly: the days of the week, Monday first
+  byMonthDay?: number; // Monthly: 1-31, or -1 for the last day of the month
+}
+
+// RRULE weeks start on Monday (WKST=MO)
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+// Safety limit when searching for the next occurrence of a rule
+const MAX_PERIODS = 1000;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse an RRULE value (with or without the "RRULE:" prefix)
+ *
+ * @throws If the rule uses parts or frequencies this app can't schedule
+ */
+export function parseRecurrence(value: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, partValue] = part.split('=');
+    if (!key || partValue === undefined) {
+      throw new Error(`Invalid recurrence part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), partValue.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new Error(`Unsupported recurrence frequency "${freq ?? ''}"`);
+  }
+
+  const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error(`Invalid recurrence interval "${parts.get('INTERVAL')}"`);
+  }
+
+  for (const key of parts.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'WKST'].includes(key)) {
+      throw new Error(`Unsupported recurrence part "${key}"`);
+    }
+  }
+
+  if (freq === 'WEEKLY') {
+    const byDay = parts.get('BYDAY')?.split(',');
+    if (byDay?.some((day) => !WEEKDAYS.includes(day as Weekday))) {
+      throw new Error(`Invalid recurrence weekdays "${parts.get('BYDAY')}"`);
+    }
+    return {
+      freq,
+      interval,
+      ...(byDay && { byDay: WEEKDAYS.filter((day) => byDay.includes(day)) }),
+    };
+  }
+
+  if (parts.has('BYDAY')) {
+    throw new Error('Monthly recurrences by weekday are not supported');
+  }
+  const byMonthDay = parts.has('BYMONTHDAY') ? Number(parts.get('BYMONTHDAY')) : undefined;
+  if (byMonthDay !== undefined && !(Number.isInteger(byMonthDay) && (byMonthDay === -1 || (byMonthDay >= 1 && byMonthDay <= 31)))) {
+    throw new Error(`Invalid recurrence day of month "${parts.get('BYMONTHDAY')}"`);
+  }
+  return { freq, interval, ...(byMonthDay !== undefined && { byMonthDay }) };
+}
+
+/**
+ * Check whether a stored recurrence can be scheduled
+ */
+export function isValidRecurrence(value: string): boolean {
+  try {
+    parseRecurrence(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format a rule as an RRULE value (without the "RRULE:" prefix)
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  return parts.join(';');
+}
+
+function ordinal(day: number): string {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `${day}${suffix}`;
+}
+
+/**
+ * Describe a rule in words, e.g. "Every 2 weeks on Monday and Thursday"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  if (rule.freq === 'WEEKLY') {
+    const every = rule.interval === 1 ? 'Every week' : `Every ${rule.interval} weeks`;
+    if (!rule.byDay?.length) return every;
+    const names = rule.byDay.map((day) => WEEKDAY_NAMES[day]);
+    const days = names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+    return rule.interval === 1 ? `Every ${days}` : `${every} on ${days}`;
+  }
+
+  const every = rule.interval === 1 ? 'Every month' : `Every ${rule.interval} months`;
+  if (rule.byMonthDay === undefined) return every;
+  return `${every} on the ${rule.byMonthDay === -1 ? 'last day' : ordinal(rule.byMonthDay)}`;
+}
+
+/**
+ * Approximate days between occurrences, for places that need a single number
+ */
+export function getApproximateInterval(rule: RecurrenceRule): number {
+  if (rule.freq === 'WEEKLY') {
+    return Math.max(1, Math.round((7 * rule.interval) / (rule.byDay?.length || 1)));
+  }
+  return 30 * rule.interval;
+}
+
+// ============================================================================
+// Occurrences
+// ============================================================================
+
+function withTimeOf(date: Date, time: Date): Date {
+  const result = new Date(date);
+  result.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+  return result;
+}
+
+/**
+ * Get the next occurrence of a rule on a later day than `after`
+ *
+ * Intervals count from the week or month `after` falls in, so pass the
+ * previous occurrence to stay on the pattern. The time of day is kept.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: Date): Date {
+  const afterDay = startOfDay(after);
+
+  if (rule.freq === 'WEEKLY') {
+    const weekStart = startOfWeek(afterDay, { weekStartsOn: 1 });
+    const days = rule.byDay?.length ? rule.byDay : [WEEKDAYS[(afterDay.getDay() + 6) % 7]];
+    for (let period = 0; period < MAX_PERIODS; period += rule.interval) {
+      const week = addWeeks(weekStart, period);
+      for (const day of days) {
+        const candidate = addDays(week, WEEKDAYS.indexOf(day));
+        if (isAfter(candidate, afterDay)) return withTimeOf(candidate, after);
+      }
+    }
+  } else {
+    const monthDay = rule.byMonthDay ?? afterDay.getDate();
+    const monthStart = startOfMonth(afterDay);
+    for (let period = 0; period < MAX_PERIODS; period += rule.interval) {
+      const month = addMonths(monthStart, period);
+      const daysInMonth = getDaysInMonth(month);
+      const day = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1;
+      // Like RRULE, months without the day are skipped rather than clamped
+      if (day > daysInMonth) continue;
+      const candidate = new Date(month.getFullYear(), month.getMonth(), day);
+      if (isAfter(candidate, afterDay)) return withTimeOf(candidate, after);
+    }
+  }
+
+  throw new Error('Recurrence has no further occurrences');
+}
+
+/**
+ * Get the first occurrence of a rule on or after a date
+ *
+ * Rules without BYDAY or BYMONTHDAY start on `from` itself, as RRULE does with DTSTART.
+ */
+export function getFirstOccurrence(rule: RecurrenceRule, from: Date): Date {
+  if (rule.freq === 'WEEKLY' && !rule.byDay?.length) return new Date(from);
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay === undefined) return new Date(from);
+  return getNextOccurrence(rule, addDays(from, -1));
+}
+
+/**
+ * Get every occurrence of a rule within a date range
+ *
+ * @param anchor - A known occurrence; the pattern is extended back and forward from it
+ */
+export function getOccurrencesBetween(rule: RecurrenceRule, anchor: Date, start: Date, end: Date): Date[] {
+  // Pin the day to the anchor's, as RRULE does with DTSTART, so stepping back can't move it
+  if (rule.freq === 'WEEKLY' && !rule.byDay?.length) {
+    rule = { ...rule, byDay: [WEEKDAYS[(anchor.getDay() + 6) % 7]] };
+  } else if (rule.freq === 'MONTHLY' && rule.byMonthDay === undefined) {
+    rule = { ...rule, byMonthDay: anchor.getDate() };
+  }
+
+  // Step back whole periods so the interval count lines up with the anchor
+  let checkDate = anchor;
+  while (checkDate.getTime() >= start.getTime()) {
+    checkDate = rule.freq === 'WEEKLY' ? subWeeks(checkDate, rule.interval) : subMonths(checkDate, rule.interval);
+  }
+
+  const occurrences: Date[] = [];
+  for (;;) {
+    checkDate = getNextOccurrence(rule, checkDate);
+    if (checkDate.getTime() > end.getTime()) break;
+    if (checkDate.getTime() >= start.getTime()) occurrences.push(checkDate);
+  }
+  return occurrences;
+}
+
+/**
+ * Get the dates a day-based action was due within a range
+ *
+ * Recurring actions follow their rule; others step by their frequency from
+ * their day limit (hybrid actions keep it even when uses brought next_due forward).
+ */
+export function getScheduledDates(
+  action: Pick<MaintenanceAction, 'schedule_unit' | 'schedule_frequency' | 'recurrence' | 'next_due' | 'calendar_due'>,
+  start: Date,
+  end: Date
+): Date[] {
+  if (action.schedule_unit !== 'days') return [];
+  const anchor = action.calendar_due || action.next_due || new Date();
+
+  if (action.recurrence && isValidRecurrence(action.recurrence)) {
+    return getOccurrencesBetween(parseRecurrence(action.recurrence), anchor, start, end);
+  }
+
+  const frequency = action.schedule_frequency;
+  if (frequency <= 0) return [];
+  const dayMs = 24 * 60 * 60 * 1000;
+
+  let checkDate = anchor;
+  while (checkDate.getTime() > start.getTime()) {
+    checkDate = new Date(checkDate.getTime() - frequency * dayMs);
+  }
+  const dates: Date[] = [];
+  while (checkDate.getTime() <= end.getTime()) {
+    if (checkDate.getTime() >= start.getTime()) dates.push(checkDate);
+    checkDate = new Date(checkDate.getTime() + frequency * dayMs);
+  }
+  return dates;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { Component, MaintenanceAction, Supplier } from './db';
+import { getReorderList, formatReorderCSV, buildReorderMailto } from './reorder';
+
+const now = new Date(2025, 5, 1, 9, 0);
+
+const supplier: Supplier = {
+  id: 'sup-1',
+  name: 'Acme Medical',
+  email: 'orders@acme.example',
+  account_number: 'A-42',
+  created_at: new Date(2025, 0, 1),
+};
+
+function component(overrides: Partial<Component>): Component {
+  return {
+    id: crypto.randomUUID(),
+    name: 'AirFit F20 Cushion',
+    category: 'mask_cushion',
+    tracking_mode: 'calendar',
+    usage_count: 0,
+    is_active: true,
+    created_at: new Date(2025, 0, 1),
+    ...overrides,
+  };
+}
+
+function replaceAction(componentId: string, nextDue: Date): MaintenanceAction {
+  return {
+    id: crypto.randomUUID(),
+    component_id: componentId,
+    action_type: 'Replace',
+    description: 'Replace the part',
+    schedule_frequency: 30,
+    schedule_unit: 'days',
+    reminder_strategy: 'standard',
+    next_due: nextDue,
+  };
+}
+
+describe('getReorderList', () => {
+  it('should combine identical parts from one supplier within the window', () => {
+    const home = component({ part_number: '63451', size: 'M', supplier_id: 'sup-1' });
+    const travel = component({ name: 'Travel cushion', part_number: '63451', size: 'M', supplier_id: 'sup-1' });
+    const tubing = component({ name: 'Tubing', category: 'tubing' });
+    const actions = [
+      replaceAction(home.id!, new Date(2025, 5, 20)),
+      replaceAction(travel.id!, new Date(2025, 5, 10)),
+      replaceAction(tubing.id!, new Date(2025, 7, 1)), // Beyond 30 days
+      { ...replaceAction(tubing.id!, new Date(2025, 5, 2)), action_type: 'Clean' },
+    ];
+
+    const lines = getReorderList([home, travel, tubing], actions, [supplier], 30, now);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].quantity).toBe(2);
+    expect(lines[0].supplier?.name).toBe('Acme Medical');
+    expect(lines[0].dueDate).toEqual(new Date(2025, 5, 10));
+  });
+
+  it('should leave out archived and inactive components', () => {
+    const archived = component({ archived_at: new Date(2025, 4, 1) });
+    const inactive = component({ is_active: false });
+    const actions = [
+      replaceAction(archived.id!, new Date(2025, 4, 20)),
+      replaceAction(inactive.id!, new Date(2025, 5, 5)),
+    ];
+
+    expect(getReorderList([archived, inactive], actions, [], 30, now)).toEqual([]);
+  });
+});
+
+describe('reorder exports', () => {
+  it('should write CSV rows and a prefilled email', () => {
+    const part = component({ part_number: '63451', size: 'M', supplier_id: 'sup-1' });
+    const lines = getReorderList(
+      [part],
+      [replaceAction(part.id!, new Date(2025, 5, 10))],
+      [supplier],
+      30,
+      now
+    );
+
+    const csv = formatReorderCSV(lines).split('\n');
+    expect(csv).toHaveLength(2);
+    expect(csv[1]).toBe('Acme Medical,AirFit F20 Cushion,63451,M,Mask Cushion/Pillows,1,2025-06-10,,orders@acme.example,A-42');
+
+    const mailto = buildReorderMailto(supplier, lines);
+    expect(mailto.startsWith('mailto:orders@acme.example?subject=')).toBe(true);
+    const body = decodeURIComponent(mailto.split('&body=')[1]);
+    expect(body).toContain('- 1 x AirFit F20 Cushion (part 63451, size M)');
+    expect(body).toContain('Account number: A-42');
+  });
+});
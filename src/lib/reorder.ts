@@ -0,0 +1,206 @@
+/**
+ * Reorder List
+ *
+ * Collects the parts whose "Replace" actions come due within the next N days
+ * into one list, grouped by the supplier each component is reordered from.
+ * Components sharing a supplier, part number and size are combined into one
+ * line with a quantity. The list can be shared as plain text, CSV, or a
+ * prefilled email to the supplier.
+ */
+
+import { addDays, endOfDay, format } from 'date-fns';
+import type { Component, MaintenanceAction, Supplier } from './db';
+import { isComponentArchived } from './db-operations';
+import { isReplacementAction } from './scheduler';
+import { getCategoryDisplayName } from './component-templates';
+import { formatShortDate } from './date-helpers';
+import { escapeCSV } from './export-import';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ReorderLine {
+  key: string;
+  name: string;
+  category: Component['category'];
+  part_number?: string;
+  size?: string;
+  supplier?: Supplier;
+  quantity: number;
+  dueDate: Date; // Earliest replacement due among the combined components
+  components: Component[];
+}
+
+export interface ReorderGroup {
+  supplier?: Supplier; // Undefined for parts without a supplier
+  lines: ReorderLine[];
+}
+
+/**
+ * Look-ahead windows offered in the UI (days)
+ */
+export const REORDER_WINDOWS = [7, 14, 30, 60, 90];
+
+// ============================================================================
+// Building the List
+// ============================================================================
+
+/**
+ * Get the parts to reorder for replacements due within the next `days` days
+ * Overdue replacements are included. Lines are sorted by due date.
+ */
+export function getReorderList(
+  components: Component[],
+  actions: MaintenanceAction[],
+  suppliers: Supplier[],
+  days: number,
+  now: Date = new Date()
+): ReorderLine[] {
+  const horizon = endOfDay(addDays(now, days));
+  const supplierMap = new Map(suppliers.map((s) => [s.id, s]));
+  const lines = new Map<string, ReorderLine>();
+
+  for (const component of components) {
+    if (!component.is_active || isComponentArchived(component)) continue;
+
+    // A component with several replace actions is ordered once, for the earliest
+    const dueDates = actions
+      .filter((a) => a.component_id === component.id && isReplacementAction(a) && a.next_due)
+      .map((a) => a.next_due!)
+      .filter((due) => due <= horizon);
+    if (dueDates.length === 0) continue;
+    const dueDate = new Date(Math.min(...dueDates.map((d) => d.getTime())));
+
+    const supplier = component.supplier_id ? supplierMap.get(component.supplier_id) : undefined;
+    const key = [
+      supplier?.id ?? '',
+      component.part_number?.trim().toLowerCase() || component.name.trim().toLowerCase(),
+      component.size?.trim().toLowerCase() ?? '',
+    ].join('|');
+
+    const existing = lines.get(key);
+    if (existing) {
+      existing.quantity++;
+      existing.components.push(component);
+      if (dueDate < existing.dueDate) existing.dueDate = dueDate;
+    } else {
+      lines.set(key, {
+        key,
+        name: component.name,
+        category: component.category,
+        part_number: component.part_number,
+        size: component.size,
+        supplier,
+        quantity: 1,
+        dueDate,
+        components: [component],
+      });
+    }
+  }
+
+  return Array.from(lines.values()).sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
+
+/**
+ * Group reorder lines by supplier, suppliers by name with unassigned parts last
+ */
+export function groupReorderLines(lines: ReorderLine[]): ReorderGroup[] {
+  const groups = new Map<string, ReorderGroup>();
+  for (const line of lines) {
+    const key = line.supplier?.id ?? '';
+    if (!groups.has(key)) {
+      groups.set(key, { supplier: line.supplier, lines: [] });
+    }
+    groups.get(key)!.lines.push(line);
+  }
+
+  return Array.from(groups.values()).sort((a, b) => {
+    if (!a.supplier) return 1;
+    if (!b.supplier) return -1;
+    return a.supplier.name.localeCompare(b.supplier.name);
+  });
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Describe a line for an order, e.g. "2 x AirFit F20 Cushion (part 63451, size M)"
+ */
+export function describeReorderLine(line: ReorderLine): string {
+  const details = [
+    line.part_number && `part ${line.part_number}`,
+    line.size && `size ${line.size}`,
+  ].filter(Boolean);
+  return `${line.quantity} x ${line.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+/**
+ * Format the reorder list as plain text, one block per supplier
+ */
+export function formatReorderText(lines: ReorderLine[], days: number): string {
+  const blocks = groupReorderLines(lines).map((group) => {
+    const supplier = group.supplier;
+    const heading = supplier
+      ? [
+          supplier.name,
+          supplier.phone && `Phone: ${supplier.phone}`,
+          supplier.email && `Email: ${supplier.email}`,
+          supplier.website && `Website: ${supplier.website}`,
+          supplier.account_number && `Account: ${supplier.account_number}`,
+        ].filter(Boolean)
+      : ['No supplier set'];
+    const items = group.lines.map(
+      (line) => `- ${describeReorderLine(line)} - due ${formatShortDate(line.dueDate)}`
+    );
+    return [...heading, ...items].join('\n');
+  });
+
+  return [`CPAP reorder list - replacements due in the next ${days} days`, ...blocks].join('\n\n');
+}
+
+/**
+ * Format the reorder list as CSV
+ */
+export function formatReorderCSV(lines: ReorderLine[]): string {
+  const header = ['Supplier', 'Item', 'Part Number', 'Size', 'Category', 'Quantity', 'Due Date', 'Supplier Phone', 'Supplier Email', 'Account Number'];
+
+  const rows = groupReorderLines(lines).flatMap((group) =>
+    group.lines.map((line) => [
+      escapeCSV(group.supplier?.name || ''),
+      escapeCSV(line.name),
+      escapeCSV(line.part_number || ''),
+      escapeCSV(line.size || ''),
+      escapeCSV(getCategoryDisplayName(line.category)),
+      line.quantity,
+      format(line.dueDate, 'yyyy-MM-dd'),
+      escapeCSV(group.supplier?.phone || ''),
+      escapeCSV(group.supplier?.email || ''),
+      escapeCSV(group.supplier?.account_number || ''),
+    ])
+  );
+
+  return [header.join(','), ...rows.map((row) => row.join(','))].join('\n');
+}
+
+/**
+ * Build a mailto: link with an order for one supplier's lines
+ * Without a supplier email the link opens a blank draft with the body filled in
+ */
+export function buildReorderMailto(supplier: Supplier | undefined, lines: ReorderLine[]): string {
+  const body = [
+    'Hello,',
+    '',
+    "I'd like to reorder the following CPAP supplies:",
+    '',
+    ...lines.map((line) => `- ${describeReorderLine(line)}`),
+    ...(supplier?.account_number ? ['', `Account number: ${supplier.account_number}`] : []),
+    '',
+    'Thank you',
+  ].join('\n');
+
+  const params = `subject=${encodeURIComponent('CPAP supply reorder')}&body=${encodeURIComponent(body)}`;
+  return `mailto:${supplier?.email ?? ''}?${params}`;
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from './db';
+import { dbOperations } from './db-operations';
+import { readResMedCard, toDeviceNights } from './resmed';
+import { importDeviceNights } from './usage-journal';
+import { buildEDF, type FixtureSignal } from '@/test/edf-fixtures';
+
+const UNUSED = Array(10).fill(-1);
+
+function maskTimes(...minutes: number[]): number[] {
+  return [...minutes, ...UNUSED].slice(0, 10);
+}
+
+function minutesSignal(label: string, records: number[][]): FixtureSignal {
+  return { label, unit: 'min', physicalMin: -1, physicalMax: 1440, digitalMin: -1, digitalMax: 1440, records };
+}
+
+function leakSignal(label: string, records: number[][]): FixtureSignal {
+  return { label, unit: 'L/s', physicalMin: -1, physicalMax: 2, digitalMin: -100, digitalMax: 200, records };
+}
+
+// Three days from noon on June 1: two sessions, an unused night, one session
+const STR = buildEDF({
+  start: new Date(2025, 5, 1, 12, 0, 0),
+  recordDuration: 86400,
+  signals: [
+    minutesSignal('MaskOn', [maskTimes(600, 870), maskTimes(), maskTimes(630)]),
+    minutesSignal('MaskOff', [maskTimes(840, 1110), maskTimes(), maskTimes(1050)]),
+    minutesSignal('Duration', [[480], [0], [420]]),
+    leakSignal('Leak.50', [[0.1], [-1], [0.05]]),
+    leakSignal('Leak.95', [[0.4], [-1], [0.2]]),
+  ],
+});
+
+// A two-hour session that started after midnight, so it belongs to the night of June 4
+const PLD = buildEDF({
+  start: new Date(2025, 5, 5, 1, 15, 0),
+  recordDuration: 60,
+  signals: [leakSignal('Leak.2s', Array.from({ length: 120 }, (_, minute) => Array(30).fill(minute < 60 ? 0.1 : 0.3)))],
+});
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+describe('readResMedCard', () => {
+  it('should read nightly usage, mask sessions and leak from STR.edf', () => {
+    const nights = readResMedCard([{ path: 'SDCARD/STR.edf', data: STR }]);
+
+    expect(nights.map((n) => [n.date, n.hours])).toEqual([
+      ['2025-06-01', 8],
+      ['2025-06-02', 0],
+      ['2025-06-03', 7],
+    ]);
+    expect(nights[0].sessions).toEqual([
+      { start: new Date(2025, 5, 1, 22, 0), end: new Date(2025, 5, 2, 2, 0) },
+      { start: new Date(2025, 5, 2, 2, 30), end: new Date(2025, 5, 2, 6, 30) },
+    ]);
+    expect(nights[0].leak50).toBe(6);
+    expect(nights[0].leak95).toBe(24);
+    expect(nights[1].leak50).toBeUndefined();
+  });
+
+  it('should fill in nights from DATALOG sessions and ignore other files', () => {
+    const nights = readResMedCard([
+      { path: 'STR.edf', data: STR },
+      { path: 'DATALOG/20250605/20250605_011500_PLD.edf', data: PLD },
+      { path: 'Identification.tgt', data: new ArrayBuffer(8) },
+    ]);
+
+    const fromSessions = nights.find((n) => n.date === '2025-06-04');
+    expect(fromSessions?.hours).toBe(2);
+    expect(fromSessions?.sessions).toHaveLength(1);
+    expect(fromSessions?.leak50).toBe(6);
+    expect(fromSessions?.leak95).toBe(18);
+    expect(() => readResMedCard([{ path: 'notes.txt', data: new ArrayBuffer(8) }])).toThrow();
+  });
+});
+
+describe('importDeviceNights', () => {
+  it('should log machine nights once and advance usage-tracked parts', async () => {
+    const componentId = await dbOperations.components.create({
+      name: 'Filter',
+      category: 'filter',
+      tracking_mode: 'usage',
+      usage_count: 0,
+      is_active: true,
+    });
+    // In use before the imported nights, so they count for it
+    await db.components.update(componentId, { created_at: new Date(2025, 0, 1) });
+    const nights = toDeviceNights(readResMedCard([{ path: 'STR.edf', data: STR }]));
+
+    expect(await importDeviceNights(nights, '2025-06-02')).toEqual({ logged: 2, used: 1 });
+    expect(await importDeviceNights(nights, '2025-06-02')).toEqual({ logged: 2, used: 1 });
+
+    expect((await dbOperations.components.getById(componentId))?.usage_count).toBe(1);
+    const entry = await dbOperations.usageJournal.getByDate('2025-06-03');
+    expect(entry).toMatchObject({ used: true, hours: 7, sessions: 1, leak_50: 3, source: 'device' });
+    expect(await dbOperations.usageJournal.getByDate('2025-06-01')).toBeUndefined();
+  });
+});
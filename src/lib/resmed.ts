@@ -0,0 +1,260 @@
+/**
+ * ResMed SD Card Reader
+ *
+ * Reads the EDF files AirSense 10/11 machines write to their SD card and
+ * turns them into nightly usage:
+ * - STR.edf holds one data record per day (noon to noon) with total mask-on
+ *   minutes, up to ten mask-on/off times and leak percentiles
+ * - DATALOG/yyyymmdd/*_PLD.edf holds one low-rate file per mask-on session;
+ *   these fill in nights STR.edf doesn't cover yet and provide leak when
+ *   STR.edf has none
+ *
+ * A machine day runs from noon to noon, which matches the usage journal's
+ * nights: a session starting at 01:00 on June 2 belongs to the night of June 1.
+ * Everything is parsed locally; nothing leaves the device.
+ */
+
+import { addMinutes, addSeconds, subHours } from 'date-fns';
+import { parseEDF, getPhysicalValues, getRecordValues, findSignal, type EDFFile } from './edf';
+import { toNightKey, type DeviceNight } from './usage-journal';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ResMedCardFile {
+  path: string; // Path on the card, e.g. "DATALOG/20250601/20250601_223015_PLD.edf"
+  data: ArrayBuffer;
+}
+
+export interface ResMedSession {
+  start: Date; // Mask on
+  end: Date; // Mask off
+}
+
+export interface ResMedNight {
+  date: string; // Night key (yyyy-MM-dd)
+  hours: number; // Mask-on hours
+  sessions: ResMedSession[];
+  leak50?: number; // Median leak (L/min)
+  leak95?: number; // 95th percentile leak (L/min)
+  leakMax?: number; // Maximum leak (L/min)
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+const STR_PATTERN = /(^|\/)STR\.edf$/i;
+const PLD_PATTERN = /(^|\/)(\d{8}_\d{6})_PLD\.edf$/i;
+
+/**
+ * Check if a file on the card is one the reader uses
+ * Only STR.edf and the low-rate PLD session files are read; the high-rate
+ * breathing files are large and not needed for usage
+ */
+export function isResMedUsageFile(path: string): boolean {
+  return STR_PATTERN.test(path) || PLD_PATTERN.test(path);
+}
+
+// ============================================================================
+// Signals
+// ============================================================================
+
+/**
+ * Find the first of several label spellings firmware versions use
+ */
+function findLabel(file: EDFFile, labels: string[]): string | undefined {
+  return labels.find((label) => findSignal(file, label) >= 0);
+}
+
+/**
+ * Convert a leak value to L/min (ResMed records leak in L/s)
+ */
+function toLitresPerMinute(file: EDFFile, label: string, value: number): number {
+  const unit = file.signals[findSignal(file, label)].physicalDimension.toLowerCase();
+  return unit === 'l/s' ? value * 60 : value;
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Get a percentile of leak samples (negative samples mark missing data)
+ */
+function percentile(values: number[], fraction: number): number | undefined {
+  const valid = values.filter((value) => value >= 0).sort((a, b) => a - b);
+  if (valid.length === 0) return undefined;
+  return valid[Math.max(0, Math.ceil(fraction * valid.length) - 1)];
+}
+
+// ============================================================================
+// STR.edf
+// ============================================================================
+
+const MASK_ON_LABELS = ['MaskOn', 'Mask On'];
+const MASK_OFF_LABELS = ['MaskOff', 'Mask Off'];
+const DURATION_LABELS = ['Duration'];
+const LEAK_50_LABELS = ['Leak.50', 'Leak Med'];
+const LEAK_95_LABELS = ['Leak.95', 'Leak 95'];
+const LEAK_MAX_LABELS = ['Leak.Max', 'Leak Max'];
+
+/**
+ * Read the daily summary records from STR.edf
+ * Each record starts at noon; mask times are minutes after that noon and
+ * negative when unused
+ */
+export function readSummaryFile(file: EDFFile): ResMedNight[] {
+  const maskOnLabel = findLabel(file, MASK_ON_LABELS);
+  const maskOffLabel = findLabel(file, MASK_OFF_LABELS);
+  const durationLabel = findLabel(file, DURATION_LABELS);
+  if (!durationLabel && !(maskOnLabel && maskOffLabel)) {
+    throw new Error('STR.edf has no usage signals');
+  }
+
+  const maskOn = maskOnLabel ? getRecordValues(file, maskOnLabel) : undefined;
+  const maskOff = maskOffLabel ? getRecordValues(file, maskOffLabel) : undefined;
+  const duration = durationLabel ? getPhysicalValues(file, durationLabel) : undefined;
+  const leaks = [LEAK_50_LABELS, LEAK_95_LABELS, LEAK_MAX_LABELS].map((labels) => {
+    const label = findLabel(file, labels);
+    const values = label ? getPhysicalValues(file, label) : undefined;
+    return (record: number) =>
+      label && values && values[record] >= 0 ? round(toLitresPerMinute(file, label, values[record])) : undefined;
+  });
+
+  const nights: ResMedNight[] = [];
+  for (let record = 0; record < file.recordCount; record++) {
+    const dayStart = addSeconds(file.startDate, record * file.recordDuration);
+
+    const sessions: ResMedSession[] = [];
+    const onTimes = maskOn?.[record] ?? [];
+    const offTimes = maskOff?.[record] ?? [];
+    onTimes.forEach((on, i) => {
+      const off = offTimes[i];
+      if (on >= 0 && off > on) {
+        sessions.push({ start: addMinutes(dayStart, on), end: addMinutes(dayStart, off) });
+      }
+    });
+
+    const minutes = duration
+      ? Math.max(0, duration[record])
+      : sessions.reduce((sum, s) => sum + (s.end.getTime() - s.start.getTime()) / 60000, 0);
+    const used = minutes > 0;
+
+    nights.push({
+      date: toNightKey(dayStart),
+      hours: round(minutes / 60, 2),
+      sessions,
+      leak50: used ? leaks[0](record) : undefined,
+      leak95: used ? leaks[1](record) : undefined,
+      leakMax: used ? leaks[2](record) : undefined,
+    });
+  }
+  return nights;
+}
+
+// ============================================================================
+// DATALOG Sessions
+// ============================================================================
+
+/**
+ * Read nights from DATALOG PLD files, one file per mask-on session
+ */
+export function readSessionFiles(files: EDFFile[]): ResMedNight[] {
+  const byNight = new Map<string, { sessions: ResMedSession[]; leak: number[] }>();
+
+  for (const file of files) {
+    const seconds = file.recordCount * file.recordDuration;
+    if (seconds <= 0) continue;
+
+    const session = { start: file.startDate, end: addSeconds(file.startDate, seconds) };
+    const key = toNightKey(subHours(session.start, 12));
+    const night = byNight.get(key) ?? { sessions: [], leak: [] };
+
+    const leakLabel = file.signals.find((signal) => signal.label.toLowerCase().startsWith('leak'))?.label;
+    const leak = leakLabel ? getPhysicalValues(file, leakLabel) : undefined;
+    if (leakLabel && leak) {
+      for (const value of leak) {
+        night.leak.push(value >= 0 ? toLitresPerMinute(file, leakLabel, value) : value);
+      }
+    }
+
+    night.sessions.push(session);
+    byNight.set(key, night);
+  }
+
+  return Array.from(byNight, ([date, { sessions, leak }]) => {
+    sessions.sort((a, b) => a.start.getTime() - b.start.getTime());
+    const seconds = sessions.reduce((sum, s) => sum + (s.end.getTime() - s.start.getTime()) / 1000, 0);
+    const leak50 = percentile(leak, 0.5);
+    const leak95 = percentile(leak, 0.95);
+    const leakMax = percentile(leak, 1);
+    return {
+      date,
+      hours: round(seconds / 3600, 2),
+      sessions,
+      leak50: leak50 !== undefined ? round(leak50) : undefined,
+      leak95: leak95 !== undefined ? round(leak95) : undefined,
+      leakMax: leakMax !== undefined ? round(leakMax) : undefined,
+    };
+  });
+}
+
+// ============================================================================
+// Card
+// ============================================================================
+
+/**
+ * Read nightly usage from the files of a ResMed SD card
+ * STR.edf is preferred; DATALOG sessions cover the nights it doesn't have
+ * and supply leak when its summary has none
+ *
+ * @param files - STR.edf and/or DATALOG PLD files (others are ignored)
+ * @returns Nights, oldest first
+ */
+export function readResMedCard(files: ResMedCardFile[]): ResMedNight[] {
+  const summaryFile = files.find((file) => STR_PATTERN.test(file.path));
+  const sessionFiles = files.filter((file) => PLD_PATTERN.test(file.path));
+  if (!summaryFile && sessionFiles.length === 0) {
+    throw new Error('No ResMed data found. Select the SD card folder that contains STR.edf and DATALOG.');
+  }
+
+  const nights = new Map<string, ResMedNight>();
+  if (summaryFile) {
+    for (const night of readSummaryFile(parseEDF(summaryFile.data))) {
+      nights.set(night.date, night);
+    }
+  }
+
+  const sessionNights = readSessionFiles(sessionFiles.map((file) => parseEDF(file.data)));
+  for (const sessionNight of sessionNights) {
+    const night = nights.get(sessionNight.date);
+    if (!night) {
+      nights.set(sessionNight.date, sessionNight);
+    } else if (night.hours > 0 && night.leak50 === undefined) {
+      nights.set(night.date, {
+        ...night,
+        leak50: sessionNight.leak50,
+        leak95: sessionNight.leak95,
+        leakMax: sessionNight.leakMax,
+      });
+    }
+  }
+
+  return Array.from(nights.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Convert card nights to the usage journal's machine-data shape
+ */
+export function toDeviceNights(nights: ResMedNight[]): DeviceNight[] {
+  return nights.map((night) => ({
+    date: night.date,
+    hours: night.hours,
+    sessions: night.sessions.length || undefined,
+    leak_50: night.leak50,
+    leak_95: night.leak95,
+  }));
+}
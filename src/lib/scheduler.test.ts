@@ -0,0 +1,621 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { db, CPAPDatabase } from './db';
+import { dbOperations } from './db-operations';
+import {
+  completeMaintenanceAction,
+  skipMaintenanceAction,
+  snoozeMaintenanceAction,
+  replaceComponent,
+  calculateStatistics,
+  getMaintenanceSummary,
+  updateComponentUsage,
+  initializeMaintenanceAction,
+  getScheduleTrigger,
+} from './scheduler';
+import { undoLastOperation, redoLastOperation, canRedo } from './operation-journal';
+import { getDueItemsForNotification } from './notification-scheduler';
+import { calculateNextDueDate, setTime } from './date-helpers';
+import { getComponentLineage } from './component-lineage';
+import { getLowStockSupplies } from './inventory';
+
+async function createCushion(): Promise<{ componentId: string; rinseId: string; replaceId: string }> {
+  const componentId = await dbOperations.components.create({
+    name: 'Mask Cushion',
+    category: 'mask_cushion',
+    tracking_mode: 'usage',
+    usage_count: 27,
+    is_active: true,
+  });
+  const rinseId = await dbOperations.maintenanceActions.create({
+    component_id: componentId,
+    action_type: 'Daily Rinse',
+    description: 'Rinse cushion',
+    schedule_frequency: 1,
+    schedule_unit: 'days',
+    notification_time: '08:00',
+    reminder_strategy: 'gentle',
+    next_due: new Date(Date.now() - 60 * 60 * 1000),
+  });
+  const replaceId = await dbOperations.maintenanceActions.create({
+    component_id: componentId,
+    action_type: 'Monthly Replacement',
+    description: 'Replace cushion',
+    schedule_frequency: 30,
+    schedule_unit: 'days',
+    notification_time: '10:00',
+    reminder_strategy: 'urgent',
+    next_due: new Date(),
+  });
+  await dbOperations.notificationConfigs.create({
+    action_id: replaceId,
+    enabled: true,
+    time: '10:00',
+    escalation_strategy: 'increasing_urgency',
+    escalation_intervals: [0, 4, 8],
+  });
+  return { componentId, rinseId, replaceId };
+}
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+describe('replaceComponent', () => {
+  it('should retire the current instance and keep its history', async () => {
+    const { componentId, replaceId } = await createCushion();
+
+    const { logId } = await replaceComponent(componentId, 'Edges worn');
+
+    const retired = await dbOperations.components.getById(componentId);
+    expect(retired?.archived_at).toBeInstanceOf(Date);
+    expect(retired?.archive_reason).toBe('Replaced');
+
+    const logs = await dbOperations.maintenanceLogs.getByComponent(componentId);
+    expect(logs).toHaveLength(1);
+    expect(logs[0].id).toBe(logId);
+    expect(logs[0].action_id).toBe(replaceId);
+    expect(logs[0].notes).toBe('Edges worn');
+  });
+
+  it('should create a linked successor with fresh usage and initialized actions', async () => {
+    const { componentId } = await createCushion();
+
+    const { successorId } = await replaceComponent(componentId);
+
+    const successor = await dbOperations.components.getById(successorId);
+    expect(successor?.replaced_from_id).toBe(componentId);
+    expect(successor?.usage_count).toBe(0);
+    expect(successor?.archived_at).toBeUndefined();
+
+    const actions = await dbOperations.maintenanceActions.getByComponent(successorId);
+    expect(actions.map((a) => a.action_type).sort()).toEqual(['Daily Rinse', 'Monthly Replacement']);
+    for (const action of actions) {
+      expect(action.last_completed).toBeUndefined();
+      expect(action.next_due!.getTime()).toBeGreaterThan(Date.now());
+    }
+
+    const replaceAction = actions.find((a) => a.action_type === 'Monthly Replacement')!;
+    const config = await dbOperations.notificationConfigs.getByAction(replaceAction.id!);
+    expect(config?.escalation_intervals).toEqual([0, 4, 8]);
+  });
+
+  it('should carry quiet-hours overrides over to the successor', async () => {
+    const { componentId, rinseId, replaceId } = await createCushion();
+    const replaceConfig = await dbOperations.notificationConfigs.getByAction(replaceId);
+    await dbOperations.notificationConfigs.update(replaceConfig!.id!, {
+      quiet_hours: { start: '23:00', end: '06:00' },
+    });
+    await dbOperations.notificationConfigs.create({
+      action_id: rinseId,
+      enabled: true,
+      time: '08:00',
+      escalation_strategy: 'single_daily',
+      escalation_intervals: [0],
+      quiet_hours: null,
+    });
+
+    const { successorId } = await replaceComponent(componentId);
+
+    const actions = await dbOperations.maintenanceActions.getByComponent(successorId);
+    const configFor = async (actionType: string) =>
+      dbOperations.notificationConfigs.getByAction(actions.find((a) => a.action_type === actionType)!.id!);
+    expect((await configFor('Monthly Replacement'))?.quiet_hours).toEqual({ start: '23:00', end: '06:00' });
+    expect((await configFor('Daily Rinse'))?.quiet_hours).toBeNull();
+  });
+
+  it('should drop the retired instance out of scheduling', async () => {
+    const { componentId, rinseId } = await createCushion();
+
+    await replaceComponent(componentId);
+
+    const schedulable = await dbOperations.maintenanceActions.getSchedulable();
+    expect(schedulable.some((a) => a.id === rinseId)).toBe(false);
+  });
+
+  it('should refuse to replace an already retired instance', async () => {
+    const { componentId } = await createCushion();
+    await replaceComponent(componentId);
+
+    await expect(replaceComponent(componentId)).rejects.toThrow('already been retired');
+  });
+
+  it('should leave everything as it was when a step fails', async () => {
+    const { componentId, replaceId } = await createCushion();
+    const supplyId = await dbOperations.supplies.create({
+      category: 'mask_cushion',
+      name: 'Spare cushion',
+      quantity: 2,
+      pack_size: 3,
+      low_stock_threshold: 1,
+    });
+    const create = vi.spyOn(dbOperations.components, 'create').mockRejectedValueOnce(new Error('Quota exceeded'));
+
+    await expect(replaceComponent(componentId)).rejects.toThrow('Quota exceeded');
+    create.mockRestore();
+
+    expect((await dbOperations.components.getById(componentId))?.archived_at).toBeUndefined();
+    expect(await dbOperations.maintenanceLogs.getByComponent(componentId)).toEqual([]);
+    expect((await dbOperations.maintenanceActions.getById(replaceId))?.last_completed).toBeUndefined();
+    expect((await dbOperations.supplies.getById(supplyId))?.quantity).toBe(2);
+  });
+
+  it('should not leave undo able to reach the retired instance', async () => {
+    const { componentId, rinseId } = await createCushion();
+    await completeMaintenanceAction(rinseId);
+
+    await replaceComponent(componentId);
+
+    expect(await undoLastOperation()).toBeNull();
+  });
+
+  it('should build a lineage from any instance in the chain', async () => {
+    const { componentId } = await createCushion();
+    const { successorId } = await replaceComponent(componentId);
+    const { successorId: thirdId } = await replaceComponent(successorId);
+
+    const components = await dbOperations.components.getAll();
+    const lineage = getComponentLineage(successorId, components);
+
+    expect(lineage.map((entry) => entry.component.id)).toEqual([componentId, successorId, thirdId]);
+    expect(lineage.map((entry) => entry.isCurrent)).toEqual([false, false, true]);
+    expect(lineage[0].component.usage_count).toBe(27);
+  });
+});
+
+describe('archiving', () => {
+  it('should keep the history but leave scheduling and notifications', async () => {
+    const { componentId, rinseId, replaceId } = await createCushion();
+    await completeMaintenanceAction(replaceId);
+    expect((await getDueItemsForNotification()).map((item) => item.action.id)).toContain(rinseId);
+
+    await dbOperations.components.archive(componentId, '  Spare  ');
+
+    const archived = await dbOperations.components.getById(componentId);
+    expect(archived?.archived_at).toBeInstanceOf(Date);
+    expect(archived?.archive_reason).toBe('Spare');
+    expect((await dbOperations.components.getArchived()).map((c) => c.id)).toEqual([componentId]);
+    expect(await dbOperations.components.getUnarchived()).toEqual([]);
+
+    expect(await dbOperations.maintenanceActions.getByComponent(componentId)).toHaveLength(2);
+    expect(await dbOperations.maintenanceLogs.getByComponent(componentId)).toHaveLength(1);
+
+    expect(await dbOperations.maintenanceActions.getSchedulable()).toEqual([]);
+    expect(await dbOperations.maintenanceActions.getDue()).toEqual([]);
+    expect(await getDueItemsForNotification()).toEqual([]);
+  });
+
+  it('should bring a restored component back into scheduling and notifications', async () => {
+    const { componentId, rinseId, replaceId } = await createCushion();
+    await dbOperations.components.archive(componentId, 'Spare');
+
+    await dbOperations.components.restore(componentId);
+
+    const restored = await dbOperations.components.getById(componentId);
+    expect(restored?.archived_at).toBeUndefined();
+    expect(restored?.archive_reason).toBeUndefined();
+    expect((await dbOperations.maintenanceActions.getSchedulable()).map((a) => a.id).sort()).toEqual(
+      [rinseId, replaceId].sort()
+    );
+    expect((await getDueItemsForNotification()).map((item) => item.action.id)).toContain(rinseId);
+  });
+
+  it('should purge a component with its actions, logs and configs but keep its purchases', async () => {
+    const { componentId, rinseId, replaceId } = await createCushion();
+    const { logId } = await completeMaintenanceAction(replaceId);
+    const purchaseId = await dbOperations.purchases.create({
+      purchased_at: new Date(),
+      item: 'Mask cushion',
+      category: 'mask_cushion',
+      component_id: componentId,
+      log_id: logId,
+      quantity: 1,
+      price: 25,
+      currency: 'USD',
+    });
+
+    await dbOperations.components.purge(componentId);
+
+    expect(await dbOperations.components.getById(componentId)).toBeUndefined();
+    expect(await dbOperations.maintenanceActions.getByComponent(componentId)).toEqual([]);
+    expect(await dbOperations.maintenanceLogs.getByComponent(componentId)).toEqual([]);
+    expect(await dbOperations.notificationConfigs.getByAction(replaceId)).toBeUndefined();
+    expect(await dbOperations.notificationConfigs.getByAction(rinseId)).toBeUndefined();
+
+    const purchase = await db.purchases.get(purchaseId);
+    expect(purchase?.item).toBe('Mask cushion');
+    expect(purchase?.component_id).toBeUndefined();
+    expect(purchase?.log_id).toBeUndefined();
+  });
+});
+
+describe('undo/redo journal', () => {
+  it('should undo a completion and remove its log', async () => {
+    const { rinseId } = await createCushion();
+    const before = await dbOperations.maintenanceActions.getById(rinseId);
+
+    await completeMaintenanceAction(rinseId, new Date(), 'Rinsed');
+    const entry = await undoLastOperation();
+
+    expect(entry?.operation).toBe('complete');
+    const restored = await dbOperations.maintenanceActions.getById(rinseId);
+    expect(restored?.next_due?.getTime()).toBe(before?.next_due?.getTime());
+    expect(restored?.last_completed).toBeUndefined();
+    expect(await dbOperations.maintenanceLogs.getByAction(rinseId)).toHaveLength(0);
+  });
+
+  it('should redo an undone completion with the same log', async () => {
+    const { rinseId } = await createCushion();
+    const { logId, nextDueDate } = await completeMaintenanceAction(rinseId);
+
+    await undoLastOperation();
+    await redoLastOperation();
+
+    const action = await dbOperations.maintenanceActions.getById(rinseId);
+    expect(action?.next_due?.getTime()).toBe(nextDueDate.getTime());
+    const logs = await dbOperations.maintenanceLogs.getByAction(rinseId);
+    expect(logs.map((log) => log.id)).toEqual([logId]);
+  });
+
+  it('should undo skips and snoozes in reverse order', async () => {
+    const { rinseId } = await createCushion();
+    const original = (await dbOperations.maintenanceActions.getById(rinseId))!.next_due!;
+
+    await skipMaintenanceAction(rinseId);
+    await snoozeMaintenanceAction(rinseId, 2);
+
+    expect((await undoLastOperation())?.operation).toBe('snooze');
+    expect((await undoLastOperation())?.operation).toBe('skip');
+    expect(await undoLastOperation()).toBeNull();
+
+    const action = await dbOperations.maintenanceActions.getById(rinseId);
+    expect(action?.next_due?.getTime()).toBe(original.getTime());
+  });
+
+  it('should clear the redo stack when a new operation is recorded', async () => {
+    const { rinseId } = await createCushion();
+
+    await skipMaintenanceAction(rinseId);
+    await undoLastOperation();
+    expect(await canRedo()).toBe(true);
+
+    await snoozeMaintenanceAction(rinseId, 1);
+    expect(await canRedo()).toBe(false);
+  });
+
+  it('should refuse to undo when the action changed outside the journal', async () => {
+    const { rinseId } = await createCushion();
+
+    await skipMaintenanceAction(rinseId);
+    await dbOperations.maintenanceActions.update(rinseId, { next_due: new Date(2030, 0, 1) });
+
+    await expect(undoLastOperation()).rejects.toThrow('can no longer be undone');
+    const action = await dbOperations.maintenanceActions.getById(rinseId);
+    expect(action?.next_due?.getTime()).toBe(new Date(2030, 0, 1).getTime());
+  });
+
+  it('should persist the journal across database connections', async () => {
+    const { rinseId } = await createCushion();
+    await completeMaintenanceAction(rinseId);
+
+    const reopened = new CPAPDatabase();
+    try {
+      const entries = await reopened.operationJournal.toArray();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].action_id).toBe(rinseId);
+    } finally {
+      reopened.close();
+    }
+  });
+});
+
+describe('snoozeMaintenanceAction', () => {
+  it('should pause reminders without moving the due date', async () => {
+    const { rinseId } = await createCushion();
+    const original = (await dbOperations.maintenanceActions.getById(rinseId))!.next_due!;
+
+    const snoozedUntil = await snoozeMaintenanceAction(rinseId, 2);
+    await snoozeMaintenanceAction(rinseId, 2);
+
+    const action = await dbOperations.maintenanceActions.getById(rinseId);
+    expect(action?.next_due?.getTime()).toBe(original.getTime());
+    expect(action?.snoozed_until?.getTime()).toBeGreaterThanOrEqual(snoozedUntil.getTime());
+    expect(action?.snooze_count).toBe(2);
+
+    const due = await dbOperations.maintenanceActions.getDue();
+    expect(due.some((a) => a.id === rinseId)).toBe(false);
+    const dueItems = await getDueItemsForNotification();
+    expect(dueItems.some((item) => item.action.id === rinseId)).toBe(false);
+  });
+
+  it('should come back due once the snooze has expired', async () => {
+    const { rinseId } = await createCushion();
+    await dbOperations.maintenanceActions.update(rinseId, {
+      snoozed_until: new Date(Date.now() - 1000),
+      snooze_count: 1,
+    });
+
+    const dueItems = await getDueItemsForNotification();
+    expect(dueItems.some((item) => item.action.id === rinseId)).toBe(true);
+  });
+
+  it('should anchor the next cycle to the original due date after a snooze', async () => {
+    const { rinseId } = await createCushion();
+    const original = (await dbOperations.maintenanceActions.getById(rinseId))!.next_due!;
+
+    await snoozeMaintenanceAction(rinseId, 8);
+    const { nextDueDate } = await completeMaintenanceAction(rinseId);
+
+    expect(nextDueDate.getTime()).toBe(setTime(calculateNextDueDate(original, 1, 'days'), '08:00').getTime());
+    const action = await dbOperations.maintenanceActions.getById(rinseId);
+    expect(action?.snoozed_until).toBeUndefined();
+    expect(action?.snooze_count).toBeUndefined();
+  });
+
+  it('should restore the previous snooze state on undo', async () => {
+    const { rinseId } = await createCushion();
+
+    await snoozeMaintenanceAction(rinseId, 1);
+    await undoLastOperation();
+
+    const action = await dbOperations.maintenanceActions.getById(rinseId);
+    expect(action?.snoozed_until).toBeUndefined();
+    expect(action?.snooze_count).toBeUndefined();
+  });
+});
+
+describe('log outcomes', () => {
+  it('should log skips and snoozes with their reason', async () => {
+    const { rinseId } = await createCushion();
+
+    await snoozeMaintenanceAction(rinseId, 1, 'At work');
+    await skipMaintenanceAction(rinseId, '  Traveling  ');
+
+    const logs = await dbOperations.maintenanceLogs.getByAction(rinseId);
+    expect(logs.map((log) => log.outcome).sort()).toEqual(['skipped', 'snoozed']);
+    expect(logs.find((log) => log.outcome === 'skipped')?.reason).toBe('Traveling');
+
+    const action = await dbOperations.maintenanceActions.getById(rinseId);
+    expect(action?.last_completed).toBeUndefined();
+  });
+
+  it('should remove the skip log on undo', async () => {
+    const { rinseId } = await createCushion();
+
+    await skipMaintenanceAction(rinseId);
+    await undoLastOperation();
+
+    expect(await dbOperations.maintenanceLogs.getByAction(rinseId)).toHaveLength(0);
+  });
+
+  it('should count skips according to the skip_compliance preference', async () => {
+    const { rinseId } = await createCushion();
+    const start = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const end = new Date(Date.now() + 60 * 1000);
+
+    await skipMaintenanceAction(rinseId);
+
+    const missed = await calculateStatistics(start, end);
+    expect(missed.totalCompleted).toBe(0);
+    expect(missed.totalSkipped).toBe(1);
+
+    await dbOperations.preferences.update({ skip_compliance: 'excused' });
+    const excused = await calculateStatistics(start, end);
+    expect(excused.totalRequired).toBe(missed.totalRequired - 1);
+  });
+});
+
+describe('equipment', () => {
+  it('should break the maintenance summary down per machine', async () => {
+    const { componentId } = await createCushion();
+    const travelId = await dbOperations.equipment.create({ name: 'Travel machine' });
+    await dbOperations.components.update(componentId, { equipment_id: travelId });
+    await createCushion();
+
+    const summary = await getMaintenanceSummary();
+
+    const travel = summary.byEquipment.find((machine) => machine.equipmentId === travelId)!;
+    const unassigned = summary.byEquipment.find((machine) => machine.equipmentId === undefined)!;
+    expect(travel.name).toBe('Travel machine');
+    expect(unassigned.name).toBe('Unassigned');
+    expect(travel.overdueCount + travel.dueTodayCount).toBe(2);
+    expect(unassigned.overdueCount + unassigned.dueTodayCount).toBe(2);
+    expect(summary.overdueCount + summary.dueTodayCount).toBe(4);
+  });
+
+  it('should keep the machine when a component is replaced', async () => {
+    const { componentId } = await createCushion();
+    const homeId = await dbOperations.equipment.create({ name: 'Home machine' });
+    await dbOperations.components.update(componentId, { equipment_id: homeId });
+
+    const { successorId } = await replaceComponent(componentId);
+
+    const successor = await dbOperations.components.getById(successorId);
+    expect(successor?.equipment_id).toBe(homeId);
+  });
+
+  it('should unassign components when their machine is deleted', async () => {
+    const { componentId } = await createCushion();
+    const homeId = await dbOperations.equipment.create({ name: 'Home machine' });
+    await dbOperations.components.update(componentId, { equipment_id: homeId });
+
+    await dbOperations.equipment.delete(homeId);
+
+    const component = await dbOperations.components.getById(componentId);
+    expect(component?.equipment_id).toBeUndefined();
+    expect(await dbOperations.equipment.getAll()).toHaveLength(0);
+  });
+});
+
+describe('supply inventory', () => {
+  async function stockCushions(quantity: number): Promise<string> {
+    return await dbOperations.supplies.create({
+      category: 'mask_cushion',
+      name: 'Spare cushion',
+      quantity,
+      pack_size: 3,
+      low_stock_threshold: 1,
+    });
+  }
+
+  it('should take a spare part when a replacement is completed', async () => {
+    const { rinseId, replaceId } = await createCushion();
+    const supplyId = await stockCushions(3);
+
+    await completeMaintenanceAction(rinseId);
+    expect((await dbOperations.supplies.getById(supplyId))?.quantity).toBe(3);
+
+    await completeMaintenanceAction(replaceId);
+    expect((await dbOperations.supplies.getById(supplyId))?.quantity).toBe(2);
+  });
+
+  it('should put the spare part back on undo and take it again on redo', async () => {
+    const { replaceId } = await createCushion();
+    const supplyId = await stockCushions(2);
+
+    await completeMaintenanceAction(replaceId);
+    await undoLastOperation();
+    expect((await dbOperations.supplies.getById(supplyId))?.quantity).toBe(2);
+
+    await redoLastOperation();
+    expect((await dbOperations.supplies.getById(supplyId))?.quantity).toBe(1);
+  });
+
+  it('should report supplies at or below their threshold', async () => {
+    const { componentId } = await createCushion();
+    const supplyId = await stockCushions(2);
+    expect(await getLowStockSupplies()).toHaveLength(0);
+
+    await replaceComponent(componentId);
+
+    const lowStock = await getLowStockSupplies();
+    expect(lowStock.map((supply) => supply.id)).toEqual([supplyId]);
+    expect(lowStock[0].quantity).toBe(1);
+  });
+});
+
+describe('usage-based schedules', () => {
+  async function createNightlyFilter(): Promise<{ componentId: string; actionId: string }> {
+    const componentId = await dbOperations.components.create({
+      name: 'Filter',
+      category: 'filter',
+      tracking_mode: 'usage',
+      usage_count: 100, // Lifetime total from earlier cycles
+      is_active: true,
+    });
+    const actionId = await dbOperations.maintenanceActions.create({
+      component_id: componentId,
+      action_type: 'Replace',
+      description: 'Replace filter',
+      schedule_frequency: 3,
+      schedule_unit: 'uses',
+      reminder_strategy: 'standard',
+      next_due: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
+    });
+    return { componentId, actionId };
+  }
+
+  it('should count uses per action and come due at the limit', async () => {
+    const { componentId, actionId } = await createNightlyFilter();
+
+    await updateComponentUsage(componentId);
+    await updateComponentUsage(componentId);
+    let action = await dbOperations.maintenanceActions.getById(actionId);
+    expect(action?.uses_since_completion).toBe(2);
+    expect(action!.next_due!.getTime()).toBeGreaterThan(Date.now());
+
+    await updateComponentUsage(componentId);
+    action = await dbOperations.maintenanceActions.getById(actionId);
+    expect(action?.uses_since_completion).toBe(3);
+    expect(action!.next_due!.getTime()).toBeLessThanOrEqual(Date.now());
+    expect((await dbOperations.components.getById(componentId))?.usage_count).toBe(103);
+  });
+
+  it('should start a fresh cycle on completion and restore the count on undo', async () => {
+    const { componentId, actionId } = await createNightlyFilter();
+    await updateComponentUsage(componentId, 3);
+
+    await completeMaintenanceAction(actionId);
+    await undoLastOperation();
+    let action = await dbOperations.maintenanceActions.getById(actionId);
+    expect(action?.uses_since_completion).toBe(3);
+
+    await completeMaintenanceAction(actionId);
+    await updateComponentUsage(componentId);
+    action = await dbOperations.maintenanceActions.getById(actionId);
+    expect(action?.uses_since_completion).toBe(1);
+    expect(action!.next_due!.getTime()).toBeGreaterThan(Date.now());
+  });
+});
+
+describe('hybrid schedules', () => {
+  async function createHybridCushion(): Promise<{ componentId: string; actionId: string }> {
+    const componentId = await dbOperations.components.create({
+      name: 'Mask Cushion',
+      category: 'mask_cushion',
+      tracking_mode: 'hybrid',
+      usage_count: 0,
+      is_active: true,
+    });
+    const actionId = await dbOperations.maintenanceActions.create({
+      component_id: componentId,
+      action_type: 'Replace',
+      description: 'Replace cushion',
+      schedule_frequency: 30,
+      schedule_unit: 'days',
+      use_limit: 5,
+      reminder_strategy: 'standard',
+    });
+    await initializeMaintenanceAction(actionId);
+    return { componentId, actionId };
+  }
+
+  it('should come due at whichever limit is reached first', async () => {
+    const { componentId, actionId } = await createHybridCushion();
+    let action = (await dbOperations.maintenanceActions.getById(actionId))!;
+    const calendarDue = action.calendar_due!;
+    expect(action.next_due).toEqual(calendarDue);
+    expect(getScheduleTrigger(action)).toBe('days');
+
+    await updateComponentUsage(componentId, 5);
+    action = (await dbOperations.maintenanceActions.getById(actionId))!;
+    expect(action.next_due!.getTime()).toBeLessThanOrEqual(Date.now());
+    expect(getScheduleTrigger(action)).toBe('uses');
+
+    // Taking a use back returns to the day limit
+    await updateComponentUsage(componentId, -1);
+    action = (await dbOperations.maintenanceActions.getById(actionId))!;
+    expect(action.next_due).toEqual(calendarDue);
+    expect(getScheduleTrigger(action)).toBe('days');
+  });
+
+  it('should restart both limits when completed', async () => {
+    const { componentId, actionId } = await createHybridCushion();
+    await updateComponentUsage(componentId, 5);
+
+    const { nextDueDate } = await completeMaintenanceAction(actionId);
+    const action = (await dbOperations.maintenanceActions.getById(actionId))!;
+    expect(action.uses_since_completion).toBe(0);
+    expect(action.calendar_due).toEqual(nextDueDate);
+    expect(Math.round((nextDueDate.getTime() - Date.now()) / (24 * 60 * 60 * 1000))).toBe(30);
+  });
+});
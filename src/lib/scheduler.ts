@@ -1,11 +1,17 @@
-import type { MaintenanceAction } from './db';
-import { dbOperations } from './db-operations';
+import { addDays, startOfDay } from 'date-fns';
+import { db } from './db';
+import type { CPAPDatabase, MaintenanceAction, MaintenanceLog, MaintenanceLogOutcome, NotificationConfig } from './db';
+import { dbOperations, getDbOperations, isActionSnoozed, isCompletionLog, isComponentArchived } from './db-operations';
+import { recordOperation } from './operation-journal';
+import { takeSupplyForComponent } from './inventory';
 import {
   calculateNextDueDate,
   calculateInitialDueDate,
   isOverdue,
   setTime,
+  getRequiredCountAfterSkips,
 } from './date-helpers';
+import { getScheduledDates } from './recurrence';
 
 // ============================================================================
 // Scheduling Logic
@@ -16,20 +22,25 @@ import {
  *
  * This function:
  * 1. Logs the completion in MaintenanceLog
- * 2. Calculates the next due date from the ORIGINAL due date (prevents drift)
- * 3. Updates the action with new last_completed and next_due
+ * 2. Calculates the next due date from the ORIGINAL due date (prevents drift);
+ *    use limits restart their counter instead
+ * 3. Updates the action with new last_completed and next_due, ending any snooze
+ * 4. For replacements, takes a spare part out of the supply inventory
  *
  * @param actionId - The ID of the maintenance action to complete
  * @param completedAt - When the action was completed (defaults to now)
  * @param notes - Optional notes about the completion
+ * @param database - Profile database to work on (defaults to the active profile)
  * @returns The log ID and updated action
  */
 export async function completeMaintenanceAction(
   actionId: string,
   completedAt: Date = new Date(),
-  notes?: string
+  notes?: string,
+  database: CPAPDatabase = db
 ): Promise<{ logId: string; nextDueDate: Date }> {
-  const action = await dbOperations.maintenanceActions.getById(actionId);
+  const operations = getDbOperations(database);
+  const action = await operations.maintenanceActions.getById(actionId);
   if (!action) {
     throw new Error(`Maintenance action ${actionId} not found`);
   }
@@ -38,119 +49,187 @@ export async function completeMaintenanceAction(
   const wasOverdue = action.next_due ? isOverdue(action.next_due) : false;
 
   // Create log entry
-  const logId = await dbOperations.maintenanceLogs.create({
+  const log = {
     component_id: action.component_id,
     action_id: actionId,
     completed_at: completedAt,
+    outcome: 'completed' as const,
     was_overdue: wasOverdue,
     notes,
-    logged_by: 'user',
-  });
-
-  // Calculate next due date from original due date (prevents drift)
-  const originalDueDate = action.next_due || completedAt;
-  const nextDueDate = calculateNextDueDate(
-    originalDueDate,
-    action.schedule_frequency,
-    action.schedule_unit
-  );
-
-  // If notification time is set, apply it to the next due date
-  if (action.notification_time) {
-    const nextDueDateWithTime = setTime(nextDueDate, action.notification_time);
-
-    // Update the action
-    await dbOperations.maintenanceActions.update(actionId, {
-      last_completed: completedAt,
-      next_due: nextDueDateWithTime,
-    });
-
-    return { logId, nextDueDate: nextDueDateWithTime };
-  }
+    logged_by: 'user' as const,
+  };
+  const logId = await operations.maintenanceLogs.create(log);
 
   // Update the action
-  await dbOperations.maintenanceActions.update(actionId, {
+  const nextCycle = scheduleNextCycle(action, completedAt);
+  const updates = {
     last_completed: completedAt,
-    next_due: nextDueDate,
-  });
+    ...nextCycle,
+    snoozed_until: undefined,
+    snooze_count: undefined,
+  };
+  await operations.maintenanceActions.update(actionId, updates);
 
-  return { logId, nextDueDate };
+  // A replacement uses up a spare part (nothing happens if none are stocked)
+  const supplyId = isReplacementAction(action)
+    ? await takeSupplyForComponent(action.component_id, database)
+    : undefined;
+
+  await recordOperation('complete', action, { ...action, ...updates }, { ...log, id: logId }, supplyId, database);
+
+  return { logId, nextDueDate: nextCycle.next_due };
 }
 
 /**
- * Skip a maintenance action (dismiss without logging completion)
+ * Skip a maintenance action (dismiss without completing it)
  * Reschedules to the next occurrence from the original due date
  * This prevents "debt accumulation" - we don't guilt-trip about missed tasks
+ * The skip is logged so compliance can tell it apart from a forgotten task
  *
  * @param actionId - The ID of the maintenance action to skip
+ * @param reason - Optional reason for skipping
+ * @param database - Profile database to work on (defaults to the active profile)
  * @returns The next due date after skipping
  */
-export async function skipMaintenanceAction(actionId: string): Promise<Date> {
-  const action = await dbOperations.maintenanceActions.getById(actionId);
+export async function skipMaintenanceAction(
+  actionId: string,
+  reason?: string,
+  database: CPAPDatabase = db
+): Promise<Date> {
+  const operations = getDbOperations(database);
+  const action = await operations.maintenanceActions.getById(actionId);
   if (!action) {
     throw new Error(`Maintenance action ${actionId} not found`);
   }
 
-  // Calculate next due date from original due date (prevents drift)
-  const originalDueDate = action.next_due || new Date();
-  const nextDueDate = calculateNextDueDate(
-    originalDueDate,
-    action.schedule_frequency,
-    action.schedule_unit
-  );
+  const log = createOutcomeLog(action, 'skipped', reason);
+  const logId = await operations.maintenanceLogs.create(log);
 
-  // Apply notification time if set
-  let finalNextDue = nextDueDate;
-  if (action.notification_time) {
-    finalNextDue = setTime(nextDueDate, action.notification_time);
-  }
-
-  // Update the action - no log entry, just reschedule
-  await dbOperations.maintenanceActions.update(actionId, {
-    next_due: finalNextDue,
-  });
+  // Update the action - last_completed is untouched, just reschedule
+  // A skipped action with a use limit starts counting uses again
+  const nextCycle = scheduleNextCycle(action, new Date());
+  const updates = {
+    ...nextCycle,
+    snoozed_until: undefined,
+    snooze_count: undefined,
+  };
+  await operations.maintenanceActions.update(actionId, updates);
+  await recordOperation('skip', action, { ...action, ...updates }, { ...log, id: logId }, undefined, database);
 
-  return finalNextDue;
+  return nextCycle.next_due;
 }
 
 /**
  * Snooze a maintenance action (delay reminder for X hours)
  *
+ * Only reminders are paused: next_due is left alone so the schedule does not
+ * drift, and the snooze expires by itself once snoozed_until has passed.
+ *
  * @param actionId - The ID of the maintenance action to snooze
  * @param hours - Number of hours to snooze (default 4)
+ * @param reason - Optional reason for snoozing
+ * @param database - Profile database to work on (defaults to the active profile)
+ * @returns When the snooze ends
  */
 export async function snoozeMaintenanceAction(
   actionId: string,
-  hours: number = 4
+  hours: number = 4,
+  reason?: string,
+  database: CPAPDatabase = db
 ): Promise<Date> {
-  const action = await dbOperations.maintenanceActions.getById(actionId);
+  const operations = getDbOperations(database);
+  const action = await operations.maintenanceActions.getById(actionId);
   if (!action) {
     throw new Error(`Maintenance action ${actionId} not found`);
   }
 
+  const log = createOutcomeLog(action, 'snoozed', reason);
+  const logId = await operations.maintenanceLogs.create(log);
+
   // Calculate snooze until time
   const snoozeUntil = new Date();
   snoozeUntil.setHours(snoozeUntil.getHours() + hours);
 
-  // Note: This updates next_due temporarily
-  // Future: Could add a separate "snoozed_until" field to preserve original next_due
-  await dbOperations.maintenanceActions.update(actionId, {
-    next_due: snoozeUntil,
-  });
+  const updates = {
+    snoozed_until: snoozeUntil,
+    snooze_count: (action.snooze_count || 0) + 1,
+  };
+  await operations.maintenanceActions.update(actionId, updates);
+  await recordOperation('snooze', action, { ...action, ...updates }, { ...log, id: logId }, undefined, database);
 
   return snoozeUntil;
 }
 
+/**
+ * Schedule the cycle after an action is completed or skipped
+ *
+ * Day limits advance from the ORIGINAL due date (prevents drift). Use limits
+ * count again from zero; usage-based actions estimate their due date assuming
+ * one use per night. A hybrid action completed before its day limit starts a
+ * fresh day limit too, since the part it tracks has been dealt with.
+ */
+function scheduleNextCycle(
+  action: MaintenanceAction,
+  at: Date
+): Pick<MaintenanceAction, 'next_due' | 'uses_since_completion' | 'calendar_due'> & { next_due: Date } {
+  const withTime = (date: Date) =>
+    action.notification_time ? setTime(date, action.notification_time) : date;
+
+  if (action.schedule_unit === 'uses') {
+    return { next_due: withTime(addDays(at, action.schedule_frequency)), uses_since_completion: 0 };
+  }
+
+  if (!isHybridSchedule(action)) {
+    // Snoozing never moves next_due, so this is the real schedule
+    const originalDueDate = action.next_due || at;
+    return {
+      next_due: withTime(
+        calculateNextDueDate(originalDueDate, action.schedule_frequency, 'days', action.recurrence)
+      ),
+    };
+  }
+
+  // next_due may have been pulled forward by the use limit, so the day limit keeps its own anchor
+  const calendarDue = action.calendar_due ?? action.next_due;
+  const anchor = calendarDue && calendarDue <= at ? calendarDue : at;
+  const nextCalendarDue = withTime(
+    calculateNextDueDate(anchor, action.schedule_frequency, 'days', action.recurrence)
+  );
+  return { next_due: nextCalendarDue, calendar_due: nextCalendarDue, uses_since_completion: 0 };
+}
+
+/**
+ * Build the log entry for a skipped or snoozed occurrence
+ */
+function createOutcomeLog(
+  action: MaintenanceAction,
+  outcome: Exclude<MaintenanceLogOutcome, 'completed'>,
+  reason?: string
+): Omit<MaintenanceLog, 'id'> {
+  return {
+    component_id: action.component_id,
+    action_id: action.id!,
+    completed_at: new Date(),
+    outcome,
+    reason: reason?.trim() || undefined,
+    was_overdue: action.next_due ? isOverdue(action.next_due) : false,
+    logged_by: 'user',
+  };
+}
+
 /**
  * Initialize a new maintenance action with its first due date
  *
  * @param action - The maintenance action to initialize
+ * @param database - Profile database to work on (defaults to the active profile)
  * @returns The initialized action with next_due set
  */
 export async function initializeMaintenanceAction(
-  actionId: string
+  actionId: string,
+  database: CPAPDatabase = db
 ): Promise<MaintenanceAction> {
-  const action = await dbOperations.maintenanceActions.getById(actionId);
+  const operations = getDbOperations(database);
+  const action = await operations.maintenanceActions.getById(actionId);
   if (!action) {
     throw new Error(`Maintenance action ${actionId} not found`);
   }
@@ -164,17 +243,20 @@ export async function initializeMaintenanceAction(
   const initialDueDate = calculateInitialDueDate(
     action.schedule_frequency,
     action.schedule_unit,
-    action.notification_time
+    action.notification_time,
+    action.recurrence
   );
 
-  // Update the action
-  await dbOperations.maintenanceActions.update(actionId, {
+  // Hybrid actions start with the day limit; uses can only bring it forward
+  const updates = {
     next_due: initialDueDate,
-  });
+    ...(isHybridSchedule(action) && { calendar_due: initialDueDate }),
+  };
+  await operations.maintenanceActions.update(actionId, updates);
 
   return {
     ...action,
-    next_due: initialDueDate,
+    ...updates,
   };
 }
 
@@ -191,44 +273,259 @@ export async function rescheduleMaintenanceAction(
 ): Promise<void> {
   await dbOperations.maintenanceActions.update(actionId, {
     next_due: newDueDate,
+    snoozed_until: undefined,
   });
 }
 
+/**
+ * Check if an action is due after a number of days or uses, whichever comes first
+ */
+export function isHybridSchedule(action: Pick<MaintenanceAction, 'schedule_unit' | 'use_limit'>): boolean {
+  return action.schedule_unit === 'days' && (action.use_limit ?? 0) > 0;
+}
+
+/**
+ * Get the number of uses after which an action is due, if it has a use limit
+ */
+export function getUseLimit(
+  action: Pick<MaintenanceAction, 'schedule_unit' | 'schedule_frequency' | 'use_limit'>
+): number | undefined {
+  if (action.schedule_unit === 'uses') return action.schedule_frequency;
+  return isHybridSchedule(action) ? action.use_limit : undefined;
+}
+
+/**
+ * Get how many uses an action has had since its last completion or skip
+ */
+export function getUsesSinceCompletion(action: Pick<MaintenanceAction, 'uses_since_completion'>): number {
+  return action.uses_since_completion ?? 0;
+}
+
+/**
+ * Get which limit sets an action's next due date
+ * Hybrid actions follow their day limit until the use limit comes first
+ */
+export function getScheduleTrigger(action: MaintenanceAction): 'days' | 'uses' {
+  if (action.schedule_unit === 'uses') return 'uses';
+  return isHybridSchedule(action) && action.calendar_due && action.next_due && action.next_due < action.calendar_due
+    ? 'uses'
+    : 'days';
+}
+
+/**
+ * Reschedule an action with a use limit after its use count changed
+ *
+ * Once the use limit is reached the action is due now, or stays due from
+ * whenever it first became due. Below the limit, usage-based actions estimate
+ * their due date assuming one use per night and hybrid actions fall back to
+ * their day limit.
+ */
+function scheduleForUses(
+  action: MaintenanceAction,
+  uses: number,
+  now: Date
+): Pick<MaintenanceAction, 'next_due' | 'uses_since_completion' | 'calendar_due'> {
+  const limit = getUseLimit(action)!;
+  const dueFromUses = action.next_due && action.next_due <= now ? action.next_due : now;
+
+  if (action.schedule_unit === 'uses') {
+    return {
+      uses_since_completion: uses,
+      next_due: uses >= limit ? dueFromUses : addDays(now, limit - uses),
+    };
+  }
+
+  const calendarDue = action.calendar_due ?? action.next_due ?? now;
+  return {
+    uses_since_completion: uses,
+    calendar_due: calendarDue,
+    next_due: uses >= limit && dueFromUses < calendarDue ? dueFromUses : calendarDue,
+  };
+}
+
 /**
  * Update usage count for a component and recalculate usage-based actions
  *
+ * The component keeps a lifetime total; each action with a use limit counts
+ * the uses since its own last completion, so completing it starts a fresh cycle.
+ * Uses from a day before an action's last completion belong to its old cycle
+ * and leave it alone.
+ *
  * @param componentId - The ID of the component
- * @param usageIncrement - How many uses to add (default 1)
+ * @param usageIncrement - How many uses to add (default 1; negative takes uses back)
+ * @param usedOn - The day the uses happened (defaults to today)
  */
 export async function updateComponentUsage(
   componentId: string,
-  usageIncrement: number = 1
+  usageIncrement: number = 1,
+  usedOn: Date = new Date()
 ): Promise<void> {
-  // Update component usage count
-  await dbOperations.components.incrementUsage(componentId, usageIncrement);
-
-  // Get component to check new usage count
   const component = await dbOperations.components.getById(componentId);
   if (!component) {
     throw new Error(`Component ${componentId} not found`);
   }
 
-  // Get all usage-based actions for this component
+  // Update the lifetime usage count
+  await dbOperations.components.incrementUsage(componentId, usageIncrement);
+
+  // Advance each use-limited action's own counter and reschedule it
+  const now = new Date();
   const actions = await dbOperations.maintenanceActions.getByComponent(componentId);
-  const usageBasedActions = actions.filter((a) => a.schedule_unit === 'uses');
-
-  // Check if any usage-based actions should be marked as due
-  for (const action of usageBasedActions) {
-    // If we've reached or exceeded the required usage
-    if (component.usage_count >= action.schedule_frequency) {
-      // Mark as due now (if not already due)
-      if (!action.next_due || action.next_due > new Date()) {
-        await dbOperations.maintenanceActions.update(action.id!, {
-          next_due: new Date(),
-        });
+  for (const action of actions.filter((a) => getUseLimit(a) !== undefined)) {
+    if (action.last_completed && startOfDay(action.last_completed) > startOfDay(usedOn)) continue;
+    const uses = Math.max(0, getUsesSinceCompletion(action) + usageIncrement);
+    await dbOperations.maintenanceActions.update(action.id!, scheduleForUses(action, uses, now));
+  }
+}
+
+// ============================================================================
+// Component Replacement
+// ============================================================================
+
+/**
+ * Check if an action represents physically replacing the component
+ */
+export function isReplacementAction(action: Pick<MaintenanceAction, 'action_type'>): boolean {
+  return action.action_type.toLowerCase().includes('replace');
+}
+
+/**
+ * Copy the schedule definition of an action for a new component,
+ * dropping the progress that belongs to the old instance
+ */
+function copyActionDefinition(
+  action: MaintenanceAction,
+  componentId: string
+): Omit<MaintenanceAction, 'id'> {
+  const definition: MaintenanceAction = { ...action, component_id: componentId };
+  delete definition.id;
+  delete definition.last_completed;
+  delete definition.next_due;
+  delete definition.snoozed_until;
+  delete definition.snooze_count;
+  delete definition.uses_since_completion;
+  delete definition.calendar_due;
+  return definition;
+}
+
+/**
+ * Replace a component with a new physical instance
+ *
+ * This function:
+ * 1. Logs the replacement on the current instance (if it has a replacement action)
+ * 2. Archives the current instance so its history is kept but it leaves scheduling
+ * 3. Creates a successor linked by replaced_from_id with a fresh usage count
+ * 4. Copies every action and notification config, then initializes them from today
+ *
+ * Runs in one transaction. A replacement isn't journaled, so it can't be
+ * undone; journal entries for the retired instance are dropped with it.
+ *
+ * @param componentId - The component being replaced
+ * @param notes - Optional notes for the replacement log
+ * @param replacementActionId - The action to log the replacement against (defaults to the first replace action)
+ * @param database - Profile database to work on (defaults to the active profile)
+ * @returns The successor component ID and the replacement log ID (if logged)
+ */
+export async function replaceComponent(
+  componentId: string,
+  notes?: string,
+  replacementActionId?: string,
+  database: CPAPDatabase = db
+): Promise<{ successorId: string; logId?: string }> {
+  const operations = getDbOperations(database);
+  const component = await operations.components.getById(componentId);
+  if (!component) {
+    throw new Error(`Component ${componentId} not found`);
+  }
+  if (component.archived_at) {
+    throw new Error(`Component ${componentId} has already been retired`);
+  }
+
+  // All or nothing: a failure part way must not leave a half-replaced part
+  const tables = [
+    database.components,
+    database.maintenanceActions,
+    database.maintenanceLogs,
+    database.notificationConfigs,
+    database.supplies,
+    database.operationJournal,
+  ];
+  return await database.transaction('rw', tables, async () => {
+    const replacedAt = new Date();
+    const [actions, notificationConfigs] = await Promise.all([
+      operations.maintenanceActions.getByComponent(componentId),
+      operations.notificationConfigs.getAll(),
+    ]);
+
+    // Record the replacement against the retiring instance
+    let logId: string | undefined;
+    const replacementAction = replacementActionId
+      ? actions.find((a) => a.id === replacementActionId)
+      : actions.find(isReplacementAction);
+    if (replacementAction?.id) {
+      logId = await operations.maintenanceLogs.create({
+        component_id: componentId,
+        action_id: replacementAction.id,
+        completed_at: replacedAt,
+        outcome: 'completed',
+        was_overdue: replacementAction.next_due ? isOverdue(replacementAction.next_due) : false,
+        notes,
+        logged_by: 'user',
+      });
+      await operations.maintenanceActions.update(replacementAction.id, {
+        last_completed: replacedAt,
+      });
+    }
+
+    // The new part comes out of the supply inventory
+    await takeSupplyForComponent(componentId, database);
+
+    // Retire the current instance (history is kept)
+    await operations.components.archive(componentId, 'Replaced', replacedAt);
+
+    // Create the successor with a fresh usage count
+    const successorId = await operations.components.create({
+      name: component.name,
+      category: component.category,
+      tracking_mode: component.tracking_mode,
+      usage_count: 0,
+      is_active: true,
+      notes: component.notes,
+      equipment_id: component.equipment_id,
+      part_number: component.part_number,
+      size: component.size,
+      supplier_id: component.supplier_id,
+      replaced_from_id: componentId,
+    });
+
+    // Carry over the maintenance schedule, starting fresh from today
+    for (const action of actions) {
+      const newActionId = await operations.maintenanceActions.create(
+        copyActionDefinition(action, successorId)
+      );
+
+      const config = notificationConfigs.find((nc) => nc.action_id === action.id);
+      if (config) {
+        // Everything carries over, including a quiet-hours override
+        const settings: NotificationConfig = { ...config, action_id: newActionId };
+        delete settings.id;
+        await operations.notificationConfigs.create(settings);
       }
+
+      await initializeMaintenanceAction(newActionId, database);
     }
-  }
+
+    // A replacement can't be undone, and undo/redo must not reach into the
+    // retired instance either
+    const actionIds = new Set(actions.map((action) => action.id));
+    const journal = await operations.operationJournal.getAll();
+    const retiredEntries = journal.filter((entry) => actionIds.has(entry.action_id));
+    if (retiredEntries.length > 0) {
+      await operations.operationJournal.bulkDelete(retiredEntries.map((entry) => entry.id!));
+    }
+
+    return { successorId, logId };
+  });
 }
 
 /**
@@ -237,12 +534,12 @@ export async function updateComponentUsage(
  * @returns Array of actions needing attention, sorted by priority
  */
 export async function getActionsNeedingAttention(): Promise<MaintenanceAction[]> {
-  const allActions = await dbOperations.maintenanceActions.getAll();
+  const allActions = await dbOperations.maintenanceActions.getSchedulable();
   const now = new Date();
 
-  // Filter for due or overdue actions
+  // Filter for due or overdue actions that aren't snoozed
   const actionsNeedingAttention = allActions.filter((action) => {
-    if (!action.next_due) return false;
+    if (!action.next_due || isActionSnoozed(action, now)) return false;
     return action.next_due <= now;
   });
 
@@ -262,36 +559,79 @@ export async function getActionsNeedingAttention(): Promise<MaintenanceAction[]>
   });
 }
 
+/**
+ * Due counts for a single machine (equipmentId is undefined for unassigned components)
+ */
+export interface EquipmentSummary {
+  equipmentId?: string;
+  name: string;
+  overdueCount: number;
+  dueTodayCount: number;
+  upcomingCount: number;
+  snoozedCount: number;
+}
+
 /**
  * Get summary statistics for the home screen
+ * byEquipment breaks the counts down per machine
  */
 export async function getMaintenanceSummary(): Promise<{
   overdueCount: number;
   dueTodayCount: number;
   upcomingCount: number;
+  snoozedCount: number;
   allCaughtUp: boolean;
   nextUpcoming?: { action: MaintenanceAction; daysUntil: number };
+  byEquipment: EquipmentSummary[];
 }> {
-  const allActions = await dbOperations.maintenanceActions.getAll();
+  const [allActions, components, equipment] = await Promise.all([
+    dbOperations.maintenanceActions.getSchedulable(),
+    dbOperations.components.getAll(),
+    dbOperations.equipment.getAll(),
+  ]);
   const now = new Date();
   const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   const endOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59);
 
+  // Per-machine counts, plus an "unassigned" bucket for components without equipment
+  const equipmentByComponent = new Map(components.map((c) => [c.id, c.equipment_id]));
+  const machineSummaries = new Map<string | undefined, EquipmentSummary>();
+  for (const machine of [...equipment, undefined]) {
+    machineSummaries.set(machine?.id, {
+      equipmentId: machine?.id,
+      name: machine?.name ?? 'Unassigned',
+      overdueCount: 0,
+      dueTodayCount: 0,
+      upcomingCount: 0,
+      snoozedCount: 0,
+    });
+  }
+
   let overdueCount = 0;
   let dueTodayCount = 0;
   let upcomingCount = 0;
+  let snoozedCount = 0;
   let nextUpcomingAction: MaintenanceAction | undefined;
   let nextUpcomingDays = Infinity;
 
   for (const action of allActions) {
     if (!action.next_due) continue;
 
-    if (isOverdue(action.next_due)) {
+    const equipmentId = equipmentByComponent.get(action.component_id);
+    const machine = machineSummaries.get(equipmentId) ?? machineSummaries.get(undefined)!;
+
+    if (isActionSnoozed(action, now)) {
+      snoozedCount++;
+      machine.snoozedCount++;
+    } else if (isOverdue(action.next_due)) {
       overdueCount++;
+      machine.overdueCount++;
     } else if (action.next_due >= startOfToday && action.next_due <= endOfToday) {
       dueTodayCount++;
+      machine.dueTodayCount++;
     } else if (action.next_due > now) {
       upcomingCount++;
+      machine.upcomingCount++;
 
       // Track closest upcoming action
       const daysUntil = Math.ceil(
@@ -306,37 +646,51 @@ export async function getMaintenanceSummary(): Promise<{
 
   const allCaughtUp = overdueCount === 0 && dueTodayCount === 0;
 
+  // Leave out the unassigned bucket when every component belongs to a machine
+  const unassigned = machineSummaries.get(undefined)!;
+  const hasUnassigned = components.some((c) => !isComponentArchived(c) && !c.equipment_id);
+  const byEquipment = [...machineSummaries.values()].filter(
+    (summary) => summary !== unassigned || hasUnassigned
+  );
+
   return {
     overdueCount,
     dueTodayCount,
     upcomingCount,
+    snoozedCount,
     allCaughtUp,
     nextUpcoming: nextUpcomingAction
       ? { action: nextUpcomingAction, daysUntil: nextUpcomingDays }
       : undefined,
+    byEquipment,
   };
 }
 
 /**
  * Calculate statistics for a date range
  * Properly calculates required tasks based on action schedules
+ * Intentional skips are counted according to the user's skip_compliance preference
  */
 export async function calculateStatistics(
   startDate: Date,
   endDate: Date
 ): Promise<{
   totalCompleted: number;
+  totalSkipped: number;
   totalRequired: number;
   compliancePercentage: number;
   overdueCompletions: number;
   onTimeCompletions: number;
   scheduledActionsPerDay: Map<string, Set<string>>;
 }> {
-  const [logs, allActions] = await Promise.all([
+  const [allLogs, allActions, preferences] = await Promise.all([
     dbOperations.maintenanceLogs.getByDateRange(startDate, endDate),
-    dbOperations.maintenanceActions.getAll(),
+    dbOperations.maintenanceActions.getSchedulable(),
+    dbOperations.preferences.get(),
   ]);
 
+  const logs = allLogs.filter(isCompletionLog);
+  const totalSkipped = allLogs.filter((log) => log.outcome === 'skipped').length;
   const totalCompleted = logs.length;
   const overdueCompletions = logs.filter((log) => log.was_overdue).length;
   const onTimeCompletions = totalCompleted - overdueCompletions;
@@ -356,39 +710,35 @@ export async function calculateStatistics(
     const frequency = action.schedule_frequency;
     if (frequency <= 0) continue;
 
+    // Recurring actions follow their calendar pattern; others step by frequency from next_due
+    const scheduledDates = getScheduledDates(action, startDate, endDate);
+
     // Calculate how many occurrences of this action should have happened in the range
     const daysInRange = Math.ceil((endTime - startTime) / dayMs) + 1;
-    const occurrences = Math.floor(daysInRange / frequency);
+    const occurrences = action.recurrence ? scheduledDates.length : Math.floor(daysInRange / frequency);
     totalRequired += occurrences;
 
     // Track which days each action was due
-    // Start from the action's next_due or created date and work backwards/forwards
-    let checkDate = action.next_due || new Date();
-    // Find the first occurrence in range by stepping back
-    while (checkDate.getTime() > startTime) {
-      checkDate = new Date(checkDate.getTime() - frequency * dayMs);
-    }
-    // Now step forward to find all occurrences in range
-    while (checkDate.getTime() <= endTime) {
-      if (checkDate.getTime() >= startTime) {
-        const dayKey = checkDate.toISOString().split('T')[0];
-        if (!scheduledActionsPerDay.has(dayKey)) {
-          scheduledActionsPerDay.set(dayKey, new Set());
-        }
-        if (action.id) {
-          scheduledActionsPerDay.get(dayKey)!.add(action.id);
-        }
+    for (const date of scheduledDates) {
+      const dayKey = date.toISOString().split('T')[0];
+      if (!scheduledActionsPerDay.has(dayKey)) {
+        scheduledActionsPerDay.set(dayKey, new Set());
+      }
+      if (action.id) {
+        scheduledActionsPerDay.get(dayKey)!.add(action.id);
       }
-      checkDate = new Date(checkDate.getTime() + frequency * dayMs);
     }
   }
 
+  totalRequired = getRequiredCountAfterSkips(totalRequired, totalSkipped, preferences.skip_compliance);
+
   // If no scheduled actions, return 100% compliance
   const compliancePercentage =
     totalRequired > 0 ? Math.round((totalCompleted / totalRequired) * 100) : 100;
 
   return {
     totalCompleted,
+    totalSkipped,
     totalRequired,
     compliancePercentage,
     overdueCompletions,
@@ -425,6 +775,7 @@ export const scheduler = {
   initializeMaintenanceAction,
   rescheduleMaintenanceAction,
   updateComponentUsage,
+  replaceComponent,
   getActionsNeedingAttention,
   getMaintenanceSummary,
   calculateStatistics,
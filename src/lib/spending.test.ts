@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { Purchase } from './db';
+import { summarizeSpend, getLastUsedCurrency, formatSpendPeriod } from './spending';
+
+function purchase(overrides: Partial<Purchase>): Purchase {
+  return {
+    id: crypto.randomUUID(),
+    purchased_at: new Date(2025, 0, 15),
+    item: 'Cushion',
+    category: 'mask_cushion',
+    quantity: 1,
+    price: 30,
+    currency: 'USD',
+    created_at: new Date(2025, 0, 15),
+    ...overrides,
+  };
+}
+
+describe('summarizeSpend', () => {
+  it('should total purchases per month and category, newest first', () => {
+    const rows = summarizeSpend(
+      [
+        purchase({ price: 30 }),
+        purchase({ price: 20, category: 'filter', purchased_at: new Date(2025, 0, 31) }),
+        purchase({ price: 45, category: 'tubing', purchased_at: new Date(2025, 1, 1) }),
+      ],
+      'month'
+    );
+
+    expect(rows.map((row) => row.period)).toEqual(['2025-02', '2025-01']);
+    expect(rows[1].byCategory).toEqual({ mask_cushion: 30, filter: 20 });
+    expect(rows[1].total).toBe(50);
+    expect(rows[0].total).toBe(45);
+  });
+
+  it('should keep currencies apart within a year', () => {
+    const rows = summarizeSpend(
+      [
+        purchase({ price: 30 }),
+        purchase({ price: 25, currency: 'EUR', purchased_at: new Date(2025, 5, 1) }),
+        purchase({ price: 10, purchased_at: new Date(2025, 11, 31) }),
+      ],
+      'year'
+    );
+
+    expect(rows).toEqual([
+      { period: '2025', currency: 'EUR', byCategory: { mask_cushion: 25 }, total: 25 },
+      { period: '2025', currency: 'USD', byCategory: { mask_cushion: 40 }, total: 40 },
+    ]);
+  });
+
+  it('should pre-fill the most recently recorded currency', () => {
+    expect(getLastUsedCurrency([])).toBe('USD');
+    expect(
+      getLastUsedCurrency([
+        purchase({ currency: 'EUR', created_at: new Date(2025, 2, 1) }),
+        purchase({ currency: 'GBP', created_at: new Date(2025, 1, 1) }),
+      ])
+    ).toBe('EUR');
+    expect(formatSpendPeriod('2025')).toBe('2025');
+    expect(formatSpendPeriod('2025-03')).toBe('Mar 2025');
+  });
+});
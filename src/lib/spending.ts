@@ -0,0 +1,95 @@
+/**
+ * Spend Reports
+ *
+ * Totals purchase records per month or year, broken down by component
+ * category. Amounts in different currencies are never added together; each
+ * currency gets its own row for the same period.
+ */
+
+import { format } from 'date-fns';
+import type { Component, Purchase } from './db';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SpendPeriod = 'month' | 'year';
+
+export interface SpendRow {
+  period: string; // "2025-03" for months, "2025" for years
+  currency: string;
+  byCategory: Partial<Record<Component['category'], number>>;
+  total: number;
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Get the report bucket a purchase date falls into (local time)
+ */
+export function getSpendPeriodKey(date: Date, period: SpendPeriod): string {
+  return format(date, period === 'month' ? 'yyyy-MM' : 'yyyy');
+}
+
+/**
+ * Total purchases per period and currency, newest period first
+ */
+export function summarizeSpend(purchases: Purchase[], period: SpendPeriod): SpendRow[] {
+  const rows = new Map<string, SpendRow>();
+
+  for (const purchase of purchases) {
+    const periodKey = getSpendPeriodKey(purchase.purchased_at, period);
+    const key = `${periodKey}|${purchase.currency}`;
+
+    let row = rows.get(key);
+    if (!row) {
+      row = { period: periodKey, currency: purchase.currency, byCategory: {}, total: 0 };
+      rows.set(key, row);
+    }
+
+    row.byCategory[purchase.category] = (row.byCategory[purchase.category] ?? 0) + purchase.price;
+    row.total += purchase.price;
+  }
+
+  return Array.from(rows.values()).sort((a, b) =>
+    a.period === b.period ? a.currency.localeCompare(b.currency) : b.period.localeCompare(a.period)
+  );
+}
+
+/**
+ * Get the currency used most recently, for pre-filling new purchases
+ */
+export function getLastUsedCurrency(purchases: Purchase[]): string {
+  if (purchases.length === 0) return DEFAULT_CURRENCY;
+  const latest = purchases.reduce((a, b) => (b.created_at > a.created_at ? b : a));
+  return latest.currency;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Format an amount in its currency, e.g. "$42.50"
+ * Falls back to "42.50 XYZ" for codes the browser doesn't know
+ */
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Label a report period, e.g. "Mar 2025" or "2025"
+ */
+export function formatSpendPeriod(periodKey: string): string {
+  if (periodKey.length === 4) return periodKey;
+  const [year, month] = periodKey.split('-').map(Number);
+  return format(new Date(year, month - 1, 1), 'MMM yyyy');
+}
@@ -1,19 +1,42 @@
 import { create } from 'zustand';
 import { useMemo } from 'react';
 import { shallow } from 'zustand/shallow';
-import type { Component, MaintenanceAction, MaintenanceLog, NotificationConfig } from './db';
-import { dbOperations } from './db-operations';
+import type { Equipment, SupplyItem, Purchase, AllowanceRule, Supplier, UsageEntry, Component, MaintenanceAction, MaintenanceLog, NotificationConfig, UserPreferences } from './db';
+import {
+  dbOperations,
+  isComponentArchived,
+  isActionSnoozed,
+  isCompletionLog,
+  DEFAULT_USER_PREFERENCES,
+} from './db-operations';
+import { getRequiredCountAfterSkips } from './date-helpers';
+import { getScheduledDates } from './recurrence';
+import { profileOperations, getActiveProfileId, activateProfile, type Profile } from './profiles';
+import { isLowStock } from './inventory';
+import { getEligibilityStatuses } from './eligibility';
+import { backfillAssumedNights } from './usage-journal';
 
 // ============================================================================
 // App State Interface
 // ============================================================================
 
 interface AppState {
+  // Profiles (every other field holds the active profile's data)
+  profiles: Profile[];
+  activeProfileId: string;
+
   // Data
+  equipment: Equipment[];
+  supplies: SupplyItem[];
+  purchases: Purchase[];
+  allowanceRules: AllowanceRule[];
+  suppliers: Supplier[];
+  usageJournal: UsageEntry[];
   components: Component[];
   maintenanceActions: MaintenanceAction[];
   maintenanceLogs: MaintenanceLog[];
   notificationConfigs: NotificationConfig[];
+  preferences: UserPreferences;
 
   // Loading states
   isLoading: boolean;
@@ -21,22 +44,40 @@ interface AppState {
 
   // Actions
   loadData: () => Promise<void>;
+  switchProfile: (profileId: string) => Promise<void>;
+  refreshProfiles: () => Promise<void>;
+  refreshEquipment: () => Promise<void>;
+  refreshSupplies: () => Promise<void>;
+  refreshPurchases: () => Promise<void>;
+  refreshAllowanceRules: () => Promise<void>;
+  refreshSuppliers: () => Promise<void>;
+  refreshUsageJournal: () => Promise<void>;
   refreshComponents: () => Promise<void>;
   refreshMaintenanceActions: () => Promise<void>;
   refreshMaintenanceLogs: () => Promise<void>;
   refreshNotificationConfigs: () => Promise<void>;
+  refreshPreferences: () => Promise<void>;
 }
 
 // ============================================================================
 // Zustand Store
 // ============================================================================
 
-export const useAppStore = create<AppState>((set) => ({
+export const useAppStore = create<AppState>((set, get) => ({
   // Initial state
+  profiles: [],
+  activeProfileId: getActiveProfileId(),
+  equipment: [],
+  supplies: [],
+  purchases: [],
+  allowanceRules: [],
+  suppliers: [],
+  usageJournal: [],
   components: [],
   maintenanceActions: [],
   maintenanceLogs: [],
   notificationConfigs: [],
+  preferences: DEFAULT_USER_PREFERENCES,
   isLoading: false,
   isInitialized: false,
 
@@ -44,18 +85,38 @@ export const useAppStore = create<AppState>((set) => ({
   loadData: async () => {
     set({ isLoading: true });
     try {
-      const [components, actions, logs, configs] = await Promise.all([
+      // Nights assumed used must be in before usage counts are read
+      await backfillAssumedNights();
+
+      const [profiles, equipment, supplies, purchases, allowanceRules, suppliers, usageJournal, components, actions, logs, configs, preferences] = await Promise.all([
+        profileOperations.getAll(),
+        dbOperations.equipment.getAll(),
+        dbOperations.supplies.getAll(),
+        dbOperations.purchases.getAll(),
+        dbOperations.allowanceRules.getAll(),
+        dbOperations.suppliers.getAll(),
+        dbOperations.usageJournal.getAll(),
         dbOperations.components.getAll(),
         dbOperations.maintenanceActions.getAll(),
         dbOperations.maintenanceLogs.getAll(),
         dbOperations.notificationConfigs.getAll(),
+        dbOperations.preferences.get(),
       ]);
 
       set({
+        profiles,
+        activeProfileId: getActiveProfileId(),
+        equipment,
+        supplies,
+        purchases,
+        allowanceRules,
+        suppliers,
+        usageJournal,
         components,
         maintenanceActions: actions,
         maintenanceLogs: logs,
         notificationConfigs: configs,
+        preferences,
         isLoading: false,
         isInitialized: true,
       });
@@ -65,6 +126,55 @@ export const useAppStore = create<AppState>((set) => ({
     }
   },
 
+  // Switch to another profile and reload everything from its database
+  switchProfile: async (profileId: string) => {
+    await activateProfile(profileId);
+    set({ activeProfileId: profileId });
+    await get().loadData();
+  },
+
+  // Refresh the profile list
+  refreshProfiles: async () => {
+    const profiles = await profileOperations.getAll();
+    set({ profiles });
+  },
+
+  // Refresh equipment from database
+  refreshEquipment: async () => {
+    const equipment = await dbOperations.equipment.getAll();
+    set({ equipment });
+  },
+
+  // Refresh supply inventory from database
+  refreshSupplies: async () => {
+    const supplies = await dbOperations.supplies.getAll();
+    set({ supplies });
+  },
+
+  // Refresh purchase records from database
+  refreshPurchases: async () => {
+    const purchases = await dbOperations.purchases.getAll();
+    set({ purchases });
+  },
+
+  // Refresh insurance allowance rules from database
+  refreshAllowanceRules: async () => {
+    const allowanceRules = await dbOperations.allowanceRules.getAll();
+    set({ allowanceRules });
+  },
+
+  // Refresh supplier directory from database
+  refreshSuppliers: async () => {
+    const suppliers = await dbOperations.suppliers.getAll();
+    set({ suppliers });
+  },
+
+  // Refresh nightly usage journal from database
+  refreshUsageJournal: async () => {
+    const usageJournal = await dbOperations.usageJournal.getAll();
+    set({ usageJournal });
+  },
+
   // Refresh components from database
   refreshComponents: async () => {
     const components = await dbOperations.components.getAll();
@@ -88,37 +198,108 @@ export const useAppStore = create<AppState>((set) => ({
     const notificationConfigs = await dbOperations.notificationConfigs.getAll();
     set({ notificationConfigs });
   },
+
+  // Refresh user preferences from database
+  refreshPreferences: async () => {
+    const preferences = await dbOperations.preferences.get();
+    set({ preferences });
+  },
 }));
 
 // ============================================================================
 // Computed Selectors (Derived State)
 // ============================================================================
 
+/**
+ * Get maintenance actions that belong to non-archived components
+ * Archived components keep their history but drop out of scheduling
+ */
+export const useSchedulableActions = () => {
+  const { actions, components } = useAppStore(
+    (state) => ({
+      actions: state.maintenanceActions,
+      components: state.components,
+    }),
+    shallow
+  );
+
+  return useMemo(() => filterSchedulableActions(actions, components), [actions, components]);
+};
+
+/**
+ * Remove actions whose component has been archived
+ */
+function filterSchedulableActions(
+  actions: MaintenanceAction[],
+  components: Component[]
+): MaintenanceAction[] {
+  const archivedIds = new Set(components.filter(isComponentArchived).map((c) => c.id));
+  if (archivedIds.size === 0) return actions;
+  return actions.filter((action) => !archivedIds.has(action.component_id));
+}
+
 /**
  * Get active components
  */
 export const useActiveComponents = () => {
   const components = useAppStore((state) => state.components);
-  return components.filter((c) => c.is_active);
+  return components.filter((c) => c.is_active && !isComponentArchived(c));
+};
+
+/**
+ * Get archived components
+ */
+export const useArchivedComponents = () => {
+  const components = useAppStore((state) => state.components);
+  return components.filter(isComponentArchived);
+};
+
+/**
+ * Get spare parts at or below their low-stock threshold
+ */
+export const useLowStockSupplies = () => {
+  const supplies = useAppStore((state) => state.supplies);
+  return useMemo(() => supplies.filter(isLowStock), [supplies]);
+};
+
+/**
+ * Get insurance eligibility for every category with an allowance rule
+ */
+export const useEligibilityStatuses = () => {
+  const { allowanceRules, components, maintenanceActions, maintenanceLogs } = useAppStore(
+    (state) => ({
+      allowanceRules: state.allowanceRules,
+      components: state.components,
+      maintenanceActions: state.maintenanceActions,
+      maintenanceLogs: state.maintenanceLogs,
+    }),
+    shallow
+  );
+  return useMemo(
+    () => getEligibilityStatuses(allowanceRules, components, maintenanceActions, maintenanceLogs),
+    [allowanceRules, components, maintenanceActions, maintenanceLogs]
+  );
 };
 
 /**
- * Get due maintenance actions
+ * Get due maintenance actions (snoozed actions are excluded until the snooze ends)
  */
 export const useDueActions = () => {
-  const actions = useAppStore((state) => state.maintenanceActions);
+  const actions = useSchedulableActions();
   const now = new Date();
-  return actions.filter((action) => action.next_due && action.next_due <= now);
+  return actions.filter(
+    (action) => action.next_due && action.next_due <= now && !isActionSnoozed(action, now)
+  );
 };
 
 /**
  * Get overdue maintenance actions
  */
 export const useOverdueActions = () => {
-  const actions = useAppStore((state) => state.maintenanceActions);
+  const actions = useSchedulableActions();
   const now = new Date();
   return actions.filter((action) => {
-    if (!action.next_due) return false;
+    if (!action.next_due || isActionSnoozed(action, now)) return false;
     const daysDiff = Math.floor(
       (now.getTime() - action.next_due.getTime()) / (1000 * 60 * 60 * 24)
     );
@@ -130,22 +311,33 @@ export const useOverdueActions = () => {
  * Get due today maintenance actions
  */
 export const useDueTodayActions = () => {
-  const actions = useAppStore((state) => state.maintenanceActions);
+  const actions = useSchedulableActions();
   const now = new Date();
   const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59);
 
   return actions.filter((action) => {
-    if (!action.next_due) return false;
+    if (!action.next_due || isActionSnoozed(action, now)) return false;
     return action.next_due >= startOfDay && action.next_due <= endOfDay;
   });
 };
 
+/**
+ * Get actions whose reminders are currently snoozed, soonest to wake first
+ */
+export const useSnoozedActions = () => {
+  const actions = useSchedulableActions();
+  const now = new Date();
+  return actions
+    .filter((action) => isActionSnoozed(action, now))
+    .sort((a, b) => a.snoozed_until!.getTime() - b.snoozed_until!.getTime());
+};
+
 /**
  * Get upcoming maintenance actions (next N days)
  */
 export const useUpcomingActions = (days: number = 7) => {
-  const actions = useAppStore((state) => state.maintenanceActions);
+  const actions = useSchedulableActions();
   const now = new Date();
   const futureDate = new Date(now);
   futureDate.setDate(futureDate.getDate() + days);
@@ -207,47 +399,45 @@ export const useActionNotificationConfig = (actionId: string) => {
  */
 export const useCurrentStreak = () => {
   // Use shallow comparison to prevent re-renders when data hasn't changed
-  const { logs, actions } = useAppStore(
+  const { allLogs, allActions, components, skipCompliance } = useAppStore(
     (state) => ({
-      logs: state.maintenanceLogs,
-      actions: state.maintenanceActions,
+      allLogs: state.maintenanceLogs,
+      allActions: state.maintenanceActions,
+      components: state.components,
+      skipCompliance: state.preferences.skip_compliance,
     }),
     shallow
   );
 
   // Memoize the expensive streak calculation
   return useMemo(() => {
+    // Archived components no longer have required tasks, but their logs still count
+    const actions = filterSchedulableActions(allActions, components);
+
     // Build scheduled actions per day map for the last 365 days
     const now = new Date();
     const oneYearAgo = new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
     const scheduledActionsPerDay = new Map<string, Set<string>>();
 
     for (const action of actions) {
-      if (action.schedule_unit !== 'days' || action.schedule_frequency <= 0) continue;
-
-      const frequency = action.schedule_frequency;
-      const dayMs = 24 * 60 * 60 * 1000;
-
-      // Find occurrences in range
-      let checkDate = action.next_due || new Date();
-      while (checkDate.getTime() > oneYearAgo.getTime()) {
-        checkDate = new Date(checkDate.getTime() - frequency * dayMs);
-      }
-      while (checkDate.getTime() <= now.getTime()) {
-        if (checkDate.getTime() >= oneYearAgo.getTime()) {
-          const dayKey = checkDate.toISOString().split('T')[0];
-          if (!scheduledActionsPerDay.has(dayKey)) {
-            scheduledActionsPerDay.set(dayKey, new Set());
-          }
-          if (action.id) {
-            scheduledActionsPerDay.get(dayKey)!.add(action.id);
-          }
+      // Recurring actions follow their calendar pattern; hybrid actions follow
+      // their day limit even when uses brought next_due forward
+      for (const date of getScheduledDates(action, oneYearAgo, now)) {
+        const dayKey = date.toISOString().split('T')[0];
+        if (!scheduledActionsPerDay.has(dayKey)) {
+          scheduledActionsPerDay.set(dayKey, new Set());
+        }
+        if (action.id) {
+          scheduledActionsPerDay.get(dayKey)!.add(action.id);
         }
-        checkDate = new Date(checkDate.getTime() + frequency * dayMs);
       }
     }
 
     // Calculate streak using the new logic
+    // Excused skips keep the streak going; snoozes never satisfy a day
+    const logs = allLogs.filter(
+      (log) => isCompletionLog(log) || (skipCompliance === 'excused' && log.outcome === 'skipped')
+    );
     const logsForStreak = logs.map(log => ({
       completed_at: log.completed_at,
       action_id: log.action_id,
@@ -301,7 +491,7 @@ export const useCurrentStreak = () => {
     }
 
     return streak;
-  }, [logs, actions]);
+  }, [allLogs, allActions, components, skipCompliance]);
 };
 
 /**
@@ -313,10 +503,12 @@ export const useCurrentStreak = () => {
  */
 export const useCompliancePercentage = (days: number = 30) => {
   // Use shallow comparison to prevent re-renders when data hasn't changed
-  const { logs, actions } = useAppStore(
+  const { logs, allActions, components, skipCompliance } = useAppStore(
     (state) => ({
       logs: state.maintenanceLogs,
-      actions: state.maintenanceActions,
+      allActions: state.maintenanceActions,
+      components: state.components,
+      skipCompliance: state.preferences.skip_compliance,
     }),
     shallow
   );
@@ -331,19 +523,24 @@ export const useCompliancePercentage = (days: number = 30) => {
       (log) => log.completed_at >= startDate && log.completed_at <= now
     );
 
-    // Calculate required tasks in range
+    // Calculate required tasks in range (archived components have none)
+    const actions = filterSchedulableActions(allActions, components);
     let totalRequired = 0;
 
     for (const action of actions) {
       if (action.schedule_unit !== 'days' || action.schedule_frequency <= 0) continue;
-      const frequency = action.schedule_frequency;
-      const occurrences = Math.floor(days / frequency);
+      // A weekday or day-of-month pattern is counted on the calendar, not by dividing days
+      const occurrences = action.recurrence
+        ? getScheduledDates(action, startDate, now).length
+        : Math.floor(days / action.schedule_frequency);
       totalRequired += Math.max(1, occurrences);
     }
 
-    const totalCompleted = logsInRange.length;
+    const totalCompleted = logsInRange.filter(isCompletionLog).length;
+    const totalSkipped = logsInRange.filter((log) => log.outcome === 'skipped').length;
+    totalRequired = getRequiredCountAfterSkips(totalRequired, totalSkipped, skipCompliance);
 
     if (totalRequired === 0) return 100;
     return Math.min(100, Math.round((totalCompleted / totalRequired) * 100));
-  }, [logs, actions, days]);
+  }, [logs, allActions, components, days, skipCompliance]);
 };
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from './db';
+import { dbOperations } from './db-operations';
+import { logNight, backfillAssumedNights, setAssumeNightlyUse } from './usage-journal';
+
+// Parts are in use from the start of 2025 unless a test says otherwise
+async function createComponent(
+  tracking_mode: 'calendar' | 'usage' | 'hybrid',
+  createdAt: Date = new Date(2025, 0, 1)
+): Promise<string> {
+  const id = await dbOperations.components.create({
+    name: `${tracking_mode} part`,
+    category: 'filter',
+    tracking_mode,
+    usage_count: 0,
+    is_active: true,
+  });
+  await db.components.update(id, { created_at: createdAt });
+  return id;
+}
+
+async function getUsage(componentId: string): Promise<number> {
+  return (await dbOperations.components.getById(componentId))!.usage_count;
+}
+
+beforeEach(async () => {
+  await Promise.all(db.tables.map((table) => table.clear()));
+});
+
+describe('usage journal', () => {
+  it('should advance every active usage-tracked component once per used night', async () => {
+    const usageId = await createComponent('usage');
+    const hybridId = await createComponent('hybrid');
+    const calendarId = await createComponent('calendar');
+
+    await logNight('2025-06-01', true, 7.5);
+    await logNight('2025-06-01', true, 8); // Re-logging the same night doesn't count twice
+    await logNight('2025-06-02', false);
+
+    expect(await getUsage(usageId)).toBe(1);
+    expect(await getUsage(hybridId)).toBe(1);
+    expect(await getUsage(calendarId)).toBe(0);
+    expect((await dbOperations.usageJournal.getByDate('2025-06-01'))?.hours).toBe(8);
+  });
+
+  it('should only count a past night for parts in use by then', async () => {
+    const oldId = await createComponent('usage', new Date(2025, 5, 1, 12, 0));
+    // Fitted on the evening of June 3, so that night counts
+    const newId = await createComponent('usage', new Date(2025, 5, 3, 21, 0));
+
+    await logNight('2025-06-02', true);
+    await logNight('2025-06-03', true);
+    expect(await getUsage(oldId)).toBe(2);
+    expect(await getUsage(newId)).toBe(1);
+
+    // Correcting the earlier night only takes back the use it gave
+    await logNight('2025-06-02', false);
+    expect(await getUsage(oldId)).toBe(1);
+    expect(await getUsage(newId)).toBe(1);
+  });
+
+  it('should leave a night before an action was completed out of its new cycle', async () => {
+    const usageId = await createComponent('usage');
+    const actionId = await dbOperations.maintenanceActions.create({
+      component_id: usageId,
+      action_type: 'Replace',
+      description: 'Replace the filter',
+      schedule_frequency: 7,
+      schedule_unit: 'uses',
+      reminder_strategy: 'standard',
+      last_completed: new Date(2025, 5, 10, 9, 0),
+      uses_since_completion: 0,
+      next_due: new Date(2025, 5, 17, 9, 0),
+    });
+
+    await logNight('2025-06-03', true);
+    await logNight('2025-06-10', true);
+    expect(await getUsage(usageId)).toBe(2);
+    expect((await dbOperations.maintenanceActions.getById(actionId))?.uses_since_completion).toBe(1);
+
+    // Un-marking the old night doesn't take a use off the new cycle either
+    await logNight('2025-06-03', false);
+    expect(await getUsage(usageId)).toBe(1);
+    expect((await dbOperations.maintenanceActions.getById(actionId))?.uses_since_completion).toBe(1);
+  });
+
+  it('should take the use back when a night is corrected to not used', async () => {
+    const usageId = await createComponent('usage');
+
+    await logNight('2025-06-01', true);
+    await logNight('2025-06-01', false);
+
+    expect(await getUsage(usageId)).toBe(0);
+    expect(await dbOperations.usageJournal.getAll()).toHaveLength(1);
+  });
+
+  it('should backfill unlogged nights as used while assume mode is on', async () => {
+    const usageId = await createComponent('usage');
+    await setAssumeNightlyUse(true, new Date(2025, 5, 1, 21, 0));
+    await logNight('2025-06-02', false);
+
+    const now = new Date(2025, 5, 5, 8, 0);
+    expect(await backfillAssumedNights(now)).toBe(3); // June 1, 3 and 4
+    expect(await backfillAssumedNights(now)).toBe(0);
+
+    expect(await getUsage(usageId)).toBe(3);
+    const assumed = (await dbOperations.usageJournal.getAll()).filter((e) => e.source === 'assumed');
+    expect(assumed.map((e) => e.date)).toEqual(['2025-06-04', '2025-06-03', '2025-06-01']);
+  });
+});
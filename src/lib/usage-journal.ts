@@ -0,0 +1,235 @@
+/**
+ * Nightly Usage Journal
+ *
+ * One entry per night records whether the machine was used (and optionally for
+ * how long). A used night advances every active usage-tracked component by one
+ * use, so usage-based schedules keep up without per-component counting.
+ * A night only counts for parts that were in use by then.
+ * Correcting a night from used to not used takes the use back.
+ *
+ * With "assume used" on, nights left unlogged since the mode was turned on are
+ * backfilled as used whenever the app loads.
+ *
+ * Nights read from machine data (a ResMed SD card or an OSCAR export) are
+ * logged the same way, with source 'device', replacing whatever was logged
+ * for them, so importing the same data twice never duplicates a night.
+ */
+
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import type { Component, UsageEntry } from './db';
+import { dbOperations, isComponentArchived } from './db-operations';
+import { updateComponentUsage } from './scheduler';
+
+// ============================================================================
+// Nights
+// ============================================================================
+
+/**
+ * Get the journal key for the night starting on a date (yyyy-MM-dd)
+ */
+export function toNightKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Get the key of the most recent complete night (the one that started yesterday)
+ */
+export function getLastNightKey(now: Date = new Date()): string {
+  return toNightKey(subDays(now, 1));
+}
+
+/**
+ * Check if a component's schedule follows nights of use
+ */
+export function isUsageTracked(component: Component): boolean {
+  return component.is_active && !isComponentArchived(component) && component.tracking_mode !== 'calendar';
+}
+
+/**
+ * Add (or take back) a night's uses on every active usage-tracked component
+ * Parts added (or fitted as a replacement) after the night are left alone,
+ * as are the use counts of actions completed after it.
+ *
+ * @param date - Night key (yyyy-MM-dd)
+ */
+async function advanceUsageTrackedComponents(date: string, delta: number): Promise<void> {
+  const components = await dbOperations.components.getAll();
+  for (const component of components.filter(isUsageTracked)) {
+    if (toNightKey(component.created_at) > date) continue;
+    await updateComponentUsage(component.id!, delta, parseISO(date));
+  }
+}
+
+// ============================================================================
+// Logging
+// ============================================================================
+
+/**
+ * Machine data recorded for a night
+ */
+export type NightMetrics = Pick<UsageEntry, 'sessions' | 'leak_50' | 'leak_95' | 'ahi' | 'pressure'>;
+
+/**
+ * Log a night as used or not used, replacing any earlier entry for it
+ * Usage-tracked components only move when the night's used state changes
+ *
+ * @param date - Night key (yyyy-MM-dd)
+ * @param used - Whether the machine was used that night
+ * @param hours - Optional hours of use
+ * @param source - Who logged the night
+ * @param metrics - Machine data for the night, if it came from one
+ */
+export async function logNight(
+  date: string,
+  used: boolean,
+  hours?: number,
+  source: UsageEntry['source'] = 'user',
+  metrics: NightMetrics = {}
+): Promise<void> {
+  const existing = await dbOperations.usageJournal.getByDate(date);
+  await dbOperations.usageJournal.put({
+    date,
+    used,
+    hours: used ? hours : undefined,
+    ...(used && metrics),
+    source,
+  });
+
+  const delta = (used ? 1 : 0) - (existing?.used ? 1 : 0);
+  if (delta !== 0) {
+    await advanceUsageTrackedComponents(date, delta);
+  }
+}
+
+/**
+ * Remove a night from the journal, taking back its use
+ */
+export async function deleteNight(entry: UsageEntry): Promise<void> {
+  await dbOperations.usageJournal.delete(entry.id!);
+  if (entry.used) {
+    await advanceUsageTrackedComponents(entry.date, -1);
+  }
+}
+
+// ============================================================================
+// Machine Data
+// ============================================================================
+
+export interface DeviceNight extends NightMetrics {
+  date: string; // Night key (yyyy-MM-dd)
+  hours: number; // Hours of use; 0 when the machine wasn't used
+}
+
+/**
+ * Get the first night an import should log by default
+ *
+ * Nights before the newest usage-tracked part was added would advance parts
+ * that weren't in use yet, and nights already imported from the machine don't
+ * need importing again, so the default starts after whichever is later.
+ */
+export function getDefaultImportStart(
+  entries: UsageEntry[],
+  components: Component[]
+): string | undefined {
+  const starts = components
+    .filter(isUsageTracked)
+    .map((component) => toNightKey(component.created_at));
+  const imported = entries.filter((entry) => entry.source === 'device').map((entry) => entry.date);
+  if (imported.length > 0) {
+    starts.push(toNightKey(addDays(parseISO(imported.sort()[imported.length - 1]), 1)));
+  }
+  return starts.length > 0 ? starts.sort()[starts.length - 1] : undefined;
+}
+
+/**
+ * Log nights read from machine data, replacing earlier entries for them
+ *
+ * @param nights - Nights from the machine
+ * @param since - First night to log (yyyy-MM-dd); earlier nights are left out
+ * @returns How many nights were logged and how many of them were used
+ */
+export async function importDeviceNights(
+  nights: DeviceNight[],
+  since?: string
+): Promise<{ logged: number; used: number }> {
+  const lastNight = getLastNightKey();
+  let logged = 0;
+  let used = 0;
+
+  for (const { date, hours, ...metrics } of nights) {
+    if ((since && date < since) || date > lastNight) continue;
+
+    const wasUsed = hours > 0;
+    await logNight(date, wasUsed, hours, 'device', metrics);
+    logged++;
+    if (wasUsed) used++;
+  }
+
+  return { logged, used };
+}
+
+// ============================================================================
+// Assume Used Mode
+// ============================================================================
+
+/**
+ * Turn "assume used every night" on or off
+ * Backfilling starts with tonight, so turning it on never rewrites the past
+ */
+export async function setAssumeNightlyUse(enabled: boolean, now: Date = new Date()): Promise<void> {
+  await dbOperations.preferences.update({
+    assume_nightly_use_since: enabled ? toNightKey(now) : undefined,
+  });
+}
+
+/**
+ * Log every unlogged night since "assume used" was turned on as used
+ *
+ * @returns The number of nights backfilled
+ */
+export async function backfillAssumedNights(now: Date = new Date()): Promise<number> {
+  const { assume_nightly_use_since: since } = await dbOperations.preferences.get();
+  if (!since) return 0;
+
+  const lastNight = getLastNightKey(now);
+  const entries = await dbOperations.usageJournal.getAll();
+  const logged = new Set(entries.map((entry) => entry.date));
+  let backfilled = 0;
+
+  for (let night = parseISO(since); toNightKey(night) <= lastNight; night = addDays(night, 1)) {
+    const key = toNightKey(night);
+    if (logged.has(key)) continue;
+
+    await logNight(key, true, undefined, 'assumed');
+    backfilled++;
+  }
+
+  return backfilled;
+}
+
+// ============================================================================
+// Summaries
+// ============================================================================
+
+/**
+ * Summarize the journal over the nights ending last night
+ */
+export function summarizeUsage(
+  entries: UsageEntry[],
+  nights: number,
+  now: Date = new Date()
+): { used: number; logged: number; averageHours?: number } {
+  const from = toNightKey(subDays(now, nights));
+  const lastNight = getLastNightKey(now);
+  const inRange = entries.filter((entry) => entry.date >= from && entry.date <= lastNight);
+  const used = inRange.filter((entry) => entry.used);
+  const withHours = used.filter((entry) => entry.hours !== undefined);
+
+  return {
+    used: used.length,
+    logged: inRange.length,
+    averageHours: withHours.length > 0
+      ? withHours.reduce((sum, entry) => sum + entry.hours!, 0) / withHours.length
+      : undefined,
+  };
+}
@@ -1,8 +1,12 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
+import { restoreActiveProfile } from './lib/profiles'
 import './index.css'
 
+// Open the profile this device last used before any data loads
+restoreActiveProfile()
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
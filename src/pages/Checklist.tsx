@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Header, Container, Navigation } from '@/components/layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Spinner } from '@/components/ui/spinner';
+import { EmptyState } from '@/components/ui/empty-state';
+import { CompletionToast } from '@/components/CompletionToast';
+import { useAppStore, useOverdueActions, useDueTodayActions } from '@/lib/store';
+import { completeMaintenanceAction } from '@/lib/scheduler';
+import { isOverdue } from '@/lib/date-helpers';
+import { updateBadgeCount } from '@/lib/notification-scheduler';
+import type { MaintenanceAction } from '@/lib/db';
+
+const navItems = [
+  { label: 'Home', href: '/', active: true },
+  { label: 'Components', href: '/components' },
+  { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory' },
+  { label: 'Settings', href: '/settings' },
+];
+
+/**
+ * Today's checklist, opened from the daily digest notification
+ * Items stay listed (ticked off) after completion until the page is left
+ */
+export function Checklist() {
+  const { isLoading, isInitialized, loadData, components, maintenanceActions, refreshMaintenanceActions, refreshMaintenanceLogs, refreshSupplies } = useAppStore();
+  const overdueActions = useOverdueActions();
+  const dueTodayActions = useDueTodayActions();
+
+  // Completed actions move out of the due lists, so remember what was listed
+  const [listedIds, setListedIds] = useState<string[]>([]);
+  const [completedIds, setCompletedIds] = useState<Set<string>>(new Set());
+  const [processingActionId, setProcessingActionId] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isInitialized) {
+      loadData();
+    }
+  }, [isInitialized, loadData]);
+
+  useEffect(() => {
+    const dueIds = [...overdueActions, ...dueTodayActions].map((action) => action.id!);
+    setListedIds((current) => {
+      const added = dueIds.filter((id) => !current.includes(id));
+      return added.length > 0 ? [...current, ...added] : current;
+    });
+  }, [overdueActions, dueTodayActions]);
+
+  const groups = useMemo(() => {
+    const actionMap = new Map(maintenanceActions.map((action) => [action.id, action]));
+    const byComponent = new Map<string, MaintenanceAction[]>();
+    for (const id of listedIds) {
+      const action = actionMap.get(id);
+      if (!action) continue;
+      byComponent.set(action.component_id, [...(byComponent.get(action.component_id) ?? []), action]);
+    }
+    return Array.from(byComponent.entries()).map(([componentId, actions]) => ({
+      component: components.find((c) => c.id === componentId),
+      actions,
+    }));
+  }, [listedIds, maintenanceActions, components]);
+
+  const handleComplete = async (actionId: string) => {
+    setProcessingActionId(actionId);
+    try {
+      await completeMaintenanceAction(actionId);
+      setCompletedIds((current) => new Set(current).add(actionId));
+      await Promise.all([
+        refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
+        refreshSupplies(),
+        updateBadgeCount(),
+      ]);
+    } catch (error) {
+      console.error('Error completing action:', error);
+      setToastMessage('Failed to complete task. Please try again.');
+    } finally {
+      setProcessingActionId(null);
+    }
+  };
+
+  const handleCompleteAll = async () => {
+    for (const { actions } of groups) {
+      for (const action of actions) {
+        if (!completedIds.has(action.id!)) {
+          await handleComplete(action.id!);
+        }
+      }
+    }
+  };
+
+  if (isLoading || !isInitialized) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header title="Today's Checklist" />
+        <Navigation items={navItems} />
+        <main>
+          <Container>
+            <div className="flex items-center justify-center py-12">
+              <Spinner size="lg" />
+            </div>
+          </Container>
+        </main>
+      </div>
+    );
+  }
+
+  const remaining = listedIds.filter((id) => !completedIds.has(id)).length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        title="Today's Checklist"
+        description={listedIds.length > 0 ? `${listedIds.length - remaining} of ${listedIds.length} done` : undefined}
+      />
+      <Navigation items={navItems} />
+
+      <main>
+        <Container>
+          {groups.length === 0 ? (
+            <EmptyState
+              description="Nothing is due today."
+              action={
+                <Link to="/">
+                  <Button>Back to Home</Button>
+                </Link>
+              }
+            />
+          ) : (
+            <div className="space-y-4">
+              {groups.map(({ component, actions }) => (
+                <Card key={component?.id ?? actions[0].component_id}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">{component?.name ?? 'Unknown component'}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="divide-y">
+                      {actions.map((action) => {
+                        const isDone = completedIds.has(action.id!);
+                        return (
+                          <li key={action.id} className="flex items-center justify-between gap-3 py-3">
+                            <div className="min-w-0">
+                              <p className={`text-sm font-medium ${isDone ? 'line-through text-muted-foreground' : ''}`}>
+                                {action.action_type}
+                              </p>
+                              {action.description && (
+                                <p className="text-xs text-muted-foreground truncate">{action.description}</p>
+                              )}
+                            </div>
+                            {isDone ? (
+                              <Badge variant="ok">Done</Badge>
+                            ) : (
+                              <div className="flex items-center gap-2 flex-shrink-0">
+                                {action.next_due && isOverdue(action.next_due) && (
+                                  <Badge variant="overdue">Overdue</Badge>
+                                )}
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleComplete(action.id!)}
+                                  disabled={processingActionId !== null}
+                                >
+                                  {processingActionId === action.id ? 'Saving...' : 'Done'}
+                                </Button>
+                              </div>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </CardContent>
+                </Card>
+              ))}
+
+              {remaining > 1 && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleCompleteAll}
+                  disabled={processingActionId !== null}
+                >
+                  Mark All {remaining} Done
+                </Button>
+              )}
+            </div>
+          )}
+        </Container>
+      </main>
+
+      {toastMessage && (
+        <CompletionToast message={toastMessage} onDismiss={() => setToastMessage(null)} />
+      )}
+    </div>
+  );
+}
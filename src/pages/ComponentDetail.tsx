@@ -5,6 +5,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Spinner } from '@/components/ui/spinner';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { EmptyState } from '@/components/ui/empty-state';
 import {
   Dialog,
@@ -15,12 +17,16 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { MaintenanceActionCard } from '@/components/MaintenanceActionCard';
+import { UsageProgress } from '@/components/UsageProgress';
 import { CompletionModal } from '@/components/CompletionModal';
 import { CompletionToast } from '@/components/CompletionToast';
-import { useAppStore, useComponentActions, useComponentLogs } from '@/lib/store';
-import { dbOperations } from '@/lib/db-operations';
-import { completeMaintenanceAction, skipMaintenanceAction, snoozeMaintenanceAction } from '@/lib/scheduler';
+import { useAppStore, useComponentActions, useComponentLogs, useEligibilityStatuses } from '@/lib/store';
+import { dbOperations, isCompletionLog } from '@/lib/db-operations';
+import { completeMaintenanceAction, skipMaintenanceAction, snoozeMaintenanceAction, replaceComponent, getUseLimit } from '@/lib/scheduler';
+import { undoLastOperation, redoLastOperation, getOperationLabel } from '@/lib/operation-journal';
+import { getComponentLineage, getSuccessor } from '@/lib/component-lineage';
 import { getCategoryDisplayName } from '@/lib/component-templates';
+import { formatAllowance } from '@/lib/eligibility';
 import { getDueStatus, formatShortDate, formatRelativeTime } from '@/lib/date-helpers';
 import type { Component, MaintenanceAction, MaintenanceLog } from '@/lib/db';
 
@@ -28,6 +34,7 @@ const navItems = [
   { label: 'Home', href: '/' },
   { label: 'Components', href: '/components' },
   { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory' },
   { label: 'Settings', href: '/settings' },
 ];
 
@@ -41,20 +48,35 @@ const ActionHistoryItem = memo(function ActionHistoryItem({
   actionMap: Map<string, MaintenanceAction>;
 }) {
   const action = actionMap.get(log.action_id);
+  const isCompletion = isCompletionLog(log);
+  const dotColor = isCompletion
+    ? log.was_overdue ? 'bg-yellow-500' : 'bg-green-500'
+    : log.outcome === 'snoozed' ? 'bg-blue-500' : 'bg-muted-foreground';
 
   return (
     <div className="flex items-start gap-3 py-3 border-b last:border-0">
-      <div className={`mt-1 h-2 w-2 rounded-full flex-shrink-0 ${log.was_overdue ? 'bg-yellow-500' : 'bg-green-500'}`} />
+      <div className={`mt-1 h-2 w-2 rounded-full flex-shrink-0 ${dotColor}`} />
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2 flex-wrap">
-          <span className="font-medium text-sm">{action?.action_type || 'Unknown Action'}</span>
-          {log.was_overdue && (
+          <span className={`font-medium text-sm ${isCompletion ? '' : 'text-muted-foreground'}`}>
+            {action?.action_type || 'Unknown Action'}
+          </span>
+          {log.outcome === 'skipped' && (
+            <Badge variant="outline" className="text-xs">Skipped</Badge>
+          )}
+          {log.outcome === 'snoozed' && (
+            <Badge variant="outline" className="text-xs text-blue-600 dark:text-blue-400">Snoozed</Badge>
+          )}
+          {isCompletion && log.was_overdue && (
             <Badge variant="secondary" className="text-xs">Completed late</Badge>
           )}
         </div>
         <p className="text-xs text-muted-foreground mt-0.5">
           {formatShortDate(log.completed_at)} ({formatRelativeTime(log.completed_at)})
         </p>
+        {log.reason && (
+          <p className="text-sm text-muted-foreground mt-1 italic line-clamp-2">Reason: {log.reason}</p>
+        )}
         {log.notes && (
           <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{log.notes}</p>
         )}
@@ -66,13 +88,22 @@ const ActionHistoryItem = memo(function ActionHistoryItem({
 export function ComponentDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { isLoading, isInitialized, loadData, components, refreshComponents, refreshMaintenanceActions, refreshMaintenanceLogs } = useAppStore();
+  const { isLoading, isInitialized, loadData, components, refreshComponents, refreshMaintenanceActions, refreshMaintenanceLogs, refreshNotificationConfigs, refreshSupplies } = useAppStore();
   const actions = useComponentActions(id || '');
   const logs = useComponentLogs(id || '');
+  const completionLogs = logs.filter(isCompletionLog);
+  const eligibilityStatuses = useEligibilityStatuses();
+  const suppliers = useAppStore((state) => state.suppliers);
 
   const [component, setComponent] = useState<Component | null>(null);
-  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
+  const [showArchiveDialog, setShowArchiveDialog] = useState(false);
+  const [archiveReason, setArchiveReason] = useState('');
+  const [isArchiving, setIsArchiving] = useState(false);
+  const [showPurgeDialog, setShowPurgeDialog] = useState(false);
+  const [isPurging, setIsPurging] = useState(false);
+  const [showReplaceDialog, setShowReplaceDialog] = useState(false);
+  const [replaceNotes, setReplaceNotes] = useState('');
+  const [isReplacing, setIsReplacing] = useState(false);
   const [isTogglingActive, setIsTogglingActive] = useState(false);
 
   // Completion modal state
@@ -83,6 +114,7 @@ export function ComponentDetail() {
   // Toast state
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
+  const [toastUndo, setToastUndo] = useState<'undo' | 'redo' | null>(null); // Offer undo/redo of the last complete, skip or snooze
 
   useEffect(() => {
     if (!isInitialized) {
@@ -97,6 +129,13 @@ export function ComponentDetail() {
     }
   }, [isInitialized, components, id]);
 
+  // Every physical instance of this part, oldest first
+  const lineage = useMemo(
+    () => (id ? getComponentLineage(id, components) : []),
+    [id, components]
+  );
+  const successor = id ? getSuccessor(id, components) : undefined;
+
   // Handle action selection for completion modal
   const handleActionSelect = (action: MaintenanceAction, _component: Component) => {
     setSelectedAction(action);
@@ -112,12 +151,15 @@ export function ComponentDetail() {
       await Promise.all([
         refreshMaintenanceActions(),
         refreshMaintenanceLogs(),
+        refreshSupplies(),
       ]);
       setToastMessage('Task completed! Great job!');
+      setToastUndo('undo');
       setShowToast(true);
     } catch (error) {
       console.error('Error completing action:', error);
       setToastMessage('Failed to complete task. Please try again.');
+      setToastUndo(null);
       setShowToast(true);
     } finally {
       setProcessingActionId(null);
@@ -125,16 +167,22 @@ export function ComponentDetail() {
   };
 
   // Handle skipping an action
-  const handleSkip = async (actionId: string) => {
+  const handleSkip = async (actionId: string, reason?: string) => {
     setProcessingActionId(actionId);
     try {
-      await skipMaintenanceAction(actionId);
-      await refreshMaintenanceActions();
+      await skipMaintenanceAction(actionId, reason);
+      // Parallelize independent refresh operations (async-parallel pattern)
+      await Promise.all([
+        refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
+      ]);
       setToastMessage('Task skipped. We\'ll remind you at the next scheduled time.');
+      setToastUndo('undo');
       setShowToast(true);
     } catch (error) {
       console.error('Error skipping action:', error);
       setToastMessage('Failed to skip task. Please try again.');
+      setToastUndo(null);
       setShowToast(true);
     } finally {
       setProcessingActionId(null);
@@ -142,29 +190,137 @@ export function ComponentDetail() {
   };
 
   // Handle snoozing an action
-  const handleSnooze = async (actionId: string, hours: number) => {
+  const handleSnooze = async (actionId: string, hours: number, reason?: string) => {
     setProcessingActionId(actionId);
     try {
-      await snoozeMaintenanceAction(actionId, hours);
-      await refreshMaintenanceActions();
+      await snoozeMaintenanceAction(actionId, hours, reason);
+      // Parallelize independent refresh operations (async-parallel pattern)
+      await Promise.all([
+        refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
+      ]);
       const timeLabel = hours === 1 ? '1 hour' : hours === 24 ? 'tomorrow' : `${hours} hours`;
       setToastMessage(`Snoozed! We'll remind you in ${timeLabel}.`);
+      setToastUndo('undo');
       setShowToast(true);
     } catch (error) {
       console.error('Error snoozing action:', error);
       setToastMessage('Failed to snooze task. Please try again.');
+      setToastUndo(null);
       setShowToast(true);
     } finally {
       setProcessingActionId(null);
     }
   };
 
-  // Handle delete
-  const handleDelete = async () => {
+  // Handle undoing or redoing the last complete, skip or snooze
+  const handleUndoRedo = async (direction: 'undo' | 'redo') => {
+    setShowToast(false);
+
+    try {
+      const entry = direction === 'undo' ? await undoLastOperation() : await redoLastOperation();
+      // Parallelize independent refresh operations (async-parallel pattern)
+      await Promise.all([
+        refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
+        refreshSupplies(),
+      ]);
+
+      if (entry) {
+        const label = getOperationLabel(entry.operation);
+        setToastMessage(direction === 'undo' ? `${label} undone.` : `${label} redone.`);
+        setToastUndo(direction === 'undo' ? 'redo' : 'undo');
+      } else {
+        setToastMessage(direction === 'undo' ? 'Nothing to undo.' : 'Nothing to redo.');
+        setToastUndo(null);
+      }
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+      setToastMessage(error instanceof Error ? error.message : `Failed to ${direction}. Please try again.`);
+      setToastUndo(null);
+    }
+    setShowToast(true);
+  };
+
+  // Handle replacing this part with a new instance
+  const handleReplace = async (replacementActionId?: string, notes?: string) => {
+    if (!id) return;
+    setIsReplacing(true);
+    try {
+      const { successorId } = await replaceComponent(id, notes, replacementActionId);
+      // Parallelize independent refresh operations (async-parallel pattern)
+      await Promise.all([
+        refreshComponents(),
+        refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
+        refreshSupplies(),
+        refreshNotificationConfigs(),
+      ]);
+      setShowReplaceDialog(false);
+      setReplaceNotes('');
+      // Replacements aren't journaled, so there's nothing to undo
+      setToastMessage('Replacement logged! Tracking your new part from today.');
+      setToastUndo(null);
+      setShowToast(true);
+      navigate(`/components/${successorId}`);
+    } catch (error) {
+      console.error('Error replacing component:', error);
+      setToastMessage('Failed to log replacement. Please try again.');
+      setToastUndo(null);
+      setShowToast(true);
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+
+  // Handle archive (keeps all history)
+  const handleArchive = async () => {
     if (!id) return;
-    setIsDeleting(true);
+    setIsArchiving(true);
     try {
-      await dbOperations.components.delete(id);
+      await dbOperations.components.archive(id, archiveReason);
+      await refreshComponents();
+      setShowArchiveDialog(false);
+      setArchiveReason('');
+      setToastMessage('Component archived. Its history is still available.');
+      setToastUndo(null);
+      setShowToast(true);
+    } catch (error) {
+      console.error('Error archiving component:', error);
+      setToastMessage('Failed to archive component. Please try again.');
+      setToastUndo(null);
+      setShowToast(true);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  // Handle restore from archive
+  const handleRestore = async () => {
+    if (!id) return;
+    setIsArchiving(true);
+    try {
+      await dbOperations.components.restore(id);
+      await refreshComponents();
+      setToastMessage('Component restored.');
+      setToastUndo(null);
+      setShowToast(true);
+    } catch (error) {
+      console.error('Error restoring component:', error);
+      setToastMessage('Failed to restore component. Please try again.');
+      setToastUndo(null);
+      setShowToast(true);
+    } finally {
+      setIsArchiving(false);
+    }
+  };
+
+  // Handle permanent purge (erases history)
+  const handlePurge = async () => {
+    if (!id) return;
+    setIsPurging(true);
+    try {
+      await dbOperations.components.purge(id);
       // Parallelize independent refresh operations (async-parallel pattern)
       await Promise.all([
         refreshComponents(),
@@ -173,10 +329,11 @@ export function ComponentDetail() {
       ]);
       navigate('/components');
     } catch (error) {
-      console.error('Error deleting component:', error);
+      console.error('Error purging component:', error);
       setToastMessage('Failed to delete component. Please try again.');
+      setToastUndo(null);
       setShowToast(true);
-      setIsDeleting(false);
+      setIsPurging(false);
     }
   };
 
@@ -188,10 +345,12 @@ export function ComponentDetail() {
       await dbOperations.components.toggleActive(id);
       await refreshComponents();
       setToastMessage(component?.is_active ? 'Component deactivated.' : 'Component activated.');
+      setToastUndo(null);
       setShowToast(true);
     } catch (error) {
       console.error('Error toggling active:', error);
       setToastMessage('Failed to update component. Please try again.');
+      setToastUndo(null);
       setShowToast(true);
     } finally {
       setIsTogglingActive(false);
@@ -238,6 +397,14 @@ export function ComponentDetail() {
     );
   }
 
+  const eligibility = eligibilityStatuses.find((status) => status.category === component.category);
+  const supplier = component.supplier_id ? suppliers.find((s) => s.id === component.supplier_id) : undefined;
+  const reorderDetails = [
+    component.part_number && `Part ${component.part_number}`,
+    component.size && `Size ${component.size}`,
+    supplier?.name,
+  ].filter(Boolean);
+
   // Build action lookup Map for O(1) access instead of O(n) find() (js-index-maps pattern)
   const actionMap = useMemo(
     () => new Map(actions.filter((a) => a.id).map((a) => [a.id!, a])),
@@ -245,6 +412,8 @@ export function ComponentDetail() {
   );
 
   // Memoize sorted actions to prevent recalculation on every render
+  const usageActions = actions.filter((action) => getUseLimit(action) !== undefined);
+
   const sortedActions = useMemo(() => {
     const statusOrder = { overdue: 0, due: 1, ok: 2 } as const;
     return [...actions].sort((a, b) => {
@@ -267,7 +436,9 @@ export function ComponentDetail() {
           {/* Status and actions bar */}
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
             <div className="flex items-center gap-2 flex-wrap">
-              {component.is_active ? (
+              {component.archived_at ? (
+                <Badge variant="secondary">Archived</Badge>
+              ) : component.is_active ? (
                 <Badge variant="ok">Active</Badge>
               ) : (
                 <Badge variant="secondary">Inactive</Badge>
@@ -277,30 +448,83 @@ export function ComponentDetail() {
               )}
             </div>
 
-            <div className="flex gap-2 flex-wrap">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleToggleActive}
-                disabled={isTogglingActive}
-              >
-                {component.is_active ? 'Deactivate' : 'Activate'}
-              </Button>
-              <Link to={`/components/${id}/edit`}>
-                <Button variant="outline" size="sm">
-                  Edit
+            {component.archived_at ? (
+              <div className="flex gap-2 flex-wrap">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRestore}
+                  disabled={isArchiving}
+                >
+                  {isArchiving ? 'Restoring...' : 'Restore'}
                 </Button>
-              </Link>
-              <Button
-                variant="destructive"
-                size="sm"
-                onClick={() => setShowDeleteDialog(true)}
-              >
-                Delete
-              </Button>
-            </div>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => setShowPurgeDialog(true)}
+                >
+                  Delete Permanently
+                </Button>
+              </div>
+            ) : (
+              <div className="flex gap-2 flex-wrap">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleToggleActive}
+                  disabled={isTogglingActive}
+                >
+                  {component.is_active ? 'Deactivate' : 'Activate'}
+                </Button>
+                <Link to={`/components/${id}/edit`}>
+                  <Button variant="outline" size="sm">
+                    Edit
+                  </Button>
+                </Link>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowReplaceDialog(true)}
+                >
+                  Replace
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowArchiveDialog(true)}
+                >
+                  Archive
+                </Button>
+              </div>
+            )}
           </div>
 
+          {/* Archived notice */}
+          {component.archived_at && (
+            <Card className="mb-6 border-yellow-200 dark:border-yellow-900 bg-yellow-50 dark:bg-yellow-950/20">
+              <CardContent className="p-4">
+                <p className="text-sm font-medium">
+                  Archived on {formatShortDate(component.archived_at)}
+                </p>
+                {component.archive_reason && (
+                  <p className="text-sm text-muted-foreground mt-1">{component.archive_reason}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-2">
+                  This component is no longer scheduled or notified. Its maintenance history is kept
+                  and still appears in History and exports.
+                </p>
+                {successor && (
+                  <Link
+                    to={`/components/${successor.id}`}
+                    className="text-sm text-primary hover:underline mt-2 inline-block"
+                  >
+                    View the replacement part
+                  </Link>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Component notes */}
           {component.notes && (
             <Card className="mb-6">
@@ -310,19 +534,76 @@ export function ComponentDetail() {
             </Card>
           )}
 
+          {/* Reorder details */}
+          {reorderDetails.length > 0 && (
+            <Card className="mb-6">
+              <CardContent className="p-4">
+                <p className="text-sm">
+                  <span className="font-medium">Reorder:</span> {reorderDetails.join(' · ')}
+                </p>
+                {supplier && (supplier.phone || supplier.email || supplier.account_number) && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {[
+                      supplier.phone,
+                      supplier.email,
+                      supplier.account_number && `Account ${supplier.account_number}`,
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Insurance eligibility for this part's category */}
+          {eligibility && !component.archived_at && (
+            <Card className="mb-6">
+              <CardContent className="p-4 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {eligibility.eligible
+                      ? 'Eligible to reorder'
+                      : `Eligible to reorder ${formatShortDate(eligibility.nextEligibleDate!)}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Insurance covers {formatAllowance(eligibility.rule)} · {eligibility.used} used this period
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Badge variant={eligibility.eligible ? 'ok' : 'secondary'}>
+                    {eligibility.eligible ? 'Eligible' : 'Not yet'}
+                  </Badge>
+                  <Link to="/eligibility" className="text-sm text-primary hover:underline">
+                    Details
+                  </Link>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Progress toward each usage-based action */}
+          {usageActions.length > 0 && !component.archived_at && (
+            <Card className="mb-6">
+              <CardContent className="p-4 space-y-3">
+                {usageActions.map((action) => (
+                  <UsageProgress key={action.id} action={action} label={action.action_type} />
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Component Stats */}
-          {logs.length > 0 && (
+          {completionLogs.length > 0 && (
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
               <Card>
                 <CardContent className="p-4">
-                  <div className="text-2xl font-bold text-primary">{logs.length}</div>
+                  <div className="text-2xl font-bold text-primary">{completionLogs.length}</div>
                   <div className="text-sm text-muted-foreground">Total Completed</div>
                 </CardContent>
               </Card>
               <Card>
                 <CardContent className="p-4">
                   <div className="text-2xl font-bold text-green-600">
-                    {logs.length > 0 ? Math.round(((logs.length - logs.filter(l => l.was_overdue).length) / logs.length) * 100) : 100}%
+                    {completionLogs.length > 0 ? Math.round(((completionLogs.length - completionLogs.filter(l => l.was_overdue).length) / completionLogs.length) * 100) : 100}%
                   </div>
                   <div className="text-sm text-muted-foreground">On-Time Rate</div>
                 </CardContent>
@@ -336,7 +617,7 @@ export function ComponentDetail() {
               <Card>
                 <CardContent className="p-4">
                   <div className="text-2xl font-bold text-yellow-600">
-                    {logs.filter(l => l.was_overdue).length}
+                    {completionLogs.filter(l => l.was_overdue).length}
                   </div>
                   <div className="text-sm text-muted-foreground">Completed Late</div>
                 </CardContent>
@@ -410,32 +691,157 @@ export function ComponentDetail() {
               </Card>
             </div>
           </div>
+
+          {/* Replacement lineage */}
+          {lineage.length > 1 && (
+            <div className="mt-6">
+              <h2 className="text-xl font-semibold mb-4">Replacement History</h2>
+              <Card>
+                <CardContent className="p-4">
+                  {lineage.map((entry, index) => (
+                    <div key={entry.component.id} className="flex items-start gap-3 py-3 border-b last:border-0">
+                      <div className={`mt-1 h-2 w-2 rounded-full flex-shrink-0 ${entry.isCurrent ? 'bg-green-500' : 'bg-muted-foreground'}`} />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          {entry.component.id === id ? (
+                            <span className="font-medium text-sm">Instance {index + 1}</span>
+                          ) : (
+                            <Link to={`/components/${entry.component.id}`} className="font-medium text-sm text-primary hover:underline">
+                              Instance {index + 1}
+                            </Link>
+                          )}
+                          {entry.isCurrent && <Badge variant="ok" className="text-xs">In use</Badge>}
+                          {entry.component.id === id && !entry.isCurrent && (
+                            <Badge variant="secondary" className="text-xs">Viewing</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                          {formatShortDate(entry.serviceStart)} – {entry.serviceEnd ? formatShortDate(entry.serviceEnd) : 'present'}
+                        </p>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <div className="text-sm font-medium">
+                          {entry.serviceDays} {entry.serviceDays === 1 ? 'day' : 'days'}
+                        </div>
+                        {entry.component.tracking_mode !== 'calendar' && (
+                          <div className="text-xs text-muted-foreground">
+                            {entry.component.usage_count} {entry.component.usage_count === 1 ? 'night' : 'nights'} used
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+          )}
         </Container>
       </main>
 
-      {/* Delete confirmation dialog */}
-      <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
-        <DialogContent onClose={() => setShowDeleteDialog(false)}>
+      {/* Replace dialog */}
+      <Dialog open={showReplaceDialog} onOpenChange={setShowReplaceDialog}>
+        <DialogContent onClose={() => setShowReplaceDialog(false)}>
+          <DialogHeader>
+            <DialogTitle>Replace Part</DialogTitle>
+            <DialogDescription>
+              Retire the current "{component.name}" and start tracking a new one from today.
+              The old part keeps its history; the new one starts with a fresh usage count and schedule.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="replaceNotes">Notes (optional)</Label>
+            <Textarea
+              id="replaceNotes"
+              value={replaceNotes}
+              onChange={(e) => setReplaceNotes(e.target.value)}
+              placeholder="e.g., Cushion edges were worn"
+              rows={2}
+              disabled={isReplacing}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowReplaceDialog(false)}
+              disabled={isReplacing}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={() => handleReplace(undefined, replaceNotes.trim() || undefined)}
+              disabled={isReplacing}
+            >
+              {isReplacing ? 'Replacing...' : 'Replace'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Archive dialog */}
+      <Dialog open={showArchiveDialog} onOpenChange={setShowArchiveDialog}>
+        <DialogContent onClose={() => setShowArchiveDialog(false)}>
           <DialogHeader>
-            <DialogTitle>Delete Component</DialogTitle>
+            <DialogTitle>Archive Component</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete "{component.name}"? This will also delete all maintenance actions and history for this component. This action cannot be undone.
+              Archive "{component.name}"? It will stop appearing in your schedule and notifications.
+              All maintenance history is kept, and you can restore it at any time.
             </DialogDescription>
           </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="archiveReason">Reason (optional)</Label>
+            <Textarea
+              id="archiveReason"
+              value={archiveReason}
+              onChange={(e) => setArchiveReason(e.target.value)}
+              placeholder="e.g., Switched to a different mask"
+              rows={2}
+              disabled={isArchiving}
+            />
+          </div>
           <DialogFooter>
             <Button
               variant="outline"
-              onClick={() => setShowDeleteDialog(false)}
-              disabled={isDeleting}
+              onClick={() => setShowArchiveDialog(false)}
+              disabled={isArchiving}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleArchive}
+              disabled={isArchiving}
+            >
+              {isArchiving ? 'Archiving...' : 'Archive'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Permanent delete confirmation dialog */}
+      <Dialog open={showPurgeDialog} onOpenChange={setShowPurgeDialog}>
+        <DialogContent onClose={() => setShowPurgeDialog(false)}>
+          <DialogHeader>
+            <DialogTitle>Permanently Delete Component</DialogTitle>
+            <DialogDescription>
+              This permanently erases "{component.name}" together with all {actions.length} maintenance
+              {actions.length === 1 ? ' action' : ' actions'} and {logs.length} history
+              {logs.length === 1 ? ' entry' : ' entries'}. Deleted history cannot be recovered and will
+              no longer appear in reports or exports. Consider exporting a backup first.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowPurgeDialog(false)}
+              disabled={isPurging}
             >
               Cancel
             </Button>
             <Button
               variant="destructive"
-              onClick={handleDelete}
-              disabled={isDeleting}
+              onClick={handlePurge}
+              disabled={isPurging}
             >
-              {isDeleting ? 'Deleting...' : 'Delete'}
+              {isPurging ? 'Deleting...' : 'Delete Permanently'}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -451,12 +857,24 @@ export function ComponentDetail() {
           onComplete={handleComplete}
           onSkip={handleSkip}
           onSnooze={handleSnooze}
+          onReplace={component.archived_at ? undefined : handleReplace}
         />
       )}
 
       {/* Toast */}
       {showToast && (
-        <CompletionToast message={toastMessage} onDismiss={() => setShowToast(false)} />
+        <CompletionToast
+          message={toastMessage}
+          onDismiss={() => setShowToast(false)}
+          action={
+            toastUndo
+              ? {
+                  label: toastUndo === 'undo' ? 'Undo' : 'Redo',
+                  onClick: () => handleUndoRedo(toastUndo),
+                }
+              : undefined
+          }
+        />
       )}
     </div>
   );
@@ -9,13 +9,15 @@ import { Select } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Spinner } from '@/components/ui/spinner';
 import { CompletionToast } from '@/components/CompletionToast';
-import { useAppStore } from '@/lib/store';
+import { ScheduleTrigger } from '@/components/ScheduleTrigger';
+import { useAppStore, useComponentActions } from '@/lib/store';
 import { dbOperations } from '@/lib/db-operations';
-import { initializeMaintenanceAction } from '@/lib/scheduler';
+import { initializeMaintenanceAction, isReplacementAction } from '@/lib/scheduler';
 import {
   COMPONENT_TEMPLATES,
   getCategoryDescription,
   type ComponentTemplate,
+  type MaintenanceActionTemplate,
 } from '@/lib/component-templates';
 import type { Component } from '@/lib/db';
 
@@ -23,6 +25,7 @@ const navItems = [
   { label: 'Home', href: '/' },
   { label: 'Components', href: '/components' },
   { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory' },
   { label: 'Settings', href: '/settings' },
 ];
 
@@ -41,21 +44,39 @@ const categories: { value: CategoryType; label: string }[] = [
 const trackingModes: { value: TrackingMode; label: string; description: string }[] = [
   { value: 'calendar', label: 'Calendar-based', description: 'Schedule based on days/weeks/months' },
   { value: 'usage', label: 'Usage-based', description: 'Schedule based on nights of use' },
-  { value: 'hybrid', label: 'Hybrid', description: 'Both calendar and usage tracking' },
+  { value: 'hybrid', label: 'Hybrid', description: 'Replace after a number of days or nights of use, whichever comes first' },
 ];
 
+/**
+ * Hybrid components give template replacements a use limit matching their day limit
+ * (e.g. replace after 30 days or 30 nights)
+ */
+function getTemplateUseLimit(
+  actionTemplate: MaintenanceActionTemplate,
+  trackingMode: TrackingMode
+): number | undefined {
+  return trackingMode === 'hybrid' && actionTemplate.schedule_unit === 'days' && isReplacementAction(actionTemplate)
+    ? actionTemplate.schedule_frequency
+    : undefined;
+}
+
 export function ComponentForm() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const isEditing = Boolean(id);
 
-  const { isLoading, isInitialized, loadData, components, refreshComponents, refreshMaintenanceActions, refreshNotificationConfigs } = useAppStore();
+  const { isLoading, isInitialized, loadData, components, equipment, suppliers, refreshComponents, refreshMaintenanceActions, refreshNotificationConfigs } = useAppStore();
+  const componentActions = useComponentActions(id || '');
 
   // Form state
   const [name, setName] = useState('');
   const [category, setCategory] = useState<CategoryType>('mask_cushion');
   const [trackingMode, setTrackingMode] = useState<TrackingMode>('calendar');
   const [notes, setNotes] = useState('');
+  const [equipmentId, setEquipmentId] = useState(''); // Empty when not assigned to a machine
+  const [partNumber, setPartNumber] = useState('');
+  const [size, setSize] = useState('');
+  const [supplierId, setSupplierId] = useState(''); // Empty when no supplier is set
   const [isActive, setIsActive] = useState(true);
   const [useTemplate, setUseTemplate] = useState(true);
   const [selectedTemplate, setSelectedTemplate] = useState<ComponentTemplate | null>(null);
@@ -81,6 +102,10 @@ export function ComponentForm() {
         setCategory(component.category);
         setTrackingMode(component.tracking_mode);
         setNotes(component.notes || '');
+        setEquipmentId(component.equipment_id || '');
+        setPartNumber(component.part_number || '');
+        setSize(component.size || '');
+        setSupplierId(component.supplier_id || '');
         setIsActive(component.is_active);
         setUseTemplate(false); // Don't use template when editing
       }
@@ -130,6 +155,10 @@ export function ComponentForm() {
           tracking_mode: trackingMode,
           notes: notes.trim() || undefined,
           is_active: isActive,
+          equipment_id: equipmentId || undefined,
+          part_number: partNumber.trim() || undefined,
+          size: size.trim() || undefined,
+          supplier_id: supplierId || undefined,
         });
         await refreshComponents();
         setToastMessage('Component updated successfully!');
@@ -144,6 +173,10 @@ export function ComponentForm() {
           usage_count: 0,
           is_active: isActive,
           notes: notes.trim() || undefined,
+          equipment_id: equipmentId || undefined,
+          part_number: partNumber.trim() || undefined,
+          size: size.trim() || undefined,
+          supplier_id: supplierId || undefined,
         });
 
         // If using template, create maintenance actions
@@ -155,6 +188,7 @@ export function ComponentForm() {
               description: actionTemplate.description,
               schedule_frequency: actionTemplate.schedule_frequency,
               schedule_unit: actionTemplate.schedule_unit,
+              use_limit: getTemplateUseLimit(actionTemplate, trackingMode),
               notification_time: actionTemplate.notification_time,
               reminder_strategy: actionTemplate.reminder_strategy,
               instructions: actionTemplate.instructions,
@@ -286,6 +320,8 @@ export function ComponentForm() {
                             <li key={a.action_type} className="flex items-center gap-2">
                               <span className="h-1.5 w-1.5 rounded-full bg-primary" />
                               {a.action_type} - Every {a.schedule_frequency} {a.schedule_unit}
+                              {getTemplateUseLimit(a, trackingMode) !== undefined &&
+                                ` or ${getTemplateUseLimit(a, trackingMode)} nights, whichever comes first`}
                             </li>
                           ))}
                         </ul>
@@ -329,6 +365,77 @@ export function ComponentForm() {
                   <p className="text-xs text-muted-foreground">
                     {trackingModes.find(m => m.value === trackingMode)?.description}
                   </p>
+                  {isEditing && componentActions.length > 0 && (
+                    <div className="rounded-lg bg-muted/50 p-3 space-y-2">
+                      {componentActions.map(action => (
+                        <div key={action.id}>
+                          <p className="text-xs font-medium">{action.action_type}</p>
+                          <ScheduleTrigger action={action} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Machine */}
+                {equipment.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="equipment">Machine</Label>
+                    <Select
+                      id="equipment"
+                      value={equipmentId}
+                      onChange={(e) => setEquipmentId(e.target.value)}
+                      disabled={isSaving}
+                    >
+                      <option value="">Not assigned</option>
+                      {equipment.map(machine => (
+                        <option key={machine.id} value={machine.id!}>
+                          {machine.name}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
+                )}
+
+                {/* Reorder details */}
+                <div className="space-y-2">
+                  <Label>Reorder details (optional)</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      id="partNumber"
+                      aria-label="Part number"
+                      value={partNumber}
+                      onChange={(e) => setPartNumber(e.target.value)}
+                      placeholder="Part number"
+                      disabled={isSaving}
+                    />
+                    <Input
+                      id="size"
+                      aria-label="Size"
+                      value={size}
+                      onChange={(e) => setSize(e.target.value)}
+                      placeholder="Size, e.g. Medium"
+                      disabled={isSaving}
+                    />
+                  </div>
+                  <Select
+                    id="supplier"
+                    aria-label="Supplier"
+                    value={supplierId}
+                    onChange={(e) => setSupplierId(e.target.value)}
+                    disabled={isSaving}
+                  >
+                    <option value="">No supplier</option>
+                    {suppliers.map(supplier => (
+                      <option key={supplier.id} value={supplier.id!}>
+                        {supplier.name}
+                      </option>
+                    ))}
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Used for the reorder list. Add suppliers on the{' '}
+                    <Link to="/inventory" className="text-primary hover:underline">Supplies</Link> page.
+                  </p>
                 </div>
 
                 {/* Notes */}
@@ -6,12 +6,15 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { EmptyState } from '@/components/ui/empty-state';
 import { Spinner } from '@/components/ui/spinner';
+import { EquipmentFilter } from '@/components/EquipmentFilter';
+import { useEquipmentFilter, matchesEquipmentFilter } from '@/hooks/useEquipmentFilter';
 import { useAppStore, useComponentActions } from '@/lib/store';
 import { getCategoryDisplayName } from '@/lib/component-templates';
-import { getDueStatus } from '@/lib/date-helpers';
+import { getDueStatus, formatShortDate } from '@/lib/date-helpers';
+import { isComponentArchived } from '@/lib/db-operations';
 import type { Component } from '@/lib/db';
 
-function ComponentCard({ component }: { component: Component }) {
+function ComponentCard({ component, equipmentName }: { component: Component; equipmentName?: string }) {
   const actions = useComponentActions(component.id!);
 
   // Calculate status summary
@@ -36,8 +39,11 @@ function ComponentCard({ component }: { component: Component }) {
               <div className="flex items-center gap-2 mb-1">
                 <span className="text-xs text-muted-foreground">
                   {getCategoryDisplayName(component.category)}
+                  {equipmentName && ` · ${equipmentName}`}
                 </span>
-                {!component.is_active && (
+                {component.archived_at ? (
+                  <Badge variant="secondary">Archived {formatShortDate(component.archived_at)}</Badge>
+                ) : !component.is_active && (
                   <Badge variant="secondary">Inactive</Badge>
                 )}
               </div>
@@ -45,7 +51,7 @@ function ComponentCard({ component }: { component: Component }) {
                 {component.name}
               </h3>
               <div className="flex items-center gap-2 flex-wrap">
-                {statusBadge}
+                {!component.archived_at && statusBadge}
                 <span className="text-xs text-muted-foreground">
                   {actions.length} maintenance {actions.length === 1 ? 'action' : 'actions'}
                 </span>
@@ -72,12 +78,14 @@ const navItems = [
   { label: 'Home', href: '/' },
   { label: 'Components', href: '/components', active: true },
   { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory' },
   { label: 'Settings', href: '/settings' },
 ];
 
 export function Components() {
-  const { isLoading, isInitialized, loadData, components } = useAppStore();
-  const [filter, setFilter] = useState<'all' | 'active' | 'inactive'>('all');
+  const { isLoading, isInitialized, loadData, components: allComponents, equipment } = useAppStore();
+  const [filter, setFilter] = useState<'all' | 'active' | 'inactive' | 'archived'>('all');
+  const { equipmentId, setEquipmentId } = useEquipmentFilter();
 
   useEffect(() => {
     if (!isInitialized) {
@@ -105,15 +113,25 @@ export function Components() {
     );
   }
 
+  // Machine filter applies before the status filters so counts match the list
+  const components = allComponents.filter(c => matchesEquipmentFilter(c, equipmentId));
+  const equipmentNames = new Map(equipment.map(e => [e.id, e.name]));
+
+  // Archived components only appear under their own filter
+  const archivedComponents = components.filter(isComponentArchived);
+  const currentComponents = components.filter(c => !isComponentArchived(c));
+
   // Filter components
-  const filteredComponents = components.filter(c => {
-    if (filter === 'active') return c.is_active;
-    if (filter === 'inactive') return !c.is_active;
-    return true;
-  });
+  const filteredComponents = filter === 'archived'
+    ? archivedComponents
+    : currentComponents.filter(c => {
+        if (filter === 'active') return c.is_active;
+        if (filter === 'inactive') return !c.is_active;
+        return true;
+      });
 
-  const activeCount = components.filter(c => c.is_active).length;
-  const inactiveCount = components.filter(c => !c.is_active).length;
+  const activeCount = currentComponents.filter(c => c.is_active).length;
+  const inactiveCount = currentComponents.filter(c => !c.is_active).length;
 
   return (
     <div className="min-h-screen bg-background">
@@ -128,13 +146,13 @@ export function Components() {
           {/* Actions bar */}
           <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
             {/* Filter buttons */}
-            <div className="flex gap-2">
+            <div className="flex gap-2 flex-wrap">
               <Button
                 variant={filter === 'all' ? 'default' : 'outline'}
                 size="sm"
                 onClick={() => setFilter('all')}
               >
-                All ({components.length})
+                All ({currentComponents.length})
               </Button>
               <Button
                 variant={filter === 'active' ? 'default' : 'outline'}
@@ -150,6 +168,21 @@ export function Components() {
               >
                 Inactive ({inactiveCount})
               </Button>
+              {archivedComponents.length > 0 && (
+                <Button
+                  variant={filter === 'archived' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setFilter('archived')}
+                >
+                  Archived ({archivedComponents.length})
+                </Button>
+              )}
+              <EquipmentFilter
+                equipment={equipment}
+                value={equipmentId}
+                onChange={setEquipmentId}
+                className="w-[160px] h-9"
+              />
             </div>
 
             {/* Add button */}
@@ -184,7 +217,11 @@ export function Components() {
           ) : (
             <div className="space-y-3">
               {filteredComponents.map(component => (
-                <ComponentCard key={component.id} component={component} />
+                <ComponentCard
+                  key={component.id}
+                  component={component}
+                  equipmentName={component.equipment_id ? equipmentNames.get(component.equipment_id) : undefined}
+                />
               ))}
             </div>
           )}
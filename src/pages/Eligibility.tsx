@@ -0,0 +1,407 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Header, Container, Navigation } from '@/components/layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Spinner } from '@/components/ui/spinner';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useAppStore, useEligibilityStatuses } from '@/lib/store';
+import { dbOperations } from '@/lib/db-operations';
+import { MEDICARE_ALLOWANCES, formatAllowance, type EligibilityStatus } from '@/lib/eligibility';
+import { getCategoryDisplayName } from '@/lib/component-templates';
+import type { AllowanceRule, Component } from '@/lib/db';
+
+const navItems = [
+  { label: 'Home', href: '/' },
+  { label: 'Components', href: '/components' },
+  { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory', active: true },
+  { label: 'Settings', href: '/settings' },
+];
+
+const CATEGORIES: Component['category'][] = [
+  'mask_cushion',
+  'mask_frame',
+  'tubing',
+  'water_chamber',
+  'filter',
+  'other',
+];
+
+interface RuleFormState {
+  category: Component['category'];
+  label: string;
+  quantity: string;
+  periodMonths: string;
+}
+
+const EMPTY_FORM: RuleFormState = {
+  category: 'mask_cushion',
+  label: '',
+  quantity: '1',
+  periodMonths: '3',
+};
+
+export function Eligibility() {
+  const {
+    isLoading,
+    isInitialized,
+    loadData,
+    allowanceRules,
+    refreshAllowanceRules,
+    preferences,
+    refreshPreferences,
+  } = useAppStore();
+  const statuses = useEligibilityStatuses();
+
+  // Dialog state (editing is null when adding a new rule)
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<AllowanceRule | null>(null);
+  const [form, setForm] = useState<RuleFormState>(EMPTY_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<AllowanceRule | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isInitialized) {
+      loadData();
+    }
+  }, [isInitialized, loadData]);
+
+  const openDialog = (rule: AllowanceRule | null) => {
+    setEditing(rule);
+    setForm(
+      rule
+        ? {
+            category: rule.category,
+            label: rule.label || '',
+            quantity: String(rule.quantity),
+            periodMonths: String(rule.period_months),
+          }
+        : {
+            ...EMPTY_FORM,
+            category: CATEGORIES.find((c) => !allowanceRules.some((r) => r.category === c)) ?? EMPTY_FORM.category,
+          }
+    );
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const quantity = parseInt(form.quantity, 10);
+    const periodMonths = parseInt(form.periodMonths, 10);
+
+    if (isNaN(quantity) || quantity < 1 || isNaN(periodMonths) || periodMonths < 1) {
+      setError('Quantity and period must be at least 1');
+      return;
+    }
+    if (!editing && allowanceRules.some((rule) => rule.category === form.category)) {
+      setError(`${getCategoryDisplayName(form.category)} already has a rule`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Moving a rule to another category replaces that category's rule
+      if (editing && editing.category !== form.category) {
+        await dbOperations.allowanceRules.delete(editing.id!);
+      }
+      await dbOperations.allowanceRules.set({
+        category: form.category,
+        quantity,
+        period_months: periodMonths,
+        label: form.label.trim() || undefined,
+      });
+      await refreshAllowanceRules();
+      setIsDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setIsSaving(true);
+    try {
+      await dbOperations.allowanceRules.delete(deleteTarget.id!);
+      await refreshAllowanceRules();
+      setDeleteTarget(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Fill in the common Medicare schedule for categories without a rule
+  const handleUseDefaults = async () => {
+    setIsSaving(true);
+    try {
+      for (const allowance of MEDICARE_ALLOWANCES) {
+        if (allowanceRules.some((rule) => rule.category === allowance.category)) continue;
+        await dbOperations.allowanceRules.set(allowance);
+      }
+      await refreshAllowanceRules();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemindersChange = async (enabled: boolean) => {
+    await dbOperations.preferences.update({ eligibility_reminders: enabled });
+    await refreshPreferences();
+  };
+
+  // Loading state
+  if (isLoading || !isInitialized) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header
+          title="Insurance Eligibility"
+          description="When your plan covers the next replacement"
+        />
+        <Navigation items={navItems} />
+        <main>
+          <Container>
+            <div className="flex items-center justify-center py-12">
+              <Spinner size="lg" />
+            </div>
+          </Container>
+        </main>
+      </div>
+    );
+  }
+
+  const statusByCategory = new Map<Component['category'], EligibilityStatus>(
+    statuses.map((status) => [status.category, status])
+  );
+  const orderedRules = CATEGORIES.flatMap((category) => {
+    const rule = allowanceRules.find((r) => r.category === category);
+    return rule ? [rule] : [];
+  });
+  const hasMissingDefaults = MEDICARE_ALLOWANCES.some(
+    (allowance) => !allowanceRules.some((rule) => rule.category === allowance.category)
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        title="Insurance Eligibility"
+        description="When your plan covers the next replacement"
+      />
+      <Navigation items={navItems} />
+
+      <main>
+        <Container>
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <p className="text-sm text-muted-foreground">
+              Eligibility counts completed replacements in each category, including replaced parts.{' '}
+              <Link to="/inventory" className="text-primary hover:underline">
+                Back to supplies
+              </Link>
+            </p>
+            <Button onClick={() => openDialog(null)} className="flex-shrink-0">
+              Add Rule
+            </Button>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="eligibilityReminders"
+                    checked={preferences.eligibility_reminders}
+                    onChange={(e) => handleRemindersChange(e.target.checked)}
+                    className="h-4 w-4 rounded border-input"
+                  />
+                  <Label htmlFor="eligibilityReminders" className="cursor-pointer">
+                    Notify me when a category becomes eligible to reorder
+                  </Label>
+                </div>
+              </CardContent>
+            </Card>
+
+            {orderedRules.length === 0 ? (
+              <EmptyState
+                title="No allowance rules"
+                description="Add how many replacements your insurance covers per category, or start from the common Medicare schedule."
+                action={
+                  <Button variant="outline" onClick={handleUseDefaults} disabled={isSaving}>
+                    Use Medicare Defaults
+                  </Button>
+                }
+              />
+            ) : (
+              <>
+                {orderedRules.map((rule) => {
+                  const status = statusByCategory.get(rule.category);
+                  return (
+                    <Card key={rule.id}>
+                      <CardHeader>
+                        <div className="flex items-start justify-between gap-4">
+                          <div>
+                            <CardTitle className="text-lg">{getCategoryDisplayName(rule.category)}</CardTitle>
+                            <CardDescription>
+                              {rule.label ? `${rule.label}: ` : ''}
+                              {formatAllowance(rule)}
+                            </CardDescription>
+                          </div>
+                          {status && (
+                            <Badge variant={status.eligible ? 'ok' : 'secondary'}>
+                              {status.eligible
+                                ? 'Eligible to reorder'
+                                : `Eligible ${format(status.nextEligibleDate!, 'MMM d')}`}
+                            </Badge>
+                          )}
+                        </div>
+                      </CardHeader>
+                      <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        {status && (
+                          <div className="text-xs text-muted-foreground space-y-1">
+                            <p>
+                              {status.used} of {rule.quantity} used in the last{' '}
+                              {rule.period_months === 1 ? 'month' : `${rule.period_months} months`}
+                            </p>
+                            <p>
+                              {status.lastReplaced
+                                ? `Last replaced ${format(status.lastReplaced, 'MMM d, yyyy')}`
+                                : 'No replacements logged yet'}
+                              {!status.eligible && status.nextEligibleDate &&
+                                ` · next covered ${format(status.nextEligibleDate, 'MMM d, yyyy')}`}
+                            </p>
+                          </div>
+                        )}
+                        <div className="flex gap-1 flex-shrink-0">
+                          <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+                            Edit
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setDeleteTarget(rule)}>
+                            Remove
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+                {hasMissingDefaults && (
+                  <Button variant="outline" onClick={handleUseDefaults} disabled={isSaving} className="w-full">
+                    Add Medicare Defaults for Other Categories
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        </Container>
+      </main>
+
+      {/* Add/edit dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent onClose={() => setIsDialogOpen(false)}>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+            <DialogDescription>
+              How many replacements your plan covers over a rolling period.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="ruleCategory">Category</Label>
+              <Select
+                id="ruleCategory"
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value as Component['category'] })}
+                disabled={isSaving}
+              >
+                {CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {getCategoryDisplayName(category)}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ruleLabel">Label (optional)</Label>
+              <Input
+                id="ruleLabel"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="e.g., Full-face cushion"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="ruleQuantity">Covered</Label>
+                <Input
+                  id="ruleQuantity"
+                  type="number"
+                  min="1"
+                  value={form.quantity}
+                  onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rulePeriod">Every (months)</Label>
+                <Input
+                  id="rulePeriod"
+                  type="number"
+                  min="1"
+                  value={form.periodMonths}
+                  onChange={(e) => setForm({ ...form, periodMonths: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            {error && <p className="text-xs text-red-500">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Remove confirmation dialog */}
+      <Dialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent onClose={() => setDeleteTarget(null)}>
+          <DialogHeader>
+            <DialogTitle>Remove Rule</DialogTitle>
+            <DialogDescription>
+              Stop tracking eligibility for {deleteTarget && getCategoryDisplayName(deleteTarget.category)}?
+              Your replacement history is not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? 'Removing...' : 'Remove'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, lazy, Suspense, memo } from 'react';
+import { useEffect, useMemo, lazy, Suspense, memo } from 'react';
 import { Header, Container, Navigation } from '@/components/layout';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -6,17 +6,23 @@ import { Select } from '@/components/ui/select';
 import { Spinner } from '@/components/ui/spinner';
 import { Skeleton } from '@/components/ui/skeleton';
 import { HistoryTimeline } from '@/components/HistoryTimeline';
+import { EquipmentFilter } from '@/components/EquipmentFilter';
+import { UsageJournal } from '@/components/UsageJournal';
 import { useAppStore, useCurrentStreak, useCompliancePercentage } from '@/lib/store';
+import { isCompletionLog } from '@/lib/db-operations';
 
 // Lazy load charts to reduce initial bundle size (~350KB recharts)
 const AnalyticsCharts = lazy(() => import('@/components/AnalyticsCharts'));
+const SpendReport = lazy(() => import('@/components/SpendReport'));
 import { useHistoryFilters, type HistoryFilters } from '@/hooks/useHistoryFilters';
-import type { Component } from '@/lib/db';
+import { matchesEquipmentFilter } from '@/hooks/useEquipmentFilter';
+import type { Component, Equipment } from '@/lib/db';
 
 const navItems = [
   { label: 'Home', href: '/' },
   { label: 'Components', href: '/components' },
   { label: 'History', href: '/history', active: true },
+  { label: 'Supplies', href: '/inventory' },
   { label: 'Settings', href: '/settings' },
 ];
 
@@ -24,9 +30,10 @@ const navItems = [
 const StatsCards = memo(function StatsCards() {
   const streak = useCurrentStreak();
   const compliance = useCompliancePercentage(30);
-  const logs = useAppStore((state) => state.maintenanceLogs);
+  const allLogs = useAppStore((state) => state.maintenanceLogs);
 
-  // Calculate stats
+  // Calculate stats (skips and snoozes are history, not completions)
+  const logs = allLogs.filter(isCompletionLog);
   const totalCompleted = logs.length;
   const overdueCount = logs.filter((l) => l.was_overdue).length;
   const onTimeRate = totalCompleted > 0 ? Math.round(((totalCompleted - overdueCount) / totalCompleted) * 100) : 100;
@@ -65,16 +72,19 @@ function FilterBar({
   filters,
   setFilter,
   resetFilters,
+  equipment,
   components,
   uniqueActionTypes,
 }: {
   filters: HistoryFilters;
   setFilter: <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => void;
   resetFilters: () => void;
+  equipment: Equipment[];
   components: Component[];
   uniqueActionTypes: string[];
 }) {
   const hasActiveFilters =
+    filters.equipmentId !== null ||
     filters.componentId !== null ||
     filters.actionType !== null ||
     filters.dateRange !== '30d' ||
@@ -107,6 +117,16 @@ function FilterBar({
             <option value="all">All time</option>
           </Select>
 
+          {/* Machine Filter */}
+          <EquipmentFilter
+            equipment={equipment}
+            value={filters.equipmentId}
+            onChange={(equipmentId) => {
+              setFilter('equipmentId', equipmentId);
+              setFilter('componentId', null);
+            }}
+          />
+
           {/* Component Filter */}
           <Select
             value={filters.componentId || 'all'}
@@ -114,11 +134,14 @@ function FilterBar({
             className="w-[160px]"
           >
             <option value="all">All components</option>
-            {components.map((component) => (
-              <option key={component.id} value={component.id!}>
-                {component.name}
-              </option>
-            ))}
+            {components
+              .filter((component) => matchesEquipmentFilter(component, filters.equipmentId))
+              .map((component) => (
+                <option key={component.id} value={component.id!}>
+                  {component.name}
+                  {component.archived_at ? ' (archived)' : ''}
+                </option>
+              ))}
           </Select>
 
           {/* Action Type Filter */}
@@ -150,7 +173,7 @@ function FilterBar({
 }
 
 export function History() {
-  const { isLoading, isInitialized, loadData, maintenanceLogs, maintenanceActions, components } =
+  const { isLoading, isInitialized, loadData, maintenanceLogs, maintenanceActions, components, equipment, purchases } =
     useAppStore();
 
   const { filters, setFilter, resetFilters, filteredLogs, uniqueActionTypes } = useHistoryFilters(
@@ -159,6 +182,9 @@ export function History() {
     components
   );
 
+  // Charts analyze completions only; the timeline shows every outcome
+  const filteredCompletionLogs = useMemo(() => filteredLogs.filter(isCompletionLog), [filteredLogs]);
+
   useEffect(() => {
     if (!isInitialized) {
       loadData();
@@ -202,18 +228,29 @@ export function History() {
               </div>
             }>
               <AnalyticsCharts
-                logs={filteredLogs}
+                logs={filteredCompletionLogs}
                 actions={maintenanceActions}
                 components={components}
                 dateRange={filters.dateRange}
               />
             </Suspense>
 
+            {/* Spend report - only once purchases are being recorded */}
+            {purchases.length > 0 && (
+              <Suspense fallback={<Skeleton className="h-[360px]" />}>
+                <SpendReport purchases={purchases} />
+              </Suspense>
+            )}
+
+            {/* Nightly usage */}
+            <UsageJournal />
+
             {/* Filters */}
             <FilterBar
               filters={filters}
               setFilter={setFilter}
               resetFilters={resetFilters}
+              equipment={equipment}
               components={components}
               uniqueActionTypes={uniqueActionTypes}
             />
@@ -8,8 +8,15 @@ import { MaintenanceActionCard } from '@/components/MaintenanceActionCard';
 import { CompletionModal } from '@/components/CompletionModal';
 import { StreakCelebration } from '@/components/StreakCelebration';
 import { CompletionToast } from '@/components/CompletionToast';
-import { useAppStore, useOverdueActions, useDueTodayActions, useUpcomingActions, useCurrentStreak } from '@/lib/store';
-import { completeMaintenanceAction, skipMaintenanceAction, snoozeMaintenanceAction } from '@/lib/scheduler';
+import { EquipmentFilter } from '@/components/EquipmentFilter';
+import { LowStockAlert } from '@/components/LowStockAlert';
+import { MissedRemindersAlert } from '@/components/MissedRemindersAlert';
+import { UsageCheckIn } from '@/components/UsageCheckIn';
+import { useEquipmentFilter, matchesEquipmentFilter } from '@/hooks/useEquipmentFilter';
+import { useNotificationHistory } from '@/hooks/useNotificationHistory';
+import { useAppStore, useOverdueActions, useDueTodayActions, useUpcomingActions, useSnoozedActions, useCurrentStreak, useLowStockSupplies } from '@/lib/store';
+import { completeMaintenanceAction, skipMaintenanceAction, snoozeMaintenanceAction, replaceComponent } from '@/lib/scheduler';
+import { undoLastOperation, redoLastOperation, getOperationLabel } from '@/lib/operation-journal';
 import { formatRelativeTime } from '@/lib/date-helpers';
 import { updateBadgeCount } from '@/lib/notification-scheduler';
 import type { MaintenanceAction, Component } from '@/lib/db';
@@ -18,15 +25,41 @@ const navItems = [
   { label: 'Home', href: '/', active: true },
   { label: 'Components', href: '/components' },
   { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory' },
   { label: 'Settings', href: '/settings' },
 ];
 
+// How far back the home screen looks for unanswered reminders
+const MISSED_REMINDER_DAYS = 7;
+
 export function Home() {
-  const { isLoading, isInitialized, loadData, refreshMaintenanceActions, refreshMaintenanceLogs, components } = useAppStore();
-  const overdueActions = useOverdueActions();
-  const dueTodayActions = useDueTodayActions();
-  const upcomingActions = useUpcomingActions(7);
+  const { isLoading, isInitialized, loadData, refreshComponents, refreshMaintenanceActions, refreshMaintenanceLogs, refreshNotificationConfigs, refreshSupplies, components, equipment } = useAppStore();
+  const allOverdueActions = useOverdueActions();
+  const allDueTodayActions = useDueTodayActions();
+  const allUpcomingActions = useUpcomingActions(7);
+  const lowStockSupplies = useLowStockSupplies();
+  const allSnoozedActions = useSnoozedActions();
   const currentStreak = useCurrentStreak();
+  const { equipmentId, setEquipmentId } = useEquipmentFilter();
+  const { missed: missedReminders } = useNotificationHistory(MISSED_REMINDER_DAYS);
+
+  // Build component lookup Map for O(1) access instead of O(n) find()
+  const componentMap = useMemo(
+    () => new Map(components.map((c) => [c.id, c])),
+    [components]
+  );
+
+  // Narrow every section to the selected machine
+  const { overdueActions, dueTodayActions, upcomingActions, snoozedActions } = useMemo(() => {
+    const forMachine = (actions: MaintenanceAction[]) =>
+      actions.filter((a) => matchesEquipmentFilter(componentMap.get(a.component_id), equipmentId));
+    return {
+      overdueActions: forMachine(allOverdueActions),
+      dueTodayActions: forMachine(allDueTodayActions),
+      upcomingActions: forMachine(allUpcomingActions),
+      snoozedActions: forMachine(allSnoozedActions),
+    };
+  }, [allOverdueActions, allDueTodayActions, allUpcomingActions, allSnoozedActions, componentMap, equipmentId]);
 
   // Modal state
   const [selectedAction, setSelectedAction] = useState<MaintenanceAction | null>(null);
@@ -37,6 +70,7 @@ export function Home() {
   // Feedback state
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
+  const [toastUndo, setToastUndo] = useState<'undo' | 'redo' | null>(null); // Offer undo/redo of the last complete, skip or snooze
   const [showStreakCelebration, setShowStreakCelebration] = useState(false);
   const [celebrationStreak, setCelebrationStreak] = useState(0);
 
@@ -47,6 +81,18 @@ export function Home() {
     }
   }, [isInitialized, loadData]);
 
+  // Re-render when the next snooze ends so the action moves back into its due section
+  const [, setSnoozeExpiryTick] = useState(0);
+  const nextSnoozeEnd = snoozedActions[0]?.snoozed_until?.getTime();
+  useEffect(() => {
+    if (nextSnoozeEnd === undefined) return;
+    const timer = setTimeout(() => {
+      setSnoozeExpiryTick((tick) => tick + 1);
+      updateBadgeCount();
+    }, Math.max(0, nextSnoozeEnd - Date.now()) + 1000);
+    return () => clearTimeout(timer);
+  }, [nextSnoozeEnd]);
+
   // Handle opening the completion modal
   const handleActionSelect = (action: MaintenanceAction, component: Component) => {
     setSelectedAction(action);
@@ -65,11 +111,13 @@ export function Home() {
       await Promise.all([
         refreshMaintenanceActions(),
         refreshMaintenanceLogs(),
+        refreshSupplies(),
         updateBadgeCount(),
       ]);
 
       // Show success feedback
       setToastMessage('Task completed! Great job!');
+      setToastUndo('undo');
       setShowToast(true);
 
       // Check if we should show streak celebration at milestones
@@ -87,6 +135,37 @@ export function Home() {
     } catch (error) {
       console.error('Error completing action:', error);
       setToastMessage('Failed to complete task. Please try again.');
+      setToastUndo(null);
+      setShowToast(true);
+    } finally {
+      setProcessingActionId(null);
+    }
+  };
+
+  // Handle replacing a part with a new instance
+  const handleReplace = async (actionId: string, notes?: string) => {
+    if (!selectedComponent?.id) return;
+    setProcessingActionId(actionId);
+
+    try {
+      await replaceComponent(selectedComponent.id, notes, actionId);
+      // Parallelize independent refresh operations for better performance
+      await Promise.all([
+        refreshComponents(),
+        refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
+        refreshSupplies(),
+        refreshNotificationConfigs(),
+      ]);
+      await updateBadgeCount();
+
+      setToastMessage('Replacement logged! Tracking your new part from today.');
+      setToastUndo(null);
+      setShowToast(true);
+    } catch (error) {
+      console.error('Error replacing component:', error);
+      setToastMessage('Failed to log replacement. Please try again.');
+      setToastUndo(null);
       setShowToast(true);
     } finally {
       setProcessingActionId(null);
@@ -94,22 +173,25 @@ export function Home() {
   };
 
   // Handle skipping an action
-  const handleSkip = async (actionId: string) => {
+  const handleSkip = async (actionId: string, reason?: string) => {
     setProcessingActionId(actionId);
 
     try {
-      await skipMaintenanceAction(actionId);
+      await skipMaintenanceAction(actionId, reason);
       // Parallelize independent refresh operations for better performance
       await Promise.all([
         refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
         updateBadgeCount(),
       ]);
 
       setToastMessage('Task skipped. We\'ll remind you at the next scheduled time.');
+      setToastUndo('undo');
       setShowToast(true);
     } catch (error) {
       console.error('Error skipping action:', error);
       setToastMessage('Failed to skip task. Please try again.');
+      setToastUndo(null);
       setShowToast(true);
     } finally {
       setProcessingActionId(null);
@@ -117,29 +199,62 @@ export function Home() {
   };
 
   // Handle snoozing an action
-  const handleSnooze = async (actionId: string, hours: number) => {
+  const handleSnooze = async (actionId: string, hours: number, reason?: string) => {
     setProcessingActionId(actionId);
 
     try {
-      await snoozeMaintenanceAction(actionId, hours);
+      await snoozeMaintenanceAction(actionId, hours, reason);
       // Parallelize independent refresh operations for better performance
       await Promise.all([
         refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
         updateBadgeCount(),
       ]);
 
       const timeLabel = hours === 1 ? '1 hour' : hours === 24 ? 'tomorrow' : `${hours} hours`;
       setToastMessage(`Snoozed! We'll remind you in ${timeLabel}.`);
+      setToastUndo('undo');
       setShowToast(true);
     } catch (error) {
       console.error('Error snoozing action:', error);
       setToastMessage('Failed to snooze task. Please try again.');
+      setToastUndo(null);
       setShowToast(true);
     } finally {
       setProcessingActionId(null);
     }
   };
 
+  // Handle undoing or redoing the last complete, skip or snooze
+  const handleUndoRedo = async (direction: 'undo' | 'redo') => {
+    setShowToast(false);
+
+    try {
+      const entry = direction === 'undo' ? await undoLastOperation() : await redoLastOperation();
+      // Parallelize independent refresh operations for better performance
+      await Promise.all([
+        refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
+        refreshSupplies(),
+        updateBadgeCount(),
+      ]);
+
+      if (entry) {
+        const label = getOperationLabel(entry.operation);
+        setToastMessage(direction === 'undo' ? `${label} undone.` : `${label} redone.`);
+        setToastUndo(direction === 'undo' ? 'redo' : 'undo');
+      } else {
+        setToastMessage(direction === 'undo' ? 'Nothing to undo.' : 'Nothing to redo.');
+        setToastUndo(null);
+      }
+    } catch (error) {
+      console.error(`Error during ${direction}:`, error);
+      setToastMessage(error instanceof Error ? error.message : `Failed to ${direction}. Please try again.`);
+      setToastUndo(null);
+    }
+    setShowToast(true);
+  };
+
   const handleDismissToast = () => {
     setShowToast(false);
   };
@@ -148,12 +263,6 @@ export function Home() {
     setShowStreakCelebration(false);
   };
 
-  // Build component lookup Map for O(1) access instead of O(n) find()
-  const componentMap = useMemo(
-    () => new Map(components.map((c) => [c.id, c])),
-    [components]
-  );
-
   // Get component by ID helper - O(1) lookup
   const getComponentById = (componentId: string) => {
     return componentMap.get(componentId);
@@ -195,7 +304,15 @@ export function Home() {
 
       <main>
         <Container>
-          {!hasActionsNeedingAttention ? (
+          <UsageCheckIn />
+          <LowStockAlert supplies={lowStockSupplies} />
+          <MissedRemindersAlert missed={missedReminders} />
+          {equipment.length > 0 && (
+            <div className="flex justify-end mb-4">
+              <EquipmentFilter equipment={equipment} value={equipmentId} onChange={setEquipmentId} />
+            </div>
+          )}
+          {!hasActionsNeedingAttention && snoozedActions.length === 0 ? (
             // Empty state - All caught up or no components
             components.length === 0 ? (
               <EmptyState
@@ -274,6 +391,34 @@ export function Home() {
                   </div>
                 </div>
               )}
+
+              {/* Snoozed Items */}
+              {snoozedActions.length > 0 && (
+                <div className="space-y-3">
+                  <div className="flex items-center gap-2">
+                    <div className="h-2 w-2 rounded-full bg-muted-foreground" />
+                    <h2 className="text-xl font-semibold text-muted-foreground">
+                      Snoozed ({snoozedActions.length})
+                    </h2>
+                  </div>
+                  <div className="space-y-3">
+                    {snoozedActions.map((action: MaintenanceAction) => {
+                      const component = getComponentById(action.component_id);
+                      if (!component) return null;
+
+                      return (
+                        <MaintenanceActionCard
+                          key={action.id}
+                          action={action}
+                          component={component}
+                          onActionSelect={handleActionSelect}
+                          isProcessing={processingActionId === action.id}
+                        />
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </Container>
@@ -289,12 +434,24 @@ export function Home() {
           onComplete={handleComplete}
           onSkip={handleSkip}
           onSnooze={handleSnooze}
+          onReplace={handleReplace}
         />
       )}
 
       {/* Completion toast */}
       {showToast && (
-        <CompletionToast message={toastMessage} onDismiss={handleDismissToast} />
+        <CompletionToast
+          message={toastMessage}
+          onDismiss={handleDismissToast}
+          action={
+            toastUndo
+              ? {
+                  label: toastUndo === 'undo' ? 'Undo' : 'Redo',
+                  onClick: () => handleUndoRedo(toastUndo),
+                }
+              : undefined
+          }
+        />
       )}
 
       {/* Streak celebration modal */}
@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { Header, Container, Navigation } from '@/components/layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Spinner } from '@/components/ui/spinner';
+import { EmptyState } from '@/components/ui/empty-state';
+import { CompletionToast } from '@/components/CompletionToast';
+import { useNotificationHistory } from '@/hooks/useNotificationHistory';
+import { useAppStore } from '@/lib/store';
+import { completeMaintenanceAction, skipMaintenanceAction, snoozeMaintenanceAction } from '@/lib/scheduler';
+import {
+  MAINTENANCE_NOTIFICATION_ACTIONS,
+  NOTIFICATION_SNOOZE_HOURS,
+  type NotificationActionType,
+} from '@/lib/notification-actions';
+import { recordNotificationActed, type NotificationHistoryEntry } from '@/lib/notifications';
+import { updateBadgeCount, type MissedReminder } from '@/lib/notification-scheduler';
+import { formatDateTime, formatRelativeTime } from '@/lib/date-helpers';
+
+const navItems = [
+  { label: 'Home', href: '/' },
+  { label: 'Components', href: '/components' },
+  { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory' },
+  { label: 'Settings', href: '/settings' },
+];
+
+// Days of notification history shown
+const HISTORY_DAYS = 30;
+
+const ACTION_TAKEN_LABELS: Record<NotificationActionType, string> = {
+  done: 'Marked done',
+  snooze: 'Snoozed',
+  skip: 'Skipped',
+};
+
+/**
+ * Describe what happened to a sent notification
+ */
+function getResponseLabel(entry: NotificationHistoryEntry): string {
+  if (entry.action_taken) return ACTION_TAKEN_LABELS[entry.action_taken];
+  if (entry.clicked_at) return 'Opened';
+  return 'No response';
+}
+
+/**
+ * Inbox of sent notifications, with reminders that went unanswered at the top
+ */
+export function Inbox() {
+  const {
+    isInitialized,
+    loadData,
+    components,
+    refreshMaintenanceActions,
+    refreshMaintenanceLogs,
+    refreshSupplies,
+  } = useAppStore();
+  const { history, missed, isLoading, reload } = useNotificationHistory(HISTORY_DAYS);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isInitialized) {
+      loadData();
+    }
+  }, [isInitialized, loadData]);
+
+  const handleAction = async ({ entry, action }: MissedReminder, type: NotificationActionType) => {
+    setProcessingId(entry.id);
+    try {
+      switch (type) {
+        case 'done':
+          await completeMaintenanceAction(action.id!);
+          break;
+        case 'snooze':
+          await snoozeMaintenanceAction(action.id!, NOTIFICATION_SNOOZE_HOURS);
+          break;
+        case 'skip':
+          await skipMaintenanceAction(action.id!);
+          break;
+      }
+      if (entry.tag) {
+        await recordNotificationActed(entry.tag, type);
+      }
+      await Promise.all([
+        refreshMaintenanceActions(),
+        refreshMaintenanceLogs(),
+        refreshSupplies(),
+        updateBadgeCount(),
+        reload(),
+      ]);
+    } catch (error) {
+      console.error('Error handling reminder:', error);
+      setToastMessage('Failed to update task. Please try again.');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (isLoading || !isInitialized) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header title="Inbox" />
+        <Navigation items={navItems} />
+        <main>
+          <Container>
+            <div className="flex items-center justify-center py-12">
+              <Spinner size="lg" />
+            </div>
+          </Container>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header title="Inbox" description="Notifications sent in the last 30 days" />
+      <Navigation items={navItems} />
+
+      <main>
+        <Container>
+          {history.length === 0 ? (
+            <EmptyState description="No notifications have been sent yet." />
+          ) : (
+            <div className="space-y-4">
+              {missed.length > 0 && (
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-lg">Missed Reminders</CardTitle>
+                    <CardDescription>Still due, and nobody responded to the reminder</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="divide-y">
+                      {missed.map((reminder) => {
+                        const component = components.find((c) => c.id === reminder.action.component_id);
+                        return (
+                          <li key={reminder.entry.id} className="py-3 space-y-2">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium">
+                                {reminder.action.action_type}
+                                {component && <span className="text-muted-foreground"> · {component.name}</span>}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {reminder.entry.title} · {formatRelativeTime(reminder.entry.sent_at)}
+                              </p>
+                            </div>
+                            <div className="flex gap-2">
+                              {MAINTENANCE_NOTIFICATION_ACTIONS.map(({ action, title }) => (
+                                <Button
+                                  key={action}
+                                  size="sm"
+                                  variant={action === 'done' ? 'default' : 'outline'}
+                                  onClick={() => handleAction(reminder, action)}
+                                  disabled={processingId !== null}
+                                >
+                                  {processingId === reminder.entry.id && action === 'done' ? 'Saving...' : title}
+                                </Button>
+                              ))}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">All Notifications</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="divide-y">
+                    {history.map((entry) => (
+                      <li key={entry.id} className="flex items-start justify-between gap-3 py-3">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">{entry.title || 'Reminder'}</p>
+                          {entry.body && (
+                            <p className="text-xs text-muted-foreground whitespace-pre-line">{entry.body}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {formatDateTime(entry.sent_at)}
+                            {entry.escalation_level > 1 && ` · reminder ${entry.escalation_level}`}
+                          </p>
+                        </div>
+                        <Badge
+                          variant={entry.action_taken || entry.clicked_at ? 'ok' : 'secondary'}
+                          className="flex-shrink-0"
+                        >
+                          {getResponseLabel(entry)}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </Container>
+      </main>
+
+      {toastMessage && (
+        <CompletionToast message={toastMessage} onDismiss={() => setToastMessage(null)} />
+      )}
+    </div>
+  );
+}
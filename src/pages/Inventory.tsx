@@ -0,0 +1,396 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Header, Container, Navigation } from '@/components/layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Spinner } from '@/components/ui/spinner';
+import { EmptyState } from '@/components/ui/empty-state';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { PurchasesSection } from '@/components/PurchasesSection';
+import { ReorderList } from '@/components/ReorderList';
+import { SuppliersSection } from '@/components/SuppliersSection';
+import { useAppStore } from '@/lib/store';
+import { dbOperations } from '@/lib/db-operations';
+import { isLowStock, formatStockLevel, restockSupply } from '@/lib/inventory';
+import { getCategoryDisplayName } from '@/lib/component-templates';
+import type { Component, SupplyItem } from '@/lib/db';
+
+const navItems = [
+  { label: 'Home', href: '/' },
+  { label: 'Components', href: '/components' },
+  { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory', active: true },
+  { label: 'Settings', href: '/settings' },
+];
+
+const CATEGORIES: Component['category'][] = [
+  'mask_cushion',
+  'mask_frame',
+  'tubing',
+  'water_chamber',
+  'filter',
+  'other',
+];
+
+interface SupplyFormState {
+  category: Component['category'];
+  name: string;
+  quantity: string;
+  packSize: string;
+  lowStockThreshold: string;
+  notes: string;
+}
+
+const EMPTY_FORM: SupplyFormState = {
+  category: 'mask_cushion',
+  name: '',
+  quantity: '0',
+  packSize: '1',
+  lowStockThreshold: '1',
+  notes: '',
+};
+
+export function Inventory() {
+  const { isLoading, isInitialized, loadData, supplies, refreshSupplies } = useAppStore();
+
+  // Dialog state (editing is null when adding a new item)
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<SupplyItem | null>(null);
+  const [form, setForm] = useState<SupplyFormState>(EMPTY_FORM);
+  const [deleteTarget, setDeleteTarget] = useState<SupplyItem | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isInitialized) {
+      loadData();
+    }
+  }, [isInitialized, loadData]);
+
+  const openDialog = (supply: SupplyItem | null) => {
+    setEditing(supply);
+    setForm(
+      supply
+        ? {
+            category: supply.category,
+            name: supply.name,
+            quantity: String(supply.quantity),
+            packSize: String(supply.pack_size),
+            lowStockThreshold: String(supply.low_stock_threshold),
+            notes: supply.notes || '',
+          }
+        : EMPTY_FORM
+    );
+    setError(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const quantity = parseInt(form.quantity, 10);
+    const packSize = parseInt(form.packSize, 10);
+    const lowStockThreshold = parseInt(form.lowStockThreshold, 10);
+
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (isNaN(quantity) || quantity < 0 || isNaN(lowStockThreshold) || lowStockThreshold < 0) {
+      setError('Quantity and low-stock threshold must be 0 or more');
+      return;
+    }
+    if (isNaN(packSize) || packSize < 1) {
+      setError('Pack size must be at least 1');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const values = {
+        category: form.category,
+        name: form.name.trim(),
+        quantity,
+        pack_size: packSize,
+        low_stock_threshold: lowStockThreshold,
+        notes: form.notes.trim() || undefined,
+      };
+      if (editing) {
+        await dbOperations.supplies.update(editing.id!, values);
+      } else {
+        await dbOperations.supplies.create(values);
+      }
+      await refreshSupplies();
+      setIsDialogOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save supply');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdjust = async (supply: SupplyItem, delta: number) => {
+    await dbOperations.supplies.adjustQuantity(supply.id!, delta);
+    await refreshSupplies();
+  };
+
+  const handleRestock = async (supply: SupplyItem) => {
+    await restockSupply(supply.id!);
+    await refreshSupplies();
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+
+    setIsSaving(true);
+    try {
+      await dbOperations.supplies.delete(deleteTarget.id!);
+      await refreshSupplies();
+      setDeleteTarget(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Loading state
+  if (isLoading || !isInitialized) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header
+          title="Supplies"
+          description="Spare parts on hand"
+        />
+        <Navigation items={navItems} />
+        <main>
+          <Container>
+            <div className="flex items-center justify-center py-12">
+              <Spinner size="lg" />
+            </div>
+          </Container>
+        </main>
+      </div>
+    );
+  }
+
+  const categoriesInStock = CATEGORIES.filter((category) =>
+    supplies.some((supply) => supply.category === category)
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        title="Supplies"
+        description="Spare parts on hand"
+      />
+      <Navigation items={navItems} />
+
+      <main>
+        <Container>
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <p className="text-sm text-muted-foreground">
+              Replacing a component takes one spare of the same category out of stock.{' '}
+              <Link to="/eligibility" className="text-primary hover:underline">
+                Insurance eligibility
+              </Link>
+            </p>
+            <Button onClick={() => openDialog(null)} className="flex-shrink-0">
+              Add Supply
+            </Button>
+          </div>
+
+          {supplies.length === 0 ? (
+            <EmptyState
+              title="No supplies tracked"
+              description="Add the spare cushions, filters and tubing you keep on hand to get a reminder before you run out."
+            />
+          ) : (
+            <div className="space-y-6">
+              {categoriesInStock.map((category) => (
+                <Card key={category}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{getCategoryDisplayName(category)}</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {supplies
+                      .filter((supply) => supply.category === category)
+                      .map((supply) => (
+                        <div
+                          key={supply.id}
+                          className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg border p-3"
+                        >
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <p className="text-sm font-medium truncate">{supply.name}</p>
+                              {isLowStock(supply) && (
+                                <Badge variant={supply.quantity === 0 ? 'overdue' : 'due'}>
+                                  {supply.quantity === 0 ? 'Out of stock' : 'Low stock'}
+                                </Badge>
+                              )}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              {formatStockLevel(supply)}
+                              {supply.pack_size > 1 && ` · ${supply.pack_size} per pack`}
+                              {` · alert at ${supply.low_stock_threshold}`}
+                            </p>
+                          </div>
+                          <div className="flex gap-1 flex-shrink-0">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleAdjust(supply, -1)}
+                              disabled={supply.quantity === 0}
+                              aria-label={`Use one ${supply.name}`}
+                            >
+                              -1
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleRestock(supply)}>
+                              {supply.pack_size > 1 ? '+1 pack' : '+1'}
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => openDialog(supply)}>
+                              Edit
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setDeleteTarget(supply)}>
+                              Delete
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-6 space-y-6">
+            <ReorderList />
+            <SuppliersSection />
+            <PurchasesSection />
+          </div>
+        </Container>
+      </main>
+
+      {/* Add/edit dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent onClose={() => setIsDialogOpen(false)}>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Supply' : 'Add Supply'}</DialogTitle>
+            <DialogDescription>
+              Quantities are counted in single units; the pack size is used for restocking.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="supplyCategory">Category</Label>
+              <Select
+                id="supplyCategory"
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value as Component['category'] })}
+                disabled={isSaving}
+              >
+                {CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {getCategoryDisplayName(category)}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplyName">Name</Label>
+              <Input
+                id="supplyName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., AirFit F20 cushion (M)"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="supplyQuantity">On hand</Label>
+                <Input
+                  id="supplyQuantity"
+                  type="number"
+                  min="0"
+                  value={form.quantity}
+                  onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplyPackSize">Per pack</Label>
+                <Input
+                  id="supplyPackSize"
+                  type="number"
+                  min="1"
+                  value={form.packSize}
+                  onChange={(e) => setForm({ ...form, packSize: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplyThreshold">Alert at</Label>
+                <Input
+                  id="supplyThreshold"
+                  type="number"
+                  min="0"
+                  value={form.lowStockThreshold}
+                  onChange={(e) => setForm({ ...form, lowStockThreshold: e.target.value })}
+                  disabled={isSaving}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="supplyNotes">Notes (optional)</Label>
+              <Textarea
+                id="supplyNotes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+                disabled={isSaving}
+              />
+            </div>
+            {error && <p className="text-xs text-red-500">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation dialog */}
+      <Dialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent onClose={() => setDeleteTarget(null)}>
+          <DialogHeader>
+            <DialogTitle>Delete Supply</DialogTitle>
+            <DialogDescription>
+              Stop tracking "{deleteTarget?.name}"? Your maintenance history is not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving}>
+              {isSaving ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
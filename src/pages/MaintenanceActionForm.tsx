@@ -10,6 +10,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Spinner } from '@/components/ui/spinner';
 import { EmptyState } from '@/components/ui/empty-state';
 import { CompletionToast } from '@/components/CompletionToast';
+import { ScheduleTrigger } from '@/components/ScheduleTrigger';
 import {
   Dialog,
   DialogContent,
@@ -20,25 +21,58 @@ import {
 } from '@/components/ui/dialog';
 import { useAppStore, useComponentActions } from '@/lib/store';
 import { dbOperations } from '@/lib/db-operations';
-import { initializeMaintenanceAction } from '@/lib/scheduler';
-import type { MaintenanceAction } from '@/lib/db';
+import { initializeMaintenanceAction, isHybridSchedule } from '@/lib/scheduler';
+import { calculateInitialDueDate, formatQuietHours } from '@/lib/date-helpers';
+import {
+  WEEKDAYS,
+  WEEKDAY_NAMES,
+  describeRecurrence,
+  formatRecurrence,
+  getApproximateInterval,
+  isValidRecurrence,
+  parseRecurrence,
+  type RecurrenceRule,
+  type Weekday,
+} from '@/lib/recurrence';
+import type { MaintenanceAction, NotificationConfig } from '@/lib/db';
 
 const navItems = [
   { label: 'Home', href: '/' },
   { label: 'Components', href: '/components' },
   { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory' },
   { label: 'Settings', href: '/settings' },
 ];
 
-type ScheduleUnit = 'days' | 'uses';
+// 'hybrid' is stored as a day schedule with a use limit;
+// 'weeks' and 'months' as a day schedule with a recurrence rule
+type ScheduleUnit = 'days' | 'uses' | 'hybrid' | 'weeks' | 'months';
 type ReminderStrategy = 'gentle' | 'standard' | 'urgent';
 type EscalationStrategy = 'single_daily' | 'multiple_daily' | 'increasing_urgency';
+// 'default' follows the global quiet hours from Settings
+type QuietHoursMode = 'default' | 'none' | 'custom';
 
 const scheduleUnits: { value: ScheduleUnit; label: string }[] = [
   { value: 'days', label: 'Days' },
   { value: 'uses', label: 'Uses' },
+  { value: 'hybrid', label: 'Days or uses, whichever first' },
+  { value: 'weeks', label: 'Weeks, on chosen weekdays' },
+  { value: 'months', label: 'Months, on a day of the month' },
+];
+
+const monthDays: { value: string; label: string }[] = [
+  ...Array.from({ length: 28 }, (_, i) => ({ value: String(i + 1), label: String(i + 1) })),
+  { value: '-1', label: 'Last day' },
 ];
 
+const frequencyLabels: Record<ScheduleUnit, string> = {
+  days: 'Frequency',
+  uses: 'Frequency',
+  hybrid: 'Days',
+  weeks: 'Every how many weeks',
+  months: 'Every how many months',
+};
+
 const reminderStrategies: { value: ReminderStrategy; label: string; description: string }[] = [
   { value: 'gentle', label: 'Gentle', description: 'One quiet reminder per day' },
   { value: 'standard', label: 'Standard', description: 'Multiple reminders throughout the day' },
@@ -50,7 +84,7 @@ export function MaintenanceActionForm() {
   const navigate = useNavigate();
   const isEditing = Boolean(actionId);
 
-  const { isLoading, isInitialized, loadData, components, refreshMaintenanceActions, refreshNotificationConfigs, notificationConfigs } = useAppStore();
+  const { isLoading, isInitialized, loadData, components, refreshMaintenanceActions, refreshNotificationConfigs, notificationConfigs, preferences } = useAppStore();
   const componentActions = useComponentActions(componentId || '');
 
   // Form state
@@ -58,11 +92,17 @@ export function MaintenanceActionForm() {
   const [description, setDescription] = useState('');
   const [scheduleFrequency, setScheduleFrequency] = useState('7');
   const [scheduleUnit, setScheduleUnit] = useState<ScheduleUnit>('days');
+  const [useLimit, setUseLimit] = useState('30');
+  const [weekdays, setWeekdays] = useState<Weekday[]>(() => [WEEKDAYS[(new Date().getDay() + 6) % 7]]);
+  const [monthDay, setMonthDay] = useState('1');
   const [notificationTime, setNotificationTime] = useState('09:00');
   const [reminderStrategy, setReminderStrategy] = useState<ReminderStrategy>('standard');
   const [instructions, setInstructions] = useState('');
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [escalationStrategy, setEscalationStrategy] = useState<EscalationStrategy>('multiple_daily');
+  const [quietHoursMode, setQuietHoursMode] = useState<QuietHoursMode>('default');
+  const [quietHoursStart, setQuietHoursStart] = useState('22:00');
+  const [quietHoursEnd, setQuietHoursEnd] = useState('07:00');
 
   // UI state
   const [isSaving, setIsSaving] = useState(false);
@@ -70,9 +110,10 @@ export function MaintenanceActionForm() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
-  const [errors, setErrors] = useState<{ actionType?: string; frequency?: string }>({});
+  const [errors, setErrors] = useState<{ actionType?: string; frequency?: string; useLimit?: string; weekdays?: string }>({});
 
   const component = components.find(c => c.id === componentId);
+  const existingAction = componentActions.find(a => a.id === actionId);
 
   useEffect(() => {
     if (!isInitialized) {
@@ -88,7 +129,15 @@ export function MaintenanceActionForm() {
         setActionType(action.action_type);
         setDescription(action.description);
         setScheduleFrequency(action.schedule_frequency.toString());
-        setScheduleUnit(action.schedule_unit);
+        setScheduleUnit(isHybridSchedule(action) ? 'hybrid' : action.schedule_unit);
+        if (action.recurrence && isValidRecurrence(action.recurrence)) {
+          const rule = parseRecurrence(action.recurrence);
+          setScheduleUnit(rule.freq === 'WEEKLY' ? 'weeks' : 'months');
+          setScheduleFrequency(rule.interval.toString());
+          if (rule.byDay?.length) setWeekdays(rule.byDay);
+          if (rule.byMonthDay !== undefined) setMonthDay(rule.byMonthDay.toString());
+        }
+        setUseLimit(action.use_limit?.toString() || '30');
         setNotificationTime(action.notification_time || '09:00');
         setReminderStrategy(action.reminder_strategy);
         setInstructions(action.instructions || '');
@@ -98,13 +147,18 @@ export function MaintenanceActionForm() {
         if (config) {
           setNotificationsEnabled(config.enabled);
           setEscalationStrategy(config.escalation_strategy);
+          setQuietHoursMode(config.quiet_hours === undefined ? 'default' : config.quiet_hours ? 'custom' : 'none');
+          if (config.quiet_hours) {
+            setQuietHoursStart(config.quiet_hours.start);
+            setQuietHoursEnd(config.quiet_hours.end);
+          }
         }
       }
     }
   }, [isEditing, isInitialized, componentActions, actionId, notificationConfigs]);
 
   const validateForm = (): boolean => {
-    const newErrors: { actionType?: string; frequency?: string } = {};
+    const newErrors: { actionType?: string; frequency?: string; useLimit?: string; weekdays?: string } = {};
 
     if (!actionType.trim()) {
       newErrors.actionType = 'Action type is required';
@@ -115,6 +169,15 @@ export function MaintenanceActionForm() {
       newErrors.frequency = 'Frequency must be a positive number';
     }
 
+    const limit = parseInt(useLimit, 10);
+    if (scheduleUnit === 'hybrid' && (isNaN(limit) || limit <= 0)) {
+      newErrors.useLimit = 'Use limit must be a positive number';
+    }
+
+    if (scheduleUnit === 'weeks' && weekdays.length === 0) {
+      newErrors.weekdays = 'Choose at least one day of the week';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -129,20 +192,41 @@ export function MaintenanceActionForm() {
     setIsSaving(true);
 
     try {
+      const rule = getRecurrenceRule();
+      const recurrence = rule ? formatRecurrence(rule) : undefined;
       const actionData: Omit<MaintenanceAction, 'id'> = {
         component_id: componentId,
         action_type: actionType.trim(),
         description: description.trim(),
-        schedule_frequency: parseInt(scheduleFrequency, 10),
-        schedule_unit: scheduleUnit,
+        // Recurring actions keep an approximate day count for places that need one
+        schedule_frequency: rule ? getApproximateInterval(rule) : parseInt(scheduleFrequency, 10),
+        schedule_unit: scheduleUnit === 'uses' ? 'uses' : 'days',
+        use_limit: scheduleUnit === 'hybrid' ? parseInt(useLimit, 10) : undefined,
+        recurrence,
         notification_time: notificationTime,
         reminder_strategy: reminderStrategy,
         instructions: instructions.trim() || undefined,
       };
 
+      const quietHours: NotificationConfig['quiet_hours'] =
+        quietHoursMode === 'default' ? undefined :
+        quietHoursMode === 'none' ? null :
+        { start: quietHoursStart, end: quietHoursEnd };
+
       if (isEditing && actionId) {
         // Update existing action
-        await dbOperations.maintenanceActions.update(actionId, actionData);
+        // Leaving hybrid drops the separate day limit and goes back to it as the due date
+        await dbOperations.maintenanceActions.update(actionId, {
+          ...actionData,
+          ...(scheduleUnit !== 'hybrid' && existingAction?.calendar_due && {
+            next_due: existingAction.calendar_due,
+            calendar_due: undefined,
+          }),
+          // A new pattern starts on its first matching day
+          ...(recurrence && recurrence !== existingAction?.recurrence && {
+            next_due: calculateInitialDueDate(actionData.schedule_frequency, 'days', notificationTime, recurrence),
+          }),
+        });
 
         // Update notification config
         const existingConfig = notificationConfigs.find(c => c.action_id === actionId);
@@ -151,6 +235,7 @@ export function MaintenanceActionForm() {
             enabled: notificationsEnabled,
             time: notificationTime,
             escalation_strategy: escalationStrategy,
+            quiet_hours: quietHours,
           });
         }
 
@@ -175,6 +260,7 @@ export function MaintenanceActionForm() {
           time: notificationTime,
           escalation_strategy: escalationStrategy,
           escalation_intervals: escalationIntervals,
+          quiet_hours: quietHours,
         });
 
         // Initialize the action with first due date
@@ -194,6 +280,25 @@ export function MaintenanceActionForm() {
     }
   };
 
+  const getRecurrenceRule = (): RecurrenceRule | undefined => {
+    const interval = parseInt(scheduleFrequency, 10);
+    if (scheduleUnit === 'weeks') {
+      return { freq: 'WEEKLY', interval, byDay: weekdays };
+    }
+    if (scheduleUnit === 'months') {
+      return { freq: 'MONTHLY', interval, byMonthDay: parseInt(monthDay, 10) };
+    }
+    return undefined;
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    setWeekdays((current) =>
+      current.includes(day)
+        ? current.filter((d) => d !== day)
+        : WEEKDAYS.filter((d) => d === day || current.includes(d))
+    );
+  };
+
   const handleDelete = async () => {
     if (!actionId) return;
     setIsDeleting(true);
@@ -297,7 +402,7 @@ export function MaintenanceActionForm() {
                 {/* Schedule */}
                 <div className="grid gap-4 sm:grid-cols-2">
                   <div className="space-y-2">
-                    <Label htmlFor="frequency">Frequency</Label>
+                    <Label htmlFor="frequency">{frequencyLabels[scheduleUnit]}</Label>
                     <Input
                       id="frequency"
                       type="number"
@@ -327,7 +432,78 @@ export function MaintenanceActionForm() {
                       ))}
                     </Select>
                   </div>
+                  {scheduleUnit === 'hybrid' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="useLimit">Nights of use</Label>
+                      <Input
+                        id="useLimit"
+                        type="number"
+                        min="1"
+                        value={useLimit}
+                        onChange={(e) => setUseLimit(e.target.value)}
+                        placeholder="30"
+                        disabled={isSaving}
+                        className={errors.useLimit ? 'border-red-500' : ''}
+                      />
+                      {errors.useLimit && (
+                        <p className="text-xs text-red-500">{errors.useLimit}</p>
+                      )}
+                    </div>
+                  )}
+                  {scheduleUnit === 'months' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="monthDay">Day of the month</Label>
+                      <Select
+                        id="monthDay"
+                        value={monthDay}
+                        onChange={(e) => setMonthDay(e.target.value)}
+                        disabled={isSaving}
+                      >
+                        {monthDays.map(day => (
+                          <option key={day.value} value={day.value}>
+                            {day.label}
+                          </option>
+                        ))}
+                      </Select>
+                    </div>
+                  )}
                 </div>
+                {scheduleUnit === 'weeks' && (
+                  <div className="space-y-2 -mt-2">
+                    <Label>On</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {WEEKDAYS.map(day => (
+                        <Button
+                          key={day}
+                          type="button"
+                          size="sm"
+                          variant={weekdays.includes(day) ? 'default' : 'outline'}
+                          onClick={() => toggleWeekday(day)}
+                          disabled={isSaving}
+                          aria-pressed={weekdays.includes(day)}
+                        >
+                          {WEEKDAY_NAMES[day].slice(0, 3)}
+                        </Button>
+                      ))}
+                    </div>
+                    {errors.weekdays && (
+                      <p className="text-xs text-red-500">{errors.weekdays}</p>
+                    )}
+                  </div>
+                )}
+                {(scheduleUnit === 'weeks' || scheduleUnit === 'months') && parseInt(scheduleFrequency, 10) > 0 && (
+                  <p className="text-xs text-muted-foreground -mt-4">
+                    {describeRecurrence(getRecurrenceRule()!)}
+                  </p>
+                )}
+                {(scheduleUnit === 'uses' || scheduleUnit === 'hybrid') && component.tracking_mode === 'calendar' && (
+                  <p className="text-xs text-muted-foreground -mt-4">
+                    Nights of use are only counted for components with usage-based or hybrid tracking.
+                  </p>
+                )}
+                {isEditing && existingAction && (
+                  <ScheduleTrigger action={existingAction} className="-mt-4" />
+                )}
 
                 {/* Notification Time */}
                 <div className="space-y-2">
@@ -390,6 +566,50 @@ export function MaintenanceActionForm() {
                   </Label>
                 </div>
 
+                {/* Quiet hours */}
+                {notificationsEnabled && (
+                  <div className="space-y-2">
+                    <Label htmlFor="quietHoursMode">Quiet Hours</Label>
+                    <Select
+                      id="quietHoursMode"
+                      value={quietHoursMode}
+                      onChange={(e) => setQuietHoursMode(e.target.value as QuietHoursMode)}
+                      disabled={isSaving}
+                    >
+                      <option value="default">
+                        {preferences.quiet_hours_enabled
+                          ? `Same as Settings (${formatQuietHours(preferences.quiet_hours)})`
+                          : 'Same as Settings (off)'}
+                      </option>
+                      <option value="none">None, remind at any time</option>
+                      <option value="custom">Custom for this action</option>
+                    </Select>
+                    {quietHoursMode === 'custom' && (
+                      <div className="grid gap-4 grid-cols-2">
+                        <Input
+                          id="quietHoursStart"
+                          type="time"
+                          aria-label="Quiet hours start"
+                          value={quietHoursStart}
+                          onChange={(e) => setQuietHoursStart(e.target.value)}
+                          disabled={isSaving}
+                        />
+                        <Input
+                          id="quietHoursEnd"
+                          type="time"
+                          aria-label="Quiet hours end"
+                          value={quietHoursEnd}
+                          onChange={(e) => setQuietHoursEnd(e.target.value)}
+                          disabled={isSaving}
+                        />
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Reminders that fall in quiet hours are sent when they end.
+                    </p>
+                  </div>
+                )}
+
                 {/* Instructions */}
                 <div className="space-y-2">
                   <Label htmlFor="instructions">Instructions (optional)</Label>
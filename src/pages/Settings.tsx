@@ -1,26 +1,45 @@
 import { useEffect, useState, memo } from 'react';
+import { Link } from 'react-router-dom';
 import { Header, Container, Navigation } from '@/components/layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Spinner } from '@/components/ui/spinner';
+import { Select } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { InstallPrompt } from '@/components/InstallPrompt';
 import { ExportSection } from '@/components/ExportSection';
 import { ImportSection } from '@/components/ImportSection';
+import { MachineDataSection } from '@/components/MachineDataSection';
+import { QuietHoursSection } from '@/components/QuietHoursSection';
+import { PushServerSection } from '@/components/PushServerSection';
+import { EquipmentSection } from '@/components/EquipmentSection';
+import { ProfilesSection } from '@/components/ProfilesSection';
 import { useAppStore } from '@/lib/store';
+import { dbOperations } from '@/lib/db-operations';
+import type { UserPreferences } from '@/lib/db';
 import {
   isNotificationSupported,
   getNotificationPermission,
   areNotificationsAllowed,
   requestNotificationPermission,
   showNotification,
+  getActiveServiceWorkerRegistration,
 } from '@/lib/notifications';
+import {
+  getBackgroundCheckCapabilities,
+  getBackgroundCheckMode,
+  type BackgroundCheckCapabilities,
+  type BackgroundCheckMode,
+} from '@/lib/background-checks';
 import { startNotificationScheduler, stopNotificationScheduler, getNotificationScheduler } from '@/lib/notification-scheduler';
 
 const navItems = [
   { label: 'Home', href: '/' },
   { label: 'Components', href: '/components' },
   { label: 'History', href: '/history' },
+  { label: 'Supplies', href: '/inventory' },
   { label: 'Settings', href: '/settings', active: true },
 ];
 
@@ -176,14 +195,42 @@ function NotificationPermissionStatus() {
   );
 }
 
+// How reminders reach the user while the app is closed, for each background check mode
+const BACKGROUND_CHECK_MODES: Record<BackgroundCheckMode, { label: string; variant: 'ok' | 'overdue'; description: string }> = {
+  'periodic-sync': {
+    label: 'Checks in background',
+    variant: 'ok',
+    description: 'Your browser wakes the app to check for due tasks even when it is closed. The browser decides how often, usually a few times a day.',
+  },
+  'notification-triggers': {
+    label: 'Scheduled ahead',
+    variant: 'ok',
+    description: "Each task's next reminder is handed to your device ahead of time, so it arrives even when the app is closed.",
+  },
+  'open-app': {
+    label: 'Only while open',
+    variant: 'overdue',
+    description: "This browser can't check for due tasks in the background. Reminders only arrive while the app is open in a tab.",
+  },
+};
+
 // Notification scheduler status component
 function NotificationSchedulerStatus() {
   const [isSchedulerActive, setIsSchedulerActive] = useState(false);
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundCheckMode | null>(null);
+  const [capabilities, setCapabilities] = useState<BackgroundCheckCapabilities | null>(null);
 
   useEffect(() => {
     // Check if scheduler is running
     const scheduler = getNotificationScheduler();
     setIsSchedulerActive(scheduler.isActive());
+
+    getActiveServiceWorkerRegistration()
+      .then((registration) => Promise.all([getBackgroundCheckMode(registration), getBackgroundCheckCapabilities()]))
+      .then(([mode, browserCapabilities]) => {
+        setBackgroundMode(mode);
+        setCapabilities(browserCapabilities);
+      });
   }, []);
 
   const handleToggleScheduler = () => {
@@ -200,6 +247,8 @@ function NotificationSchedulerStatus() {
     return null;
   }
 
+  const mode = backgroundMode && BACKGROUND_CHECK_MODES[backgroundMode];
+
   return (
     <Card>
       <CardHeader>
@@ -211,7 +260,7 @@ function NotificationSchedulerStatus() {
       <CardContent className="space-y-4">
         <div className="flex items-center justify-between">
           <div>
-            <p className="text-sm font-medium">Automatic Notifications</p>
+            <p className="text-sm font-medium">While the App Is Open</p>
             <p className="text-xs text-muted-foreground">
               Check for due items every 15 minutes
             </p>
@@ -224,9 +273,124 @@ function NotificationSchedulerStatus() {
             {isSchedulerActive ? 'Active' : 'Inactive'}
           </Button>
         </div>
+
+        <div className="space-y-2 pt-2 border-t">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">While the App Is Closed</p>
+            {mode ? <Badge variant={mode.variant}>{mode.label}</Badge> : <Spinner size="sm" />}
+          </div>
+          {mode && <p className="text-xs text-muted-foreground">{mode.description}</p>}
+          {backgroundMode !== 'periodic-sync' &&
+            capabilities?.periodicSync &&
+            capabilities.periodicSyncPermission !== 'granted' && (
+            <p className="text-xs text-muted-foreground">
+              Install the app to your home screen to let your browser check in the background.
+            </p>
+          )}
+          {capabilities && (
+            <ul className="text-xs text-muted-foreground space-y-1">
+              <li>Service worker: {capabilities.serviceWorker ? 'available' : 'not available'}</li>
+              <li>
+                Periodic Background Sync:{' '}
+                {capabilities.periodicSync
+                  ? capabilities.periodicSyncPermission === 'granted' ? 'allowed' : 'not allowed yet'
+                  : 'not supported'}
+              </li>
+              <li>Scheduled notifications: {capabilities.notificationTriggers ? 'supported' : 'not supported'}</li>
+            </ul>
+          )}
+        </div>
+
+        <Link to="/inbox" className="block text-sm text-primary hover:underline">
+          View notification history
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Daily digest preferences component
+function DigestSettings() {
+  const digestEnabled = useAppStore((state) => state.preferences.digest_enabled);
+  const digestTime = useAppStore((state) => state.preferences.digest_time);
+  const refreshPreferences = useAppStore((state) => state.refreshPreferences);
+
+  const handleChange = async (updates: Partial<Pick<UserPreferences, 'digest_enabled' | 'digest_time'>>) => {
+    await dbOperations.preferences.update(updates);
+    await refreshPreferences();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Daily Digest</CardTitle>
+        <CardDescription>
+          One notification a day instead of one per task
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="digestEnabled"
+            checked={digestEnabled}
+            onChange={(e) => handleChange({ digest_enabled: e.target.checked })}
+            className="h-4 w-4 rounded border-input"
+          />
+          <Label htmlFor="digestEnabled" className="cursor-pointer">
+            Send a daily digest of everything due
+          </Label>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="digestTime">Digest time</Label>
+          <Input
+            id="digestTime"
+            type="time"
+            value={digestTime}
+            onChange={(e) => e.target.value && handleChange({ digest_time: e.target.value })}
+            disabled={!digestEnabled}
+            className="w-32"
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The digest lists today's tasks by component and opens a checklist to tick them off.
+          Actions with the urgent reminder strategy still notify on their own.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Compliance preferences component
+function ComplianceSettings() {
+  const skipCompliance = useAppStore((state) => state.preferences.skip_compliance);
+  const refreshPreferences = useAppStore((state) => state.refreshPreferences);
+
+  const handleSkipComplianceChange = async (value: UserPreferences['skip_compliance']) => {
+    await dbOperations.preferences.update({ skip_compliance: value });
+    await refreshPreferences();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Compliance</CardTitle>
+        <CardDescription>
+          Choose how tasks you skip on purpose affect your stats
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Label htmlFor="skipCompliance">Skipped tasks</Label>
+        <Select
+          id="skipCompliance"
+          value={skipCompliance}
+          onChange={(e) => handleSkipComplianceChange(e.target.value as UserPreferences['skip_compliance'])}
+        >
+          <option value="missed">Count as missed</option>
+          <option value="excused">Excuse (don't count against compliance or streaks)</option>
+        </Select>
         <p className="text-xs text-muted-foreground">
-          Note: Background notifications work best when the app is open. For reliable reminders,
-          keep the app open in a browser tab or install it as a PWA.
+          Snoozed tasks are always shown in your history but never count as completed.
         </p>
       </CardContent>
     </Card>
@@ -357,10 +521,17 @@ export function Settings() {
         <Container>
           <div className="space-y-6">
             <InstallPrompt />
+            <ProfilesSection />
+            <EquipmentSection />
             <ExportSection />
             <ImportSection onImportComplete={handleImportComplete} />
+            <MachineDataSection />
             <NotificationPermissionStatus />
             <NotificationSchedulerStatus />
+            <PushServerSection />
+            <QuietHoursSection />
+            <DigestSettings />
+            <ComplianceSettings />
             <ReminderStrategiesInfo />
             <AboutSection />
           </div>
@@ -0,0 +1,204 @@
+/// <reference lib="webworker" />
+
+/**
+ * Service Worker
+ *
+ * Precaches the app shell for offline use, caches Google Fonts, checks for due
+ * items while the app is closed (Periodic Background Sync or pushes from an
+ * optional push server), and handles notification clicks. The Done / Snooze /
+ * Skip buttons are carried out here without opening the app; tapping the
+ * notification itself opens (or focuses) the app.
+ */
+
+import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { CacheFirst } from 'workbox-strategies';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import {
+  isNotificationActionType,
+  runNotificationAction,
+  type NotificationActionType,
+  type ServiceWorkerMessage,
+} from './lib/notification-actions';
+import { recordNotificationActed, recordNotificationClicked } from './lib/notifications';
+import { checkAndNotify, updateBadgeCount } from './lib/notification-scheduler';
+import { DUE_CHECK_SYNC_TAG, refreshScheduledReminders } from './lib/background-checks';
+import { syncPushSchedule } from './lib/push-server';
+
+declare let self: ServiceWorkerGlobalScope;
+
+// ============================================================================
+// Caching
+// ============================================================================
+
+// Cache-first strategy for app shell assets
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Clean up old workbox caches
+cleanupOutdatedCaches();
+
+// Serve the app shell for navigations while offline
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html'), { denylist: [/^\/api/] }));
+
+// Cache Google Fonts stylesheets and webfont files
+for (const [origin, cacheName] of [
+  [/^https:\/\/fonts\.googleapis\.com\/.*/i, 'google-fonts-cache'],
+  [/^https:\/\/fonts\.gstatic\.com\/.*/i, 'gstatic-fonts-cache'],
+] as const) {
+  registerRoute(
+    ({ url }) => origin.test(url.href),
+    new CacheFirst({
+      cacheName,
+      plugins: [
+        new ExpirationPlugin({
+          maxEntries: 10,
+          maxAgeSeconds: 60 * 60 * 24 * 365, // 1 year
+        }),
+        new CacheableResponsePlugin({ statuses: [0, 200] }),
+      ],
+    })
+  );
+}
+
+// The update prompt asks a waiting worker to take over
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// ============================================================================
+// Notification Clicks
+// ============================================================================
+
+async function postToClients(message: ServiceWorkerMessage): Promise<void> {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const client of clients) {
+    client.postMessage(message);
+  }
+}
+
+/**
+ * Carry out a notification button, then update the badge and any open pages
+ */
+async function handleNotificationAction(
+  notification: Notification,
+  action: NotificationActionType,
+  actionId: string,
+  profileId?: string
+): Promise<void> {
+  try {
+    await runNotificationAction(action, actionId, profileId);
+  } catch (error) {
+    console.error('Error handling notification action:', error);
+    return;
+  }
+
+  if (notification.tag) {
+    await recordNotificationActed(notification.tag, action);
+  }
+
+  await postToClients({ type: 'notification-action', action, actionId, profileId });
+  await updateBadgeCount();
+  await refreshScheduledReminders(self.registration);
+  await syncPushSchedule(self.registration);
+}
+
+/**
+ * Focus an open page and let it handle the click, or open the app at the URL
+ */
+async function openApp(url: string, message: ServiceWorkerMessage): Promise<void> {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const client = clients[0];
+
+  if (client) {
+    await client.focus();
+    client.postMessage(message);
+    return;
+  }
+
+  await self.clients.openWindow(url);
+}
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  const data: Record<string, unknown> = notification.data || {};
+  notification.close();
+
+  if (typeof data.actionId === 'string' && isNotificationActionType(event.action)) {
+    event.waitUntil(
+      handleNotificationAction(notification, event.action, data.actionId, data.profileId as string | undefined)
+    );
+    return;
+  }
+
+  event.waitUntil(Promise.all([
+    notification.tag && recordNotificationClicked(notification.tag),
+    openApp((data.url as string) || '/', { type: 'notification-click', data }),
+  ]));
+});
+
+// ============================================================================
+// Background Due Checks
+// ============================================================================
+
+// Periodic Background Sync isn't in the worker typings yet
+interface PeriodicSyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+self.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as PeriodicSyncEvent;
+  if (syncEvent.tag === DUE_CHECK_SYNC_TAG) {
+    syncEvent.waitUntil(checkAndNotify());
+  }
+});
+
+// ============================================================================
+// Push
+// ============================================================================
+
+/**
+ * Show the reminder label the push server sent
+ * Quiet when the due check had nothing new to show, since the reminder is
+ * already on screen or no longer needs attention.
+ */
+async function showPushLabel(data: PushMessageData | null, silent: boolean): Promise<void> {
+  const { label } = (data?.json() ?? {}) as { label?: string };
+  await self.registration.showNotification(label ? `Reminder: ${label}` : 'Maintenance reminder', {
+    body: 'Open the app to see what is due',
+    icon: '/pwa-192x192.png',
+    badge: '/pwa-192x192.png',
+    tag: 'push-reminder',
+    silent,
+  });
+}
+
+/**
+ * A push from the push server is a wake-up: the due check builds the
+ * notifications from local data, so they have buttons and aren't repeated.
+ * The subscription is user-visible, so every push must show something: the
+ * pushed label stands in when the check shows nothing or fails.
+ */
+async function handlePush(data: PushMessageData | null): Promise<void> {
+  let shown: number;
+  try {
+    shown = await checkAndNotify();
+  } catch (error) {
+    console.error('Error checking due items for push:', error);
+    await showPushLabel(data, false);
+    return;
+  }
+
+  if (shown === 0) {
+    await showPushLabel(data, true);
+  }
+
+  // Keep the server's schedule rolling forward
+  await syncPushSchedule(self.registration);
+}
+
+self.addEventListener('push', (event) => {
+  event.waitUntil(handlePush(event.data));
+});
@@ -0,0 +1,89 @@
+/**
+ * EDF fixture builder for tests
+ *
+ * Writes small EDF files in the layout ResMed machines use, so the SD card
+ * reader can be tested without real card data.
+ */
+
+export interface FixtureSignal {
+  label: string;
+  unit?: string;
+  physicalMin: number;
+  physicalMax: number;
+  digitalMin?: number;
+  digitalMax?: number;
+  records: number[][]; // Physical values per data record
+}
+
+export interface FixtureFile {
+  start: Date; // Local time of the first record
+  recordDuration: number; // Seconds
+  signals: FixtureSignal[];
+}
+
+function ascii(text: string, width: number): string {
+  return text.padEnd(width, ' ').slice(0, width);
+}
+
+function two(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/**
+ * Build the bytes of an EDF file
+ */
+export function buildEDF({ start, recordDuration, signals }: FixtureFile): ArrayBuffer {
+  const recordCount = signals[0]?.records.length ?? 0;
+  const headerBytes = 256 + signals.length * 256;
+
+  let header =
+    ascii('0', 8) +
+    ascii('X X X X', 80) +
+    ascii('Startdate X X X X', 80) +
+    ascii(`${two(start.getDate())}.${two(start.getMonth() + 1)}.${two(start.getFullYear() % 100)}`, 8) +
+    ascii(`${two(start.getHours())}.${two(start.getMinutes())}.${two(start.getSeconds())}`, 8) +
+    ascii(String(headerBytes), 8) +
+    ascii('', 44) +
+    ascii(String(recordCount), 8) +
+    ascii(String(recordDuration), 8) +
+    ascii(String(signals.length), 4);
+
+  const digital = signals.map((s) => ({ min: s.digitalMin ?? -32768, max: s.digitalMax ?? 32767 }));
+  const fields: ((s: FixtureSignal, i: number) => [string, number])[] = [
+    (s) => [s.label, 16],
+    () => ['', 80],
+    (s) => [s.unit ?? '', 8],
+    (s) => [String(s.physicalMin), 8],
+    (s) => [String(s.physicalMax), 8],
+    (_, i) => [String(digital[i].min), 8],
+    (_, i) => [String(digital[i].max), 8],
+    () => ['', 80],
+    (s) => [String(s.records[0]?.length ?? 0), 8],
+    () => ['', 32],
+  ];
+  for (const field of fields) {
+    header += signals.map((s, i) => ascii(...field(s, i))).join('');
+  }
+
+  const samplesPerRecord = signals.reduce((sum, s) => sum + (s.records[0]?.length ?? 0), 0);
+  const buffer = new ArrayBuffer(headerBytes + recordCount * samplesPerRecord * 2);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < header.length; i++) {
+    bytes[i] = header.charCodeAt(i);
+  }
+
+  const view = new DataView(buffer);
+  let position = headerBytes;
+  for (let record = 0; record < recordCount; record++) {
+    signals.forEach((signal, index) => {
+      const scale = (digital[index].max - digital[index].min) / (signal.physicalMax - signal.physicalMin);
+      for (const value of signal.records[record]) {
+        const sample = Math.round((value - signal.physicalMin) * scale + digital[index].min);
+        view.setInt16(position, sample, true);
+        position += 2;
+      }
+    });
+  }
+
+  return buffer;
+}
@@ -1 +1,3 @@
 import '@testing-library/jest-dom';
+// In-memory IndexedDB so Dexie databases (and their migrations) can run under vitest
+import 'fake-indexeddb/auto';